@@ -0,0 +1,286 @@
+import { useEffect, useState } from "react";
+import { Plus, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  BoardFilterCondition,
+  BoardFilterExpression,
+  BoardFilterField,
+  BoardFilterOperator,
+} from "@/types/job";
+import {
+  BOARD_FILTER_FIELDS,
+  BOARD_FILTER_OPERATOR_LABELS,
+  createFilterCondition,
+  EMPTY_FILTER_EXPRESSION,
+} from "@/lib/boardFilters";
+
+interface AdvancedFilterDialogProps {
+  expression: BoardFilterExpression;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onApply: (expression: BoardFilterExpression) => void;
+}
+
+export function AdvancedFilterDialog({
+  expression,
+  open,
+  onOpenChange,
+  onApply,
+}: AdvancedFilterDialogProps) {
+  const [draft, setDraft] = useState<BoardFilterExpression>(expression);
+
+  useEffect(() => {
+    if (open) setDraft(expression);
+  }, [open, expression]);
+
+  const updateCondition = (
+    id: string,
+    updates: Partial<BoardFilterCondition>
+  ) => {
+    setDraft((prev) => ({
+      ...prev,
+      conditions: prev.conditions.map((c) =>
+        c.id === id ? { ...c, ...updates } : c
+      ),
+    }));
+  };
+
+  const changeField = (id: string, field: BoardFilterField) => {
+    // 필드가 바뀌면 연산자/값 형식도 달라지므로 새 조건으로 교체
+    const next = createFilterCondition(field);
+    updateCondition(id, { field, operator: next.operator, value: next.value });
+  };
+
+  const renderValueInput = (condition: BoardFilterCondition) => {
+    const definition = BOARD_FILTER_FIELDS[condition.field];
+
+    if (definition.kind === "enum") {
+      const selected = condition.value as string[];
+      return (
+        <div className="flex flex-wrap gap-1">
+          {definition.options!.map((option) => (
+            <Badge
+              key={option.value}
+              variant={selected.includes(option.value) ? "default" : "outline"}
+              className="text-xs cursor-pointer"
+              onClick={() =>
+                updateCondition(condition.id, {
+                  value: selected.includes(option.value)
+                    ? selected.filter((v) => v !== option.value)
+                    : [...selected, option.value],
+                })
+              }
+            >
+              {option.label}
+            </Badge>
+          ))}
+        </div>
+      );
+    }
+
+    if (definition.kind === "text") {
+      return (
+        <Input
+          value={condition.value as string}
+          placeholder="회사명, 공고명, 요약, 메모 등"
+          className="h-8 text-xs"
+          onChange={(e) =>
+            updateCondition(condition.id, { value: e.target.value })
+          }
+        />
+      );
+    }
+
+    return (
+      <div className="flex items-center gap-2">
+        <Input
+          type="number"
+          value={String(condition.value)}
+          min={definition.min}
+          max={definition.max}
+          step={definition.step ?? 1}
+          className="h-8 w-24 text-xs"
+          onChange={(e) =>
+            updateCondition(condition.id, {
+              value: e.target.value === "" ? NaN : Number(e.target.value),
+            })
+          }
+        />
+        {definition.kind === "days" && (
+          <span className="text-xs text-muted-foreground">일</span>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-[90%] rounded-2xl sm:max-w-xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>고급 필터</DialogTitle>
+          <DialogDescription>
+            여러 조건을 모두(AND) 또는 하나라도(OR) 만족하는 공고만 보여줍니다.
+            칸반과 테이블 보기에 함께 적용됩니다.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 pt-2">
+          <div className="flex items-center gap-2">
+            <span className="text-sm">다음 조건을</span>
+            <div className="flex bg-secondary rounded-lg p-0.5">
+              {(["and", "or"] as const).map((combinator) => (
+                <Button
+                  key={combinator}
+                  variant="ghost"
+                  size="sm"
+                  className={cn(
+                    "h-7 px-2.5 rounded-md text-xs",
+                    draft.combinator === combinator && "bg-card shadow-sm"
+                  )}
+                  onClick={() => setDraft((prev) => ({ ...prev, combinator }))}
+                >
+                  {combinator === "and" ? "모두 만족" : "하나라도 만족"}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          {draft.conditions.length === 0 ? (
+            <p className="text-xs text-muted-foreground">
+              조건을 추가해보세요. 예: 적합도 3.5 이상, 지원 상태에서 불합격 제외
+            </p>
+          ) : (
+            <ul className="space-y-2">
+              {draft.conditions.map((condition, index) => {
+                const definition = BOARD_FILTER_FIELDS[condition.field];
+                return (
+                  <li
+                    key={condition.id}
+                    className="rounded-lg bg-secondary/30 p-3 space-y-2"
+                  >
+                    <div className="flex items-center gap-2">
+                      {index > 0 && (
+                        <span className="text-[10px] font-semibold text-primary w-8 shrink-0">
+                          {draft.combinator === "and" ? "AND" : "OR"}
+                        </span>
+                      )}
+                      <Select
+                        value={condition.field}
+                        onValueChange={(v) =>
+                          changeField(condition.id, v as BoardFilterField)
+                        }
+                      >
+                        <SelectTrigger className="h-8 text-xs flex-1">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(BOARD_FILTER_FIELDS).map(
+                            ([key, field]) => (
+                              <SelectItem key={key} value={key} className="text-xs">
+                                {field.label}
+                              </SelectItem>
+                            )
+                          )}
+                        </SelectContent>
+                      </Select>
+                      <Select
+                        value={condition.operator}
+                        onValueChange={(v) =>
+                          updateCondition(condition.id, {
+                            operator: v as BoardFilterOperator,
+                          })
+                        }
+                      >
+                        <SelectTrigger className="h-8 text-xs flex-1">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {definition.operators.map((operator) => (
+                            <SelectItem
+                              key={operator}
+                              value={operator}
+                              className="text-xs"
+                            >
+                              {BOARD_FILTER_OPERATOR_LABELS[operator]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="w-8 h-8 shrink-0"
+                        onClick={() =>
+                          setDraft((prev) => ({
+                            ...prev,
+                            conditions: prev.conditions.filter(
+                              (c) => c.id !== condition.id
+                            ),
+                          }))
+                        }
+                      >
+                        <X className="w-3.5 h-3.5" />
+                      </Button>
+                    </div>
+                    {renderValueInput(condition)}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          <Button
+            variant="outline"
+            size="sm"
+            className="gap-1"
+            onClick={() =>
+              setDraft((prev) => ({
+                ...prev,
+                conditions: [...prev.conditions, createFilterCondition("fitScore")],
+              }))
+            }
+          >
+            <Plus className="w-3.5 h-3.5" />
+            조건 추가
+          </Button>
+
+          <div className="flex gap-2 pt-2">
+            <Button
+              variant="outline"
+              className="flex-1"
+              onClick={() => setDraft(EMPTY_FILTER_EXPRESSION)}
+            >
+              모두 지우기
+            </Button>
+            <Button
+              className="flex-1"
+              onClick={() => {
+                onApply(draft);
+                onOpenChange(false);
+              }}
+            >
+              적용
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
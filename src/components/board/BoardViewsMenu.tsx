@@ -0,0 +1,185 @@
+import { useState } from "react";
+import { Bookmark, Check, Plus, Save, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useData } from "@/contexts/DataContext";
+import { BoardView } from "@/types/job";
+
+type BoardViewSettings = Pick<BoardView, "filters" | "sortOption" | "viewMode">;
+
+interface BoardViewsMenuProps {
+  current: BoardViewSettings;
+  activeViewId: string | null;
+  onApply: (view: BoardView) => void;
+  onActiveViewChange: (id: string | null) => void;
+}
+
+const isSameSettings = (a: BoardViewSettings, b: BoardViewSettings) =>
+  a.sortOption === b.sortOption &&
+  a.viewMode === b.viewMode &&
+  JSON.stringify(a.filters) === JSON.stringify(b.filters);
+
+export function BoardViewsMenu({
+  current,
+  activeViewId,
+  onApply,
+  onActiveViewChange,
+}: BoardViewsMenuProps) {
+  const { boardViews, addBoardView, updateBoardView, removeBoardView } =
+    useData();
+  const [isSaveOpen, setIsSaveOpen] = useState(false);
+  const [name, setName] = useState("");
+
+  const activeView = boardViews.find((v) => v.id === activeViewId) ?? null;
+  const isModified = !!activeView && !isSameSettings(activeView, current);
+
+  const handleSaveNew = async () => {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      toast.error("보기 이름을 입력해주세요");
+      return;
+    }
+    const id = await addBoardView({ name: trimmed, ...current });
+    if (!id) return;
+    onActiveViewChange(id);
+    toast.success(`'${trimmed}' 보기를 저장했습니다`);
+    setIsSaveOpen(false);
+  };
+
+  const handleUpdate = async () => {
+    if (!activeView) return;
+    if (!(await updateBoardView(activeView.id, current))) return;
+    toast.success(`'${activeView.name}' 보기를 업데이트했습니다`);
+  };
+
+  const handleRemove = async () => {
+    if (!activeView) return;
+    await removeBoardView(activeView.id);
+    onActiveViewChange(null);
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="h-7 px-2 max-w-[140px]">
+            <Bookmark className="w-3.5 h-3.5 mr-1 shrink-0" />
+            <span className="text-xs truncate">
+              {activeView ? activeView.name : "보기"}
+              {isModified && " *"}
+            </span>
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-56">
+          <DropdownMenuLabel>저장된 보기</DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          {boardViews.length === 0 ? (
+            <p className="px-2 py-1.5 text-xs text-muted-foreground">
+              필터·정렬·보기 방식을 저장해두고 어느 기기에서든 바로 불러오세요
+            </p>
+          ) : (
+            boardViews.map((view) => (
+              <DropdownMenuItem
+                key={view.id}
+                onClick={() => {
+                  onApply(view);
+                  onActiveViewChange(view.id);
+                }}
+              >
+                <Check
+                  className={
+                    view.id === activeViewId
+                      ? "w-4 h-4 mr-2"
+                      : "w-4 h-4 mr-2 invisible"
+                  }
+                />
+                <span className="truncate">{view.name}</span>
+              </DropdownMenuItem>
+            ))
+          )}
+          <DropdownMenuSeparator />
+          {isModified && (
+            <DropdownMenuItem onClick={handleUpdate}>
+              <Save className="w-4 h-4 mr-2" />
+              현재 설정으로 업데이트
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuItem
+            onClick={() => {
+              setName("");
+              setIsSaveOpen(true);
+            }}
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            새 보기로 저장
+          </DropdownMenuItem>
+          {activeView && (
+            <DropdownMenuItem
+              onClick={handleRemove}
+              className="text-destructive focus:text-destructive"
+            >
+              <Trash2 className="w-4 h-4 mr-2" />
+              '{activeView.name}' 삭제
+            </DropdownMenuItem>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={isSaveOpen} onOpenChange={setIsSaveOpen}>
+        <DialogContent className="max-w-[90%] rounded-2xl sm:max-w-sm">
+          <DialogHeader>
+            <DialogTitle>새 보기로 저장</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 pt-2">
+            <div className="space-y-2">
+              <Label htmlFor="boardViewName">이름</Label>
+              <Input
+                id="boardViewName"
+                value={name}
+                maxLength={40}
+                placeholder="예: 진행 중인 지원, 원격 근무만"
+                onChange={(e) => setName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter" && !e.nativeEvent.isComposing) {
+                    handleSaveNew();
+                  }
+                }}
+              />
+              <p className="text-xs text-muted-foreground">
+                현재 필터, 정렬, 칸반/테이블 보기 방식이 함께 저장됩니다
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                className="flex-1"
+                onClick={() => setIsSaveOpen(false)}
+              >
+                취소
+              </Button>
+              <Button className="flex-1" onClick={handleSaveNew}>
+                저장
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
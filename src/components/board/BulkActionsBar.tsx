@@ -0,0 +1,246 @@
+import { useState } from "react";
+import { toast } from "sonner";
+import {
+  Loader2,
+  RefreshCw,
+  Sparkles,
+  Tag,
+  Trash2,
+  X,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useData } from "@/contexts/DataContext";
+import { JobPosting, JobStatus, STATUS_LABELS } from "@/types/job";
+import { requestFitEvaluation } from "@/lib/fitEvaluation";
+import { averageScore } from "@/lib/jobPriority";
+import { ExportColumn } from "@/lib/jobExport";
+import { BulkTagDialog } from "./BulkTagDialog";
+import { ExportMenu } from "./ExportMenu";
+
+interface BulkActionsBarProps {
+  jobs: JobPosting[]; // 선택된 공고
+  columns: ExportColumn[]; // 내보내기에 쓸 표의 보이는 컬럼
+  onClear: () => void;
+  // 삭제 취소 가능 시간 동안 표에서 숨길 공고
+  onPendingDeleteChange: (ids: string[], pending: boolean) => void;
+}
+
+export function BulkActionsBar({
+  jobs,
+  columns,
+  onClear,
+  onPendingDeleteChange,
+}: BulkActionsBarProps) {
+  const { jobPostings, experiences, updateJobPosting, removeJobPostings } = useData();
+  const [bulkTagMode, setBulkTagMode] = useState<"add" | "remove" | null>(
+    null
+  );
+  const [evaluationProgress, setEvaluationProgress] = useState<{
+    done: number;
+    total: number;
+  } | null>(null);
+
+  const handleStatusChange = async (status: JobStatus) => {
+    const targets = jobs.filter((job) => job.status !== status);
+    await Promise.all(
+      targets.map((job) =>
+        updateJobPosting(job.id, { status }, { history: "table" })
+      )
+    );
+    toast.success(
+      `${targets.length}개 공고를 '${STATUS_LABELS[status]}' 상태로 변경했습니다`
+    );
+  };
+
+  // 바로 지우지 않고 실행 취소 토스트가 닫힐 때 삭제
+  const handleDelete = () => {
+    const ids = jobs.map((job) => job.id);
+    let isSettled = false;
+    const commit = async () => {
+      if (isSettled) return;
+      isSettled = true;
+      await removeJobPostings(ids);
+      onPendingDeleteChange(ids, false);
+    };
+
+    onPendingDeleteChange(ids, true);
+    onClear();
+    toast(`${ids.length}개 공고를 삭제했습니다`, {
+      action: {
+        label: "실행 취소",
+        onClick: () => {
+          isSettled = true;
+          onPendingDeleteChange(ids, false);
+        },
+      },
+      onAutoClose: commit,
+      onDismiss: commit,
+    });
+  };
+
+  // 공고마다 evaluate-fit을 순서대로 호출. 한 건이라도 실패하면 중단
+  const handleReevaluate = async () => {
+    if (experiences.length === 0) {
+      toast.error("경력 탭에서 경험을 먼저 등록해주세요");
+      return;
+    }
+    const targets = jobs.filter(
+      (job) => job.keyCompetencies && job.keyCompetencies.length > 0
+    );
+    if (targets.length === 0) {
+      toast.error("공고에서 추출된 핵심 역량이 필요합니다");
+      return;
+    }
+
+    // 우선순위는 updateJobPosting이 상대 순위로 계산. 이 핸들러의 jobPostings는 클릭 시점 값이라
+    // 앞에서 평가한 공고의 새 점수를 직접 모아 비교 대상으로 넘김
+    let priorityBasis = jobPostings;
+    let done = 0;
+    setEvaluationProgress({ done, total: targets.length });
+    try {
+      for (const job of targets) {
+        const result = await requestFitEvaluation({
+          keyCompetencies: job.keyCompetencies!,
+          experiences,
+          minExperience: job.minExperience,
+        });
+        const updates = {
+          keyCompetencies: result.evaluatedCompetencies,
+          fitScore: averageScore(result.evaluatedCompetencies),
+          minimumRequirementsCheck: result.minimumRequirements,
+        };
+        await updateJobPosting(job.id, updates, { history: "table", priorityBasis });
+        priorityBasis = priorityBasis.map((j) => (j.id === job.id ? { ...j, ...updates } : j));
+        done += 1;
+        setEvaluationProgress({ done, total: targets.length });
+      }
+      toast.success(`${done}개 공고의 적합도 평가를 마쳤습니다`);
+    } catch (error) {
+      console.error("Bulk fit evaluation error:", error);
+      toast.error(
+        `${done}개 평가 후 중단되었습니다: ${
+          error instanceof Error ? error.message : "평가 중 오류가 발생했습니다"
+        }`
+      );
+    } finally {
+      setEvaluationProgress(null);
+    }
+  };
+
+  // 평가 중에는 선택이 풀려도 진행 상황을 계속 보여줌
+  if (jobs.length === 0 && !evaluationProgress) return null;
+
+  return (
+    <>
+      <div className="flex flex-wrap items-center gap-2 rounded-lg bg-primary/5 border border-primary/20 px-3 py-2">
+        <span className="text-sm font-medium">{jobs.length}개 선택됨</span>
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-7 text-xs"
+              disabled={jobs.length === 0}
+            >
+              <RefreshCw className="w-3.5 h-3.5 mr-1" />
+              상태 변경
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start">
+            <DropdownMenuLabel>변경할 상태</DropdownMenuLabel>
+            <DropdownMenuSeparator />
+            {Object.entries(STATUS_LABELS).map(([key, label]) => (
+              <DropdownMenuItem
+                key={key}
+                onClick={() => handleStatusChange(key as JobStatus)}
+              >
+                {label}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-7 text-xs"
+          onClick={handleReevaluate}
+          disabled={!!evaluationProgress || jobs.length === 0}
+        >
+          {evaluationProgress ? (
+            <>
+              <Loader2 className="w-3.5 h-3.5 mr-1 animate-spin" />
+              평가 중 {evaluationProgress.done}/{evaluationProgress.total}
+            </>
+          ) : (
+            <>
+              <Sparkles className="w-3.5 h-3.5 mr-1" />
+              적합도 재평가
+            </>
+          )}
+        </Button>
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-7 text-xs"
+              disabled={jobs.length === 0}
+            >
+              <Tag className="w-3.5 h-3.5 mr-1" />
+              태그
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start">
+            <DropdownMenuItem onClick={() => setBulkTagMode("add")}>
+              태그 추가
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => setBulkTagMode("remove")}>
+              태그 제거
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <ExportMenu jobs={jobs} columns={columns} className="h-7 text-xs" />
+
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-7 text-xs text-destructive hover:text-destructive"
+          onClick={handleDelete}
+          disabled={!!evaluationProgress || jobs.length === 0}
+        >
+          <Trash2 className="w-3.5 h-3.5 mr-1" />
+          삭제
+        </Button>
+
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 text-xs ml-auto"
+          onClick={onClear}
+        >
+          <X className="w-3.5 h-3.5 mr-1" />
+          선택 해제
+        </Button>
+      </div>
+
+      <BulkTagDialog
+        jobs={jobs}
+        mode={bulkTagMode ?? "add"}
+        open={bulkTagMode !== null}
+        onOpenChange={(open) => !open && setBulkTagMode(null)}
+      />
+    </>
+  );
+}
@@ -0,0 +1,131 @@
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useData } from "@/contexts/DataContext";
+import { JobPosting } from "@/types/job";
+import { addTags, collectTags, removeTags } from "@/lib/jobTags";
+import { TagEditor } from "./TagEditor";
+
+interface BulkTagDialogProps {
+  jobs: JobPosting[]; // 선택된 공고
+  mode: "add" | "remove";
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function BulkTagDialog({
+  jobs,
+  mode,
+  open,
+  onOpenChange,
+}: BulkTagDialogProps) {
+  const { jobPostings, updateJobPosting } = useData();
+  const [tags, setTags] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) setTags([]);
+  }, [open]);
+
+  // 제거 모드에서는 선택된 공고에 붙어 있는 태그만 고를 수 있음
+  const selectableTags = collectTags(jobs);
+
+  const handleApply = async () => {
+    if (tags.length === 0) return;
+
+    setIsSaving(true);
+    // 실제로 태그가 바뀌는 공고만 저장
+    const targets = jobs
+      .map((job) => ({
+        job,
+        next:
+          mode === "add" ? addTags(job.tags, tags) : removeTags(job.tags, tags),
+      }))
+      .filter(({ job, next }) => next.length !== (job.tags ?? []).length);
+    await Promise.all(
+      targets.map(({ job, next }) =>
+        updateJobPosting(job.id, { tags: next }, { history: "table" })
+      )
+    );
+    setIsSaving(false);
+
+    toast.success(
+      mode === "add"
+        ? `${targets.length}개 공고에 태그를 추가했습니다`
+        : `${targets.length}개 공고에서 태그를 제거했습니다`
+    );
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-[90%] rounded-2xl sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{mode === "add" ? "태그 추가" : "태그 제거"}</DialogTitle>
+          <DialogDescription>
+            선택한 공고 {jobs.length}개에{" "}
+            {mode === "add" ? "태그를 붙입니다." : "붙어 있는 태그를 제거합니다."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 pt-2">
+          {mode === "add" ? (
+            <TagEditor
+              tags={tags}
+              suggestions={collectTags(jobPostings)}
+              onChange={setTags}
+            />
+          ) : selectableTags.length > 0 ? (
+            <div className="flex flex-wrap gap-1">
+              {selectableTags.map((tag) => (
+                <Badge
+                  key={tag}
+                  variant={tags.includes(tag) ? "default" : "outline"}
+                  className="text-xs cursor-pointer"
+                  onClick={() =>
+                    setTags((prev) =>
+                      prev.includes(tag)
+                        ? prev.filter((t) => t !== tag)
+                        : [...prev, tag]
+                    )
+                  }
+                >
+                  #{tag}
+                </Badge>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              선택한 공고에 붙어 있는 태그가 없습니다.
+            </p>
+          )}
+
+          <div className="flex gap-2 pt-2">
+            <Button
+              variant="outline"
+              className="flex-1"
+              onClick={() => onOpenChange(false)}
+            >
+              취소
+            </Button>
+            <Button
+              className="flex-1"
+              onClick={handleApply}
+              disabled={tags.length === 0 || isSaving}
+            >
+              {mode === "add" ? "추가" : "제거"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,70 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { CalendarPlus, Loader2 } from 'lucide-react';
+import { JobPosting } from '@/types/job';
+import { supabase } from '@/integrations/supabase/client';
+import { getFunctionErrorMessage } from '@/integrations/supabase/functionErrors';
+import { toast } from 'sonner';
+
+interface CalendarExportButtonProps {
+  job: JobPosting;
+}
+
+// 파일명에 쓸 수 없는 문자 제거
+const toFileName = (value: string) => value.replace(/[\\/:*?"<>|]/g, '').trim();
+
+export function CalendarExportButton({ job }: CalendarExportButtonProps) {
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleExport = async () => {
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('calendar-feed', {
+        body: { jobPostingId: job.id },
+      });
+
+      if (error) {
+        throw new Error(
+          await getFunctionErrorMessage(error, '캘린더 파일을 만들지 못했습니다.')
+        );
+      }
+
+      if (typeof data !== 'string') {
+        throw new Error(data?.error || '캘린더 파일을 만들지 못했습니다.');
+      }
+
+      const blob = new Blob([data], { type: 'text/calendar;charset=utf-8' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${toFileName(`${job.companyName}-${job.title}`) || 'curve'}.ics`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+      toast.success('캘린더 파일을 내려받았습니다');
+    } catch (error) {
+      console.error('Calendar export error:', error);
+      toast.error(error instanceof Error ? error.message : '캘린더 내보내기 중 오류가 발생했습니다');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Button
+      variant="outline"
+      size="icon"
+      className="shrink-0 h-10 w-10"
+      title="캘린더에 추가 (.ics)"
+      onClick={handleExport}
+      disabled={isLoading}
+    >
+      {isLoading ? (
+        <Loader2 className="w-4 h-4 animate-spin" />
+      ) : (
+        <CalendarPlus className="w-4 h-4" />
+      )}
+    </Button>
+  );
+}
@@ -0,0 +1,83 @@
+import { useState } from "react";
+import { toast } from "sonner";
+import { Download, Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { JobPosting } from "@/types/job";
+import { ExportColumn, exportJobs, JobExportFormat } from "@/lib/jobExport";
+
+interface ExportMenuProps {
+  jobs: JobPosting[];
+  columns: ExportColumn[]; // 표에 보이는 컬럼 순서대로
+  label?: string;
+  className?: string;
+}
+
+export function ExportMenu({
+  jobs,
+  columns,
+  label = "내보내기",
+  className,
+}: ExportMenuProps) {
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async (format: JobExportFormat) => {
+    setIsExporting(true);
+    try {
+      await exportJobs(jobs, format, columns);
+      toast.success(`${jobs.length}개 공고를 내보냈습니다`);
+    } catch (error) {
+      console.error("Export error:", error);
+      toast.error("내보내기 중 오류가 발생했습니다");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className={cn("h-8", className)}
+          disabled={jobs.length === 0 || isExporting}
+        >
+          {isExporting ? (
+            <Loader2 className="w-3.5 h-3.5 mr-1.5 animate-spin" />
+          ) : (
+            <Download className="w-3.5 h-3.5 mr-1.5" />
+          )}
+          {label}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>공고 {jobs.length}개 내보내기</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onClick={() => handleExport("xlsx")}>
+          엑셀 (XLSX)
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => handleExport("csv")}>
+          CSV
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onClick={() => handleExport("json")}>
+          <div>
+            <p>JSON (전체 데이터)</p>
+            <p className="text-xs text-muted-foreground">
+              핵심 역량, 점수, 근거 문장까지 모두 포함
+            </p>
+          </div>
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -2,8 +2,7 @@ import { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Loader2, Sparkles } from 'lucide-react';
 import { Experience, KeyCompetency, MinimumRequirementsCheck } from '@/types/job';
-import { supabase } from '@/integrations/supabase/client';
-import { getFunctionErrorMessage } from '@/integrations/supabase/functionErrors';
+import { requestFitEvaluation } from '@/lib/fitEvaluation';
 import { toast } from 'sonner';
 
 interface FitEvaluationButtonProps {
@@ -23,30 +22,13 @@ export function FitEvaluationButton({ keyCompetencies, experiences, minExperienc
   const performEvaluation = async () => {
     setIsLoading(true);
     try {
-      // Credits are now deducted server-side in the edge function
-      const { data, error } = await supabase.functions.invoke('evaluate-fit', {
-        body: {
-          keyCompetencies,
-          experiences,
-          minExperience,
-        }
+      const result = await requestFitEvaluation({
+        keyCompetencies,
+        experiences,
+        minExperience,
       });
-
-      if (error) {
-        throw new Error(
-          await getFunctionErrorMessage(error, '적합도 평가에 실패했습니다.')
-        );
-      }
-
-      // Handle errors from server
-      if (!data?.success && data?.error) {
-        throw new Error(data.error);
-      }
-
-      if (data?.evaluatedCompetencies) {
-        onEvaluated(data.evaluatedCompetencies, data.minimumRequirements);
-        toast.success('AI 적합도 평가가 완료되었습니다');
-      }
+      onEvaluated(result.evaluatedCompetencies, result.minimumRequirements);
+      toast.success('AI 적합도 평가가 완료되었습니다');
     } catch (error) {
       console.error('Fit evaluation error:', error);
       toast.error(error instanceof Error ? error.message : '평가 중 오류가 발생했습니다');
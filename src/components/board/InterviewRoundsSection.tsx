@@ -0,0 +1,389 @@
+import { useEffect, useState } from "react";
+import {
+  CalendarClock,
+  MapPin,
+  Plus,
+  Trash2,
+  Users,
+  Video,
+} from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useData } from "@/contexts/DataContext";
+import {
+  InterviewOutcome,
+  InterviewRound,
+  InterviewRoundType,
+  INTERVIEW_OUTCOME_LABELS,
+  INTERVIEW_ROUND_TYPE_LABELS,
+  JobPosting,
+} from "@/types/job";
+import {
+  formatInterviewDateTime,
+  fromDateTimeLocalValue,
+  getUpcomingInterview,
+  toDateTimeLocalValue,
+} from "@/lib/interviewRounds";
+
+interface InterviewRoundsSectionProps {
+  job: JobPosting;
+}
+
+const OUTCOME_COLORS: Record<InterviewOutcome, string> = {
+  pending: "bg-muted text-muted-foreground",
+  passed: "bg-success/10 text-success",
+  failed: "bg-destructive/10 text-destructive",
+  cancelled: "bg-muted text-muted-foreground line-through",
+};
+
+export function InterviewRoundsSection({ job }: InterviewRoundsSectionProps) {
+  const { interviewRounds, removeInterviewRound } = useData();
+  const [editingRound, setEditingRound] = useState<InterviewRound | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+
+  // 일정 순 (미정은 마지막)
+  const rounds = interviewRounds
+    .filter((r) => r.jobPostingId === job.id)
+    .sort(
+      (a, b) =>
+        (a.scheduledAt?.getTime() ?? Infinity) -
+        (b.scheduledAt?.getTime() ?? Infinity)
+    );
+  const upcoming = getUpcomingInterview(rounds);
+
+  const openDialog = (round: InterviewRound | null) => {
+    setEditingRound(round);
+    setIsDialogOpen(true);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-semibold">인터뷰 일정</span>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 gap-1 text-xs"
+          onClick={() => openDialog(null)}
+        >
+          <Plus className="w-3.5 h-3.5" />
+          라운드 추가
+        </Button>
+      </div>
+
+      {rounds.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          등록된 인터뷰가 없습니다. 일정이 잡히면 라운드를 추가해보세요.
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {rounds.map((round) => (
+            <li
+              key={round.id}
+              onClick={() => openDialog(round)}
+              className={cn(
+                "rounded-lg p-3 space-y-1.5 cursor-pointer transition-colors hover:bg-secondary/60",
+                upcoming?.id === round.id
+                  ? "bg-primary/5 border border-primary/30"
+                  : "bg-secondary/30"
+              )}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2 min-w-0">
+                  <span className="text-sm font-medium truncate">
+                    {INTERVIEW_ROUND_TYPE_LABELS[round.type]}
+                  </span>
+                  <Badge className={cn("text-[10px]", OUTCOME_COLORS[round.outcome])}>
+                    {INTERVIEW_OUTCOME_LABELS[round.outcome]}
+                  </Badge>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="w-7 h-7 shrink-0"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    removeInterviewRound(round.id);
+                  }}
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </Button>
+              </div>
+              <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs text-muted-foreground">
+                <span className="flex items-center gap-1">
+                  <CalendarClock className="w-3 h-3" />
+                  {round.scheduledAt
+                    ? formatInterviewDateTime(round.scheduledAt)
+                    : "일정 미정"}
+                </span>
+                {round.interviewers.length > 0 && (
+                  <span className="flex items-center gap-1">
+                    <Users className="w-3 h-3" />
+                    {round.interviewers.join(", ")}
+                  </span>
+                )}
+                {round.location && (
+                  <span className="flex items-center gap-1">
+                    <MapPin className="w-3 h-3" />
+                    {round.location}
+                  </span>
+                )}
+                {round.meetingUrl && (
+                  <a
+                    href={round.meetingUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    onClick={(e) => e.stopPropagation()}
+                    className="flex items-center gap-1 text-primary hover:underline"
+                  >
+                    <Video className="w-3 h-3" />
+                    화상 링크
+                  </a>
+                )}
+              </div>
+              {round.notes && (
+                <p className="text-xs whitespace-pre-wrap">{round.notes}</p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <InterviewRoundDialog
+        jobPostingId={job.id}
+        round={editingRound}
+        open={isDialogOpen}
+        onOpenChange={setIsDialogOpen}
+      />
+    </div>
+  );
+}
+
+interface InterviewRoundDialogProps {
+  jobPostingId: string;
+  round: InterviewRound | null; // null이면 새 라운드
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const emptyForm = {
+  type: "phone_screen" as InterviewRoundType,
+  scheduledAt: "",
+  interviewers: "",
+  location: "",
+  meetingUrl: "",
+  outcome: "pending" as InterviewOutcome,
+  notes: "",
+};
+
+function InterviewRoundDialog({
+  jobPostingId,
+  round,
+  open,
+  onOpenChange,
+}: InterviewRoundDialogProps) {
+  const { addInterviewRound, updateInterviewRound } = useData();
+  const [formData, setFormData] = useState(emptyForm);
+
+  useEffect(() => {
+    if (!open) return;
+    setFormData(
+      round
+        ? {
+            type: round.type,
+            scheduledAt: toDateTimeLocalValue(round.scheduledAt),
+            interviewers: round.interviewers.join(", "),
+            location: round.location ?? "",
+            meetingUrl: round.meetingUrl ?? "",
+            outcome: round.outcome,
+            notes: round.notes ?? "",
+          }
+        : emptyForm
+    );
+  }, [open, round]);
+
+  const handleSave = async () => {
+    const meetingUrl = formData.meetingUrl.trim();
+    if (meetingUrl && !/^https?:\/\//i.test(meetingUrl)) {
+      toast.error("화상 면접 링크는 http(s)://로 시작해야 합니다");
+      return;
+    }
+
+    const values = {
+      type: formData.type,
+      scheduledAt: fromDateTimeLocalValue(formData.scheduledAt),
+      interviewers: formData.interviewers
+        .split(",")
+        .map((name) => name.trim())
+        .filter(Boolean),
+      location: formData.location.trim(),
+      meetingUrl,
+      outcome: formData.outcome,
+      notes: formData.notes.trim(),
+    };
+
+    if (round) {
+      // 비운 일정은 null로 저장
+      await updateInterviewRound(round.id, {
+        ...values,
+        scheduledAt: values.scheduledAt ?? null,
+      });
+    } else {
+      await addInterviewRound({
+        jobPostingId,
+        ...values,
+        location: values.location || undefined,
+        meetingUrl: values.meetingUrl || undefined,
+        notes: values.notes || undefined,
+      });
+    }
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-[90%] rounded-2xl sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{round ? "인터뷰 수정" : "인터뷰 추가"}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 pt-2">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>유형</Label>
+              <Select
+                value={formData.type}
+                onValueChange={(v) =>
+                  setFormData({ ...formData, type: v as InterviewRoundType })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(INTERVIEW_ROUND_TYPE_LABELS).map(([key, label]) => (
+                    <SelectItem key={key} value={key}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>결과</Label>
+              <Select
+                value={formData.outcome}
+                onValueChange={(v) =>
+                  setFormData({ ...formData, outcome: v as InterviewOutcome })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(INTERVIEW_OUTCOME_LABELS).map(([key, label]) => (
+                    <SelectItem key={key} value={key}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="interviewScheduledAt">일시</Label>
+            <Input
+              id="interviewScheduledAt"
+              type="datetime-local"
+              value={formData.scheduledAt}
+              onChange={(e) =>
+                setFormData({ ...formData, scheduledAt: e.target.value })
+              }
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="interviewers">면접관</Label>
+            <Input
+              id="interviewers"
+              value={formData.interviewers}
+              placeholder="쉼표로 구분 (예: 김OO 팀장, 이OO 님)"
+              onChange={(e) =>
+                setFormData({ ...formData, interviewers: e.target.value })
+              }
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="interviewLocation">장소</Label>
+              <Input
+                id="interviewLocation"
+                value={formData.location}
+                onChange={(e) =>
+                  setFormData({ ...formData, location: e.target.value })
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="interviewMeetingUrl">화상 면접 링크</Label>
+              <Input
+                id="interviewMeetingUrl"
+                value={formData.meetingUrl}
+                placeholder="https://"
+                onChange={(e) =>
+                  setFormData({ ...formData, meetingUrl: e.target.value })
+                }
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="interviewNotes">메모</Label>
+            <Textarea
+              id="interviewNotes"
+              value={formData.notes}
+              rows={3}
+              onChange={(e) =>
+                setFormData({ ...formData, notes: e.target.value })
+              }
+            />
+          </div>
+
+          <div className="flex gap-2 pt-2">
+            <Button
+              variant="outline"
+              className="flex-1"
+              onClick={() => onOpenChange(false)}
+            >
+              취소
+            </Button>
+            <Button className="flex-1" onClick={handleSave}>
+              저장
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
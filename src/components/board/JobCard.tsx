@@ -5,11 +5,14 @@ import {
   STATUS_LABELS,
   STATUS_COLORS,
   PRIORITY_LABELS,
+  INTERVIEW_ROUND_TYPE_LABELS,
 } from "@/types/job";
 import { cn } from "@/lib/utils";
+import { formatDday, getDaysUntilDeadline } from "@/lib/jobPostingFields";
+import { formatInterviewDateTime, getUpcomingInterview } from "@/lib/interviewRounds";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Star, MoreVertical, Trash2, Edit2 } from "lucide-react";
+import { Star, MoreVertical, Trash2, Edit2, CalendarClock } from "lucide-react";
 import { useData } from "@/contexts/DataContext";
 import {
   DropdownMenu,
@@ -41,7 +44,7 @@ interface JobCardProps {
 
 export function JobCard({ job, onClick }: JobCardProps) {
   const [isEditOpen, setIsEditOpen] = useState(false);
-  const { removeJobPosting, updateJobPosting } = useData();
+  const { removeJobPosting, updateJobPosting, interviewRounds } = useData();
 
   const renderStars = (score: number) => {
     return (
@@ -87,6 +90,12 @@ export function JobCard({ job, onClick }: JobCardProps) {
     (job.fitScore && job.fitScore > 0);
   const displayPriority = hasEvaluation ? job.priority : "-";
 
+  // 마감일 D-day (마감 처리된 공고는 표시하지 않음)
+  const daysUntilDeadline =
+    job.status === "closed" ? null : getDaysUntilDeadline(job.deadline);
+
+  const upcomingInterview = getUpcomingInterview(interviewRounds, job.id);
+
   return (
     <>
       <div
@@ -153,8 +162,56 @@ export function JobCard({ job, onClick }: JobCardProps) {
               {job.language === "ko" ? "🇰🇷 국문" : "🇺🇸 영문"}
             </Badge>
           )}
+          {daysUntilDeadline !== null && (
+            <Badge
+              variant="outline"
+              className={cn(
+                "text-[10px] shrink-0",
+                daysUntilDeadline < 0
+                  ? "text-muted-foreground"
+                  : daysUntilDeadline <= 3
+                  ? "border-destructive/30 bg-destructive/10 text-destructive"
+                  : daysUntilDeadline <= 7
+                  ? "border-warning/30 bg-warning/10 text-warning"
+                  : "text-muted-foreground"
+              )}
+            >
+              {formatDday(daysUntilDeadline)}
+            </Badge>
+          )}
         </div>
 
+        {/* Tags */}
+        {job.tags && job.tags.length > 0 && (
+          <div className="flex items-center gap-1 mb-2 flex-wrap">
+            {job.tags.slice(0, 3).map((tag) => (
+              <Badge
+                key={tag}
+                variant="outline"
+                className="text-[10px] shrink-0 text-muted-foreground"
+              >
+                #{tag}
+              </Badge>
+            ))}
+            {job.tags.length > 3 && (
+              <span className="text-[10px] text-muted-foreground">
+                +{job.tags.length - 3}
+              </span>
+            )}
+          </div>
+        )}
+
+        {/* Next interview */}
+        {upcomingInterview && (
+          <div className="flex items-center gap-1.5 text-xs text-primary bg-primary/5 rounded-md px-2 py-1 mb-2">
+            <CalendarClock className="w-3.5 h-3.5 shrink-0" />
+            <span className="truncate">
+              {formatInterviewDateTime(upcomingInterview.scheduledAt!)} ·{" "}
+              {INTERVIEW_ROUND_TYPE_LABELS[upcomingInterview.type]}
+            </span>
+          </div>
+        )}
+
         {/* Date added */}
         <p className="text-xs text-muted-foreground mb-2">
           {new Date(job.createdAt).toLocaleDateString("ko-KR", {
@@ -196,10 +253,18 @@ function JobEditDialog({ job, open, onOpenChange }: JobEditDialogProps) {
     minExperience: job.minExperience || "",
     workType: job.workType || "",
     location: job.location || "",
+    deadline: job.deadline || "",
   });
 
   const handleSave = () => {
-    updateJobPosting(job.id, formData);
+    updateJobPosting(
+      job.id,
+      {
+        ...formData,
+        deadline: formData.deadline || null,
+      },
+      { history: "card" }
+    );
     onOpenChange(false);
   };
 
@@ -316,16 +381,29 @@ function JobEditDialog({ job, open, onOpenChange }: JobEditDialogProps) {
             </div>
           </div>
 
-          <div className="space-y-2">
-            <Label htmlFor="location">위치</Label>
-            <Input
-              id="location"
-              value={formData.location}
-              onChange={(e) =>
-                setFormData({ ...formData, location: e.target.value })
-              }
-              placeholder="예: 서울 강남"
-            />
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="location">위치</Label>
+              <Input
+                id="location"
+                value={formData.location}
+                onChange={(e) =>
+                  setFormData({ ...formData, location: e.target.value })
+                }
+                placeholder="예: 서울 강남"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="deadline">마감일</Label>
+              <Input
+                id="deadline"
+                type="date"
+                value={formData.deadline}
+                onChange={(e) =>
+                  setFormData({ ...formData, deadline: e.target.value })
+                }
+              />
+            </div>
           </div>
 
           <div className="flex gap-2 pt-2">
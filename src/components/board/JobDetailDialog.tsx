@@ -8,8 +8,14 @@ import {
   KeyCompetency,
   CompanyCriteriaScore,
   MinimumRequirementsCheck,
+  STRUCTURED_EVIDENCE_PREFIX,
 } from "@/types/job";
 import { cn } from "@/lib/utils";
+import {
+  formatDday,
+  formatSalaryRange,
+  getDaysUntilDeadline,
+} from "@/lib/jobPostingFields";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -53,9 +59,23 @@ import {
   XCircle,
   HelpCircle,
   Sparkles,
+  CalendarClock,
+  Wallet,
+  RefreshCw,
 } from "lucide-react";
 import { ResumeBuilderDialog } from "./ResumeBuilderDialog";
+import { PostingSnapshotDialog } from "./PostingSnapshotDialog";
+import { ReanalyzeDialog } from "./ReanalyzeDialog";
+import { JobHistoryPanel } from "./JobHistoryPanel";
+import { StatusTimeline } from "./StatusTimeline";
+import { InterviewRoundsSection } from "./InterviewRoundsSection";
+import { JobNotesSection } from "./JobNotesSection";
+import { KeywordGapSection } from "./KeywordGapSection";
+import { TagEditor } from "./TagEditor";
+import { collectTags } from "@/lib/jobTags";
+import { averageScore, calculateRelativePriority } from "@/lib/jobPriority";
 import { FitEvaluationButton } from "./FitEvaluationButton";
+import { CalendarExportButton } from "./CalendarExportButton";
 import { Textarea } from "@/components/ui/textarea";
 
 interface JobDetailDialogProps {
@@ -71,11 +91,19 @@ export function JobDetailDialog({
   onOpenChange,
   onNavigateToCareer,
 }: JobDetailDialogProps) {
-  const { updateJobPosting, currentGoals, experiences, jobPostings } =
-    useData();
+  const {
+    updateJobPosting,
+    currentGoals,
+    experiences,
+    jobPostings,
+    messages,
+    interviewRounds,
+  } = useData();
   const [isDetailOpen, setIsDetailOpen] = useState(false);
   const [editingField, setEditingField] = useState<string | null>(null);
   const [isResumeBuilderOpen, setIsResumeBuilderOpen] = useState(false);
+  const [isSnapshotOpen, setIsSnapshotOpen] = useState(false);
+  const [isReanalyzeOpen, setIsReanalyzeOpen] = useState(false);
   const [editingEvaluation, setEditingEvaluation] = useState<number | null>(
     null
   );
@@ -136,61 +164,22 @@ export function JobDetailDialog({
       )
       : 0;
 
-  // Calculate relative priority based on all job postings
-  const calculateRelativePriority = (
-    compScore: number,
-    fitScoreVal: number
-  ): number => {
-    // Get all job postings with scores
-    const allScores = jobPostings
-      .filter(
-        (j) =>
-          (j.companyScore && j.companyScore > 0) ||
-          (j.fitScore && j.fitScore > 0)
-      )
-      .map((j) => {
-        const comp = j.companyScore || 0;
-        const fit = j.fitScore || 0;
-        const count = (comp > 0 ? 1 : 0) + (fit > 0 ? 1 : 0);
-        return count > 0 ? (comp + fit) / count : 0;
-      })
-      .filter((s) => s > 0);
-
-    // Calculate this job's average
-    const count = (compScore > 0 ? 1 : 0) + (fitScoreVal > 0 ? 1 : 0);
-    const thisScore = count > 0 ? (compScore + fitScoreVal) / count : 0;
-
-    if (thisScore === 0 || allScores.length === 0) return 3; // Default to middle
-
-    // Sort all scores (including this one) descending
-    const allWithThis = [
-      ...allScores.filter((s) => s !== thisScore),
-      thisScore,
-    ].sort((a, b) => b - a);
-
-    if (allWithThis.length === 1) {
-      // Only one job - assign based on absolute score
-      if (thisScore >= 4) return 1;
-      if (thisScore >= 3) return 2;
-      if (thisScore >= 2) return 3;
-      if (thisScore >= 1) return 4;
-      return 5;
-    }
-
-    // Find this job's rank (0-indexed)
-    const rank = allWithThis.indexOf(thisScore);
-    const totalJobs = allWithThis.length;
-
-    // Distribute into 5 priority buckets relatively
-    // Priority 1: top 20%, Priority 2: 20-40%, etc.
-    const percentile = rank / totalJobs;
+  // check-posting-status가 자동으로 마감 처리했을 때 남긴 안내
+  const autoClosedMessage =
+    job.status === "closed"
+      ? messages
+          .filter((m) => m.jobPostingId === job.id && m.type === "system")
+          .sort(
+            (a, b) =>
+              new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+          )[0] ?? null
+      : null;
 
-    if (percentile < 0.2) return 1;
-    if (percentile < 0.4) return 2;
-    if (percentile < 0.6) return 3;
-    if (percentile < 0.8) return 4;
-    return 5;
-  };
+  // 인터뷰 단계 이후이거나 이미 등록한 라운드가 있으면 인터뷰 일정 섹션 표시
+  const showInterviewRounds =
+    ["interview", "rejected-interview", "offer", "accepted"].includes(
+      job.status
+    ) || interviewRounds.some((r) => r.jobPostingId === job.id);
 
   const handleStatusChange = (status: JobStatus) => {
     updateJobPosting(job.id, { status });
@@ -250,11 +239,7 @@ export function JobDetailDialog({
     setKeyCompetencyScores(evaluatedCompetencies);
     setMinimumRequirementsCheck(minReqs);
 
-    const avg =
-      Math.round(
-        evaluatedCompetencies.reduce((sum, c) => sum + (c.score || 0), 0) /
-        evaluatedCompetencies.filter((c) => c.score).length
-      ) || 0;
+    const avg = averageScore(evaluatedCompetencies);
     updateJobPosting(job.id, {
       keyCompetencies: evaluatedCompetencies,
       fitScore: avg,
@@ -265,12 +250,31 @@ export function JobDetailDialog({
 
   const updatePriorityRelative = (compScore: number, fitScoreVal: number) => {
     if (compScore === 0 && fitScoreVal === 0) return;
-    const newPriority = calculateRelativePriority(compScore, fitScoreVal);
+    const newPriority = calculateRelativePriority(
+      jobPostings,
+      compScore,
+      fitScoreVal
+    );
     updateJobPosting(job.id, { priority: newPriority });
   };
 
   const handleFieldUpdate = (field: string, value: string | boolean) => {
-    updateJobPosting(job.id, { [field]: value });
+    updateJobPosting(job.id, { [field]: value }, { history: "detail" });
+    setEditingField(null);
+  };
+
+  // 마감일: YYYY-MM-DD, 비우면 상시채용
+  const handleDeadlineUpdate = (value: string) => {
+    const trimmed = value.trim();
+    if (trimmed && !/^\d{4}-\d{2}-\d{2}$/.test(trimmed)) {
+      toast.error("마감일은 YYYY-MM-DD 형식으로 입력해주세요");
+      return;
+    }
+    updateJobPosting(
+      job.id,
+      { deadline: trimmed || null },
+      { history: "detail" }
+    );
     setEditingField(null);
   };
 
@@ -339,6 +343,28 @@ export function JobDetailDialog({
                       {job.title}
                     </h2>
                   </div>
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    className="shrink-0 h-10 w-10"
+                    title="다시 분석"
+                    onClick={() => setIsReanalyzeOpen(true)}
+                  >
+                    <RefreshCw className="w-4 h-4" />
+                  </Button>
+                  {(job.deadline ||
+                    interviewRounds.some(
+                      (r) => r.jobPostingId === job.id && r.scheduledAt
+                    )) && <CalendarExportButton job={job} />}
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    className="shrink-0 h-10 w-10"
+                    title="원문 공고"
+                    onClick={() => setIsSnapshotOpen(true)}
+                  >
+                    <FileText className="w-4 h-4" />
+                  </Button>
                   {job.sourceUrl && (
                     <Button
                       variant="outline"
@@ -368,6 +394,15 @@ export function JobDetailDialog({
                 </div>
               </div>
 
+              {/* Tags */}
+              <TagEditor
+                tags={job.tags ?? []}
+                suggestions={collectTags(jobPostings)}
+                onChange={(tags) =>
+                  updateJobPosting(job.id, { tags }, { history: "detail" })
+                }
+              />
+
               {/* 2. Status Section */}
               <div className="space-y-2">
                 <div className="flex items-center gap-2">
@@ -401,8 +436,29 @@ export function JobDetailDialog({
                     ))}
                   </SelectContent>
                 </Select>
+                {autoClosedMessage && (
+                  <div className="flex items-start gap-2 text-xs text-muted-foreground bg-muted/50 rounded-lg p-2">
+                    <AlertCircle className="w-3.5 h-3.5 shrink-0 mt-0.5" />
+                    <span>
+                      {autoClosedMessage.content}{" "}
+                      <span className="whitespace-nowrap">
+                        (
+                        {new Date(autoClosedMessage.createdAt).toLocaleDateString(
+                          "ko-KR"
+                        )}{" "}
+                        자동 확인)
+                      </span>
+                    </span>
+                  </div>
+                )}
+                <StatusTimeline job={job} />
               </div>
 
+              {showInterviewRounds && <InterviewRoundsSection job={job} />}
+
+              {/* Notes & contacts */}
+              <JobNotesSection job={job} />
+
               {/* 3. Job Summary Collapsible */}
               <Collapsible open={isSummaryOpen} onOpenChange={setIsSummaryOpen}>
                 <CollapsibleTrigger asChild>
@@ -546,6 +602,35 @@ export function JobDetailDialog({
                         job.visaSponsorship === null
                       }
                     />
+                    <InfoRowWithEvidence
+                      icon={<CalendarClock className="w-4 h-4" />}
+                      label="마감일"
+                      value={
+                        job.deadline
+                          ? `${job.deadline} (${formatDday(
+                              getDaysUntilDeadline(job.deadline) ?? 0
+                            )})`
+                          : "상시채용 / 미기재"
+                      }
+                      editValue={job.deadline ?? ""}
+                      evidence={job.deadlineEvidence}
+                      field="deadline"
+                      editingField={editingField}
+                      setEditingField={setEditingField}
+                      onSave={handleDeadlineUpdate}
+                    />
+                    <InfoRowWithEvidence
+                      icon={<Wallet className="w-4 h-4" />}
+                      label="연봉"
+                      value={formatSalaryRange(job) ?? "확인 불가"}
+                      evidence={job.salaryEvidence}
+                      field="salary"
+                      editingField={editingField}
+                      setEditingField={setEditingField}
+                      onSave={() => setEditingField(null)}
+                      isUnconfirmed={formatSalaryRange(job) === null}
+                      readOnly
+                    />
                   </div>
                 </CollapsibleContent>
               </Collapsible>
@@ -795,6 +880,9 @@ export function JobDetailDialog({
                 </CollapsibleContent>
               </Collapsible>
 
+              {/* Keyword gap: posting keywords × experience library */}
+              <KeywordGapSection job={job} />
+
               {/* 6. Step 2: Company Attractiveness */}
               <Collapsible open={isStep2Open} onOpenChange={setIsStep2Open}>
                 <CollapsibleTrigger asChild>
@@ -901,11 +989,38 @@ export function JobDetailDialog({
                   </Button>
                 </div>
               </div>
+
+              {/* 8. Edit History */}
+              <JobHistoryPanel
+                job={job}
+                onUndone={(restored) => {
+                  if ("keyCompetencies" in restored) {
+                    setKeyCompetencyScores(restored.keyCompetencies ?? []);
+                  }
+                }}
+              />
             </div>
           </ScrollArea>
         </DialogContent>
       </Dialog>
 
+      <PostingSnapshotDialog
+        jobPostingId={job.id}
+        open={isSnapshotOpen}
+        onOpenChange={setIsSnapshotOpen}
+      />
+
+      <ReanalyzeDialog
+        job={job}
+        open={isReanalyzeOpen}
+        onOpenChange={setIsReanalyzeOpen}
+        onApplied={(updates) => {
+          if ("keyCompetencies" in updates) {
+            setKeyCompetencyScores(updates.keyCompetencies ?? []);
+          }
+        }}
+      />
+
       <ResumeBuilderDialog
         open={isResumeBuilderOpen}
         onOpenChange={setIsResumeBuilderOpen}
@@ -931,6 +1046,8 @@ interface InfoRowWithEvidenceProps {
   setEditingField: (field: string | null) => void;
   onSave: (value: string) => void;
   isUnconfirmed?: boolean;
+  editValue?: string; // 편집 시 초기값 (표시용 value와 다를 때)
+  readOnly?: boolean;
 }
 
 function InfoRowWithEvidence({
@@ -943,11 +1060,15 @@ function InfoRowWithEvidence({
   setEditingField,
   onSave,
   isUnconfirmed,
+  editValue,
+  readOnly,
 }: InfoRowWithEvidenceProps) {
-  const [localValue, setLocalValue] = useState(value || "");
+  const [localValue, setLocalValue] = useState(editValue ?? value ?? "");
   const isEditing = editingField === field;
+  // 공고 페이지의 JSON-LD에서 그대로 가져온 값 (AI 추출보다 신뢰도 높음)
+  const isStructured = !!evidence?.startsWith(STRUCTURED_EVIDENCE_PREFIX);
 
-  if (isEditing) {
+  if (isEditing && !readOnly) {
     return (
       <div className="flex items-center gap-2 bg-secondary/50 rounded-lg p-2">
         <div className="text-muted-foreground">{icon}</div>
@@ -965,8 +1086,11 @@ function InfoRowWithEvidence({
 
   return (
     <div
-      className="bg-secondary/30 rounded-lg p-3 cursor-pointer hover:bg-secondary/50 transition-colors"
-      onClick={() => setEditingField(field)}
+      className={cn(
+        "bg-secondary/30 rounded-lg p-3",
+        !readOnly && "cursor-pointer hover:bg-secondary/50 transition-colors"
+      )}
+      onClick={() => !readOnly && setEditingField(field)}
     >
       <div className="flex items-center gap-3">
         <div className="text-muted-foreground">{icon}</div>
@@ -986,7 +1110,17 @@ function InfoRowWithEvidence({
         <div className="mt-2 flex items-start gap-2 text-xs text-muted-foreground bg-background/50 rounded p-2">
           <Quote className="w-3 h-3 shrink-0 mt-0.5" />
           <span className="italic break-words [overflow-wrap:anywhere]">
-            {evidence}
+            {isStructured && (
+              <Badge
+                variant="secondary"
+                className="mr-1.5 px-1.5 py-0 text-[10px] not-italic align-middle"
+              >
+                구조화 데이터
+              </Badge>
+            )}
+            {isStructured
+              ? evidence.slice(STRUCTURED_EVIDENCE_PREFIX.length).trim()
+              : evidence}
           </span>
         </div>
       )}
@@ -0,0 +1,206 @@
+import { useEffect, useMemo, useState } from 'react';
+import { ChevronDown, History, Loader2, Undo2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from '@/components/ui/collapsible';
+import { useData } from '@/contexts/DataContext';
+import {
+  JobPosting,
+  JobPostingChange,
+  JobPostingChangeSource,
+  KeyCompetency,
+  STATUS_LABELS,
+  JobStatus,
+} from '@/types/job';
+
+interface JobHistoryPanelProps {
+  job: JobPosting;
+  onUndone?: (restored: Partial<JobPosting>) => void;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  companyName: '회사명',
+  title: '공고 제목',
+  position: '포지션',
+  status: '지원 상태',
+  priority: '우선순위',
+  minExperience: '최소 경력',
+  minExperienceEvidence: '최소 경력 근거',
+  workType: '근무 형태',
+  workTypeEvidence: '근무 형태 근거',
+  location: '위치',
+  locationEvidence: '위치 근거',
+  visaSponsorship: '비자 지원',
+  visaSponsorshipEvidence: '비자 지원 근거',
+  deadline: '마감일',
+  deadlineEvidence: '마감일 근거',
+  postedAt: '게시일',
+  postedAtEvidence: '게시일 근거',
+  salaryMin: '최소 연봉',
+  salaryMax: '최대 연봉',
+  salaryCurrency: '통화',
+  salaryPeriod: '급여 기준',
+  salaryEvidence: '연봉 근거',
+  summary: '요약',
+  keyCompetencies: '핵심 역량',
+  fitScore: '적합도',
+  notes: '메모',
+  tags: '태그',
+};
+
+const SOURCE_LABELS: Record<JobPostingChangeSource, string> = {
+  table: '테이블',
+  detail: '상세',
+  card: '카드 편집',
+  reanalyze: '다시 분석',
+  undo: '되돌리기',
+};
+
+function formatChangeValue(field: string, value: unknown): string {
+  if (value === null || value === undefined || value === '') return '(비어 있음)';
+  if (field === 'status') return STATUS_LABELS[value as JobStatus] ?? String(value);
+  if (field === 'keyCompetencies' && Array.isArray(value)) {
+    return (value as KeyCompetency[]).map((k) => k.title).join(', ');
+  }
+  if (field === 'tags' && Array.isArray(value)) {
+    return value.length ? value.map((t) => `#${t}`).join(' ') : '(비어 있음)';
+  }
+  if (typeof value === 'boolean') return value ? '가능' : '불가';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+export function JobHistoryPanel({ job, onUndone }: JobHistoryPanelProps) {
+  const { getJobPostingChanges, undoJobPostingChange } = useData();
+  const [isOpen, setIsOpen] = useState(false);
+  const [changes, setChanges] = useState<JobPostingChange[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isUndoing, setIsUndoing] = useState(false);
+
+  // 열려 있는 동안 공고가 수정되면 이력도 다시 불러옴
+  const updatedAtTime = new Date(job.updatedAt).getTime();
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    setIsLoading(true);
+    getJobPostingChanges(job.id)
+      .then((result) => {
+        if (!cancelled) setChanges(result);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, job.id, updatedAtTime, getJobPostingChanges]);
+
+  // 되돌리기 대상: 아직 되돌리지 않은 가장 최근 수정 (되돌리기 자체는 제외)
+  const undoTarget = useMemo(() => {
+    const reverted = new Set(changes.map((c) => c.revertsChangeId).filter(Boolean));
+    return changes.find((c) => c.source !== 'undo' && !reverted.has(c.id)) ?? null;
+  }, [changes]);
+
+  const handleUndo = async () => {
+    if (!undoTarget) return;
+    setIsUndoing(true);
+    try {
+      await undoJobPostingChange(undoTarget);
+      onUndone?.(
+        Object.fromEntries(
+          Object.entries(undoTarget.changes).map(([field, { from }]) => [field, from])
+        ) as Partial<JobPosting>
+      );
+      toast.success('마지막 변경을 되돌렸습니다');
+    } finally {
+      setIsUndoing(false);
+    }
+  };
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+      <CollapsibleTrigger asChild>
+        <Button
+          variant="ghost"
+          className="w-full justify-between px-0 h-auto py-2 hover:bg-accent hover:text-accent-foreground"
+        >
+          <div className="flex items-center gap-2">
+            <History className="w-4 h-4 text-muted-foreground" />
+            <span className="text-sm font-semibold">변경 이력</span>
+          </div>
+          <ChevronDown
+            className={cn(
+              'w-4 h-4 text-muted-foreground transition-transform',
+              isOpen && 'rotate-180'
+            )}
+          />
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-3 pt-2">
+        {isLoading && changes.length === 0 ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+          </div>
+        ) : changes.length === 0 ? (
+          <p className="text-xs text-muted-foreground text-center py-4">
+            아직 수정한 내용이 없습니다.
+          </p>
+        ) : (
+          <>
+            <div className="flex justify-end">
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-8 gap-1"
+                onClick={handleUndo}
+                disabled={!undoTarget || isUndoing}
+              >
+                {isUndoing ? (
+                  <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                ) : (
+                  <Undo2 className="w-3.5 h-3.5" />
+                )}
+                마지막 변경 되돌리기
+              </Button>
+            </div>
+            <ul className="space-y-2">
+              {changes.map((change) => (
+                <li key={change.id} className="bg-secondary/30 rounded-lg p-3 space-y-1.5">
+                  <div className="flex items-center justify-between gap-2">
+                    <Badge variant="outline" className="text-[10px]">
+                      {SOURCE_LABELS[change.source] ?? change.source}
+                    </Badge>
+                    <span className="text-[11px] text-muted-foreground">
+                      {change.createdAt.toLocaleString('ko-KR', {
+                        month: 'short',
+                        day: 'numeric',
+                        hour: '2-digit',
+                        minute: '2-digit',
+                      })}
+                    </span>
+                  </div>
+                  {Object.entries(change.changes).map(([field, { from, to }]) => (
+                    <p key={field} className="text-xs break-words">
+                      <span className="font-medium">{FIELD_LABELS[field] ?? field}</span>{' '}
+                      <span className="text-muted-foreground line-through">
+                        {formatChangeValue(field, from)}
+                      </span>
+                      {' → '}
+                      <span>{formatChangeValue(field, to)}</span>
+                    </p>
+                  ))}
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,463 @@
+import { useMemo, useRef, useState } from "react";
+import { toast } from "sonner";
+import { AlertCircle, FileSpreadsheet, Loader2, Upload } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useData } from "@/contexts/DataContext";
+import { JobPosting, STATUS_COLORS, STATUS_LABELS } from "@/types/job";
+import { supabase } from "@/integrations/supabase/client";
+import { getFunctionErrorMessage } from "@/integrations/supabase/functionErrors";
+import { mapAnalyzedJobFields } from "@/lib/jobPostingFields";
+import { parseSpreadsheetFile, SheetRows } from "@/lib/spreadsheetParser";
+import {
+  buildImportPreview,
+  ColumnMapping,
+  guessColumnMapping,
+  IMPORT_FIELDS,
+  ImportField,
+} from "@/lib/jobImport";
+
+interface JobImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type Step = "upload" | "mapping" | "preview" | "analyzing";
+
+const UNMAPPED = "__none";
+
+// 분석 결과는 스프레드시트에서 비어 있던 필드만 채움
+const fillEmptyFields = (job: JobPosting, analyzed: Partial<JobPosting>) =>
+  Object.fromEntries(
+    Object.entries(analyzed).filter(([key, value]) => {
+      const current = job[key as keyof JobPosting];
+      const isEmpty =
+        current == null ||
+        current === "" ||
+        (Array.isArray(current) && current.length === 0);
+      return value != null && isEmpty;
+    })
+  ) as Partial<JobPosting>;
+
+export function JobImportDialog({ open, onOpenChange }: JobImportDialogProps) {
+  const {
+    jobPostings,
+    subscription,
+    importJobPostings,
+    updateJobPosting,
+    addJobPostingSnapshot,
+  } = useData();
+  const [step, setStep] = useState<Step>("upload");
+  const [fileName, setFileName] = useState("");
+  const [rows, setRows] = useState<SheetRows>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>([]);
+  const [includeDuplicates, setIncludeDuplicates] = useState(false);
+  const [analyzeUrls, setAnalyzeUrls] = useState(false);
+  const [isReadingFile, setIsReadingFile] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [analysisProgress, setAnalysisProgress] = useState({ done: 0, total: 0 });
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const reset = () => {
+    setStep("upload");
+    setRows([]);
+    setMapping([]);
+    setIncludeDuplicates(false);
+    setAnalyzeUrls(false);
+  };
+
+  // 분석 중에는 닫았다 다시 열어도 진행 상황을 보여줌
+  const handleOpenChange = (next: boolean) => {
+    if (!next && step !== "analyzing") reset();
+    onOpenChange(next);
+  };
+
+  const headers = rows[0]?.cells ?? [];
+  const isCompanyMapped = mapping.includes("companyName");
+
+  // 저장 전 미리보기 (dry-run)
+  const preview = useMemo(
+    () =>
+      step === "preview" ? buildImportPreview(rows, mapping, jobPostings) : [],
+    [step, rows, mapping, jobPostings]
+  );
+  const importable = preview.filter(
+    (row) => !row.error && (includeDuplicates || !row.duplicate)
+  );
+  const remainingSlots = subscription
+    ? Math.max(0, subscription.jobLimit - jobPostings.length)
+    : 0;
+  const toImport = importable.slice(0, remainingSlots);
+  const urlCount = toImport.filter((row) => row.posting.sourceUrl).length;
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (fileInputRef.current) fileInputRef.current.value = "";
+    if (!file) return;
+
+    setIsReadingFile(true);
+    try {
+      const parsed = await parseSpreadsheetFile(file);
+      if (parsed.length < 2) {
+        toast.error("헤더 행과 공고가 한 줄 이상 있어야 합니다");
+        return;
+      }
+      setFileName(file.name);
+      setRows(parsed);
+      setMapping(guessColumnMapping(parsed[0].cells));
+      setStep("mapping");
+    } catch (error) {
+      console.error("Spreadsheet parse error:", error);
+      toast.error(
+        error instanceof Error ? error.message : "파일을 읽을 수 없습니다"
+      );
+    } finally {
+      setIsReadingFile(false);
+    }
+  };
+
+  const handleMappingChange = (column: number, value: string) => {
+    const field = value === UNMAPPED ? null : (value as ImportField);
+    // 같은 필드를 다른 열에 이미 매핑했다면 그 열은 해제
+    setMapping((prev) =>
+      prev.map((f, i) => (i === column ? field : f === field ? null : f))
+    );
+  };
+
+  // URL이 있는 공고를 하나씩 analyze-job으로 분석해 빈 필드 채우기
+  const analyzeImported = async (imported: JobPosting[]) => {
+    const targets = imported.filter((job) => job.sourceUrl);
+    setStep("analyzing");
+    setAnalysisProgress({ done: 0, total: targets.length });
+
+    let failed = 0;
+    for (const [index, job] of targets.entries()) {
+      try {
+        const { data, error } = await supabase.functions.invoke("analyze-job", {
+          body: { url: job.sourceUrl },
+        });
+        if (error) {
+          throw new Error(
+            await getFunctionErrorMessage(error, "공고 분석에 실패했습니다.")
+          );
+        }
+        if (!data?.success) {
+          throw new Error(data?.error || "공고 분석에 실패했습니다.");
+        }
+
+        await updateJobPosting(
+          job.id,
+          fillEmptyFields(job, mapAnalyzedJobFields(data.data))
+        );
+        if (data.data.snapshot?.content) {
+          await addJobPostingSnapshot({
+            jobPostingId: job.id,
+            sourceUrl: job.sourceUrl,
+            title: data.data.snapshot.title ?? undefined,
+            content: data.data.snapshot.content,
+            source: data.data.snapshot.source,
+            jsonLd: data.data.snapshot.jsonLd ?? undefined,
+          });
+        }
+      } catch (error) {
+        console.error(`Import analysis failed for ${job.sourceUrl}:`, error);
+        failed += 1;
+      }
+      setAnalysisProgress({ done: index + 1, total: targets.length });
+    }
+
+    if (failed > 0) {
+      toast.error(
+        `${targets.length - failed}개 분석 완료, ${failed}개는 분석하지 못했습니다. 공고 상세에서 다시 분석할 수 있습니다`
+      );
+    } else {
+      toast.success(`가져온 공고 ${targets.length}개의 분석을 마쳤습니다`);
+    }
+    reset();
+    onOpenChange(false);
+  };
+
+  const handleImport = async () => {
+    if (toImport.length === 0) return;
+
+    setIsImporting(true);
+    const imported = await importJobPostings(toImport.map((row) => row.posting));
+    setIsImporting(false);
+    if (imported.length === 0) return;
+
+    toast.success(`${imported.length}개 공고를 가져왔습니다`);
+    if (analyzeUrls && urlCount > 0) {
+      await analyzeImported(imported);
+    } else {
+      handleOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-[90%] rounded-2xl sm:max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>스프레드시트에서 가져오기</DialogTitle>
+          <DialogDescription>
+            엑셀·구글 시트로 관리하던 지원 현황(CSV, XLSX)을 보드로 옮깁니다.
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "upload" && (
+          <div className="pt-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.tsv,.xlsx"
+              className="hidden"
+              onChange={handleFileChange}
+            />
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isReadingFile}
+              className="w-full rounded-xl border-2 border-dashed border-border py-10 flex flex-col items-center gap-2 text-muted-foreground hover:border-primary/40 hover:text-foreground transition-colors"
+            >
+              {isReadingFile ? (
+                <Loader2 className="w-6 h-6 animate-spin" />
+              ) : (
+                <FileSpreadsheet className="w-6 h-6" />
+              )}
+              <span className="text-sm font-medium">CSV 또는 XLSX 파일 선택</span>
+              <span className="text-xs">
+                첫 행은 헤더(회사, 공고명, 상태, URL 등)여야 합니다. XLSX는 첫 번째
+                시트만 읽습니다.
+              </span>
+            </button>
+          </div>
+        )}
+
+        {step === "mapping" && (
+          <div className="space-y-4 pt-2">
+            <p className="text-xs text-muted-foreground">
+              {fileName} · 공고 {rows.length - 1}행. 각 열을 어떤 항목으로
+              가져올지 확인해주세요.
+            </p>
+            <ul className="space-y-2">
+              {headers.map((header, column) => (
+                <li
+                  key={column}
+                  className="flex items-center gap-3 rounded-lg bg-secondary/30 px-3 py-2"
+                >
+                  <div className="min-w-0 flex-1">
+                    <p className="text-sm font-medium truncate">
+                      {header || `${column + 1}번째 열`}
+                    </p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      예: {rows[1]?.cells[column] || "-"}
+                    </p>
+                  </div>
+                  <Select
+                    value={mapping[column] ?? UNMAPPED}
+                    onValueChange={(v) => handleMappingChange(column, v)}
+                  >
+                    <SelectTrigger className="h-8 w-36 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNMAPPED} className="text-xs">
+                        가져오지 않음
+                      </SelectItem>
+                      {(Object.keys(IMPORT_FIELDS) as ImportField[]).map(
+                        (field) => (
+                          <SelectItem key={field} value={field} className="text-xs">
+                            {IMPORT_FIELDS[field].label}
+                          </SelectItem>
+                        )
+                      )}
+                    </SelectContent>
+                  </Select>
+                </li>
+              ))}
+            </ul>
+            {!isCompanyMapped && (
+              <p className="text-xs text-destructive flex items-center gap-1">
+                <AlertCircle className="w-3.5 h-3.5" />
+                회사 열을 지정해야 가져올 수 있습니다
+              </p>
+            )}
+            <div className="flex gap-2 pt-2">
+              <Button
+                variant="outline"
+                className="flex-1"
+                onClick={() => setStep("upload")}
+              >
+                다른 파일
+              </Button>
+              <Button
+                className="flex-1"
+                onClick={() => setStep("preview")}
+                disabled={!isCompanyMapped}
+              >
+                미리보기
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === "preview" && (
+          <div className="space-y-4 pt-2">
+            <div className="flex flex-wrap gap-2 text-xs">
+              <Badge variant="secondary">
+                가져올 공고 {importable.length}개
+              </Badge>
+              <Badge variant="outline">
+                중복 {preview.filter((r) => r.duplicate).length}개
+              </Badge>
+              <Badge variant="outline" className="text-destructive">
+                오류 {preview.filter((r) => r.error).length}개
+              </Badge>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              아직 저장되지 않았습니다. 같은 URL 또는 같은 회사·공고명이 이미 보드에
+              있거나 파일 안에서 반복되면 중복으로 표시합니다.
+            </p>
+
+            <div className="rounded-lg border border-border divide-y divide-border max-h-[40vh] overflow-y-auto">
+              {preview.map((row) => (
+                <div
+                  key={row.rowNumber}
+                  className={cn(
+                    "px-3 py-2 space-y-1",
+                    (row.error || (row.duplicate && !includeDuplicates)) &&
+                      "opacity-50"
+                  )}
+                >
+                  <div className="flex items-center gap-2">
+                    <span className="text-[10px] text-muted-foreground w-8 shrink-0">
+                      {row.rowNumber}행
+                    </span>
+                    <Badge
+                      className={cn(
+                        "text-[10px] shrink-0",
+                        STATUS_COLORS[row.posting.status]
+                      )}
+                    >
+                      {STATUS_LABELS[row.posting.status]}
+                    </Badge>
+                    <span className="text-sm truncate">
+                      <span className="font-medium">
+                        {row.posting.companyName || "회사명 없음"}
+                      </span>{" "}
+                      · {row.posting.title}
+                    </span>
+                    {row.duplicate && (
+                      <Badge variant="outline" className="text-[10px] ml-auto shrink-0">
+                        {row.duplicate === "existing" ? "이미 있음" : "파일 내 중복"}
+                      </Badge>
+                    )}
+                  </div>
+                  {row.error && (
+                    <p className="text-xs text-destructive pl-10">{row.error}</p>
+                  )}
+                  {row.warnings.map((warning) => (
+                    <p key={warning} className="text-xs text-warning pl-10">
+                      {warning}
+                    </p>
+                  ))}
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="importIncludeDuplicates"
+                  checked={includeDuplicates}
+                  onCheckedChange={(checked) => setIncludeDuplicates(!!checked)}
+                />
+                <Label htmlFor="importIncludeDuplicates" className="text-sm font-normal">
+                  중복 공고도 가져오기
+                </Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="importAnalyzeUrls"
+                  checked={analyzeUrls}
+                  disabled={urlCount === 0}
+                  onCheckedChange={(checked) => setAnalyzeUrls(!!checked)}
+                />
+                <Label htmlFor="importAnalyzeUrls" className="text-sm font-normal">
+                  URL이 있는 공고 {urlCount}개를 가져온 뒤 AI로 분석
+                </Label>
+              </div>
+            </div>
+
+            {importable.length > remainingSlots && (
+              <p className="text-xs text-warning flex items-center gap-1">
+                <AlertCircle className="w-3.5 h-3.5 shrink-0" />
+                현재 요금제로는 {remainingSlots}개까지만 추가할 수 있어 앞의{" "}
+                {remainingSlots}개만 가져옵니다
+              </p>
+            )}
+
+            <div className="flex gap-2 pt-2">
+              <Button
+                variant="outline"
+                className="flex-1"
+                onClick={() => setStep("mapping")}
+                disabled={isImporting}
+              >
+                매핑 수정
+              </Button>
+              <Button
+                className="flex-1"
+                onClick={handleImport}
+                disabled={toImport.length === 0 || isImporting}
+              >
+                {isImporting ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <Upload className="w-4 h-4 mr-2" />
+                )}
+                {toImport.length}개 가져오기
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === "analyzing" && (
+          <div className="space-y-3 pt-2">
+            <p className="text-sm">
+              가져온 공고를 분석하고 있습니다 ({analysisProgress.done}/
+              {analysisProgress.total})
+            </p>
+            <Progress
+              value={
+                analysisProgress.total > 0
+                  ? (analysisProgress.done / analysisProgress.total) * 100
+                  : 0
+              }
+            />
+            <p className="text-xs text-muted-foreground">
+              창을 닫아도 분석은 계속 진행됩니다.
+            </p>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,403 @@
+import { useEffect, useState } from "react";
+import {
+  BellRing,
+  Linkedin,
+  Mail,
+  NotebookPen,
+  Plus,
+  Trash2,
+} from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useData } from "@/contexts/DataContext";
+import {
+  JobContact,
+  JobContactRole,
+  JobPosting,
+  JOB_CONTACT_ROLE_LABELS,
+} from "@/types/job";
+
+interface JobNotesSectionProps {
+  job: JobPosting;
+}
+
+// YYYY-MM-DD (로컬 기준 오늘)
+const todayString = () => {
+  const now = new Date();
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+};
+
+const formatShortDate = (date: string) => {
+  const [, month, day] = date.split("-");
+  return `${Number(month)}/${Number(day)}`;
+};
+
+export function JobNotesSection({ job }: JobNotesSectionProps) {
+  const { jobContacts, removeJobContact, updateJobPosting } = useData();
+  const [notes, setNotes] = useState(job.notes ?? "");
+  const [editingContact, setEditingContact] = useState<JobContact | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+
+  // 다른 곳(되돌리기 등)에서 메모가 바뀌면 반영
+  useEffect(() => {
+    setNotes(job.notes ?? "");
+  }, [job.notes]);
+
+  const contacts = jobContacts.filter((c) => c.jobPostingId === job.id);
+  const today = todayString();
+
+  const handleNotesBlur = () => {
+    if (notes.trim() === (job.notes ?? "").trim()) return;
+    updateJobPosting(job.id, { notes: notes.trim() }, { history: "detail" });
+  };
+
+  const openDialog = (contact: JobContact | null) => {
+    setEditingContact(contact);
+    setIsDialogOpen(true);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <div className="flex items-center gap-2">
+          <NotebookPen className="w-4 h-4 text-muted-foreground" />
+          <span className="text-sm font-semibold">메모</span>
+        </div>
+        <Textarea
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          onBlur={handleNotesBlur}
+          placeholder="회사 분위기, 지원 동기, 준비할 내용 등을 자유롭게 적어두세요"
+          className="min-h-[96px] text-sm"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-semibold">연락처</span>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 gap-1 text-xs"
+            onClick={() => openDialog(null)}
+          >
+            <Plus className="w-3.5 h-3.5" />
+            연락처 추가
+          </Button>
+        </div>
+
+        {contacts.length === 0 ? (
+          <p className="text-xs text-muted-foreground">
+            리크루터나 추천인 연락처를 기록해두면 팔로업을 놓치지 않아요.
+          </p>
+        ) : (
+          <ul className="space-y-2">
+            {contacts.map((contact) => {
+              const isFollowUpDue =
+                !!contact.nextFollowUpAt && contact.nextFollowUpAt <= today;
+              return (
+                <li
+                  key={contact.id}
+                  onClick={() => openDialog(contact)}
+                  className={cn(
+                    "rounded-lg p-3 space-y-1.5 cursor-pointer transition-colors hover:bg-secondary/60",
+                    isFollowUpDue
+                      ? "bg-warning/10 border border-warning/30"
+                      : "bg-secondary/30"
+                  )}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <span className="text-sm font-medium truncate">
+                        {contact.name}
+                      </span>
+                      <Badge variant="outline" className="text-[10px]">
+                        {JOB_CONTACT_ROLE_LABELS[contact.role]}
+                      </Badge>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="w-7 h-7 shrink-0"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        removeJobContact(contact.id);
+                      }}
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </Button>
+                  </div>
+                  <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs text-muted-foreground">
+                    {contact.email && (
+                      <a
+                        href={`mailto:${contact.email}`}
+                        onClick={(e) => e.stopPropagation()}
+                        className="flex items-center gap-1 hover:underline"
+                      >
+                        <Mail className="w-3 h-3" />
+                        {contact.email}
+                      </a>
+                    )}
+                    {contact.linkedinUrl && (
+                      <a
+                        href={contact.linkedinUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        onClick={(e) => e.stopPropagation()}
+                        className="flex items-center gap-1 text-primary hover:underline"
+                      >
+                        <Linkedin className="w-3 h-3" />
+                        LinkedIn
+                      </a>
+                    )}
+                    {contact.lastContactedAt && (
+                      <span>
+                        마지막 연락 {formatShortDate(contact.lastContactedAt)}
+                      </span>
+                    )}
+                    {contact.nextFollowUpAt && (
+                      <span
+                        className={cn(
+                          "flex items-center gap-1",
+                          isFollowUpDue && "text-warning font-medium"
+                        )}
+                      >
+                        <BellRing className="w-3 h-3" />
+                        팔로업 {formatShortDate(contact.nextFollowUpAt)}
+                      </span>
+                    )}
+                  </div>
+                  {contact.notes && (
+                    <p className="text-xs whitespace-pre-wrap">{contact.notes}</p>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+
+      <JobContactDialog
+        jobPostingId={job.id}
+        contact={editingContact}
+        open={isDialogOpen}
+        onOpenChange={setIsDialogOpen}
+      />
+    </div>
+  );
+}
+
+interface JobContactDialogProps {
+  jobPostingId: string;
+  contact: JobContact | null; // null이면 새 연락처
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const emptyForm = {
+  name: "",
+  role: "recruiter" as JobContactRole,
+  email: "",
+  linkedinUrl: "",
+  lastContactedAt: "",
+  nextFollowUpAt: "",
+  notes: "",
+};
+
+function JobContactDialog({
+  jobPostingId,
+  contact,
+  open,
+  onOpenChange,
+}: JobContactDialogProps) {
+  const { addJobContact, updateJobContact } = useData();
+  const [formData, setFormData] = useState(emptyForm);
+
+  useEffect(() => {
+    if (!open) return;
+    setFormData(
+      contact
+        ? {
+            name: contact.name,
+            role: contact.role,
+            email: contact.email ?? "",
+            linkedinUrl: contact.linkedinUrl ?? "",
+            lastContactedAt: contact.lastContactedAt ?? "",
+            nextFollowUpAt: contact.nextFollowUpAt ?? "",
+            notes: contact.notes ?? "",
+          }
+        : emptyForm
+    );
+  }, [open, contact]);
+
+  const handleSave = async () => {
+    const name = formData.name.trim();
+    if (!name) {
+      toast.error("이름을 입력해주세요");
+      return;
+    }
+    const linkedinUrl = formData.linkedinUrl.trim();
+    if (linkedinUrl && !/^https?:\/\//i.test(linkedinUrl)) {
+      toast.error("LinkedIn 주소는 http(s)://로 시작해야 합니다");
+      return;
+    }
+
+    const values = {
+      name,
+      role: formData.role,
+      email: formData.email.trim(),
+      linkedinUrl,
+      lastContactedAt: formData.lastContactedAt,
+      nextFollowUpAt: formData.nextFollowUpAt,
+      notes: formData.notes.trim(),
+    };
+
+    if (contact) {
+      await updateJobContact(contact.id, values);
+    } else {
+      await addJobContact({
+        jobPostingId,
+        name: values.name,
+        role: values.role,
+        email: values.email || undefined,
+        linkedinUrl: values.linkedinUrl || undefined,
+        lastContactedAt: values.lastContactedAt || undefined,
+        nextFollowUpAt: values.nextFollowUpAt || undefined,
+        notes: values.notes || undefined,
+      });
+    }
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-[90%] rounded-2xl sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{contact ? "연락처 수정" : "연락처 추가"}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 pt-2">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="contactName">이름</Label>
+              <Input
+                id="contactName"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>관계</Label>
+              <Select
+                value={formData.role}
+                onValueChange={(v) =>
+                  setFormData({ ...formData, role: v as JobContactRole })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(JOB_CONTACT_ROLE_LABELS).map(([key, label]) => (
+                    <SelectItem key={key} value={key}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="contactEmail">이메일</Label>
+            <Input
+              id="contactEmail"
+              type="email"
+              value={formData.email}
+              onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="contactLinkedin">LinkedIn</Label>
+            <Input
+              id="contactLinkedin"
+              value={formData.linkedinUrl}
+              placeholder="https://www.linkedin.com/in/..."
+              onChange={(e) =>
+                setFormData({ ...formData, linkedinUrl: e.target.value })
+              }
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="contactLastContacted">마지막 연락일</Label>
+              <Input
+                id="contactLastContacted"
+                type="date"
+                value={formData.lastContactedAt}
+                onChange={(e) =>
+                  setFormData({ ...formData, lastContactedAt: e.target.value })
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="contactFollowUp">다음 팔로업</Label>
+              <Input
+                id="contactFollowUp"
+                type="date"
+                value={formData.nextFollowUpAt}
+                onChange={(e) =>
+                  setFormData({ ...formData, nextFollowUpAt: e.target.value })
+                }
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="contactNotes">메모</Label>
+            <Textarea
+              id="contactNotes"
+              value={formData.notes}
+              rows={3}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+            />
+          </div>
+
+          <div className="flex gap-2 pt-2">
+            <Button
+              variant="outline"
+              className="flex-1"
+              onClick={() => onOpenChange(false)}
+            >
+              취소
+            </Button>
+            <Button className="flex-1" onClick={handleSave}>
+              저장
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,10 +1,12 @@
 import { useState, useRef, useEffect } from "react";
-import { ChevronDown, ChevronRight, ChevronLeft } from "lucide-react";
+import { ChevronDown, ChevronRight, ChevronLeft, CalendarClock } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { JobCard } from "@/components/board/JobCard";
 import { JobDetailDialog } from "@/components/board/JobDetailDialog";
 import { JobPosting, JobStatus, STATUS_LABELS } from "@/types/job";
 import { STATUS_ORDER } from "@/components/board/constants";
+import { useData } from "@/contexts/DataContext";
+import { formatInterviewDateTime, getUpcomingInterview } from "@/lib/interviewRounds";
 
 interface KanbanViewProps {
   groupedByStatus: Record<JobStatus, JobPosting[]>;
@@ -25,6 +27,16 @@ export function KanbanView({
   const [canScrollLeft, setCanScrollLeft] = useState(false);
   const [canScrollRight, setCanScrollRight] = useState(false);
 
+  const { interviewRounds } = useData();
+
+  // 인터뷰 컬럼 헤더에 표시할 가장 가까운 인터뷰
+  const interviewJobIds = new Set(
+    (groupedByStatus.interview ?? []).map((job) => job.id)
+  );
+  const nextInterview = getUpcomingInterview(
+    interviewRounds.filter((r) => interviewJobIds.has(r.jobPostingId))
+  );
+
   const selectedJob = selectedJobId
     ? allJobs.find((j) => j.id === selectedJobId) ?? null
     : null;
@@ -165,6 +177,12 @@ export function KanbanView({
                     <span className="text-xs text-muted-foreground">
                       {groupedByStatus[status]?.length || 0}
                     </span>
+                    {status === "interview" && nextInterview && (
+                      <span className="ml-auto flex items-center gap-1 text-[11px] text-primary">
+                        <CalendarClock className="w-3 h-3" />
+                        {formatInterviewDateTime(nextInterview.scheduledAt!)}
+                      </span>
+                    )}
                   </div>
 
                   {/* Cards */}
@@ -0,0 +1,261 @@
+import { useMemo, useState } from "react";
+import { Check, ChevronDown, Loader2, Plus, Tags, X } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { useData } from "@/contexts/DataContext";
+import { JobKeyword, JobPosting } from "@/types/job";
+import {
+  keywordBulletDraft,
+  KeywordMatch,
+  matchKeywords,
+  requestKeywordExtraction,
+} from "@/lib/keywordGap";
+
+interface KeywordGapSectionProps {
+  job: JobPosting;
+}
+
+const IMPORTANCE_LABELS: Record<JobKeyword["importance"], string> = {
+  required: "필수",
+  preferred: "우대",
+};
+
+const CATEGORY_LABELS: Record<JobKeyword["category"], string> = {
+  skill: "기술",
+  tool: "도구",
+};
+
+// 빠진 키워드를 실제로 가진 경우 경험 하나에 bullet로 추가
+function AddToExperiencePopover({ keyword, language }: { keyword: JobKeyword; language: "ko" | "en" }) {
+  const { experiences, updateExperience } = useData();
+  const [open, setOpen] = useState(false);
+  const [experienceId, setExperienceId] = useState("");
+  const [bullet, setBullet] = useState("");
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (next) {
+      setExperienceId(experiences[0]?.id ?? "");
+      setBullet(keywordBulletDraft(keyword, language));
+    }
+  };
+
+  const handleAdd = async () => {
+    const experience = experiences.find((e) => e.id === experienceId);
+    if (!experience || !bullet.trim()) return;
+    await updateExperience(experience.id, { bullets: [...experience.bullets, bullet.trim()] });
+    toast.success(`'${experience.title}'에 추가했습니다. 경력 탭에서 성과를 구체적으로 보완해주세요.`);
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 px-1.5 text-[11px]"
+          disabled={experiences.length === 0}
+          title={experiences.length === 0 ? "경력 탭에서 경험을 먼저 등록하세요" : undefined}
+        >
+          <Plus className="w-3 h-3 mr-0.5" />
+          경험에 추가
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 space-y-2">
+        <p className="text-xs text-muted-foreground">
+          &apos;{keyword.term}&apos; 경험이 있다면 어느 경험에 적을지 고르세요.
+        </p>
+        <Select value={experienceId} onValueChange={setExperienceId}>
+          <SelectTrigger className="h-8 text-xs">
+            <SelectValue placeholder="경험 선택" />
+          </SelectTrigger>
+          <SelectContent>
+            {experiences.map((exp) => (
+              <SelectItem key={exp.id} value={exp.id} className="text-xs">
+                {exp.company ? `${exp.title} @ ${exp.company}` : exp.title}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          value={bullet}
+          onChange={(e) => setBullet(e.target.value)}
+          className="h-8 text-xs"
+          placeholder="추가할 성과 한 줄"
+        />
+        <Button size="sm" className="w-full h-8" onClick={handleAdd} disabled={!experienceId || !bullet.trim()}>
+          추가
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+function KeywordRow({ match, language }: { match: KeywordMatch; language: "ko" | "en" }) {
+  const { keyword, evidence } = match;
+  const matched = evidence.length > 0;
+  // 같은 경험에서 여러 줄이 맞아도 한 번만 표시
+  const byExperience = [...new Map(evidence.map((e) => [e.experienceId, e])).values()];
+
+  return (
+    <div className="grid grid-cols-[minmax(0,1fr)_minmax(0,1.4fr)] gap-2 items-start py-1.5 border-b border-border/50 last:border-0">
+      <div className="flex items-center gap-1.5 min-w-0">
+        {matched ? (
+          <Check className="w-3.5 h-3.5 shrink-0 text-success" />
+        ) : (
+          <X className="w-3.5 h-3.5 shrink-0 text-destructive" />
+        )}
+        <span className="text-sm break-words [overflow-wrap:anywhere]">{keyword.term}</span>
+        <Badge variant="outline" className="text-[10px] px-1 py-0 h-4 shrink-0">
+          {CATEGORY_LABELS[keyword.category]}
+        </Badge>
+      </div>
+      <div className="flex flex-wrap items-center gap-1 min-w-0">
+        {matched ? (
+          byExperience.map((e) => (
+            <Tooltip key={e.experienceId}>
+              <TooltipTrigger asChild>
+                <Badge variant="secondary" className="text-[10px] max-w-full truncate cursor-default">
+                  {e.experienceTitle}
+                </Badge>
+              </TooltipTrigger>
+              <TooltipContent className="max-w-xs text-xs">{e.text}</TooltipContent>
+            </Tooltip>
+          ))
+        ) : (
+          <>
+            <span className="text-xs text-muted-foreground">경험에 없음</span>
+            <AddToExperiencePopover keyword={keyword} language={language} />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/** 공고 키워드 추출 + 경험 라이브러리와의 보유/누락 매트릭스 */
+export function KeywordGapSection({ job }: KeywordGapSectionProps) {
+  const { experiences, updateJobPosting, getLatestJobPostingSnapshot } = useData();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isExtracting, setIsExtracting] = useState(false);
+
+  const keywords = useMemo(() => job.keywords ?? [], [job.keywords]);
+  const language = job.language ?? "ko";
+  const matches = useMemo(() => matchKeywords(keywords, experiences), [keywords, experiences]);
+
+  const groups = (["required", "preferred"] as const)
+    .map((importance) => {
+      const rows = matches.filter((m) => m.keyword.importance === importance);
+      return { importance, rows, matched: rows.filter((m) => m.evidence.length > 0).length };
+    })
+    .filter((group) => group.rows.length > 0);
+  const matchedCount = matches.filter((m) => m.evidence.length > 0).length;
+
+  const handleExtract = async () => {
+    setIsExtracting(true);
+    try {
+      const snapshot = await getLatestJobPostingSnapshot(job.id);
+      const extracted = await requestKeywordExtraction(job, snapshot?.content);
+      updateJobPosting(job.id, { keywords: extracted });
+      setIsOpen(true);
+      toast.success(`키워드 ${extracted.length}개를 추출했습니다`);
+    } catch (error) {
+      console.error("Keyword extraction error:", error);
+      toast.error(error instanceof Error ? error.message : "키워드 추출 중 오류가 발생했습니다");
+    } finally {
+      setIsExtracting(false);
+    }
+  };
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+      <CollapsibleTrigger asChild>
+        <Button
+          variant="ghost"
+          className="w-full justify-between px-0 h-auto py-2 hover:bg-accent hover:text-accent-foreground"
+        >
+          <div className="flex items-center gap-2">
+            <Tags className="w-4 h-4 text-primary" />
+            <span className="text-sm font-semibold">키워드 갭 분석</span>
+          </div>
+          <div className="flex items-center gap-2">
+            {keywords.length > 0 && (
+              <span className="text-sm font-bold text-primary">
+                {matchedCount}/{keywords.length}
+              </span>
+            )}
+            <ChevronDown
+              className={cn(
+                "w-4 h-4 text-muted-foreground transition-transform",
+                isOpen && "rotate-180"
+              )}
+            />
+          </div>
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-3 pt-2">
+        <p className="text-xs text-muted-foreground">
+          공고에서 필수·우대 기술과 도구를 뽑아 경험의 설명·성과와 비교합니다. 빠진 항목 중 실제로 해본 것은 경험에 바로 추가하세요. 추출할 때 AI 크레딧 1회가 사용됩니다.
+        </p>
+        <Button
+          variant="outline"
+          size="sm"
+          className="w-full"
+          onClick={handleExtract}
+          disabled={isExtracting}
+        >
+          {isExtracting ? (
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          ) : (
+            <Tags className="w-4 h-4 mr-2" />
+          )}
+          {keywords.length > 0 ? "키워드 다시 추출하기" : "공고 키워드 추출하기"}
+        </Button>
+
+        {groups.map((group) => (
+          <div key={group.importance} className="bg-secondary/30 rounded-lg p-3">
+            <div className="flex items-center justify-between mb-1">
+              <h4 className="text-xs font-semibold">{IMPORTANCE_LABELS[group.importance]}</h4>
+              <span className="text-xs text-muted-foreground">
+                보유 {group.matched} / {group.rows.length}
+              </span>
+            </div>
+            <div className="grid grid-cols-[minmax(0,1fr)_minmax(0,1.4fr)] gap-2 text-[11px] text-muted-foreground pb-1 border-b border-border">
+              <span>키워드</span>
+              <span>매칭된 경험</span>
+            </div>
+            {group.rows.map((match) => (
+              <KeywordRow key={match.keyword.term} match={match} language={language} />
+            ))}
+          </div>
+        ))}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,207 @@
+import { useEffect, useRef, useState } from 'react';
+import { ClipboardPaste, Paperclip, Loader2, ArrowRight, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { extractTextFromPdf, renderPdfToImageDataUrls } from '@/lib/pdfParser';
+
+export interface PostingInput {
+  postingText?: string;
+  postingImages?: string[];
+}
+
+interface PostingInputDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  initialText?: string;
+  sourceUrl?: string | null;
+  isProcessing: boolean;
+  onSubmit: (input: PostingInput) => void;
+}
+
+// 서버(analyze-job)와 동일한 한도
+const MAX_POSTING_IMAGES = 6;
+const MAX_IMAGE_FILE_SIZE = 5 * 1024 * 1024;
+
+const readFileAsDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+export function PostingInputDialog({
+  open,
+  onOpenChange,
+  initialText,
+  sourceUrl,
+  isProcessing,
+  onSubmit,
+}: PostingInputDialogProps) {
+  const [text, setText] = useState('');
+  const [images, setImages] = useState<string[]>([]);
+  const [attachedFileName, setAttachedFileName] = useState<string | null>(null);
+  const [isReadingFile, setIsReadingFile] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (open) {
+      setText(initialText ?? '');
+      setImages([]);
+      setAttachedFileName(null);
+    }
+  }, [open, initialText]);
+
+  const clearAttachment = () => {
+    setImages([]);
+    setAttachedFileName(null);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  // 공고 PDF → 텍스트 추출, 텍스트가 거의 없으면(스캔본 등) 페이지 이미지로 전달
+  // 공고 스크린샷 → 이미지 그대로 전달
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setIsReadingFile(true);
+    try {
+      if (file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf')) {
+        let pdfText = '';
+        try {
+          pdfText = await extractTextFromPdf(file);
+        } catch (err) {
+          console.error('Failed to extract PDF text:', err);
+        }
+
+        if (pdfText.trim().length >= 80) {
+          setText((prev) => (prev.trim() ? `${prev}\n\n${pdfText}` : pdfText));
+          setImages([]);
+        } else {
+          const pageImages = await renderPdfToImageDataUrls(file, {
+            maxPages: MAX_POSTING_IMAGES,
+            scale: 2,
+            format: 'png',
+          });
+          setImages(pageImages);
+        }
+      } else if (file.type.startsWith('image/')) {
+        if (file.size > MAX_IMAGE_FILE_SIZE) {
+          toast.error('이미지 파일은 5MB 이하만 업로드할 수 있습니다');
+          return;
+        }
+        setImages([await readFileAsDataUrl(file)]);
+      } else {
+        toast.error('PDF 또는 이미지 파일만 업로드할 수 있습니다');
+        return;
+      }
+      setAttachedFileName(file.name);
+    } catch (err) {
+      console.error('Failed to read posting file:', err);
+      toast.error('파일을 읽는 중 오류가 발생했습니다');
+      clearAttachment();
+    } finally {
+      setIsReadingFile(false);
+    }
+  };
+
+  const canSubmit = (text.trim().length > 0 || images.length > 0) && !isProcessing && !isReadingFile;
+
+  const handleSubmit = () => {
+    if (!canSubmit) return;
+    onSubmit({
+      postingText: text.trim() || undefined,
+      postingImages: images.length > 0 ? images : undefined,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-[92%] lg:max-w-[600px] max-h-[85vh] rounded-2xl flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ClipboardPaste className="w-5 h-5" />
+            공고 내용으로 추가
+          </DialogTitle>
+          <DialogDescription>
+            공고 페이지의 본문을 복사해 붙여넣거나, 공고 PDF·스크린샷을 첨부해주세요.
+          </DialogDescription>
+        </DialogHeader>
+
+        {sourceUrl && (
+          <p className="text-xs text-muted-foreground truncate">출처: {sourceUrl}</p>
+        )}
+
+        <Textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder="채용 공고 내용을 붙여넣으세요"
+          className="min-h-[200px] flex-1 text-sm"
+          disabled={isProcessing}
+        />
+
+        <div className="flex items-center gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".pdf,image/*"
+            className="hidden"
+            onChange={handleFileChange}
+          />
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isProcessing || isReadingFile}
+          >
+            {isReadingFile ? (
+              <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+            ) : (
+              <Paperclip className="w-4 h-4 mr-1" />
+            )}
+            PDF·이미지 첨부
+          </Button>
+          {attachedFileName && (
+            <div className="flex items-center gap-1 min-w-0 text-xs text-muted-foreground">
+              <span className="truncate">
+                {attachedFileName}
+                {images.length > 0 && ` (이미지 ${images.length}장)`}
+              </span>
+              <button
+                type="button"
+                onClick={clearAttachment}
+                className="shrink-0 hover:text-foreground"
+                aria-label="첨부 삭제"
+              >
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          )}
+        </div>
+
+        <Button className="w-full" onClick={handleSubmit} disabled={!canSubmit}>
+          {isProcessing ? (
+            <>
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              분석 중...
+            </>
+          ) : (
+            <>
+              공고 분석하기
+              <ArrowRight className="w-4 h-4 ml-2" />
+            </>
+          )}
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,110 @@
+import { useEffect, useState } from 'react';
+import { FileText, Loader2, Copy } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useData } from '@/contexts/DataContext';
+import { JobPostingSnapshot } from '@/types/job';
+
+interface PostingSnapshotDialogProps {
+  jobPostingId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+  manual: '직접 입력',
+  firecrawl: '웹 페이지',
+  greenhouse: 'Greenhouse',
+  lever: 'Lever',
+  ashby: 'Ashby',
+  wanted: '원티드',
+  saramin: '사람인',
+  jobkorea: '잡코리아',
+  linkedin: 'LinkedIn',
+};
+
+export function PostingSnapshotDialog({ jobPostingId, open, onOpenChange }: PostingSnapshotDialogProps) {
+  const { getLatestJobPostingSnapshot } = useData();
+  const [snapshot, setSnapshot] = useState<JobPostingSnapshot | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setIsLoading(true);
+    getLatestJobPostingSnapshot(jobPostingId)
+      .then((result) => {
+        if (!cancelled) setSnapshot(result);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, jobPostingId, getLatestJobPostingSnapshot]);
+
+  const handleCopy = async () => {
+    if (!snapshot) return;
+    await navigator.clipboard.writeText(snapshot.content);
+    toast.success('공고 원문이 복사되었습니다');
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-[92%] lg:max-w-[700px] max-h-[85vh] rounded-2xl flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileText className="w-5 h-5" />
+            원문 공고
+          </DialogTitle>
+          <DialogDescription>
+            분석 당시 가져온 공고 내용입니다. 공고가 내려가도 여기서 확인할 수 있어요.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : !snapshot ? (
+          <p className="py-12 text-center text-sm text-muted-foreground">
+            저장된 공고 원문이 없습니다.
+          </p>
+        ) : (
+          <>
+            <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+              <span className="truncate">
+                {SOURCE_LABELS[snapshot.source] ?? snapshot.source} ·{' '}
+                {snapshot.createdAt.toLocaleDateString('ko-KR', {
+                  year: 'numeric',
+                  month: 'short',
+                  day: 'numeric',
+                })}{' '}
+                저장
+              </span>
+              <Button variant="ghost" size="sm" className="h-7 gap-1 shrink-0" onClick={handleCopy}>
+                <Copy className="w-3.5 h-3.5" />
+                복사
+              </Button>
+            </div>
+            {snapshot.title && <p className="text-sm font-medium">{snapshot.title}</p>}
+            <ScrollArea className="max-h-[55vh] rounded-lg border bg-muted/30">
+              <div className="p-4 text-sm whitespace-pre-wrap break-words leading-relaxed">
+                {snapshot.content}
+              </div>
+            </ScrollArea>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,284 @@
+import { useEffect, useMemo, useState } from 'react';
+import { RefreshCw, Loader2, ArrowRight } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { supabase } from '@/integrations/supabase/client';
+import { getFunctionErrorMessage } from '@/integrations/supabase/functionErrors';
+import { useData } from '@/contexts/DataContext';
+import { JobPosting, KeyCompetency, SALARY_PERIOD_LABELS } from '@/types/job';
+import { formatSalaryRange, mapAnalyzedJobFields } from '@/lib/jobPostingFields';
+
+interface ReanalyzeDialogProps {
+  job: JobPosting;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onApplied?: (updates: Partial<JobPosting>) => void;
+}
+
+type FieldGroup = {
+  key: string;
+  label: string;
+  fields: (keyof JobPosting)[];
+  evidence?: keyof JobPosting;
+  // NOT NULL 컬럼: 새 분석에서 값이 비면 기존 값을 그대로 둠
+  required?: boolean;
+};
+
+// 비교 단위: 값과 근거 문장은 함께 적용
+const FIELD_GROUPS: FieldGroup[] = [
+  { key: 'companyName', label: '회사명', fields: ['companyName'], required: true },
+  { key: 'title', label: '공고 제목', fields: ['title'], required: true },
+  { key: 'position', label: '포지션', fields: ['position'], required: true },
+  { key: 'minExperience', label: '최소 경력', fields: ['minExperience', 'minExperienceEvidence'], evidence: 'minExperienceEvidence' },
+  { key: 'workType', label: '근무 형태', fields: ['workType', 'workTypeEvidence'], evidence: 'workTypeEvidence' },
+  { key: 'location', label: '위치', fields: ['location', 'locationEvidence'], evidence: 'locationEvidence' },
+  { key: 'visaSponsorship', label: '비자 지원', fields: ['visaSponsorship', 'visaSponsorshipEvidence'], evidence: 'visaSponsorshipEvidence' },
+  { key: 'deadline', label: '마감일', fields: ['deadline', 'deadlineEvidence'], evidence: 'deadlineEvidence' },
+  { key: 'postedAt', label: '게시일', fields: ['postedAt', 'postedAtEvidence'], evidence: 'postedAtEvidence' },
+  {
+    key: 'salary',
+    label: '연봉',
+    fields: ['salaryMin', 'salaryMax', 'salaryCurrency', 'salaryPeriod', 'salaryEvidence'],
+    evidence: 'salaryEvidence',
+  },
+  { key: 'summary', label: '요약', fields: ['summary'] },
+  { key: 'keyCompetencies', label: '핵심 역량', fields: ['keyCompetencies'] },
+];
+
+const isEmpty = (value: unknown) =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+// 핵심 역량은 제목/설명만 비교 (적합도 점수·평가는 사용자가 입력한 값)
+const comparableValue = (field: keyof JobPosting, value: unknown) => {
+  if (isEmpty(value)) return null;
+  if (field === 'keyCompetencies') {
+    return (value as KeyCompetency[]).map((k) => ({ title: k.title, description: k.description }));
+  }
+  return value;
+};
+
+const isGroupChanged = (group: FieldGroup, current: Partial<JobPosting>, next: Partial<JobPosting>) =>
+  group.fields.some(
+    (field) =>
+      JSON.stringify(comparableValue(field, current[field])) !==
+      JSON.stringify(comparableValue(field, next[field]))
+  );
+
+// 반영할 수 있는 변경만 (필수 항목이 비어 있는 결과는 제외)
+const isApplicableChange = (group: FieldGroup, current: Partial<JobPosting>, next: Partial<JobPosting>) =>
+  isGroupChanged(group, current, next) && !(group.required && group.fields.some((field) => isEmpty(next[field])));
+
+function formatGroupValue(group: FieldGroup, job: Partial<JobPosting>): string {
+  switch (group.key) {
+    case 'salary':
+      return formatSalaryRange(job) ?? (job.salaryPeriod ? SALARY_PERIOD_LABELS[job.salaryPeriod] : '');
+    case 'visaSponsorship':
+      return job.visaSponsorship === true ? '가능' : job.visaSponsorship === false ? '불가' : '';
+    case 'keyCompetencies':
+      return (job.keyCompetencies ?? []).map((k, i) => `${i + 1}. ${k.title}`).join('\n');
+    default: {
+      const value = job[group.fields[0]];
+      return isEmpty(value) ? '' : String(value);
+    }
+  }
+}
+
+export function ReanalyzeDialog({ job, open, onOpenChange, onApplied }: ReanalyzeDialogProps) {
+  const { updateJobPosting, getLatestJobPostingSnapshot, addJobPostingSnapshot, hasAiCredits } = useData();
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [analyzed, setAnalyzed] = useState<Partial<JobPosting> | null>(null);
+  const [selectedKeys, setSelectedKeys] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (open) {
+      setAnalyzed(null);
+      setSelectedKeys([]);
+    }
+  }, [open]);
+
+  const changedGroups = useMemo(
+    () => (analyzed ? FIELD_GROUPS.filter((group) => isApplicableChange(group, job, analyzed)) : []),
+    [analyzed, job]
+  );
+
+  const handleAnalyze = async () => {
+    if (!hasAiCredits()) {
+      toast.error('AI 분석 크레딧이 부족합니다. 요금제를 업그레이드해주세요.');
+      return;
+    }
+
+    setIsAnalyzing(true);
+    try {
+      // 저장된 원문이 있으면 재스크래핑 없이 분석 (공고가 내려갔거나 수정된 경우에도 동작)
+      const snapshot = await getLatestJobPostingSnapshot(job.id);
+      if (!snapshot && !job.sourceUrl) {
+        toast.error('저장된 공고 원문이나 URL이 없어 다시 분석할 수 없습니다.');
+        return;
+      }
+
+      const { data, error } = await supabase.functions.invoke('analyze-job', {
+        body: snapshot ? { snapshotId: snapshot.id, url: job.sourceUrl } : { url: job.sourceUrl },
+      });
+
+      if (error) {
+        throw new Error(await getFunctionErrorMessage(error, '공고 분석에 실패했습니다.'));
+      }
+      if (!data?.success) {
+        throw new Error(data?.error || '공고 분석에 실패했습니다.');
+      }
+
+      if (!snapshot && data.data.snapshot?.content) {
+        await addJobPostingSnapshot({
+          jobPostingId: job.id,
+          sourceUrl: job.sourceUrl,
+          title: data.data.snapshot.title ?? undefined,
+          content: data.data.snapshot.content,
+          source: data.data.snapshot.source,
+          jsonLd: data.data.snapshot.jsonLd ?? undefined,
+        });
+      }
+
+      const next = mapAnalyzedJobFields(data.data);
+      setAnalyzed(next);
+      setSelectedKeys(FIELD_GROUPS.filter((group) => isApplicableChange(group, job, next)).map((group) => group.key));
+    } catch (error) {
+      console.error('Error re-analyzing job:', error);
+      toast.error(error instanceof Error ? error.message : '공고 분석 실패');
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  const toggleGroup = (key: string) => {
+    setSelectedKeys((prev) => (prev.includes(key) ? prev.filter((k) => k !== key) : [...prev, key]));
+  };
+
+  const handleApply = async () => {
+    if (!analyzed) return;
+
+    const updates: Partial<JobPosting> = {};
+    changedGroups
+      .filter((group) => selectedKeys.includes(group.key))
+      .forEach((group) => {
+        group.fields.forEach((field) => {
+          // 새 분석에서 빠진 값은 null로 비움
+          (updates as Record<string, unknown>)[field] = analyzed[field] ?? null;
+        });
+      });
+
+    // 역량이 바뀌면 기존 적합도 점수는 더 이상 의미가 없으므로 초기화
+    if ('keyCompetencies' in updates) {
+      updates.fitScore = null;
+    }
+
+    const saved = await updateJobPosting(job.id, updates, { history: 'reanalyze' });
+    if (!saved) return;
+    onApplied?.(updates);
+    toast.success('선택한 항목을 반영했습니다');
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isAnalyzing && onOpenChange(next)}>
+      <DialogContent className="max-w-[92%] lg:max-w-[700px] max-h-[85vh] rounded-2xl flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <RefreshCw className="w-5 h-5" />
+            공고 다시 분석
+          </DialogTitle>
+          <DialogDescription>
+            지원 상태·점수·맞춤 이력서는 그대로 두고, 바뀐 항목만 골라서 반영할 수 있어요.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!analyzed ? (
+          <div className="space-y-4 py-2">
+            <p className="text-sm text-muted-foreground">
+              저장된 공고 원문(없으면 공고 URL)으로 다시 분석합니다. AI 분석 크레딧 1회가 사용됩니다.
+            </p>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isAnalyzing}>
+                취소
+              </Button>
+              <Button onClick={handleAnalyze} disabled={isAnalyzing} className="gap-1">
+                {isAnalyzing ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+                {isAnalyzing ? '분석 중...' : '분석 시작'}
+              </Button>
+            </div>
+          </div>
+        ) : changedGroups.length === 0 ? (
+          <div className="space-y-4 py-2">
+            <p className="py-8 text-center text-sm text-muted-foreground">바뀐 내용이 없습니다.</p>
+            <div className="flex justify-end">
+              <Button variant="outline" onClick={() => onOpenChange(false)}>
+                닫기
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <>
+            <ScrollArea className="max-h-[55vh] -mx-1">
+              <div className="space-y-2 px-1">
+                {changedGroups.map((group) => {
+                  const checked = selectedKeys.includes(group.key);
+                  const before = formatGroupValue(group, job);
+                  const after = formatGroupValue(group, analyzed);
+                  const evidence = group.evidence ? analyzed[group.evidence] : undefined;
+                  return (
+                    <label
+                      key={group.key}
+                      className={cn(
+                        'flex items-start gap-3 rounded-lg border p-3 cursor-pointer transition-colors',
+                        checked ? 'border-primary/40 bg-primary/5' : 'hover:bg-muted/50'
+                      )}
+                    >
+                      <Checkbox
+                        checked={checked}
+                        onCheckedChange={() => toggleGroup(group.key)}
+                        className="mt-0.5"
+                      />
+                      <div className="flex-1 min-w-0 space-y-1">
+                        <p className="text-sm font-semibold">{group.label}</p>
+                        <div className="grid grid-cols-[1fr_auto_1fr] gap-2 text-sm items-start">
+                          <p className="text-muted-foreground line-through whitespace-pre-wrap break-words">
+                            {before || '-'}
+                          </p>
+                          <ArrowRight className="w-4 h-4 mt-0.5 text-muted-foreground" />
+                          <p className="whitespace-pre-wrap break-words">{after || '-'}</p>
+                        </div>
+                        {typeof evidence === 'string' && evidence && (
+                          <p className="text-xs text-muted-foreground italic">"{evidence}"</p>
+                        )}
+                        {group.key === 'keyCompetencies' && (
+                          <p className="text-xs text-warning">적용하면 핵심 역량 적합도 점수가 초기화됩니다.</p>
+                        )}
+                      </div>
+                    </label>
+                  );
+                })}
+              </div>
+            </ScrollArea>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => onOpenChange(false)}>
+                취소
+              </Button>
+              <Button onClick={handleApply} disabled={selectedKeys.length === 0}>
+                선택한 항목 적용 ({selectedKeys.length})
+              </Button>
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
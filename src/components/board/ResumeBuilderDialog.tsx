@@ -1,5 +1,5 @@
 import { useState, useEffect, useMemo } from 'react';
-import { JobPosting, KeyCompetency, Experience, TailoredResume } from '@/types/job';
+import { JobPosting, KeyCompetency, Experience, TailoredResume, ResumeDocument, ResumeTemplateId } from '@/types/job';
 import { cn } from '@/lib/utils';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -16,6 +16,8 @@ import { toast } from 'sonner';
 import { supabase } from '@/integrations/supabase/client';
 import { getFunctionErrorMessage } from '@/integrations/supabase/functionErrors';
 import { useData } from '@/contexts/DataContext';
+import { parseResumeDocument, resumeDocumentToText } from '@/lib/resumeDocument';
+import { RESUME_TEMPLATE_LIST } from '@/lib/resumeTemplates';
 
 interface ResumeBuilderDialogProps {
   open: boolean;
@@ -26,8 +28,6 @@ interface ResumeBuilderDialogProps {
   onNavigateToCareer?: (tailoredResumeId?: string) => void;
 }
 
-type ResumeFormat = 'consulting';
-
 function detectLanguage(text: string): 'ko' | 'en' {
   // Count Korean characters (including spaces between Korean text)
   const koreanChars = (text.match(/[가-힣ㄱ-ㅎㅏ-ㅣ]/g) || []).length;
@@ -67,15 +67,15 @@ export function ResumeBuilderDialog({
   onNavigateToCareer,
 }: ResumeBuilderDialogProps) {
   const [step, setStep] = useState(1);
-  const [selectedFormat, setSelectedFormat] = useState<ResumeFormat>('consulting');
+  const [selectedFormat, setSelectedFormat] = useState<ResumeTemplateId>('consulting');
   const [selectedExperiences, setSelectedExperiences] = useState<string[]>([]);
   const [isGenerating, setIsGenerating] = useState(false);
   const [generatedContent, setGeneratedContent] = useState<string | null>(null);
-  const [rawAIContent, setRawAIContent] = useState<string | null>(null);
+  const [generatedDocument, setGeneratedDocument] = useState<ResumeDocument | null>(null);
   const [isSaved, setIsSaved] = useState(false);
   const [lastSavedTailoredResumeId, setLastSavedTailoredResumeId] = useState<string | null>(null);
   const [abortController, setAbortController] = useState<AbortController | null>(null);
-  const { addTailoredResume, hasResumeCredits } = useData();
+  const { addTailoredResume, hasResumeCredits, getLatestJobPostingSnapshot } = useData();
 
   const hasCredits = hasResumeCredits();
 
@@ -87,10 +87,11 @@ export function ResumeBuilderDialog({
     if (open) {
       const workIds = workExperiences.map(e => e.id);
       setSelectedExperiences(workIds);
+      setSelectedFormat('consulting');
       setStep(1);
       setGeneratedContent(null);
       setAiFeedback(null);
-      setRawAIContent(null);
+      setGeneratedDocument(null);
       setIsGenerating(false);
       setIsSaved(false);
       setLastSavedTailoredResumeId(null);
@@ -141,6 +142,8 @@ export function ResumeBuilderDialog({
     try {
       // Credits are now deducted server-side in the edge function
       const selectedExps = experiences.filter(e => selectedExperiences.includes(e.id));
+      // 저장된 공고 원문이 있으면 요약보다 구체적인 근거로 함께 전달 (서버 한도 20,000자)
+      const snapshot = await getLatestJobPostingSnapshot(job.id);
 
       const { data, error } = await supabase.functions.invoke('generate-resume', {
         body: {
@@ -157,6 +160,7 @@ export function ResumeBuilderDialog({
           language,
           format: selectedFormat,
           minimumRequirementsCheck: job.minimumRequirementsCheck,
+          postingContent: snapshot?.content.slice(0, 20000),
         },
       });
 
@@ -176,9 +180,13 @@ export function ResumeBuilderDialog({
         throw new Error(data.error);
       }
 
-      setGeneratedContent(data.content);
+      const resumeDocument = parseResumeDocument(data.document);
+      if (!resumeDocument) {
+        throw new Error('이력서 생성 결과를 읽을 수 없습니다. 다시 시도해주세요.');
+      }
+      setGeneratedDocument(resumeDocument);
+      setGeneratedContent(resumeDocumentToText(resumeDocument, language));
       setAiFeedback(data.aiFeedback || null);
-      setRawAIContent(data.rawContent || null);
       setStep(2); // Now step 2 is the result
       toast.success('맞춤 이력서가 생성되었습니다');
     } catch (error) {
@@ -219,6 +227,7 @@ export function ResumeBuilderDialog({
       companyName: job.companyName,
       jobTitle: job.title,
       content: generatedContent,
+      document: generatedDocument ?? undefined,
       aiFeedback: aiFeedback || undefined,
       language,
       format: selectedFormat,
@@ -237,12 +246,44 @@ export function ResumeBuilderDialog({
     onNavigateToCareer?.(lastSavedTailoredResumeId ?? undefined);
   };
 
-  // Step1 is now experience selection (removed format selection)
+  // Step1: 템플릿·경험 선택
   const Step1 = () => (
     <div className="space-y-4">
       <div className="bg-secondary/30 rounded-lg p-3 text-sm text-muted-foreground">
         생성 언어: <span className="font-medium text-foreground">{language === 'ko' ? '국문' : '영문'}</span> (공고 언어 기반)
       </div>
+
+      <div className="space-y-2">
+        <h4 className="text-sm font-semibold">템플릿</h4>
+        <p className="text-xs text-muted-foreground">
+          생성 후에도 경력 탭 미리보기에서 바꿀 수 있습니다.
+        </p>
+        <div className="grid grid-cols-2 gap-2">
+          {RESUME_TEMPLATE_LIST.map((template) => (
+            <button
+              key={template.id}
+              type="button"
+              onClick={(e) => {
+                e.preventDefault();
+                e.stopPropagation();
+                setSelectedFormat(template.id);
+              }}
+              className={cn(
+                'rounded-lg border p-2.5 text-left transition-colors',
+                selectedFormat === template.id
+                  ? 'border-primary bg-primary/5'
+                  : 'border-border hover:bg-secondary/50'
+              )}
+            >
+              <div className="flex items-center justify-between gap-1">
+                <span className="text-sm font-medium">{template.label}</span>
+                {selectedFormat === template.id && <CheckCircle2 className="w-4 h-4 text-primary shrink-0" />}
+              </div>
+              <p className="text-[11px] text-muted-foreground mt-0.5 line-clamp-2">{template.description}</p>
+            </button>
+          ))}
+        </div>
+      </div>
       
       <div className="space-y-2">
         <h4 className="text-sm font-semibold">핵심 역량 기준</h4>
@@ -438,6 +479,7 @@ export function ResumeBuilderDialog({
                       onClick={() => {
                         setStep(1);
                         setGeneratedContent(null);
+                        setGeneratedDocument(null);
                       }}
                     >
                       다시 생성하기
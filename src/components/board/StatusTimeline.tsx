@@ -0,0 +1,130 @@
+import { useEffect, useState } from 'react';
+import { ChevronDown, GitCommitVertical, Loader2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from '@/components/ui/collapsible';
+import { useData } from '@/contexts/DataContext';
+import { JobPosting, JobStatus, JobStatusEvent, STATUS_COLORS, STATUS_LABELS } from '@/types/job';
+
+interface StatusTimelineProps {
+  job: JobPosting;
+}
+
+type TimelineStep = {
+  key: string;
+  status?: JobStatus; // 없으면 "공고 등록"
+  at: Date;
+  until?: Date; // 다음 단계로 넘어간 시점 (없으면 현재 단계)
+};
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+const daysBetween = (from: Date, to: Date) => Math.floor((to.getTime() - from.getTime()) / DAY_MS);
+
+function formatStageDuration(from: Date, until?: Date): string {
+  if (until) {
+    const days = daysBetween(from, until);
+    return days < 1 ? '하루 미만 머무름' : `${days}일 머무름`;
+  }
+  const days = daysBetween(from, new Date());
+  return days < 1 ? '현재 단계 · 오늘' : `현재 단계 · ${days}일째`;
+}
+
+// 트리거 도입 전에 등록된 공고는 등록 이벤트가 없으므로 createdAt을 시작점으로 사용
+function buildTimeline(job: JobPosting, events: JobStatusEvent[]): TimelineStep[] {
+  const steps: TimelineStep[] = [];
+  if (events.length === 0 || events[0].fromStatus !== undefined) {
+    steps.push({ key: 'created', at: new Date(job.createdAt) });
+  }
+  events.forEach((event) => {
+    steps.push({ key: event.id, status: event.toStatus, at: event.createdAt });
+  });
+  return steps.map((step, i) => ({ ...step, until: steps[i + 1]?.at }));
+}
+
+export function StatusTimeline({ job }: StatusTimelineProps) {
+  const { getJobStatusEvents } = useData();
+  const [isOpen, setIsOpen] = useState(false);
+  const [events, setEvents] = useState<JobStatusEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    setIsLoading(true);
+    getJobStatusEvents(job.id)
+      .then((result) => {
+        if (!cancelled) setEvents(result);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, job.id, job.status, getJobStatusEvents]);
+
+  const steps = buildTimeline(job, events);
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+      <CollapsibleTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 px-0 gap-1 text-xs text-muted-foreground hover:bg-transparent hover:text-foreground"
+        >
+          <GitCommitVertical className="w-3.5 h-3.5" />
+          지원 타임라인
+          <ChevronDown
+            className={cn('w-3.5 h-3.5 transition-transform', isOpen && 'rotate-180')}
+          />
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="pt-2">
+        {isLoading && events.length === 0 ? (
+          <div className="flex justify-center py-3">
+            <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <ol className="relative ml-2 border-l border-border space-y-3">
+            {steps.map((step) => (
+              <li key={step.key} className="ml-4">
+                <span
+                  className={cn(
+                    'absolute -left-[5px] mt-1.5 w-2.5 h-2.5 rounded-full border-2 border-background',
+                    step.until ? 'bg-muted-foreground/40' : 'bg-primary'
+                  )}
+                />
+                <div className="flex flex-wrap items-center gap-2">
+                  {step.status ? (
+                    <Badge className={cn('text-[10px]', STATUS_COLORS[step.status])}>
+                      {STATUS_LABELS[step.status]}
+                    </Badge>
+                  ) : (
+                    <span className="text-xs font-medium">공고 등록</span>
+                  )}
+                  <span className="text-[11px] text-muted-foreground">
+                    {step.at.toLocaleDateString('ko-KR', {
+                      year: 'numeric',
+                      month: 'short',
+                      day: 'numeric',
+                    })}
+                  </span>
+                </div>
+                <p className="text-[11px] text-muted-foreground mt-0.5">
+                  {formatStageDuration(step.at, step.until)}
+                </p>
+              </li>
+            ))}
+          </ol>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -7,11 +7,19 @@ import {
   PRIORITY_LABELS,
 } from "@/types/job";
 import { cn } from "@/lib/utils";
+import {
+  formatDday,
+  formatSalaryRange,
+  getDaysUntilDeadline,
+} from "@/lib/jobPostingFields";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
 import { useData } from "@/contexts/DataContext";
 import { JobDetailDialog } from "./JobDetailDialog";
+import { BulkActionsBar } from "./BulkActionsBar";
+import { ExportMenu } from "./ExportMenu";
 import {
   Select,
   SelectContent,
@@ -34,7 +42,14 @@ interface TableViewProps {
   jobs: JobPosting[];
 }
 
-type SortKey = "priority" | "createdAt" | "companyName" | "title";
+type SortKey =
+  | "priority"
+  | "createdAt"
+  | "companyName"
+  | "title"
+  | "deadline"
+  | "postedAt"
+  | "salary";
 type SortDirection = "asc" | "desc";
 
 const DEFAULT_COLUMNS = [
@@ -47,8 +62,21 @@ const DEFAULT_COLUMNS = [
   { key: "workType", label: "근무형태", visible: true },
   { key: "location", label: "위치", visible: true },
   { key: "visaSponsorship", label: "비자", visible: false },
+  { key: "deadline", label: "마감일", visible: true },
+  { key: "postedAt", label: "게시일", visible: false },
+  { key: "salary", label: "연봉", visible: false },
+  { key: "tags", label: "태그", visible: true },
 ];
 
+// 마감일/게시일(YYYY-MM-DD)은 문자열 비교로 정렬, 연봉은 상한 기준
+const getOptionalSortValue = (
+  job: JobPosting,
+  key: "deadline" | "postedAt" | "salary"
+): string | number | undefined =>
+  key === "salary" ? job.salaryMax ?? job.salaryMin : job[key];
+
+const formatShortDate = (value: string) => value.slice(5).replace("-", ".");
+
 export function TableView({ jobs }: TableViewProps) {
   const { updateJobPosting, jobPostings } = useData();
   const [columns, setColumns] = useState(DEFAULT_COLUMNS);
@@ -60,6 +88,10 @@ export function TableView({ jobs }: TableViewProps) {
     field: string;
   } | null>(null);
   const [selectedJobId, setSelectedJobId] = useState<string | null>(null);
+  // 일괄 작업용 행 선택 (상세 보기용 selectedJobId와 별개)
+  const [checkedIds, setCheckedIds] = useState<string[]>([]);
+  // 일괄 삭제 후 실행 취소 가능한 동안 숨겨둔 공고
+  const [pendingDeleteIds, setPendingDeleteIds] = useState<string[]>([]);
 
   const selectedJob = selectedJobId
     ? jobPostings.find((j) => j.id === selectedJobId) ?? null
@@ -67,6 +99,7 @@ export function TableView({ jobs }: TableViewProps) {
 
   const filteredJobs = jobs
     .filter((job) => statusFilter === "all" || job.status === statusFilter)
+    .filter((job) => !pendingDeleteIds.includes(job.id))
     .sort((a, b) => {
       let comparison = 0;
       switch (sortKey) {
@@ -83,12 +116,40 @@ export function TableView({ jobs }: TableViewProps) {
         case "title":
           comparison = a.title.localeCompare(b.title);
           break;
+        case "deadline":
+        case "postedAt":
+        case "salary": {
+          const aValue = getOptionalSortValue(a, sortKey);
+          const bValue = getOptionalSortValue(b, sortKey);
+          // 값이 없는 공고는 정렬 방향과 무관하게 항상 뒤로
+          if (aValue == null || bValue == null) {
+            if (aValue == null && bValue == null) return 0;
+            return aValue == null ? 1 : -1;
+          }
+          comparison = aValue < bValue ? -1 : aValue > bValue ? 1 : 0;
+          break;
+        }
       }
       return sortDirection === "asc" ? comparison : -comparison;
     });
 
   const visibleColumns = columns.filter((col) => col.visible);
 
+  // 필터/정렬로 안 보이게 된 공고는 선택에서 제외
+  const checkedJobs = filteredJobs.filter((job) => checkedIds.includes(job.id));
+  const isAllChecked =
+    filteredJobs.length > 0 && checkedJobs.length === filteredJobs.length;
+
+  const toggleChecked = (jobId: string) => {
+    setCheckedIds((prev) =>
+      prev.includes(jobId) ? prev.filter((id) => id !== jobId) : [...prev, jobId]
+    );
+  };
+
+  const toggleAllChecked = () => {
+    setCheckedIds(isAllChecked ? [] : filteredJobs.map((job) => job.id));
+  };
+
   const toggleColumn = (key: string) => {
     setColumns(
       columns.map((col) =>
@@ -106,8 +167,12 @@ export function TableView({ jobs }: TableViewProps) {
     }
   };
 
-  const handleCellEdit = (jobId: string, field: string, value: string) => {
-    updateJobPosting(jobId, { [field]: value });
+  const handleCellEdit = (
+    jobId: string,
+    field: string,
+    value: string | null
+  ) => {
+    updateJobPosting(jobId, { [field]: value }, { history: "table" });
     setEditingCell(null);
   };
 
@@ -198,6 +263,94 @@ export function TableView({ jobs }: TableViewProps) {
       );
     }
 
+    if (columnKey === "deadline") {
+      if (isEditing) {
+        return (
+          <Input
+            type="date"
+            defaultValue={job.deadline || ""}
+            className="h-7 text-xs"
+            autoFocus
+            onBlur={(e) =>
+              handleCellEdit(job.id, columnKey, e.target.value || null)
+            }
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                handleCellEdit(job.id, columnKey, e.currentTarget.value || null);
+              }
+              if (e.key === "Escape") {
+                setEditingCell(null);
+              }
+            }}
+            onClick={(e) => e.stopPropagation()}
+          />
+        );
+      }
+
+      const daysLeft = getDaysUntilDeadline(job.deadline);
+      return (
+        <span
+          className="text-sm cursor-text hover:bg-secondary/50 px-1 py-0.5 rounded truncate flex items-center gap-1"
+          onClick={(e) => {
+            e.stopPropagation();
+            setEditingCell({ id: job.id, field: columnKey });
+          }}
+        >
+          {job.deadline ? (
+            <>
+              {formatShortDate(job.deadline)}
+              <span
+                className={cn(
+                  "text-[10px]",
+                  daysLeft !== null && daysLeft >= 0 && daysLeft <= 3
+                    ? "text-destructive font-semibold"
+                    : "text-muted-foreground"
+                )}
+              >
+                {formatDday(daysLeft ?? 0)}
+              </span>
+            </>
+          ) : (
+            <span className="text-muted-foreground">상시</span>
+          )}
+        </span>
+      );
+    }
+
+    if (columnKey === "tags") {
+      return job.tags && job.tags.length > 0 ? (
+        <div className="flex gap-1 overflow-hidden">
+          {job.tags.map((tag) => (
+            <Badge
+              key={tag}
+              variant="outline"
+              className="text-[10px] shrink-0 text-muted-foreground"
+            >
+              #{tag}
+            </Badge>
+          ))}
+        </div>
+      ) : (
+        <span className="text-sm text-muted-foreground">-</span>
+      );
+    }
+
+    if (columnKey === "postedAt") {
+      return (
+        <span className="text-sm truncate">
+          {job.postedAt ? formatShortDate(job.postedAt) : "-"}
+        </span>
+      );
+    }
+
+    if (columnKey === "salary") {
+      return (
+        <span className="text-sm truncate">
+          {formatSalaryRange(job) ?? "-"}
+        </span>
+      );
+    }
+
     const editableFields = [
       "title",
       "companyName",
@@ -300,12 +453,27 @@ export function TableView({ jobs }: TableViewProps) {
             <DropdownMenuItem onClick={() => handleSort("companyName")}>
               회사명
             </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => handleSort("deadline")}>
+              마감 임박순
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => handleSort("postedAt")}>
+              게시일순
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => handleSort("salary")}>
+              연봉순
+            </DropdownMenuItem>
           </DropdownMenuContent>
         </DropdownMenu>
 
+        <ExportMenu
+          jobs={filteredJobs}
+          columns={visibleColumns}
+          className="ml-auto"
+        />
+
         <DropdownMenu>
           <DropdownMenuTrigger asChild>
-            <Button variant="outline" size="sm" className="h-8 ml-auto">
+            <Button variant="outline" size="sm" className="h-8">
               <Settings2 className="w-3.5 h-3.5 mr-1.5" />
               컬럼
             </Button>
@@ -326,11 +494,31 @@ export function TableView({ jobs }: TableViewProps) {
         </DropdownMenu>
       </div>
 
+      <BulkActionsBar
+        jobs={checkedJobs}
+        columns={visibleColumns}
+        onClear={() => setCheckedIds([])}
+        onPendingDeleteChange={(ids, pending) =>
+          setPendingDeleteIds((prev) =>
+            pending
+              ? [...prev, ...ids]
+              : prev.filter((id) => !ids.includes(id))
+          )
+        }
+      />
+
       <div className="bg-card rounded-xl border border-border overflow-hidden">
         <div className="overflow-x-auto">
           <table className="w-full">
             <thead>
               <tr className="bg-secondary/50 border-b border-border">
+                <th className="pl-4 py-3 w-8">
+                  <Checkbox
+                    checked={isAllChecked}
+                    onCheckedChange={toggleAllChecked}
+                    aria-label="전체 선택"
+                  />
+                </th>
                 {visibleColumns.map((col) => (
                   <th
                     key={col.key}
@@ -365,6 +553,13 @@ export function TableView({ jobs }: TableViewProps) {
                   className="hover:bg-secondary/30 cursor-pointer transition-colors"
                   onClick={() => setSelectedJobId(job.id)}
                 >
+                  <td className="pl-4 py-3 w-8" onClick={(e) => e.stopPropagation()}>
+                    <Checkbox
+                      checked={checkedIds.includes(job.id)}
+                      onCheckedChange={() => toggleChecked(job.id)}
+                      aria-label="공고 선택"
+                    />
+                  </td>
                   {visibleColumns.map((col) => (
                     <td
                       key={col.key}
@@ -389,7 +584,7 @@ export function TableView({ jobs }: TableViewProps) {
               {filteredJobs.length === 0 && (
                 <tr>
                   <td
-                    colSpan={visibleColumns.length}
+                    colSpan={visibleColumns.length + 1}
                     className="text-center py-8 text-sm text-muted-foreground"
                   >
                     표시할 공고가 없습니다
@@ -0,0 +1,91 @@
+import { useState } from "react";
+import { Plus, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { addTags, MAX_TAG_LENGTH } from "@/lib/jobTags";
+
+interface TagEditorProps {
+  tags: string[];
+  suggestions: string[]; // 다른 공고에서 쓰인 태그
+  onChange: (tags: string[]) => void;
+  placeholder?: string;
+}
+
+export function TagEditor({
+  tags,
+  suggestions,
+  onChange,
+  placeholder = "태그 입력 후 Enter",
+}: TagEditorProps) {
+  const [input, setInput] = useState("");
+
+  const commit = (value: string) => {
+    const next = addTags(tags, value.split(","));
+    if (next.length !== tags.length) onChange(next);
+    setInput("");
+  };
+
+  const query = input.trim().toLowerCase();
+  const visibleSuggestions = suggestions
+    .filter(
+      (s) =>
+        !tags.some((t) => t.toLowerCase() === s.toLowerCase()) &&
+        (!query || s.toLowerCase().includes(query))
+    )
+    .slice(0, 8);
+
+  return (
+    <div className="space-y-2">
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {tags.map((tag) => (
+            <Badge key={tag} variant="secondary" className="text-xs gap-1 pr-1">
+              #{tag}
+              <button
+                type="button"
+                className="rounded-full hover:bg-muted-foreground/20 p-0.5"
+                onClick={() => onChange(tags.filter((t) => t !== tag))}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+      <Input
+        value={input}
+        maxLength={MAX_TAG_LENGTH}
+        placeholder={placeholder}
+        className="h-8 text-xs"
+        onChange={(e) => setInput(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.nativeEvent.isComposing) return; // 한글 조합 중 Enter 무시
+          if (e.key === "Enter" || e.key === ",") {
+            e.preventDefault();
+            commit(input);
+          }
+          if (e.key === "Backspace" && !input && tags.length > 0) {
+            onChange(tags.slice(0, -1));
+          }
+        }}
+        onBlur={() => input.trim() && commit(input)}
+      />
+      {visibleSuggestions.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {visibleSuggestions.map((tag) => (
+            <Badge
+              key={tag}
+              variant="outline"
+              className="text-[10px] cursor-pointer gap-0.5 hover:bg-secondary"
+              onMouseDown={(e) => e.preventDefault()} // 입력창 blur 전에 클릭 처리
+              onClick={() => commit(tag)}
+            >
+              <Plus className="w-2.5 h-2.5" />
+              {tag}
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+import { useEffect, useMemo, useState } from "react";
+import { Briefcase, FileText, LayoutGrid } from "lucide-react";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { useData } from "@/contexts/DataContext";
+import { JobDetailDialog } from "@/components/board/JobDetailDialog";
+import { searchAll, SearchResult, SearchResultKind } from "@/lib/globalSearch";
+
+const GROUPS: { kind: SearchResultKind; heading: string; icon: typeof LayoutGrid }[] = [
+  { kind: "job", heading: "공고", icon: LayoutGrid },
+  { kind: "experience", heading: "경력 · 프로젝트", icon: Briefcase },
+  { kind: "tailoredResume", heading: "맞춤 이력서", icon: FileText },
+];
+
+export function CommandPalette() {
+  const { jobPostings, experiences, tailoredResumes } = useData();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [selectedJobId, setSelectedJobId] = useState<string | null>(null);
+
+  // Cmd/Ctrl + K 또는 다른 화면의 검색 버튼("open-command-palette" 이벤트)으로 열기
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === "k" && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        setOpen((prev) => !prev);
+      }
+    };
+    const handleOpen = () => setOpen(true);
+
+    window.addEventListener("keydown", handleKeyDown);
+    window.addEventListener("open-command-palette", handleOpen);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+      window.removeEventListener("open-command-palette", handleOpen);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!open) setQuery("");
+  }, [open]);
+
+  const results = useMemo(
+    () => searchAll(query, { jobPostings, experiences, tailoredResumes }),
+    [query, jobPostings, experiences, tailoredResumes]
+  );
+
+  const selectedJob = selectedJobId
+    ? jobPostings.find((j) => j.id === selectedJobId) ?? null
+    : null;
+
+  const handleSelect = (result: SearchResult) => {
+    setOpen(false);
+    if (result.kind === "job") {
+      setSelectedJobId(result.id);
+      return;
+    }
+    window.dispatchEvent(
+      new CustomEvent("navigate-to-tab", {
+        detail:
+          result.kind === "experience"
+            ? { tab: "career", experienceId: result.id }
+            : { tab: "career", tailoredResumeId: result.id },
+      })
+    );
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="overflow-hidden p-0 shadow-lg max-w-[90%] rounded-2xl sm:max-w-lg">
+          <DialogTitle className="sr-only">통합 검색</DialogTitle>
+          {/* 결과는 초성 검색을 위해 직접 거르므로 cmdk 기본 필터는 끔 */}
+          <Command shouldFilter={false}>
+            <CommandInput
+              value={query}
+              onValueChange={setQuery}
+              placeholder="공고, 경력, 맞춤 이력서 검색 (초성 가능: ㅋㅋㅇ)"
+            />
+            <CommandList className="max-h-[60vh]">
+              {query.trim() && <CommandEmpty>검색 결과가 없습니다</CommandEmpty>}
+              {!query.trim() && (
+                <p className="py-6 text-center text-sm text-muted-foreground">
+                  회사명, 공고 요약, 핵심 역량, 경력 내용, 이력서 본문을 검색합니다
+                </p>
+              )}
+              {GROUPS.map(({ kind, heading, icon: Icon }) => {
+                const items = results.filter((r) => r.kind === kind);
+                if (items.length === 0) return null;
+                return (
+                  <CommandGroup key={kind} heading={heading}>
+                    {items.map((result) => (
+                      <CommandItem
+                        key={`${kind}-${result.id}`}
+                        value={`${kind}-${result.id}`}
+                        onSelect={() => handleSelect(result)}
+                        className="items-start gap-2"
+                      >
+                        <Icon className="w-4 h-4 mt-0.5 shrink-0 text-muted-foreground" />
+                        <div className="min-w-0 flex-1">
+                          <p className="text-sm font-medium truncate">
+                            {result.title}
+                          </p>
+                          {result.subtitle && (
+                            <p className="text-xs text-muted-foreground truncate">
+                              {result.subtitle}
+                            </p>
+                          )}
+                          {result.snippet && (
+                            <p className="text-xs text-muted-foreground line-clamp-2 mt-0.5">
+                              {result.snippet}
+                            </p>
+                          )}
+                        </div>
+                      </CommandItem>
+                    ))}
+                  </CommandGroup>
+                );
+              })}
+            </CommandList>
+          </Command>
+        </DialogContent>
+      </Dialog>
+
+      {selectedJob && (
+        <JobDetailDialog
+          job={selectedJob}
+          open={!!selectedJob}
+          onOpenChange={(open) => !open && setSelectedJobId(null)}
+          onNavigateToCareer={(tailoredResumeId) => {
+            setSelectedJobId(null);
+            window.dispatchEvent(
+              new CustomEvent("navigate-to-tab", {
+                detail: { tab: "career", tailoredResumeId },
+              })
+            );
+          }}
+        />
+      )}
+    </>
+  );
+}
@@ -1,3 +1,4 @@
+import { Search } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { tabs, TabId } from "./BottomTabBar";
 
@@ -16,6 +17,19 @@ export function DesktopSidebar({
         <span className="text-xl font-bold text-primary">커브</span>
       </div>
 
+      <div className="px-3 pt-4">
+        <button
+          onClick={() =>
+            window.dispatchEvent(new CustomEvent("open-command-palette"))
+          }
+          className="flex items-center w-full px-3 py-2 rounded-lg gap-3 text-sm text-muted-foreground bg-secondary/50 hover:bg-secondary hover:text-foreground transition-colors"
+        >
+          <Search className="w-4 h-4" />
+          <span className="flex-1 text-left">검색</span>
+          <kbd className="text-[10px] font-medium tracking-widest">⌘K</kbd>
+        </button>
+      </div>
+
       <nav className="flex-1 px-3 py-4 space-y-1">
         {tabs.map((tab) => {
           const Icon = tab.icon;
@@ -0,0 +1,82 @@
+import { AlertTriangle, CheckCircle2, XCircle } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { cn } from "@/lib/utils";
+import { AtsCheckStatus, AtsReport } from "@/lib/atsCheck";
+
+const STATUS_ICON: Record<AtsCheckStatus, { icon: typeof CheckCircle2; className: string }> = {
+  pass: { icon: CheckCircle2, className: "text-success" },
+  warn: { icon: AlertTriangle, className: "text-warning" },
+  fail: { icon: XCircle, className: "text-destructive" },
+};
+
+const scoreTone = (score: number) =>
+  score >= 80 ? "text-success" : score >= 60 ? "text-warning" : "text-destructive";
+
+/** ATS 점검 리포트 (총점 + 항목별 결과) */
+export function AtsReportView({ report }: { report: AtsReport }) {
+  return (
+    <div className="space-y-4">
+      <div className="flex items-end justify-between gap-3">
+        <div>
+          <p className="text-xs text-muted-foreground">ATS 호환 점수</p>
+          <p className={cn("text-3xl font-bold", scoreTone(report.score))}>
+            {report.score}
+            <span className="text-sm font-normal text-muted-foreground"> / 100</span>
+          </p>
+        </div>
+        <p className="text-[11px] text-muted-foreground text-right">
+          현재 템플릿의 DOCX·PDF 기준
+          <br />
+          실제 채용 시스템 점수와 다를 수 있습니다
+        </p>
+      </div>
+      <Progress value={report.score} className="h-2" />
+
+      <div className="space-y-2">
+        {report.items.map((item) => {
+          const { icon: Icon, className } = STATUS_ICON[item.status];
+          return (
+            <div key={item.id} className="rounded-lg border border-border p-3 space-y-1">
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-1.5">
+                  <Icon className={cn("w-4 h-4 shrink-0", className)} />
+                  <span className="text-sm font-medium">{item.label}</span>
+                </div>
+                <span className="text-xs text-muted-foreground">
+                  {item.score} / {item.weight}
+                </span>
+              </div>
+              <p className="text-xs text-muted-foreground">{item.message}</p>
+              {item.details.length > 0 && (
+                <ul className="text-xs text-foreground space-y-0.5 pl-5 list-disc">
+                  {item.details.map((detail, i) => (
+                    <li key={i}>{detail}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {report.matchedKeywords.length + report.missingKeywords.length > 0 && (
+        <div className="space-y-1.5">
+          <p className="text-xs font-medium">공고 키워드</p>
+          <div className="flex flex-wrap gap-1">
+            {report.matchedKeywords.map((keyword) => (
+              <Badge key={`m-${keyword}`} variant="secondary" className="text-[10px]">
+                {keyword}
+              </Badge>
+            ))}
+            {report.missingKeywords.map((keyword) => (
+              <Badge key={`x-${keyword}`} variant="outline" className="text-[10px] text-muted-foreground border-dashed">
+                {keyword}
+              </Badge>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
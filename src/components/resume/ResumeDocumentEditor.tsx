@@ -0,0 +1,197 @@
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { ResumeDocument } from "@/types/job";
+import { RESUME_SECTION_TITLES } from "@/lib/resumeDocument";
+
+interface ResumeDocumentEditorProps {
+  value: ResumeDocument;
+  language: "ko" | "en";
+  onChange: (value: ResumeDocument) => void;
+}
+
+// 빈 줄도 그대로 두고(입력 중 줄바꿈 유지) 저장할 때 cleanResumeDocument로 정리
+const toLines = (text: string) => text.split("\n");
+
+function SectionHeader({ title, onAdd }: { title: string; onAdd?: () => void }) {
+  return (
+    <div className="flex items-center justify-between">
+      <h4 className="text-sm font-semibold">{title}</h4>
+      {onAdd && (
+        <Button type="button" variant="ghost" size="sm" className="h-7 text-xs" onClick={onAdd}>
+          <Plus className="w-3.5 h-3.5 mr-1" />
+          추가
+        </Button>
+      )}
+    </div>
+  );
+}
+
+function ItemCard({ onRemove, children }: { onRemove: () => void; children: React.ReactNode }) {
+  return (
+    <div className="relative rounded-lg border border-border p-3 pr-10 space-y-2">
+      <Button
+        type="button"
+        variant="ghost"
+        size="icon"
+        className="absolute top-2 right-2 w-7 h-7 text-destructive"
+        onClick={onRemove}
+      >
+        <Trash2 className="w-3.5 h-3.5" />
+      </Button>
+      {children}
+    </div>
+  );
+}
+
+/** 구조화된 맞춤 이력서 편집 (요약·경력·프로젝트·기술·학력) */
+export function ResumeDocumentEditor({ value, language, onChange }: ResumeDocumentEditorProps) {
+  const titles = RESUME_SECTION_TITLES[language];
+
+  const update = <K extends keyof ResumeDocument>(key: K, next: ResumeDocument[K]) =>
+    onChange({ ...value, [key]: next });
+
+  const updateItem = <K extends "work" | "projects" | "education">(
+    key: K,
+    index: number,
+    patch: Partial<ResumeDocument[K][number]>
+  ) =>
+    update(
+      key,
+      value[key].map((item, i) => (i === index ? { ...item, ...patch } : item)) as ResumeDocument[K]
+    );
+
+  const removeItem = <K extends "work" | "projects" | "education">(key: K, index: number) =>
+    update(key, value[key].filter((_, i) => i !== index) as ResumeDocument[K]);
+
+  return (
+    <div className="space-y-5">
+      <div className="space-y-2">
+        <SectionHeader title={titles.summary} />
+        <Textarea
+          value={value.summary}
+          onChange={(e) => update("summary", e.target.value)}
+          className="min-h-[80px]"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <SectionHeader
+          title={titles.work}
+          onAdd={() => update("work", [...value.work, { company: "", role: "", bullets: [] }])}
+        />
+        {value.work.map((item, index) => (
+          <ItemCard key={index} onRemove={() => removeItem("work", index)}>
+            <div className="grid grid-cols-2 gap-2">
+              <Input
+                value={item.company}
+                placeholder="회사명"
+                onChange={(e) => updateItem("work", index, { company: e.target.value })}
+              />
+              <Input
+                value={item.role}
+                placeholder="직책/역할"
+                onChange={(e) => updateItem("work", index, { role: e.target.value })}
+              />
+              <Input
+                value={item.period ?? ""}
+                placeholder="기간"
+                onChange={(e) => updateItem("work", index, { period: e.target.value })}
+              />
+              <Input
+                value={item.location ?? ""}
+                placeholder="위치"
+                onChange={(e) => updateItem("work", index, { location: e.target.value })}
+              />
+            </div>
+            <Label className="text-xs text-muted-foreground">성과 (한 줄에 하나씩)</Label>
+            <Textarea
+              value={item.bullets.join("\n")}
+              onChange={(e) => updateItem("work", index, { bullets: toLines(e.target.value) })}
+              className="min-h-[96px] text-sm"
+            />
+          </ItemCard>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <SectionHeader
+          title={titles.projects}
+          onAdd={() => update("projects", [...value.projects, { name: "", bullets: [] }])}
+        />
+        {value.projects.map((item, index) => (
+          <ItemCard key={index} onRemove={() => removeItem("projects", index)}>
+            <div className="grid grid-cols-2 gap-2">
+              <Input
+                value={item.name}
+                placeholder="프로젝트명"
+                onChange={(e) => updateItem("projects", index, { name: e.target.value })}
+              />
+              <Input
+                value={item.period ?? ""}
+                placeholder="기간"
+                onChange={(e) => updateItem("projects", index, { period: e.target.value })}
+              />
+            </div>
+            <Input
+              value={item.description ?? ""}
+              placeholder="한 줄 설명"
+              onChange={(e) => updateItem("projects", index, { description: e.target.value })}
+            />
+            <Label className="text-xs text-muted-foreground">성과 (한 줄에 하나씩)</Label>
+            <Textarea
+              value={item.bullets.join("\n")}
+              onChange={(e) => updateItem("projects", index, { bullets: toLines(e.target.value) })}
+              className="min-h-[72px] text-sm"
+            />
+          </ItemCard>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <SectionHeader title={titles.skills} />
+        <Textarea
+          value={value.skills.join("\n")}
+          placeholder="한 줄에 하나씩"
+          onChange={(e) => update("skills", toLines(e.target.value))}
+          className="min-h-[72px] text-sm"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <SectionHeader
+          title={titles.education}
+          onAdd={() => update("education", [...value.education, { school: "" }])}
+        />
+        {value.education.map((item, index) => (
+          <ItemCard key={index} onRemove={() => removeItem("education", index)}>
+            <div className="grid grid-cols-2 gap-2">
+              <Input
+                value={item.school}
+                placeholder="학교"
+                onChange={(e) => updateItem("education", index, { school: e.target.value })}
+              />
+              <Input
+                value={item.degree ?? ""}
+                placeholder="전공/학위"
+                onChange={(e) => updateItem("education", index, { degree: e.target.value })}
+              />
+              <Input
+                value={item.period ?? ""}
+                placeholder="기간"
+                onChange={(e) => updateItem("education", index, { period: e.target.value })}
+              />
+              <Input
+                value={item.details ?? ""}
+                placeholder="비고"
+                onChange={(e) => updateItem("education", index, { details: e.target.value })}
+              />
+            </div>
+          </ItemCard>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+import { cn } from "@/lib/utils";
+import {
+  ResumeItem,
+  ResumeSection,
+  ResumeTemplate,
+  splitSidebarSections,
+  templateHeading,
+} from "@/lib/resumeTemplates";
+
+interface ResumeTemplatePreviewProps {
+  template: ResumeTemplate;
+  sections: ResumeSection[];
+  name: string;
+  subtitle?: string;
+  language: "ko" | "en";
+}
+
+function PreviewItem({
+  item,
+  template,
+  compact,
+}: {
+  item: ResumeItem;
+  template: ResumeTemplate;
+  compact?: boolean;
+}) {
+  const { style } = template;
+
+  if (compact) {
+    const rest = [item.subtitle, item.period, item.description].filter(Boolean).join(" | ");
+    return (
+      <p style={{ paddingLeft: style.detailIndent }}>
+        {item.title && <span className="font-semibold mr-2">{item.title}</span>}
+        {rest}
+      </p>
+    );
+  }
+
+  const stacked = style.itemLayout === "stacked";
+  const detail = stacked
+    ? [item.subtitle, item.period, item.location].filter(Boolean).join(" | ")
+    : item.period;
+
+  return (
+    <div className="mt-2">
+      {item.title && (
+        <p>
+          <span className="font-semibold">
+            {style.itemPrefix}
+            {item.title}
+          </span>
+          {!stacked && item.subtitle && <span> — {item.subtitle}</span>}
+          {!stacked && item.location && <span className="text-neutral-500"> | {item.location}</span>}
+        </p>
+      )}
+      {detail && (
+        <p className={cn("text-neutral-500", !stacked && "italic")} style={{ paddingLeft: style.detailIndent }}>
+          {detail}
+        </p>
+      )}
+      {item.description && (
+        <p className="whitespace-pre-wrap" style={{ paddingLeft: style.detailIndent }}>
+          {item.description}
+        </p>
+      )}
+      {item.bullets.length > 0 && (
+        <ul style={{ paddingLeft: style.bulletIndent }}>
+          {item.bullets.map((bullet, i) => (
+            <li key={i} className="flex gap-1.5">
+              <span className="shrink-0">{style.bullet}</span>
+              <span>{bullet}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function PreviewSections({ sections, template }: { sections: ResumeSection[]; template: ResumeTemplate }) {
+  const { style } = template;
+  return (
+    <>
+      {sections
+        .filter((section) => section.type !== "header")
+        .map((section, index) => (
+          <section key={index} className="mt-4 first:mt-0">
+            {section.title && (
+              <h2
+                className={cn(
+                  "font-bold mb-1.5",
+                  style.sectionTitle === "rule" && "border-b pb-0.5",
+                  style.sectionTitle === "shaded" && "bg-neutral-100 px-1.5 py-0.5"
+                )}
+                style={{ color: style.accent, borderColor: style.accent }}
+              >
+                {style.sectionPrefix}
+                {style.sectionUppercase ? section.title.toUpperCase() : section.title}
+              </h2>
+            )}
+            {section.items.map((item, i) => (
+              <PreviewItem key={i} item={item} template={template} compact={section.compact} />
+            ))}
+          </section>
+        ))}
+    </>
+  );
+}
+
+/** 템플릿 스타일을 적용한 이력서 미리보기 (DOCX·PDF와 같은 섹션 구성) */
+export function ResumeTemplatePreview({ template, sections, name, subtitle, language }: ResumeTemplatePreviewProps) {
+  const { style } = template;
+  const { sidebar, main } = splitSidebarSections(template, sections);
+
+  return (
+    <div
+      className="bg-white text-black text-sm leading-relaxed [overflow-wrap:anywhere]"
+      style={{ fontFamily: style.fontFamily }}
+    >
+      <div className={cn("mb-5", style.nameAlign === "center" && "text-center")}>
+        <h1 className="font-bold" style={{ fontSize: style.nameSize * 1.33, color: style.accent }}>
+          {templateHeading(template, name, language)}
+        </h1>
+        {subtitle && <p className="text-xs text-neutral-500 mt-1">{subtitle}</p>}
+      </div>
+      {sidebar.length > 0 ? (
+        <div className="grid grid-cols-[30%_1fr] gap-5">
+          <div>
+            <PreviewSections sections={sidebar} template={template} />
+          </div>
+          <div>
+            <PreviewSections sections={main} template={template} />
+          </div>
+        </div>
+      ) : (
+        <PreviewSections sections={main} template={template} />
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,16 @@
-import { useMemo, useState } from 'react';
+import { useMemo, useRef, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { LogOut, KeyRound, UserCog, UserX, ChevronRight } from 'lucide-react';
+import { saveAs } from 'file-saver';
+import {
+  LogOut,
+  KeyRound,
+  UserCog,
+  UserX,
+  ChevronRight,
+  CalendarSync,
+  Download,
+  ArchiveRestore,
+} from 'lucide-react';
 import {
   ResponsiveSheet,
   ResponsiveSheetContent,
@@ -19,7 +29,9 @@ import {
 } from '@/components/ui/alert-dialog';
 import { toast } from 'sonner';
 import { ProfileEditSheet } from './ProfileEditSheet';
+import { CalendarFeedSheet } from './CalendarFeedSheet';
 import { useAuth } from '@/hooks/useAuth';
+import { useData } from '@/contexts/DataContext';
 import { supabase } from '@/integrations/supabase/client';
 import { getFunctionErrorMessage } from '@/integrations/supabase/functionErrors';
 
@@ -31,8 +43,13 @@ interface AccountSheetProps {
 export function AccountSheet({ open, onOpenChange }: AccountSheetProps) {
   const navigate = useNavigate();
   const { user, signOut } = useAuth();
+  const { refetch } = useData();
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const restoreInputRef = useRef<HTMLInputElement>(null);
   const [showProfileEdit, setShowProfileEdit] = useState(false);
+  const [showCalendarFeed, setShowCalendarFeed] = useState(false);
 
   const userEmail = useMemo(() => user?.email ?? null, [user]);
 
@@ -65,6 +82,52 @@ export function AccountSheet({ open, onOpenChange }: AccountSheetProps) {
     }
   };
 
+  // 모든 데이터(공고와 공고별 기록·면접·연락처, 경력, 이력서, 맞춤 이력서, 보드 뷰, 목표, 채팅, 크레딧 내역)를 zip으로
+  const handleExportData = async () => {
+    if (!user) {
+      toast.info('로그인 후 사용 가능합니다');
+      return;
+    }
+    if (isExporting) return;
+
+    setIsExporting(true);
+    const toastId = toast.loading('데이터를 모으는 중입니다...');
+    try {
+      const { data, error } = await supabase.functions.invoke('account-export');
+      if (error) {
+        console.error('Account export error:', error);
+        throw new Error(await getFunctionErrorMessage(error, '데이터 내보내기에 실패했습니다.'));
+      }
+      const dateStr = new Date().toISOString().split('T')[0].replace(/-/g, '');
+      saveAs(data as Blob, `Curve_백업_${dateStr}.zip`);
+      toast.success('데이터를 내보냈습니다', { id: toastId });
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : '데이터 내보내기에 실패했습니다', { id: toastId });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // 내보내기로 받은 zip을 새 계정에 복원 (데이터가 있는 계정은 서버에서 거절)
+  const handleRestoreData = async (file: File) => {
+    setIsRestoring(true);
+    const toastId = toast.loading('백업을 복원하는 중입니다...');
+    try {
+      const { data, error } = await supabase.functions.invoke('account-import', { body: file });
+      if (error) {
+        console.error('Account import error:', error);
+        throw new Error(await getFunctionErrorMessage(error, '데이터 복원에 실패했습니다.'));
+      }
+      await refetch();
+      const jobCount = data?.restored?.job_postings ?? 0;
+      toast.success(`공고 ${jobCount}개와 모든 데이터를 복원했습니다`, { id: toastId });
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : '데이터 복원에 실패했습니다', { id: toastId });
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
   const menuItems = [
     {
       icon: UserCog,
@@ -78,6 +141,36 @@ export function AccountSheet({ open, onOpenChange }: AccountSheetProps) {
       description: '이메일로 재설정 링크 발송',
       onClick: handleSendPasswordReset,
     },
+    {
+      icon: CalendarSync,
+      label: '캘린더 구독',
+      description: '마감일·인터뷰 일정을 캘린더 앱과 연동',
+      onClick: () => {
+        if (!user) {
+          toast.info('로그인 후 사용 가능합니다');
+          return;
+        }
+        setShowCalendarFeed(true);
+      },
+    },
+    {
+      icon: Download,
+      label: isExporting ? '데이터 내보내는 중...' : '데이터 내보내기',
+      description: '모든 데이터를 zip으로 다운로드',
+      onClick: handleExportData,
+    },
+    {
+      icon: ArchiveRestore,
+      label: isRestoring ? '데이터 복원 중...' : '데이터 복원',
+      description: '내보낸 zip을 새 계정에 복원',
+      onClick: () => {
+        if (!user) {
+          toast.info('로그인 후 사용 가능합니다');
+          return;
+        }
+        if (!isRestoring) restoreInputRef.current?.click();
+      },
+    },
     {
       icon: LogOut,
       label: user ? '로그아웃' : '로그인',
@@ -178,6 +271,17 @@ export function AccountSheet({ open, onOpenChange }: AccountSheetProps) {
               </button>
             ))}
           </div>
+          <input
+            ref={restoreInputRef}
+            type="file"
+            accept=".zip,application/zip"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) handleRestoreData(file);
+            }}
+          />
         </ResponsiveSheetContent>
       </ResponsiveSheet>
 
@@ -187,7 +291,7 @@ export function AccountSheet({ open, onOpenChange }: AccountSheetProps) {
             <AlertDialogTitle>정말 탈퇴하시겠습니까?</AlertDialogTitle>
             <AlertDialogDescription>
               모든 데이터(이력서, 채용공고, 목표 등)가 영구적으로 삭제됩니다.
-              이 작업은 되돌릴 수 없습니다.
+              이 작업은 되돌릴 수 없습니다. 필요하면 먼저 '데이터 내보내기'로 백업하세요.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -203,6 +307,7 @@ export function AccountSheet({ open, onOpenChange }: AccountSheetProps) {
       </AlertDialog>
 
       <ProfileEditSheet open={showProfileEdit} onOpenChange={setShowProfileEdit} />
+      <CalendarFeedSheet open={showCalendarFeed} onOpenChange={setShowCalendarFeed} />
     </>
   );
 }
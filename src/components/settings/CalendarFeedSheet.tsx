@@ -0,0 +1,155 @@
+import { useState, useEffect } from 'react';
+import { ChevronLeft, Copy, RefreshCw } from 'lucide-react';
+import {
+  ResponsiveSheet,
+  ResponsiveSheetContent,
+  ResponsiveSheetHeader,
+  ResponsiveSheetTitle,
+} from '@/components/ui/responsive-sheet';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+
+interface CalendarFeedSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const toFeedUrl = (token: string) =>
+  `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/calendar-feed?token=${token}`;
+
+export function CalendarFeedSheet({ open, onOpenChange }: CalendarFeedSheetProps) {
+  const { user } = useAuth();
+  const [token, setToken] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    // 시트를 열 때 구독 토큰을 가져오고, 없으면 새로 발급
+    if (!open || !user) return;
+    setIsLoading(true);
+    (async () => {
+      try {
+        const { data, error } = await supabase
+          .from('calendar_feed_tokens')
+          .select('token')
+          .eq('user_id', user.id)
+          .maybeSingle();
+        if (error) throw error;
+
+        if (data) {
+          setToken(data.token);
+          return;
+        }
+
+        const { data: created, error: insertError } = await supabase
+          .from('calendar_feed_tokens')
+          .insert({ user_id: user.id })
+          .select('token')
+          .single();
+        if (insertError) throw insertError;
+        setToken(created.token);
+      } catch (error) {
+        console.error('Error loading calendar feed token:', error);
+        toast.error('구독 링크를 불러오지 못했습니다');
+      } finally {
+        setIsLoading(false);
+      }
+    })();
+  }, [open, user]);
+
+  const handleCopy = async () => {
+    if (!token) return;
+    await navigator.clipboard.writeText(toFeedUrl(token));
+    toast.success('구독 링크가 복사되었습니다');
+  };
+
+  // 링크가 유출되었을 때: 기존 토큰을 지우고 새로 발급 (기존 구독은 더 이상 갱신되지 않음)
+  const handleRegenerate = async () => {
+    if (!user) return;
+
+    setIsLoading(true);
+    try {
+      const { error: deleteError } = await supabase
+        .from('calendar_feed_tokens')
+        .delete()
+        .eq('user_id', user.id);
+      if (deleteError) throw deleteError;
+
+      const { data, error } = await supabase
+        .from('calendar_feed_tokens')
+        .insert({ user_id: user.id })
+        .select('token')
+        .single();
+      if (error) throw error;
+
+      setToken(data.token);
+      toast.success('새 구독 링크가 발급되었습니다');
+    } catch (error) {
+      console.error('Error regenerating calendar feed token:', error);
+      toast.error('링크 재발급 중 오류가 발생했습니다');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <ResponsiveSheet open={open} onOpenChange={onOpenChange}>
+      <ResponsiveSheetContent className="rounded-t-2xl max-w-md mx-auto h-[80vh] p-6 lg:max-w-2xl">
+        <ResponsiveSheetHeader className="text-left pb-4">
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" size="icon" className="w-8 h-8" onClick={() => onOpenChange(false)}>
+              <ChevronLeft className="w-5 h-5" />
+            </Button>
+            <ResponsiveSheetTitle>캘린더 구독</ResponsiveSheetTitle>
+          </div>
+        </ResponsiveSheetHeader>
+
+        <div className="space-y-6 pt-4">
+          <p className="text-sm text-muted-foreground">
+            아래 링크를 Google 캘린더, Apple 캘린더, Outlook 등에 URL로 추가하면
+            공고 마감일과 인터뷰 일정이 자동으로 표시됩니다.
+          </p>
+
+          <div className="space-y-2">
+            <Label htmlFor="calendarFeedUrl">구독 링크</Label>
+            <div className="flex gap-2">
+              <Input
+                id="calendarFeedUrl"
+                value={token ? toFeedUrl(token) : ''}
+                placeholder={isLoading ? '불러오는 중...' : ''}
+                readOnly
+                className="bg-muted text-xs"
+              />
+              <Button
+                variant="outline"
+                size="icon"
+                className="shrink-0"
+                onClick={handleCopy}
+                disabled={!token || isLoading}
+              >
+                <Copy className="w-4 h-4" />
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              링크를 아는 사람은 누구나 일정을 볼 수 있으니 공유하지 마세요.
+              캘린더 앱에 따라 반영까지 몇 시간이 걸릴 수 있습니다.
+            </p>
+          </div>
+
+          <Button
+            variant="outline"
+            className="w-full gap-2"
+            onClick={handleRegenerate}
+            disabled={!user || isLoading}
+          >
+            <RefreshCw className="w-4 h-4" />
+            새 링크 발급
+          </Button>
+        </div>
+      </ResponsiveSheetContent>
+    </ResponsiveSheet>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState, useMemo } from "react";
+import { useState, useMemo, useEffect } from "react";
 import {
   LayoutGrid,
   Table2,
@@ -8,6 +8,10 @@ import {
   Loader2,
   AlertCircle,
   Link,
+  ClipboardPaste,
+  Search,
+  SlidersHorizontal,
+  FileSpreadsheet,
 } from "lucide-react";
 import logoImage from "@/assets/logo.png";
 import { Badge } from "@/components/ui/badge";
@@ -16,8 +20,29 @@ import { useData } from "@/contexts/DataContext";
 import { useAuth } from "@/hooks/useAuth";
 import { KanbanView } from "@/components/board/KanbanView";
 import { TableView } from "@/components/board/TableView";
-import { JobStatus } from "@/types/job";
+import { BoardViewsMenu } from "@/components/board/BoardViewsMenu";
+import { AdvancedFilterDialog } from "@/components/board/AdvancedFilterDialog";
+import { JobImportDialog } from "@/components/board/JobImportDialog";
+import {
+  PostingInputDialog,
+  PostingInput,
+} from "@/components/board/PostingInputDialog";
+import {
+  BoardFilterState,
+  BoardSortOption,
+  BoardView,
+  BoardViewMode,
+  JobStatus,
+} from "@/types/job";
 import { cn } from "@/lib/utils";
+import { mapAnalyzedJobFields } from "@/lib/jobPostingFields";
+import { matchesJobSearch } from "@/lib/jobSearch";
+import { collectTags } from "@/lib/jobTags";
+import {
+  EMPTY_FILTER_EXPRESSION,
+  isFilterConditionComplete,
+  matchesFilterExpression,
+} from "@/lib/boardFilters";
 import { STATUS_ORDER } from "@/components/board/constants";
 import { supabase } from "@/integrations/supabase/client";
 import { getFunctionErrorMessage } from "@/integrations/supabase/functionErrors";
@@ -41,15 +66,13 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 
-type ViewMode = "kanban" | "table";
-type SortOption = "newest" | "oldest" | "priority" | "company";
-
-// 필터 옵션: 경력/근무형태/위치 기준
-interface FilterState {
-  minExperience: string;
-  workType: string;
-  location: string;
-}
+const EMPTY_FILTERS: BoardFilterState = {
+  minExperience: "",
+  workType: "",
+  location: "",
+  tags: [],
+  advanced: EMPTY_FILTER_EXPRESSION,
+};
 
 // Display order for select dropdown (different from kanban order)
 const STATUS_SELECT_ORDER: JobStatus[] = [
@@ -63,7 +86,7 @@ const STATUS_SELECT_ORDER: JobStatus[] = [
   "closed",
 ];
 
-const SORT_LABELS: Record<SortOption, string> = {
+const SORT_LABELS: Record<BoardSortOption, string> = {
   newest: "최신순",
   oldest: "오래된순",
   priority: "추천순",
@@ -107,23 +130,73 @@ function isUrl(text: string): boolean {
   }
 }
 
+// 여러 줄이거나 긴 텍스트는 URL이 아니라 공고 본문을 붙여넣은 것으로 판단
+function isLikelyPostingText(text: string): boolean {
+  const trimmed = text.trim();
+  if (isUrl(trimmed)) return false;
+  return (trimmed.includes("\n") && trimmed.length >= 50) || trimmed.length >= 200;
+}
+
 // Load filters from localStorage
-const loadSavedFilters = (): FilterState => {
+const loadSavedFilters = (): BoardFilterState => {
   try {
     const saved = localStorage.getItem("curve-board-filters");
     if (saved) {
-      return JSON.parse(saved);
+      // 태그 필터 추가 이전에 저장된 값도 기본값으로 채움
+      return { ...EMPTY_FILTERS, ...JSON.parse(saved) };
     }
   } catch (e) {
     console.error("Failed to load filters", e);
   }
-  return { minExperience: "", workType: "", location: "" };
+  return EMPTY_FILTERS;
+};
+
+// 보기 방식/정렬/선택한 저장 보기도 localStorage에 유지 (없거나 잘못된 값이면 기본값)
+const loadSavedOption = <T extends string>(
+  key: string,
+  allowed: readonly T[],
+  fallback: T
+): T => {
+  try {
+    const saved = localStorage.getItem(key);
+    if (saved && allowed.includes(saved as T)) return saved as T;
+  } catch (e) {
+    console.error(`Failed to load ${key}`, e);
+  }
+  return fallback;
+};
+
+const saveOption = (key: string, value: string | null) => {
+  try {
+    if (value === null) localStorage.removeItem(key);
+    else localStorage.setItem(key, value);
+  } catch (e) {
+    console.error(`Failed to save ${key}`, e);
+  }
 };
 
 export function BoardTab() {
-  const [viewMode, setViewMode] = useState<ViewMode>("kanban");
-  const [sortOption, setSortOption] = useState<SortOption>("priority");
-  const [filters, setFiltersState] = useState<FilterState>(loadSavedFilters);
+  const [viewMode, setViewMode] = useState<BoardViewMode>(() =>
+    loadSavedOption("curve-board-view-mode", ["kanban", "table"], "kanban")
+  );
+  const [sortOption, setSortOption] = useState<BoardSortOption>(() =>
+    loadSavedOption(
+      "curve-board-sort",
+      Object.keys(SORT_LABELS) as BoardSortOption[],
+      "priority"
+    )
+  );
+  const [filters, setFiltersState] = useState<BoardFilterState>(loadSavedFilters);
+  const [activeViewId, setActiveViewId] = useState<string | null>(() => {
+    try {
+      return localStorage.getItem("curve-board-active-view");
+    } catch {
+      return null;
+    }
+  });
+  const [searchQuery, setSearchQuery] = useState("");
+  const [isAdvancedFilterOpen, setIsAdvancedFilterOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
 
   // URL 입력 관련 상태
   const [inputValue, setInputValue] = useState("");
@@ -133,12 +206,18 @@ export function BoardTab() {
   const [noContentDialogOpen, setNoContentDialogOpen] = useState(false);
   const [limitDialogOpen, setLimitDialogOpen] = useState(false);
   const [pendingUrl, setPendingUrl] = useState<string | null>(null);
+  // 공고 본문 붙여넣기 / 파일 업로드
+  const [postingDialogOpen, setPostingDialogOpen] = useState(false);
+  const [postingDialogText, setPostingDialogText] = useState("");
+  const [postingDialogUrl, setPostingDialogUrl] = useState<string | null>(null);
 
   const {
     jobPostings,
+    jobContacts,
     currentGoals,
     updateJobPosting,
     addJobPosting,
+    addJobPostingSnapshot,
     canAddJob,
     subscription,
     hasAiCredits,
@@ -159,10 +238,13 @@ export function BoardTab() {
     return jobPostings.find((job) => job.sourceUrl === url);
   };
 
-  // Edge function 호출하여 공고 분석
-  const analyzeJobUrl = async (url: string): Promise<any> => {
+  // Edge function 호출하여 공고 분석 (URL 또는 직접 입력한 공고 본문/이미지)
+  const analyzeJob = async (
+    url: string | null,
+    postingInput?: PostingInput
+  ): Promise<any> => {
     const { data, error } = await supabase.functions.invoke("analyze-job", {
-      body: { url },
+      body: { ...(url ? { url } : {}), ...postingInput },
     });
 
     if (error) {
@@ -179,8 +261,8 @@ export function BoardTab() {
     return data.data;
   };
 
-  // 공고 URL 처리
-  const processJobUrl = async (url: string) => {
+  // 공고 URL 처리 (postingInput이 있으면 스크래핑 없이 해당 내용으로 분석)
+  const processJobUrl = async (url: string | null, postingInput?: PostingInput) => {
     if (!hasAnalysisCredits) {
       toast.error("AI 분석 크레딧이 부족합니다. 요금제를 업그레이드해주세요.");
       return;
@@ -189,32 +271,37 @@ export function BoardTab() {
     setIsProcessing(true);
 
     try {
-      const jobData = await analyzeJobUrl(url);
+      const jobData = await analyzeJob(url, postingInput);
+      const analyzed = mapAnalyzedJobFields(jobData);
 
-      await addJobPosting({
-        companyName: jobData.companyName || "회사명 확인 필요",
-        title: jobData.title || "채용 공고",
+      const jobPostingId = await addJobPosting({
+        ...analyzed,
+        companyName: analyzed.companyName || "회사명 확인 필요",
+        title: analyzed.title || "채용 공고",
         status: "reviewing",
         priority: 0,
-        position: jobData.position || "미정",
-        language: jobData.language || "ko",
-        minExperience: jobData.minExperience,
-        workType: jobData.workType,
-        location: jobData.location,
-        visaSponsorship: jobData.visaSponsorship,
-        summary: jobData.summary || "공고 내용을 확인해주세요.",
-        companyScore:
-          typeof jobData.companyScore === "number"
-            ? jobData.companyScore
-            : undefined,
-        fitScore:
-          typeof jobData.fitScore === "number" ? jobData.fitScore : undefined,
-        keyCompetencies: jobData.keyCompetencies || [],
-        sourceUrl: url,
+        position: analyzed.position || "미정",
+        language: analyzed.language || "ko",
+        summary: analyzed.summary || "공고 내용을 확인해주세요.",
+        keyCompetencies: analyzed.keyCompetencies || [],
+        sourceUrl: url ?? undefined,
         createdAt: new Date(),
         updatedAt: new Date(),
       });
 
+      // 공고가 내려가도 볼 수 있도록 분석에 사용한 원문 보관
+      if (jobPostingId && jobData.snapshot?.content) {
+        await addJobPostingSnapshot({
+          jobPostingId,
+          sourceUrl: url ?? undefined,
+          title: jobData.snapshot.title ?? undefined,
+          content: jobData.snapshot.content,
+          source: jobData.snapshot.source,
+          jsonLd: jobData.snapshot.jsonLd ?? undefined,
+        });
+      }
+
+      setPostingDialogOpen(false);
       toast.success(
         `${jobData.companyName} - ${jobData.title} 공고가 추가되었습니다`
       );
@@ -222,8 +309,18 @@ export function BoardTab() {
       console.error("Error analyzing job:", error);
 
       if (
-        error?.message?.includes("추출할 수 없습니다") ||
-        error?.message?.includes("noContent")
+        !postingInput &&
+        url &&
+        (error?.message?.includes("직접 복사하여") ||
+          error?.message?.includes("직접 입력해주세요"))
+      ) {
+        // 스크래핑이 막힌 사이트 → 공고 본문을 붙여넣어 분석
+        toast.error(error.message);
+        openPostingDialog("", url);
+      } else if (
+        url &&
+        (error?.message?.includes("추출할 수 없습니다") ||
+          error?.message?.includes("noContent"))
       ) {
         setPendingUrl(url);
         setNoContentDialogOpen(true);
@@ -236,6 +333,31 @@ export function BoardTab() {
     }
   };
 
+  const openPostingDialog = (text: string, url: string | null = null) => {
+    setPostingDialogText(text);
+    setPostingDialogUrl(url);
+    setPostingDialogOpen(true);
+  };
+
+  const handlePostingSubmit = async (postingInput: PostingInput) => {
+    // 공고 한도 체크
+    if (isAtJobLimit) {
+      setPostingDialogOpen(false);
+      setLimitDialogOpen(true);
+      return;
+    }
+    await processJobUrl(postingDialogUrl, postingInput);
+  };
+
+  // 공고 본문을 통째로 붙여넣으면 바로 직접 입력 다이얼로그로 전환
+  const handleInputPaste = (e: React.ClipboardEvent<HTMLInputElement>) => {
+    const pasted = e.clipboardData.getData("text");
+    if (!isLikelyPostingText(pasted)) return;
+    e.preventDefault();
+    const currentUrl = inputValue.trim();
+    openPostingDialog(pasted, isUrl(currentUrl) ? currentUrl : null);
+  };
+
   // 폼 제출 핸들러
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -243,6 +365,11 @@ export function BoardTab() {
 
     const urlToAnalyze = inputValue.trim();
 
+    if (isLikelyPostingText(urlToAnalyze)) {
+      openPostingDialog(urlToAnalyze);
+      return;
+    }
+
     if (!isUrl(urlToAnalyze)) {
       toast.error("올바른 URL을 입력해주세요");
       return;
@@ -329,7 +456,7 @@ export function BoardTab() {
 
   // Persist filters to localStorage
   const setFilters = (
-    updater: FilterState | ((prev: FilterState) => FilterState)
+    updater: BoardFilterState | ((prev: BoardFilterState) => BoardFilterState)
   ) => {
     setFiltersState((prev) => {
       const newFilters =
@@ -343,6 +470,23 @@ export function BoardTab() {
     });
   };
 
+  useEffect(() => saveOption("curve-board-view-mode", viewMode), [viewMode]);
+  useEffect(() => saveOption("curve-board-sort", sortOption), [sortOption]);
+  useEffect(
+    () => saveOption("curve-board-active-view", activeViewId),
+    [activeViewId]
+  );
+
+  const applyBoardView = (view: BoardView) => {
+    setViewMode(view.viewMode);
+    setSortOption(view.sortOption);
+    setFilters({ ...EMPTY_FILTERS, ...view.filters });
+  };
+
+  const advancedConditionCount = filters.advanced.conditions.filter(
+    isFilterConditionComplete
+  ).length;
+
   // 필터 옵션 목록 추출
   const filterOptions = useMemo(() => {
     const experiences = [
@@ -354,7 +498,8 @@ export function BoardTab() {
     const locations = [
       ...new Set(jobPostings.map((j) => j.location).filter(Boolean)),
     ] as string[];
-    return { experiences, workTypes, locations };
+    const tags = collectTags(jobPostings);
+    return { experiences, workTypes, locations, tags };
   }, [jobPostings]);
 
   // 한글→영문 정렬 함수
@@ -382,6 +527,21 @@ export function BoardTab() {
     if (filters.location) {
       filtered = filtered.filter((j) => j.location === filters.location);
     }
+    if (filters.tags.length > 0) {
+      filtered = filtered.filter((j) =>
+        filters.tags.every((tag) => j.tags?.includes(tag))
+      );
+    }
+    // 고급 필터 (AND/OR 조건식)
+    filtered = filtered.filter((j) =>
+      matchesFilterExpression(j, filters.advanced)
+    );
+    // 키워드 검색 (메모·연락처 포함)
+    if (searchQuery.trim()) {
+      filtered = filtered.filter((j) =>
+        matchesJobSearch(j, jobContacts, searchQuery)
+      );
+    }
 
     switch (sortOption) {
       case "newest":
@@ -409,7 +569,7 @@ export function BoardTab() {
       default:
         return filtered;
     }
-  }, [jobPostings, sortOption, filters]);
+  }, [jobPostings, jobContacts, sortOption, filters, searchQuery]);
 
   const interviewCount = jobPostings.filter(
     (j) => j.status === "interview"
@@ -449,8 +609,39 @@ export function BoardTab() {
             <h1 className="text-xl font-bold text-foreground">
               공고 관리 보드
             </h1>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="w-8 h-8 ml-auto lg:hidden"
+              title="통합 검색"
+              onClick={() =>
+                window.dispatchEvent(new CustomEvent("open-command-palette"))
+              }
+            >
+              <Search className="w-4 h-4" />
+            </Button>
           </div>
-          <div className="flex items-center gap-2 lg:shrink-0">
+          <div className="flex flex-wrap items-center gap-2 lg:shrink-0">
+            {/* Saved views - 필터/정렬/보기 방식 묶음 */}
+            <BoardViewsMenu
+              current={{ filters, sortOption, viewMode }}
+              activeViewId={activeViewId}
+              onApply={applyBoardView}
+              onActiveViewChange={setActiveViewId}
+            />
+
+            {/* Search - 회사/공고명/메모/연락처 */}
+            <div className="relative">
+              <Search className="absolute left-2 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-muted-foreground" />
+              <input
+                type="search"
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                placeholder="회사·메모·연락처 검색"
+                className="h-7 w-36 lg:w-48 rounded-md border border-input bg-background pl-7 pr-2 text-xs placeholder:text-muted-foreground focus:outline-none focus:ring-1 focus:ring-primary/30"
+              />
+            </div>
+
             {/* Filter - 경력/근무형태/위치 기준 */}
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
@@ -459,7 +650,9 @@ export function BoardTab() {
                   <span className="text-xs">필터</span>
                   {(filters.minExperience ||
                     filters.workType ||
-                    filters.location) && (
+                    filters.location ||
+                    filters.tags.length > 0 ||
+                    advancedConditionCount > 0) && (
                     <Badge variant="secondary" className="ml-1 text-[10px]">
                       적용중
                     </Badge>
@@ -553,16 +746,46 @@ export function BoardTab() {
                   )}
                 </div>
 
+                <div className="px-2 py-1.5">
+                  <p className="text-xs font-medium mb-1">태그</p>
+                  {filterOptions.tags.length > 0 ? (
+                    <div className="flex flex-wrap gap-1">
+                      {filterOptions.tags.map((tag) => (
+                        <Badge
+                          key={tag}
+                          variant={
+                            filters.tags.includes(tag) ? "default" : "outline"
+                          }
+                          className="text-xs cursor-pointer"
+                          onClick={() =>
+                            setFilters((f) => ({
+                              ...f,
+                              tags: f.tags.includes(tag)
+                                ? f.tags.filter((t) => t !== tag)
+                                : [...f.tags, tag],
+                            }))
+                          }
+                        >
+                          #{tag}
+                        </Badge>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-xs text-muted-foreground">데이터 없음</p>
+                  )}
+                </div>
+
                 <DropdownMenuSeparator />
-                <DropdownMenuItem
-                  onClick={() =>
-                    setFilters({
-                      minExperience: "",
-                      workType: "",
-                      location: "",
-                    })
-                  }
-                >
+                <DropdownMenuItem onClick={() => setIsAdvancedFilterOpen(true)}>
+                  <SlidersHorizontal className="w-4 h-4 mr-2" />
+                  고급 필터
+                  {advancedConditionCount > 0 && (
+                    <Badge variant="secondary" className="ml-auto text-[10px]">
+                      {advancedConditionCount}개 조건
+                    </Badge>
+                  )}
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => setFilters(EMPTY_FILTERS)}>
                   필터 초기화
                 </DropdownMenuItem>
               </DropdownMenuContent>
@@ -582,7 +805,7 @@ export function BoardTab() {
                 {Object.entries(SORT_LABELS).map(([key, label]) => (
                   <DropdownMenuItem
                     key={key}
-                    onClick={() => setSortOption(key as SortOption)}
+                    onClick={() => setSortOption(key as BoardSortOption)}
                   >
                     {label}
                   </DropdownMenuItem>
@@ -590,6 +813,18 @@ export function BoardTab() {
               </DropdownMenuContent>
             </DropdownMenu>
 
+            {/* Import - 엑셀/CSV로 관리하던 지원 현황 */}
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-7 px-2"
+              onClick={() => setIsImportOpen(true)}
+              title="CSV·XLSX 가져오기"
+            >
+              <FileSpreadsheet className="w-3.5 h-3.5 mr-1" />
+              <span className="text-xs">가져오기</span>
+            </Button>
+
             {/* View Toggle */}
             <div className="flex bg-secondary rounded-lg p-0.5">
               <Button
@@ -626,10 +861,22 @@ export function BoardTab() {
               type="text"
               value={inputValue}
               onChange={(e) => setInputValue(e.target.value)}
-              placeholder="채용 공고 URL을 붙여넣으세요"
-              className="w-full bg-card rounded-full pl-10 pr-12 py-2.5 text-sm placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/20 border border-border focus:border-primary/30 shadow-sm"
+              onPaste={handleInputPaste}
+              placeholder="채용 공고 URL 또는 공고 내용을 붙여넣으세요"
+              className="w-full bg-card rounded-full pl-10 pr-20 py-2.5 text-sm placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/20 border border-border focus:border-primary/30 shadow-sm"
               disabled={isProcessing}
             />
+            <Button
+              type="button"
+              size="icon"
+              variant="ghost"
+              className="absolute right-10 top-1/2 -translate-y-1/2 rounded-full w-8 h-8"
+              onClick={() => openPostingDialog("")}
+              disabled={isProcessing}
+              title="공고 내용 붙여넣기 · PDF/이미지 업로드"
+            >
+              <ClipboardPaste className="w-4 h-4" />
+            </Button>
             <Button
               type="submit"
               size="icon"
@@ -679,6 +926,25 @@ export function BoardTab() {
         )}
       </div>
 
+      <AdvancedFilterDialog
+        expression={filters.advanced}
+        open={isAdvancedFilterOpen}
+        onOpenChange={setIsAdvancedFilterOpen}
+        onApply={(advanced) => setFilters((f) => ({ ...f, advanced }))}
+      />
+
+      <JobImportDialog open={isImportOpen} onOpenChange={setIsImportOpen} />
+
+      {/* Posting Text / File Input Dialog */}
+      <PostingInputDialog
+        open={postingDialogOpen}
+        onOpenChange={setPostingDialogOpen}
+        initialText={postingDialogText}
+        sourceUrl={postingDialogUrl}
+        isProcessing={isProcessing}
+        onSubmit={handlePostingSubmit}
+      />
+
       {/* Non-job URL Confirmation Dialog */}
       <AlertDialog open={confirmDialogOpen} onOpenChange={setConfirmDialogOpen}>
         <AlertDialogContent className="rounded-2xl">
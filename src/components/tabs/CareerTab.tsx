@@ -16,6 +16,7 @@ import {
   Eye,
   MessageSquare,
   AlertTriangle,
+  ShieldCheck,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -55,22 +56,39 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { toast } from "sonner";
 import {
   Experience,
   Resume,
   ExperienceType,
   TailoredResume,
+  ResumeDocument,
+  ResumeTemplateId,
+  JobPosting,
 } from "@/types/job";
 import { supabase } from "@/integrations/supabase/client";
 import { getFunctionErrorMessage } from "@/integrations/supabase/functionErrors";
 import { extractTextFromPdf, renderPdfToImageDataUrls } from "@/lib/pdfParser";
-import { exportResumeToDocx } from "@/lib/resumeExporter";
+import { exportResumeToDocx, exportResumeToPdf } from "@/lib/resumeExporter";
 import {
   exportTailoredResumeToDocx,
-  formatResumeForPreview,
-  ResumeFormat,
+  exportTailoredResumeToPdf,
+  getResumeSections,
+  getTailoredResumeTemplate,
+  ResumeFileType,
 } from "@/lib/tailoredResumeExporter";
+import { cleanResumeDocument, resumeDocumentToText } from "@/lib/resumeDocument";
+import { RESUME_TEMPLATE_LIST, ResumeProfile } from "@/lib/resumeTemplates";
+import { ResumeDocumentEditor } from "@/components/resume/ResumeDocumentEditor";
+import { ResumeTemplatePreview } from "@/components/resume/ResumeTemplatePreview";
+import { AtsReportView } from "@/components/resume/AtsReportView";
+import { runAtsCheck } from "@/lib/atsCheck";
 import { GoalsSection } from "./GoalsTab";
 
 export function CareerTab() {
@@ -78,6 +96,7 @@ export function CareerTab() {
     experiences,
     resumes,
     tailoredResumes,
+    jobPostings,
     addExperience,
     updateExperience,
     removeExperience,
@@ -109,7 +128,7 @@ export function CareerTab() {
   const [newExperienceType, setNewExperienceType] =
     useState<ExperienceType>("work");
   const [isUploading, setIsUploading] = useState(false);
-  const [isExporting, setIsExporting] = useState(false);
+  const [exportingType, setExportingType] = useState<ResumeFileType | null>(null);
   const [logResumeId, setLogResumeId] = useState<string | null>(null);
   const [showUploadWarning, setShowUploadWarning] = useState(false);
   const [pendingFile, setPendingFile] = useState<File | null>(null);
@@ -124,6 +143,13 @@ export function CareerTab() {
       if (!detail || typeof detail !== "object") return;
       if (detail.tab !== "career") return;
 
+      // 통합 검색에서 경력을 고르면 편집 창을 바로 엶
+      const experienceId = detail.experienceId as string | undefined;
+      if (experienceId && experiences.some((e) => e.id === experienceId)) {
+        setEditingExperience(experienceId);
+        return;
+      }
+
       const resumeId = detail.tailoredResumeId as string | undefined;
       if (!resumeId) return;
 
@@ -137,7 +163,7 @@ export function CareerTab() {
     window.addEventListener("navigate-to-tab", handler as EventListener);
     return () =>
       window.removeEventListener("navigate-to-tab", handler as EventListener);
-  }, [tailoredResumes]);
+  }, [tailoredResumes, experiences]);
 
   // Sort by createdAt descending (most recent first)
   const workExperiences = experiences
@@ -412,6 +438,24 @@ export function CareerTab() {
     }
   };
 
+  // 기본 이력서는 '표시 이름' 사용
+  const handleExportResume = async (fileType: ResumeFileType) => {
+    setExportingType(fileType);
+    try {
+      if (fileType === "pdf") {
+        await exportResumeToPdf({ userName, experiences });
+      } else {
+        await exportResumeToDocx({ userName, experiences });
+      }
+      toast.success("이력서가 다운로드되었습니다");
+    } catch (err) {
+      console.error("Export error:", err);
+      toast.error(err instanceof Error && /[가-힣]/.test(err.message) ? err.message : "이력서 추출에 실패했습니다");
+    } finally {
+      setExportingType(null);
+    }
+  };
+
   const handleAddExperience = (type: ExperienceType) => {
     setNewExperienceType(type);
     setIsAddingExperience(true);
@@ -540,34 +584,23 @@ export function CareerTab() {
                           <Eye className="w-3.5 h-3.5 mr-1.5" />
                           미리보기
                         </Button>
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          className="h-9 text-xs"
-                          disabled={isExporting || experiences.length === 0}
-                          onClick={async () => {
-                            setIsExporting(true);
-                            try {
-                              await exportResumeToDocx({
-                                userName,
-                                experiences,
-                              });
-                              toast.success("이력서가 다운로드되었습니다");
-                            } catch (err) {
-                              console.error("Export error:", err);
-                              toast.error("이력서 추출에 실패했습니다");
-                            } finally {
-                              setIsExporting(false);
-                            }
-                          }}
-                        >
-                          {isExporting ? (
-                            <Loader2 className="w-3.5 h-3.5 mr-1.5 animate-spin" />
-                          ) : (
-                            <Download className="w-3.5 h-3.5 mr-1.5" />
-                          )}
-                          DOCX 추출
-                        </Button>
+                        {(["docx", "pdf"] as const).map((fileType) => (
+                          <Button
+                            key={fileType}
+                            variant="outline"
+                            size="sm"
+                            className="h-9 text-xs"
+                            disabled={!!exportingType || experiences.length === 0}
+                            onClick={() => handleExportResume(fileType)}
+                          >
+                            {exportingType === fileType ? (
+                              <Loader2 className="w-3.5 h-3.5 mr-1.5 animate-spin" />
+                            ) : (
+                              <Download className="w-3.5 h-3.5 mr-1.5" />
+                            )}
+                            {fileType.toUpperCase()} 추출
+                          </Button>
+                        ))}
                         <Button
                           variant="outline"
                           size="sm"
@@ -740,7 +773,8 @@ export function CareerTab() {
                           onPreview={() => setPreviewingTailoredResume(resume)}
                           onEdit={() => setEditingTailoredResume(resume)}
                           onDelete={() => removeTailoredResume(resume.id)}
-                          userName={userName}
+                          userNames={{ ko: userNameKo, en: userNameEn, display: userName }}
+                          email={user?.email}
                         />
                       ))}
 
@@ -850,9 +884,9 @@ export function CareerTab() {
         resume={editingTailoredResume}
         open={!!editingTailoredResume}
         onOpenChange={(open) => !open && setEditingTailoredResume(null)}
-        onSave={(content) => {
+        onSave={(updates) => {
           if (editingTailoredResume) {
-            updateTailoredResume(editingTailoredResume.id, { content });
+            updateTailoredResume(editingTailoredResume.id, updates);
             toast.success("이력서가 수정되었습니다");
           }
           setEditingTailoredResume(null);
@@ -865,6 +899,13 @@ export function CareerTab() {
         open={!!previewingTailoredResume}
         onOpenChange={(open) => !open && setPreviewingTailoredResume(null)}
         userNames={{ ko: userNameKo, en: userNameEn, display: userName }}
+        email={user?.email}
+        job={jobPostings.find((j) => j.id === previewingTailoredResume?.jobPostingId)}
+        onTemplateChange={(format) => {
+          if (!previewingTailoredResume) return;
+          updateTailoredResume(previewingTailoredResume.id, { format });
+          setPreviewingTailoredResume({ ...previewingTailoredResume, format });
+        }}
       />
 
       {/* Resume Preview Dialog (경력탭 이력서 미리보기) */}
@@ -873,20 +914,8 @@ export function CareerTab() {
         onOpenChange={setShowResumePreview}
         userNames={{ ko: userNameKo, en: userNameEn, display: userName }}
         experiences={experiences}
-        onExport={async () => {
-          setIsExporting(true);
-          try {
-            // 기본 이력서는 '표시 이름' 사용
-            await exportResumeToDocx({ userName, experiences });
-            toast.success("이력서가 다운로드되었습니다");
-          } catch (err) {
-            console.error("Export error:", err);
-            toast.error("이력서 추출에 실패했습니다");
-          } finally {
-            setIsExporting(false);
-          }
-        }}
-        isExporting={isExporting}
+        onExport={handleExportResume}
+        exportingType={exportingType}
       />
 
       {/* Resume Upload Warning Dialog */}
@@ -935,20 +964,38 @@ export function CareerTab() {
   );
 }
 
+// 인적사항·이름 줄에 쓰는 정보 (이력서 언어에 맞는 이름)
+function tailoredResumeProfile(
+  resume: TailoredResume,
+  userNames: { ko: string; en: string; display: string },
+  email?: string
+): ResumeProfile {
+  return {
+    name:
+      resume.language === "en"
+        ? userNames.en || userNames.display || "Name"
+        : userNames.ko || userNames.display || "이름",
+    nameEn: userNames.en || undefined,
+    email,
+  };
+}
+
 function TailoredResumeCard({
   resume,
   onPreview,
   onEdit,
   onDelete,
-  userName,
+  userNames,
+  email,
 }: {
   resume: TailoredResume;
   onPreview: () => void;
   onEdit: () => void;
   onDelete: () => void;
-  userName: string;
+  userNames: { ko: string; en: string; display: string };
+  email?: string;
 }) {
-  const [isExporting, setIsExporting] = useState(false);
+  const [exportingType, setExportingType] = useState<ResumeFileType | null>(null);
   const dateStr = new Date(resume.createdAt)
     .toLocaleDateString("ko-KR", {
       year: "2-digit",
@@ -958,16 +1005,21 @@ function TailoredResumeCard({
     .replace(/\. /g, ".")
     .replace(/\.$/, "");
 
-  const handleDownload = async () => {
-    setIsExporting(true);
+  const handleDownload = async (fileType: ResumeFileType) => {
+    setExportingType(fileType);
     try {
-      await exportTailoredResumeToDocx(resume, userName);
+      const profile = tailoredResumeProfile(resume, userNames, email);
+      if (fileType === "pdf") {
+        await exportTailoredResumeToPdf(resume, profile);
+      } else {
+        await exportTailoredResumeToDocx(resume, profile);
+      }
       toast.success("이력서가 다운로드되었습니다");
     } catch (err) {
       console.error("Export error:", err);
-      toast.error("다운로드에 실패했습니다");
+      toast.error(err instanceof Error && /[가-힣]/.test(err.message) ? err.message : "다운로드에 실패했습니다");
     } finally {
-      setIsExporting(false);
+      setExportingType(null);
     }
   };
 
@@ -998,6 +1050,9 @@ function TailoredResumeCard({
             <Badge variant="outline" className="text-[10px]">
               {resume.language === "ko" ? "국문" : "영문"}
             </Badge>
+            <Badge variant="outline" className="text-[10px]">
+              {getTailoredResumeTemplate(resume).label}
+            </Badge>
           </div>
         </div>
         <div className="flex gap-1">
@@ -1010,20 +1065,31 @@ function TailoredResumeCard({
           >
             <Eye className="w-3.5 h-3.5" />
           </Button>
-          <Button
-            variant="ghost"
-            size="icon"
-            className="w-7 h-7"
-            onClick={handleDownload}
-            disabled={isExporting}
-            title="다운로드"
-          >
-            {isExporting ? (
-              <Loader2 className="w-3.5 h-3.5 animate-spin" />
-            ) : (
-              <Download className="w-3.5 h-3.5" />
-            )}
-          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="w-7 h-7"
+                disabled={!!exportingType}
+                title="다운로드"
+              >
+                {exportingType ? (
+                  <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                ) : (
+                  <Download className="w-3.5 h-3.5" />
+                )}
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => handleDownload("docx")}>
+                DOCX 다운로드
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleDownload("pdf")}>
+                PDF 다운로드
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
           <Button
             variant="ghost"
             size="icon"
@@ -1340,102 +1406,95 @@ function TailoredResumePreviewDialog({
   open,
   onOpenChange,
   userNames,
+  email,
+  job,
+  onTemplateChange,
 }: {
   resume: TailoredResume | null;
   open: boolean;
   onOpenChange: (open: boolean) => void;
   userNames: { ko: string; en: string; display: string };
+  email?: string;
+  job?: JobPosting;
+  onTemplateChange: (format: ResumeTemplateId) => void;
 }) {
-  const [isExporting, setIsExporting] = useState(false);
+  const [exportingType, setExportingType] = useState<ResumeFileType | null>(null);
   const [showFeedback, setShowFeedback] = useState(false);
+  const [showAtsReport, setShowAtsReport] = useState(false);
 
-  const handleDownload = async () => {
+  const handleDownload = async (fileType: ResumeFileType) => {
     if (!resume) return;
-    setIsExporting(true);
+    setExportingType(fileType);
     try {
-      const format: ResumeFormat =
-        (resume as any).format ??
-        (resume.language === "en" ? "consulting" : "narrative");
-      const chosenNameDownload =
-        resume.language === "en"
-          ? userNames.en || userNames.display || "Name"
-          : userNames.ko || userNames.display || "이름";
-      await exportTailoredResumeToDocx(resume, chosenNameDownload, format);
+      const profile = tailoredResumeProfile(resume, userNames, email);
+      if (fileType === "pdf") {
+        await exportTailoredResumeToPdf(resume, profile);
+      } else {
+        await exportTailoredResumeToDocx(resume, profile);
+      }
       toast.success("이력서가 다운로드되었습니다");
     } catch (err) {
       console.error("Export error:", err);
-      toast.error("다운로드에 실패했습니다");
+      toast.error(err instanceof Error && /[가-힣]/.test(err.message) ? err.message : "다운로드에 실패했습니다");
     } finally {
-      setIsExporting(false);
+      setExportingType(null);
     }
   };
 
   if (!resume) return null;
 
-  const format: ResumeFormat =
-    (resume as any).format ??
-    (resume.language === "en" ? "consulting" : "narrative");
-  const chosenName =
-    resume.language === "en"
-      ? userNames.en || userNames.display || "Name"
-      : userNames.ko || userNames.display || "이름";
-
-  const previewContent = formatResumeForPreview(
-    resume.content,
-    chosenName,
-    format
-  );
-
-  // Make the "resume paper" look consistent with the Career resume preview
-  const previewLines = previewContent.split("\n");
-  const bodyContent = (() => {
-    const first = (previewLines[0] || "").trim();
-    const second = (previewLines[1] || "").trim();
-    const looksLikeHeader =
-      first.toLowerCase() === chosenName.trim().toLowerCase() ||
-      first.includes(chosenName);
-    if (looksLikeHeader && !second) return previewLines.slice(2).join("\n");
-    if (looksLikeHeader) return previewLines.slice(1).join("\n");
-    return previewContent;
-  })();
+  // 템플릿은 저장된 구조를 다시 배치만 하므로 AI 호출 없이 바로 바뀜
+  const template = getTailoredResumeTemplate(resume);
+  const profile = tailoredResumeProfile(resume, userNames, email);
 
   return (
     <>
       {/* Main Preview Dialog */}
-      <Dialog open={open && !showFeedback} onOpenChange={onOpenChange}>
-        <DialogContent className="max-w-[92%] max-h-[85vh] rounded-2xl flex flex-col lg:max-w-[600px]">
+      <Dialog open={open && !showFeedback && !showAtsReport} onOpenChange={onOpenChange}>
+        <DialogContent className="max-w-[92%] max-h-[85vh] rounded-2xl flex flex-col lg:max-w-[680px]">
           <DialogHeader>
             <DialogTitle className="flex items-center gap-2">
               <Eye className="w-5 h-5" />
               이력서 미리보기
             </DialogTitle>
             <DialogDescription>
-              {resume.companyName} - {resume.jobTitle} (
-              {resume.language === "en" ? "컨설팅형" : "서술형"})
+              {resume.companyName} - {resume.jobTitle} ({template.label})
             </DialogDescription>
           </DialogHeader>
 
           <div className="flex-1 overflow-hidden flex flex-col gap-3">
-            {/* Resume Preview - styled like actual resume */}
-            <div className="bg-white dark:bg-zinc-900 border-2 border-border rounded-lg p-6 flex-1 overflow-y-auto min-h-[300px] shadow-inner">
-              <h1 className="text-2xl font-bold text-center text-foreground mb-6 border-b-2 border-foreground pb-2">
-                {chosenName}
-              </h1>
-              <pre
-                className="text-sm whitespace-pre-wrap break-words font-sans text-foreground leading-relaxed [overflow-wrap:anywhere]"
-                style={{
-                  fontFamily:
-                    resume.language === "en"
-                      ? "Georgia, serif"
-                      : "Pretendard, sans-serif",
-                }}
+            <div className="flex items-center gap-2">
+              <Label className="text-xs text-muted-foreground shrink-0">템플릿</Label>
+              <Select
+                value={template.id}
+                onValueChange={(value) => onTemplateChange(value as ResumeTemplateId)}
               >
-                {bodyContent}
-              </pre>
+                <SelectTrigger className="h-8 text-sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RESUME_TEMPLATE_LIST.map((t) => (
+                    <SelectItem key={t.id} value={t.id}>
+                      {t.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {/* Resume Preview - styled like actual resume */}
+            <div className="bg-white border-2 border-border rounded-lg p-6 flex-1 overflow-y-auto min-h-[300px] shadow-inner">
+              <ResumeTemplatePreview
+                template={template}
+                sections={getResumeSections(resume, template, profile)}
+                name={profile.name}
+                subtitle={`${resume.companyName} · ${resume.jobTitle}`}
+                language={resume.language}
+              />
             </div>
 
             {/* Action buttons */}
-            <div className="flex gap-2">
+            <div className="flex flex-wrap gap-2">
               {resume.aiFeedback && (
                 <Button
                   variant="outline"
@@ -1449,27 +1508,65 @@ function TailoredResumePreviewDialog({
               <Button
                 variant="outline"
                 className="flex-1"
-                onClick={() => onOpenChange(false)}
+                onClick={() => setShowAtsReport(true)}
               >
-                닫기
+                <ShieldCheck className="w-4 h-4 mr-2" />
+                ATS 점검
               </Button>
               <Button
+                variant="outline"
                 className="flex-1"
-                onClick={handleDownload}
-                disabled={isExporting}
+                onClick={() => onOpenChange(false)}
               >
-                {isExporting ? (
-                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                ) : (
-                  <Download className="w-4 h-4 mr-2" />
-                )}
-                DOCX 다운로드
+                닫기
               </Button>
+              {(["docx", "pdf"] as const).map((fileType) => (
+                <Button
+                  key={fileType}
+                  className="flex-1"
+                  onClick={() => handleDownload(fileType)}
+                  disabled={!!exportingType}
+                >
+                  {exportingType === fileType ? (
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  ) : (
+                    <Download className="w-4 h-4 mr-2" />
+                  )}
+                  {fileType.toUpperCase()}
+                </Button>
+              ))}
             </div>
           </div>
         </DialogContent>
       </Dialog>
 
+      {/* ATS 점검 리포트 (현재 템플릿 기준, AI 호출 없음) */}
+      <Dialog open={open && showAtsReport} onOpenChange={setShowAtsReport}>
+        <DialogContent className="max-w-[92%] max-h-[80vh] rounded-2xl overflow-y-auto lg:max-w-[600px]">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <ShieldCheck className="w-5 h-5 text-primary" />
+              ATS 호환성 점검
+            </DialogTitle>
+            <DialogDescription>
+              {resume.companyName} - {resume.jobTitle} ({template.label})
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-3">
+            <AtsReportView report={runAtsCheck(resume, job)} />
+
+            <Button
+              variant="outline"
+              className="w-full"
+              onClick={() => setShowAtsReport(false)}
+            >
+              이력서로 돌아가기
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
       {/* Separate AI Feedback Dialog with enhanced formatting */}
       <Dialog open={showFeedback} onOpenChange={setShowFeedback}>
         <DialogContent className="max-w-[92%] max-h-[80vh] rounded-2xl lg:max-w-[600px]">
@@ -1514,15 +1611,32 @@ function TailoredResumeEditDialog({
   resume: TailoredResume | null;
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onSave: (content: string) => void;
+  onSave: (updates: Pick<TailoredResume, "content" | "document">) => void;
 }) {
   const [content, setContent] = useState(resume?.content || "");
+  const [resumeDocument, setResumeDocument] = useState<ResumeDocument | undefined>(resume?.document);
+  const [loadedId, setLoadedId] = useState<string | null>(null);
 
-  // Reset when resume changes
-  if (resume && content !== resume.content && open) {
+  // 다른 이력서를 열 때만 초기화 (입력 중에는 덮어쓰지 않음)
+  if (open && resume && loadedId !== resume.id) {
     setContent(resume.content);
+    setResumeDocument(resume.document);
+    setLoadedId(resume.id);
+  }
+  if (!open && loadedId !== null) {
+    setLoadedId(null);
   }
 
+  const handleSave = () => {
+    if (resumeDocument && resume) {
+      // 구조화된 이력서는 항목을 고치고, 텍스트는 그걸로 다시 만든다
+      const cleaned = cleanResumeDocument(resumeDocument);
+      onSave({ content: resumeDocumentToText(cleaned, resume.language), document: cleaned });
+    } else {
+      onSave({ content });
+    }
+  };
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-[92%] max-h-[80vh] rounded-2xl flex flex-col lg:max-w-[800px]">
@@ -1535,12 +1649,22 @@ function TailoredResumeEditDialog({
               {resume.companyName} - {resume.jobTitle}
             </p>
           )}
-          <Textarea
-            value={content}
-            onChange={(e) => setContent(e.target.value)}
-            className="flex-1 min-h-[300px] resize-none"
-            placeholder="이력서 내용..."
-          />
+          {resumeDocument && resume ? (
+            <div className="flex-1 overflow-y-auto min-h-[300px] pr-1">
+              <ResumeDocumentEditor
+                value={resumeDocument}
+                language={resume.language}
+                onChange={setResumeDocument}
+              />
+            </div>
+          ) : (
+            <Textarea
+              value={content}
+              onChange={(e) => setContent(e.target.value)}
+              className="flex-1 min-h-[300px] resize-none"
+              placeholder="이력서 내용..."
+            />
+          )}
           <div className="flex gap-2">
             <Button
               variant="outline"
@@ -1549,7 +1673,7 @@ function TailoredResumeEditDialog({
             >
               취소
             </Button>
-            <Button className="flex-1" onClick={() => onSave(content)}>
+            <Button className="flex-1" onClick={handleSave}>
               저장
             </Button>
           </div>
@@ -1738,14 +1862,14 @@ function ResumePreviewDialog({
   userNames,
   experiences,
   onExport,
-  isExporting,
+  exportingType,
 }: {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   userNames: { ko: string; en: string; display: string };
   experiences: Experience[];
-  onExport: () => void;
-  isExporting: boolean;
+  onExport: (fileType: ResumeFileType) => void;
+  exportingType: ResumeFileType | null;
 }) {
   const workExperiences = experiences.filter((e) => e.type === "work");
   const projectExperiences = experiences.filter((e) => e.type === "project");
@@ -1878,18 +2002,21 @@ function ResumePreviewDialog({
           >
             닫기
           </Button>
-          <Button
-            className="flex-1"
-            onClick={onExport}
-            disabled={isExporting || experiences.length === 0}
-          >
-            {isExporting ? (
-              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-            ) : (
-              <Download className="w-4 h-4 mr-2" />
-            )}
-            DOCX 다운로드
-          </Button>
+          {(["docx", "pdf"] as const).map((fileType) => (
+            <Button
+              key={fileType}
+              className="flex-1"
+              onClick={() => onExport(fileType)}
+              disabled={!!exportingType || experiences.length === 0}
+            >
+              {exportingType === fileType ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Download className="w-4 h-4 mr-2" />
+              )}
+              {fileType.toUpperCase()}
+            </Button>
+          ))}
         </div>
       </DialogContent>
     </Dialog>
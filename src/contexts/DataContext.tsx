@@ -8,6 +8,13 @@ import {
   Resume,
   TailoredResume,
   CareerGoal,
+  JobPostingSnapshot,
+  JobPostingChange,
+  JobPostingUpdateOptions,
+  JobStatusEvent,
+  InterviewRound,
+  JobContact,
+  BoardView,
 } from '@/types/job';
 
 interface DataContextType {
@@ -15,8 +22,13 @@ interface DataContextType {
   // Job postings
   jobPostings: JobPosting[];
   addJobPosting: (posting: Omit<JobPosting, 'id'> & { id?: string }) => Promise<string | undefined>;
-  updateJobPosting: (id: string, updates: Partial<JobPosting>) => Promise<void>;
+  importJobPostings: (postings: Omit<JobPosting, 'id' | 'createdAt' | 'updatedAt'>[]) => Promise<JobPosting[]>;
+  updateJobPosting: (id: string, updates: Partial<JobPosting>, options?: JobPostingUpdateOptions) => Promise<boolean>;
   removeJobPosting: (id: string) => Promise<void>;
+  removeJobPostings: (ids: string[]) => Promise<void>;
+  getJobPostingChanges: (jobPostingId: string) => Promise<JobPostingChange[]>;
+  undoJobPostingChange: (change: JobPostingChange) => Promise<void>;
+  getJobStatusEvents: (jobPostingId: string) => Promise<JobStatusEvent[]>;
   // Messages
   messages: ChatMessage[];
   addMessage: (message: Omit<ChatMessage, 'id'> & { id?: string }) => Promise<string | undefined>;
@@ -36,6 +48,24 @@ interface DataContextType {
   addTailoredResume: (resume: Omit<TailoredResume, 'id'> & { id?: string }) => Promise<string | undefined>;
   updateTailoredResume: (id: string, updates: Partial<TailoredResume>) => Promise<void>;
   removeTailoredResume: (id: string) => Promise<void>;
+  // Interview rounds
+  interviewRounds: InterviewRound[];
+  addInterviewRound: (round: Omit<InterviewRound, 'id' | 'createdAt' | 'updatedAt'>) => Promise<string | undefined>;
+  updateInterviewRound: (id: string, updates: Partial<InterviewRound>) => Promise<void>;
+  removeInterviewRound: (id: string) => Promise<void>;
+  // Job contacts
+  jobContacts: JobContact[];
+  addJobContact: (contact: Omit<JobContact, 'id' | 'createdAt' | 'updatedAt'>) => Promise<string | undefined>;
+  updateJobContact: (id: string, updates: Partial<JobContact>) => Promise<void>;
+  removeJobContact: (id: string) => Promise<void>;
+  // Board views
+  boardViews: BoardView[];
+  addBoardView: (view: Omit<BoardView, 'id' | 'createdAt' | 'updatedAt'>) => Promise<string | undefined>;
+  updateBoardView: (id: string, updates: Partial<BoardView>) => Promise<boolean>;
+  removeBoardView: (id: string) => Promise<void>;
+  // Job posting snapshots
+  addJobPostingSnapshot: (snapshot: Omit<JobPostingSnapshot, 'id' | 'createdAt'>) => Promise<string | undefined>;
+  getLatestJobPostingSnapshot: (jobPostingId: string) => Promise<JobPostingSnapshot | null>;
   // Goals
   currentGoals: CareerGoal[];
   addGoal: (goal: Omit<CareerGoal, 'id'> & { id?: string }) => Promise<string | undefined>;
@@ -64,8 +94,13 @@ export function DataProvider({ children }: { children: ReactNode }) {
     // Job postings
     jobPostings: supabaseData.jobPostings,
     addJobPosting: supabaseData.addJobPosting,
+    importJobPostings: supabaseData.importJobPostings,
     updateJobPosting: supabaseData.updateJobPosting,
     removeJobPosting: supabaseData.removeJobPosting,
+    removeJobPostings: supabaseData.removeJobPostings,
+    getJobPostingChanges: supabaseData.getJobPostingChanges,
+    undoJobPostingChange: supabaseData.undoJobPostingChange,
+    getJobStatusEvents: supabaseData.getJobStatusEvents,
     // Messages
     messages: supabaseData.messages,
     addMessage: supabaseData.addMessage,
@@ -85,6 +120,24 @@ export function DataProvider({ children }: { children: ReactNode }) {
     addTailoredResume: supabaseData.addTailoredResume,
     updateTailoredResume: supabaseData.updateTailoredResume,
     removeTailoredResume: supabaseData.removeTailoredResume,
+    // Interview rounds
+    interviewRounds: supabaseData.interviewRounds,
+    addInterviewRound: supabaseData.addInterviewRound,
+    updateInterviewRound: supabaseData.updateInterviewRound,
+    removeInterviewRound: supabaseData.removeInterviewRound,
+    // Job contacts
+    jobContacts: supabaseData.jobContacts,
+    addJobContact: supabaseData.addJobContact,
+    updateJobContact: supabaseData.updateJobContact,
+    removeJobContact: supabaseData.removeJobContact,
+    // Board views
+    boardViews: supabaseData.boardViews,
+    addBoardView: supabaseData.addBoardView,
+    updateBoardView: supabaseData.updateBoardView,
+    removeBoardView: supabaseData.removeBoardView,
+    // Job posting snapshots
+    addJobPostingSnapshot: supabaseData.addJobPostingSnapshot,
+    getLatestJobPostingSnapshot: supabaseData.getLatestJobPostingSnapshot,
     // Goals
     currentGoals: supabaseData.currentGoals,
     addGoal: supabaseData.addGoal,
@@ -1,16 +1,35 @@
 import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import type { Database, Json } from '@/integrations/supabase/types';
 import { useAuth } from '@/hooks/useAuth';
 import { 
   JobPosting, 
+  JobKeyword,
   ChatMessage, 
   Experience, 
   Resume, 
   TailoredResume, 
+  ResumeTemplateId,
   CareerGoal,
-  JobStatus
+  JobStatus,
+  SalaryPeriod,
+  JobPostingSnapshot,
+  JobPostingChange,
+  JobPostingChangeSource,
+  JobPostingUpdateOptions,
+  JobStatusEvent,
+  InterviewRound,
+  InterviewRoundType,
+  InterviewOutcome,
+  JobContact,
+  JobContactRole,
+  BoardView,
+  BoardFilterState,
+  BoardSortOption,
+  BoardViewMode
 } from '@/types/job';
 import { toast } from 'sonner';
+import { parseResumeDocument } from '@/lib/resumeDocument';
 
 // Type for database job posting
 interface DbJobPosting {
@@ -30,13 +49,25 @@ interface DbJobPosting {
   location_evidence: string | null;
   visa_sponsorship: boolean | null;
   visa_sponsorship_evidence: string | null;
+  deadline: string | null;
+  deadline_evidence: string | null;
+  posted_at: string | null;
+  posted_at_evidence: string | null;
+  salary_min: number | null;
+  salary_max: number | null;
+  salary_currency: string | null;
+  salary_period: string | null;
+  salary_evidence: string | null;
   summary: string | null;
   company_score: number | null;
   fit_score: number | null;
   minimum_requirements_check: any;
   company_criteria_scores: any;
   key_competencies: any;
+  keywords: Json | null;
   source_url: string | null;
+  notes: string | null;
+  tags: string[] | null;
   created_at: string;
   updated_at: string;
 }
@@ -59,13 +90,75 @@ function dbToJobPosting(db: DbJobPosting): JobPosting {
     locationEvidence: db.location_evidence ?? undefined,
     visaSponsorship: db.visa_sponsorship ?? undefined,
     visaSponsorshipEvidence: db.visa_sponsorship_evidence ?? undefined,
+    deadline: db.deadline ?? undefined,
+    deadlineEvidence: db.deadline_evidence ?? undefined,
+    postedAt: db.posted_at ?? undefined,
+    postedAtEvidence: db.posted_at_evidence ?? undefined,
+    salaryMin: db.salary_min ?? undefined,
+    salaryMax: db.salary_max ?? undefined,
+    salaryCurrency: db.salary_currency ?? undefined,
+    salaryPeriod: (db.salary_period as SalaryPeriod) ?? undefined,
+    salaryEvidence: db.salary_evidence ?? undefined,
     summary: db.summary ?? undefined,
     companyScore: db.company_score ?? undefined,
     fitScore: db.fit_score ?? undefined,
     minimumRequirementsCheck: db.minimum_requirements_check ?? undefined,
     companyCriteriaScores: db.company_criteria_scores ?? undefined,
     keyCompetencies: db.key_competencies ?? undefined,
+    keywords: (db.keywords as unknown as JobKeyword[] | null) ?? undefined,
     sourceUrl: db.source_url ?? undefined,
+    notes: db.notes ?? undefined,
+    tags: db.tags ?? [],
+    createdAt: new Date(db.created_at),
+    updatedAt: new Date(db.updated_at),
+  };
+}
+
+type DbInterviewRound = Database['public']['Tables']['interview_rounds']['Row'];
+
+function dbToInterviewRound(db: DbInterviewRound): InterviewRound {
+  return {
+    id: db.id,
+    jobPostingId: db.job_posting_id,
+    type: db.round_type as InterviewRoundType,
+    scheduledAt: db.scheduled_at ? new Date(db.scheduled_at) : undefined,
+    interviewers: db.interviewers || [],
+    location: db.location ?? undefined,
+    meetingUrl: db.meeting_url ?? undefined,
+    outcome: db.outcome as InterviewOutcome,
+    notes: db.notes ?? undefined,
+    createdAt: new Date(db.created_at),
+    updatedAt: new Date(db.updated_at),
+  };
+}
+
+type DbJobContact = Database['public']['Tables']['job_posting_contacts']['Row'];
+
+function dbToJobContact(db: DbJobContact): JobContact {
+  return {
+    id: db.id,
+    jobPostingId: db.job_posting_id,
+    name: db.name,
+    role: db.role as JobContactRole,
+    email: db.email ?? undefined,
+    linkedinUrl: db.linkedin_url ?? undefined,
+    lastContactedAt: db.last_contacted_at ?? undefined,
+    nextFollowUpAt: db.next_follow_up_at ?? undefined,
+    notes: db.notes ?? undefined,
+    createdAt: new Date(db.created_at),
+    updatedAt: new Date(db.updated_at),
+  };
+}
+
+type DbBoardView = Database['public']['Tables']['board_views']['Row'];
+
+function dbToBoardView(db: DbBoardView): BoardView {
+  return {
+    id: db.id,
+    name: db.name,
+    filters: db.filters as unknown as BoardFilterState,
+    sortOption: db.sort_option as BoardSortOption,
+    viewMode: db.view_mode as BoardViewMode,
     createdAt: new Date(db.created_at),
     updatedAt: new Date(db.updated_at),
   };
@@ -89,13 +182,25 @@ function jobPostingToDb(job: Partial<JobPosting>, userId: string): Record<string
   if (job.locationEvidence !== undefined) result.location_evidence = job.locationEvidence;
   if (job.visaSponsorship !== undefined) result.visa_sponsorship = job.visaSponsorship;
   if (job.visaSponsorshipEvidence !== undefined) result.visa_sponsorship_evidence = job.visaSponsorshipEvidence;
+  if (job.deadline !== undefined) result.deadline = job.deadline;
+  if (job.deadlineEvidence !== undefined) result.deadline_evidence = job.deadlineEvidence;
+  if (job.postedAt !== undefined) result.posted_at = job.postedAt;
+  if (job.postedAtEvidence !== undefined) result.posted_at_evidence = job.postedAtEvidence;
+  if (job.salaryMin !== undefined) result.salary_min = job.salaryMin;
+  if (job.salaryMax !== undefined) result.salary_max = job.salaryMax;
+  if (job.salaryCurrency !== undefined) result.salary_currency = job.salaryCurrency;
+  if (job.salaryPeriod !== undefined) result.salary_period = job.salaryPeriod;
+  if (job.salaryEvidence !== undefined) result.salary_evidence = job.salaryEvidence;
   if (job.summary !== undefined) result.summary = job.summary;
   if (job.companyScore !== undefined) result.company_score = job.companyScore;
   if (job.fitScore !== undefined) result.fit_score = job.fitScore;
   if (job.minimumRequirementsCheck !== undefined) result.minimum_requirements_check = job.minimumRequirementsCheck;
   if (job.companyCriteriaScores !== undefined) result.company_criteria_scores = job.companyCriteriaScores;
   if (job.keyCompetencies !== undefined) result.key_competencies = job.keyCompetencies;
+  if (job.keywords !== undefined) result.keywords = job.keywords;
   if (job.sourceUrl !== undefined) result.source_url = job.sourceUrl;
+  if (job.notes !== undefined) result.notes = job.notes;
+  if (job.tags !== undefined) result.tags = job.tags ?? [];
   
   return result;
 }
@@ -164,6 +269,9 @@ export function useSupabaseData() {
   const [resumes, setResumes] = useState<Resume[]>([]);
   const [tailoredResumes, setTailoredResumes] = useState<TailoredResume[]>([]);
   const [currentGoals, setCurrentGoals] = useState<CareerGoal[]>([]);
+  const [interviewRounds, setInterviewRounds] = useState<InterviewRound[]>([]);
+  const [jobContacts, setJobContacts] = useState<JobContact[]>([]);
+  const [boardViews, setBoardViews] = useState<BoardView[]>([]);
 
   // SECURITY: Reset all data immediately when user changes or logs out
   useEffect(() => {
@@ -174,6 +282,9 @@ export function useSupabaseData() {
       setResumes([]);
       setTailoredResumes([]);
       setCurrentGoals([]);
+      setInterviewRounds([]);
+      setJobContacts([]);
+      setBoardViews([]);
       setIsLoading(false);
     }
   }, [user]);
@@ -263,9 +374,10 @@ export function useSupabaseData() {
         companyName: t.company_name,
         jobTitle: t.job_title,
         content: t.content,
+        document: parseResumeDocument(t.document),
         aiFeedback: t.ai_feedback ?? undefined,
         language: t.language as 'ko' | 'en',
-        format: t.format as 'consulting' | 'narrative',
+        format: t.format as ResumeTemplateId,
         createdAt: new Date(t.created_at),
         updatedAt: new Date(t.updated_at),
       })));
@@ -292,6 +404,33 @@ export function useSupabaseData() {
         updatedAt: new Date(g.updated_at),
       })));
 
+      // Fetch interview rounds
+      const { data: roundsData, error: roundsError } = await supabase
+        .from('interview_rounds')
+        .select('*')
+        .order('scheduled_at', { ascending: true, nullsFirst: false });
+
+      if (roundsError) throw roundsError;
+      setInterviewRounds((roundsData || []).map(dbToInterviewRound));
+
+      // Fetch job posting contacts
+      const { data: contactsData, error: contactsError } = await supabase
+        .from('job_posting_contacts')
+        .select('*')
+        .order('created_at', { ascending: true });
+
+      if (contactsError) throw contactsError;
+      setJobContacts((contactsData || []).map(dbToJobContact));
+
+      // Fetch saved board views
+      const { data: viewsData, error: viewsError } = await supabase
+        .from('board_views')
+        .select('*')
+        .order('created_at', { ascending: true });
+
+      if (viewsError) throw viewsError;
+      setBoardViews((viewsData || []).map(dbToBoardView));
+
     } catch (error) {
       console.error('Error fetching data:', error);
       toast.error('데이터를 불러오는 중 오류가 발생했습니다');
@@ -339,8 +478,34 @@ export function useSupabaseData() {
     return newPosting.id;
   };
 
-  const updateJobPosting = async (id: string, updates: Partial<JobPosting>) => {
-    if (!user) return;
+  // 스프레드시트 가져오기: 여러 공고를 한 번에 추가 (우선순위는 점수가 없으므로 지정한 값 그대로)
+  const importJobPostings = async (
+    postings: Omit<JobPosting, 'id' | 'createdAt' | 'updatedAt'>[]
+  ): Promise<JobPosting[]> => {
+    if (!user || postings.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('job_postings')
+      .insert(postings.map((posting) => jobPostingToDb(posting, user.id)) as Database['public']['Tables']['job_postings']['Insert'][])
+      .select();
+
+    if (error) {
+      console.error('Error importing job postings:', error);
+      toast.error('공고 가져오기 중 오류가 발생했습니다');
+      return [];
+    }
+
+    const imported = (data || []).map(dbToJobPosting);
+    setJobPostings(prev => [...imported, ...prev]);
+    return imported;
+  };
+
+  const updateJobPosting = async (
+    id: string,
+    updates: Partial<JobPosting>,
+    options?: JobPostingUpdateOptions
+  ): Promise<boolean> => {
+    if (!user) return false;
 
     const existing = jobPostings.find((j) => j.id === id);
 
@@ -352,7 +517,7 @@ export function useSupabaseData() {
 
     const computedPriority = scoreTouched
       ? calculateRelativePriorityFromScores({
-          allJobPostings: jobPostings,
+          allJobPostings: options?.priorityBasis ?? jobPostings,
           jobId: id,
           companyScore: updates.companyScore ?? existing?.companyScore,
           fitScore: updates.fitScore ?? existing?.fitScore,
@@ -373,12 +538,90 @@ export function useSupabaseData() {
     if (error) {
       console.error('Error updating job posting:', error);
       toast.error('공고 업데이트 중 오류가 발생했습니다');
-      return;
+      return false;
+    }
+
+    // 이력을 먼저 남겨야 updatedAt 변경으로 이력 패널이 다시 불러올 때 방금 수정이 포함됨
+    if (options?.history && existing) {
+      await recordJobPostingChange(existing, updates, options);
     }
 
     setJobPostings(prev =>
       prev.map(p => (p.id === id ? { ...p, ...mergedUpdates, updatedAt: new Date() } : p))
     );
+    return true;
+  };
+
+  // 사용자가 직접 수정한 필드만 기록 (자동 계산되는 priority 등은 호출 측에서 넘기지 않음)
+  const recordJobPostingChange = async (
+    existing: JobPosting,
+    updates: Partial<JobPosting>,
+    options: JobPostingUpdateOptions
+  ) => {
+    if (!user) return;
+
+    const normalize = (value: unknown) => (value === undefined || value === '' ? null : value);
+    const changes: JobPostingChange['changes'] = {};
+    Object.entries(updates).forEach(([field, value]) => {
+      const from = normalize(existing[field as keyof JobPosting]);
+      const to = normalize(value);
+      if (JSON.stringify(from) !== JSON.stringify(to)) {
+        changes[field] = { from, to };
+      }
+    });
+    if (Object.keys(changes).length === 0) return;
+
+    const { error } = await supabase
+      .from('job_posting_changes')
+      .insert({
+        user_id: user.id,
+        job_posting_id: existing.id,
+        changes: changes as Json,
+        source: options.history,
+        reverts_change_id: options.revertsChangeId ?? null,
+      });
+
+    if (error) {
+      console.error('Error recording job posting change:', error);
+      toast.error('변경 이력 저장 중 오류가 발생했습니다');
+    }
+  };
+
+  const getJobPostingChanges = useCallback(async (jobPostingId: string): Promise<JobPostingChange[]> => {
+    if (!user) return [];
+
+    const { data, error } = await supabase
+      .from('job_posting_changes')
+      .select('*')
+      .eq('job_posting_id', jobPostingId)
+      .order('created_at', { ascending: false })
+      .limit(100);
+
+    if (error) {
+      console.error('Error fetching job posting changes:', error);
+      toast.error('변경 이력을 불러오는 중 오류가 발생했습니다');
+      return [];
+    }
+
+    return (data || []).map((c) => ({
+      id: c.id,
+      jobPostingId: c.job_posting_id,
+      changes: c.changes as JobPostingChange['changes'],
+      source: c.source as JobPostingChangeSource,
+      revertsChangeId: c.reverts_change_id ?? undefined,
+      createdAt: new Date(c.created_at),
+    }));
+  }, [user]);
+
+  // 이력의 변경 전 값으로 되돌리고, 되돌린 사실도 새 이력으로 남김
+  const undoJobPostingChange = async (change: JobPostingChange) => {
+    const restored = Object.fromEntries(
+      Object.entries(change.changes).map(([field, { from }]) => [field, from])
+    ) as Partial<JobPosting>;
+    await updateJobPosting(change.jobPostingId, restored, {
+      history: 'undo',
+      revertsChangeId: change.id,
+    });
   };
 
   const removeJobPosting = async (id: string) => {
@@ -398,6 +641,24 @@ export function useSupabaseData() {
     setJobPostings(prev => prev.filter(p => p.id !== id));
   };
 
+  // 테이블 일괄 삭제용 (한 번의 요청으로 삭제)
+  const removeJobPostings = async (ids: string[]) => {
+    if (!user || ids.length === 0) return;
+
+    const { error } = await supabase
+      .from('job_postings')
+      .delete()
+      .in('id', ids);
+
+    if (error) {
+      console.error('Error removing job postings:', error);
+      toast.error('공고 삭제 중 오류가 발생했습니다');
+      return;
+    }
+
+    setJobPostings(prev => prev.filter(p => !ids.includes(p.id)));
+  };
+
   // Chat message operations
   const addMessage = async (message: Omit<ChatMessage, 'id'> & { id?: string }): Promise<string | undefined> => {
     if (!user) return;
@@ -630,6 +891,7 @@ export function useSupabaseData() {
         company_name: resume.companyName,
         job_title: resume.jobTitle,
         content: resume.content,
+        document: (resume.document ?? null) as unknown as Json,
         ai_feedback: resume.aiFeedback ?? null,
         language: resume.language,
         format: resume.format,
@@ -649,9 +911,10 @@ export function useSupabaseData() {
       companyName: data.company_name,
       jobTitle: data.job_title,
       content: data.content,
+      document: parseResumeDocument(data.document),
       aiFeedback: data.ai_feedback ?? undefined,
       language: data.language as 'ko' | 'en',
-      format: data.format as 'consulting' | 'narrative',
+      format: data.format as ResumeTemplateId,
       createdAt: new Date(data.created_at),
       updatedAt: new Date(data.updated_at),
     };
@@ -664,6 +927,7 @@ export function useSupabaseData() {
     
     const dbUpdates: Record<string, any> = {};
     if (updates.content !== undefined) dbUpdates.content = updates.content;
+    if (updates.document !== undefined) dbUpdates.document = updates.document;
     if (updates.aiFeedback !== undefined) dbUpdates.ai_feedback = updates.aiFeedback;
     if (updates.language !== undefined) dbUpdates.language = updates.language;
     if (updates.format !== undefined) dbUpdates.format = updates.format;
@@ -699,6 +963,317 @@ export function useSupabaseData() {
     setTailoredResumes(prev => prev.filter(r => r.id !== id));
   };
 
+  // Interview round operations
+  const addInterviewRound = async (
+    round: Omit<InterviewRound, 'id' | 'createdAt' | 'updatedAt'>
+  ): Promise<string | undefined> => {
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from('interview_rounds')
+      .insert({
+        user_id: user.id,
+        job_posting_id: round.jobPostingId,
+        round_type: round.type,
+        scheduled_at: round.scheduledAt ? round.scheduledAt.toISOString() : null,
+        interviewers: round.interviewers,
+        location: round.location ?? null,
+        meeting_url: round.meetingUrl ?? null,
+        outcome: round.outcome,
+        notes: round.notes ?? null,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error adding interview round:', error);
+      toast.error('인터뷰 일정 추가 중 오류가 발생했습니다');
+      return;
+    }
+
+    setInterviewRounds(prev => [...prev, dbToInterviewRound(data)]);
+    return data.id;
+  };
+
+  const updateInterviewRound = async (id: string, updates: Partial<InterviewRound>) => {
+    if (!user) return;
+
+    const dbUpdates: Database['public']['Tables']['interview_rounds']['Update'] = {};
+    if (updates.type !== undefined) dbUpdates.round_type = updates.type;
+    if (updates.scheduledAt !== undefined) dbUpdates.scheduled_at = updates.scheduledAt ? updates.scheduledAt.toISOString() : null;
+    if (updates.interviewers !== undefined) dbUpdates.interviewers = updates.interviewers;
+    if (updates.location !== undefined) dbUpdates.location = updates.location || null;
+    if (updates.meetingUrl !== undefined) dbUpdates.meeting_url = updates.meetingUrl || null;
+    if (updates.outcome !== undefined) dbUpdates.outcome = updates.outcome;
+    if (updates.notes !== undefined) dbUpdates.notes = updates.notes || null;
+
+    const { error } = await supabase
+      .from('interview_rounds')
+      .update(dbUpdates)
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error updating interview round:', error);
+      toast.error('인터뷰 일정 업데이트 중 오류가 발생했습니다');
+      return;
+    }
+
+    setInterviewRounds(prev => prev.map(r => r.id === id ? { ...r, ...updates, updatedAt: new Date() } : r));
+  };
+
+  const removeInterviewRound = async (id: string) => {
+    if (!user) return;
+
+    const { error } = await supabase
+      .from('interview_rounds')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error removing interview round:', error);
+      toast.error('인터뷰 일정 삭제 중 오류가 발생했습니다');
+      return;
+    }
+
+    setInterviewRounds(prev => prev.filter(r => r.id !== id));
+  };
+
+  // Job contact operations
+  const addJobContact = async (
+    contact: Omit<JobContact, 'id' | 'createdAt' | 'updatedAt'>
+  ): Promise<string | undefined> => {
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from('job_posting_contacts')
+      .insert({
+        user_id: user.id,
+        job_posting_id: contact.jobPostingId,
+        name: contact.name,
+        role: contact.role,
+        email: contact.email ?? null,
+        linkedin_url: contact.linkedinUrl ?? null,
+        last_contacted_at: contact.lastContactedAt ?? null,
+        next_follow_up_at: contact.nextFollowUpAt ?? null,
+        notes: contact.notes ?? null,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error adding job contact:', error);
+      toast.error('연락처 추가 중 오류가 발생했습니다');
+      return;
+    }
+
+    setJobContacts(prev => [...prev, dbToJobContact(data)]);
+    return data.id;
+  };
+
+  const updateJobContact = async (id: string, updates: Partial<JobContact>) => {
+    if (!user) return;
+
+    const dbUpdates: Database['public']['Tables']['job_posting_contacts']['Update'] = {};
+    if (updates.name !== undefined) dbUpdates.name = updates.name;
+    if (updates.role !== undefined) dbUpdates.role = updates.role;
+    if (updates.email !== undefined) dbUpdates.email = updates.email || null;
+    if (updates.linkedinUrl !== undefined) dbUpdates.linkedin_url = updates.linkedinUrl || null;
+    if (updates.lastContactedAt !== undefined) dbUpdates.last_contacted_at = updates.lastContactedAt || null;
+    if (updates.nextFollowUpAt !== undefined) dbUpdates.next_follow_up_at = updates.nextFollowUpAt || null;
+    if (updates.notes !== undefined) dbUpdates.notes = updates.notes || null;
+
+    const { error } = await supabase
+      .from('job_posting_contacts')
+      .update(dbUpdates)
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error updating job contact:', error);
+      toast.error('연락처 업데이트 중 오류가 발생했습니다');
+      return;
+    }
+
+    setJobContacts(prev => prev.map(c => c.id === id ? { ...c, ...updates, updatedAt: new Date() } : c));
+  };
+
+  const removeJobContact = async (id: string) => {
+    if (!user) return;
+
+    const { error } = await supabase
+      .from('job_posting_contacts')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error removing job contact:', error);
+      toast.error('연락처 삭제 중 오류가 발생했습니다');
+      return;
+    }
+
+    setJobContacts(prev => prev.filter(c => c.id !== id));
+  };
+
+  // Board view operations
+  const addBoardView = async (
+    view: Omit<BoardView, 'id' | 'createdAt' | 'updatedAt'>
+  ): Promise<string | undefined> => {
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from('board_views')
+      .insert({
+        user_id: user.id,
+        name: view.name,
+        filters: view.filters as unknown as Json,
+        sort_option: view.sortOption,
+        view_mode: view.viewMode,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error adding board view:', error);
+      toast.error(
+        error.code === '23505'
+          ? '같은 이름의 보기가 이미 있습니다'
+          : '보기 저장 중 오류가 발생했습니다'
+      );
+      return;
+    }
+
+    setBoardViews(prev => [...prev, dbToBoardView(data)]);
+    return data.id;
+  };
+
+  const updateBoardView = async (id: string, updates: Partial<BoardView>): Promise<boolean> => {
+    if (!user) return false;
+
+    const dbUpdates: Database['public']['Tables']['board_views']['Update'] = {};
+    if (updates.name !== undefined) dbUpdates.name = updates.name;
+    if (updates.filters !== undefined) dbUpdates.filters = updates.filters as unknown as Json;
+    if (updates.sortOption !== undefined) dbUpdates.sort_option = updates.sortOption;
+    if (updates.viewMode !== undefined) dbUpdates.view_mode = updates.viewMode;
+
+    const { error } = await supabase
+      .from('board_views')
+      .update(dbUpdates)
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error updating board view:', error);
+      toast.error(
+        error.code === '23505'
+          ? '같은 이름의 보기가 이미 있습니다'
+          : '보기 업데이트 중 오류가 발생했습니다'
+      );
+      return false;
+    }
+
+    setBoardViews(prev => prev.map(v => v.id === id ? { ...v, ...updates, updatedAt: new Date() } : v));
+    return true;
+  };
+
+  const removeBoardView = async (id: string) => {
+    if (!user) return;
+
+    const { error } = await supabase
+      .from('board_views')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error removing board view:', error);
+      toast.error('보기 삭제 중 오류가 발생했습니다');
+      return;
+    }
+
+    setBoardViews(prev => prev.filter(v => v.id !== id));
+  };
+
+  // Status events (job_postings 트리거가 기록, 여기서는 조회만)
+  const getJobStatusEvents = useCallback(async (jobPostingId: string): Promise<JobStatusEvent[]> => {
+    if (!user) return [];
+
+    const { data, error } = await supabase
+      .from('job_status_events')
+      .select('*')
+      .eq('job_posting_id', jobPostingId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching job status events:', error);
+      toast.error('지원 타임라인을 불러오는 중 오류가 발생했습니다');
+      return [];
+    }
+
+    return (data || []).map((e) => ({
+      id: e.id,
+      jobPostingId: e.job_posting_id,
+      fromStatus: (e.from_status as JobStatus | null) ?? undefined,
+      toStatus: e.to_status as JobStatus,
+      createdAt: new Date(e.created_at),
+    }));
+  }, [user]);
+
+  // Job posting snapshot operations (원문은 용량이 커서 전체 로드 없이 필요할 때만 조회)
+  const addJobPostingSnapshot = async (
+    snapshot: Omit<JobPostingSnapshot, 'id' | 'createdAt'>
+  ): Promise<string | undefined> => {
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from('job_posting_snapshots')
+      .insert({
+        user_id: user.id,
+        job_posting_id: snapshot.jobPostingId,
+        source_url: snapshot.sourceUrl ?? null,
+        title: snapshot.title ?? null,
+        content: snapshot.content,
+        source: snapshot.source,
+        json_ld: (snapshot.jsonLd ?? null) as Json,
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      console.error('Error adding job posting snapshot:', error);
+      toast.error('공고 원문 저장 중 오류가 발생했습니다');
+      return;
+    }
+
+    return data.id;
+  };
+
+  const getLatestJobPostingSnapshot = useCallback(async (jobPostingId: string): Promise<JobPostingSnapshot | null> => {
+    if (!user) return null;
+
+    const { data, error } = await supabase
+      .from('job_posting_snapshots')
+      .select('*')
+      .eq('job_posting_id', jobPostingId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching job posting snapshot:', error);
+      toast.error('공고 원문을 불러오는 중 오류가 발생했습니다');
+      return null;
+    }
+    if (!data) return null;
+
+    return {
+      id: data.id,
+      jobPostingId: data.job_posting_id,
+      sourceUrl: data.source_url ?? undefined,
+      title: data.title ?? undefined,
+      content: data.content,
+      source: data.source,
+      jsonLd: (data.json_ld as Record<string, unknown> | null) ?? undefined,
+      createdAt: new Date(data.created_at),
+    };
+  }, [user]);
+
   // Career goal operations
   const addGoal = async (goal: Omit<CareerGoal, 'id'> & { id?: string }): Promise<string | undefined> => {
     if (!user) return;
@@ -791,8 +1366,13 @@ export function useSupabaseData() {
     // Job postings
     jobPostings,
     addJobPosting,
+    importJobPostings,
     updateJobPosting,
     removeJobPosting,
+    removeJobPostings,
+    getJobPostingChanges,
+    undoJobPostingChange,
+    getJobStatusEvents,
     // Messages
     messages,
     addMessage,
@@ -812,6 +1392,24 @@ export function useSupabaseData() {
     addTailoredResume,
     updateTailoredResume,
     removeTailoredResume,
+    // Interview rounds
+    interviewRounds,
+    addInterviewRound,
+    updateInterviewRound,
+    removeInterviewRound,
+    // Job contacts
+    jobContacts,
+    addJobContact,
+    updateJobContact,
+    removeJobContact,
+    // Board views
+    boardViews,
+    addBoardView,
+    updateBoardView,
+    removeBoardView,
+    // Job posting snapshots
+    addJobPostingSnapshot,
+    getLatestJobPostingSnapshot,
     // Goals
     currentGoals,
     addGoal,
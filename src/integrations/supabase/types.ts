@@ -47,6 +47,60 @@ export type Database = {
         }
         Relationships: []
       }
+      board_views: {
+        Row: {
+          created_at: string
+          filters: Json
+          id: string
+          name: string
+          sort_option: string
+          updated_at: string
+          user_id: string
+          view_mode: string
+        }
+        Insert: {
+          created_at?: string
+          filters?: Json
+          id?: string
+          name: string
+          sort_option?: string
+          updated_at?: string
+          user_id: string
+          view_mode?: string
+        }
+        Update: {
+          created_at?: string
+          filters?: Json
+          id?: string
+          name?: string
+          sort_option?: string
+          updated_at?: string
+          user_id?: string
+          view_mode?: string
+        }
+        Relationships: []
+      }
+      calendar_feed_tokens: {
+        Row: {
+          created_at: string
+          id: string
+          token: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          token?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          token?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       career_goals: {
         Row: {
           archived_at: string | null
@@ -246,26 +300,234 @@ export type Database = {
         }
         Relationships: []
       }
+      interview_rounds: {
+        Row: {
+          created_at: string
+          id: string
+          interviewers: string[]
+          job_posting_id: string
+          location: string | null
+          meeting_url: string | null
+          notes: string | null
+          outcome: string
+          round_type: string
+          scheduled_at: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          interviewers?: string[]
+          job_posting_id: string
+          location?: string | null
+          meeting_url?: string | null
+          notes?: string | null
+          outcome?: string
+          round_type: string
+          scheduled_at?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          interviewers?: string[]
+          job_posting_id?: string
+          location?: string | null
+          meeting_url?: string | null
+          notes?: string | null
+          outcome?: string
+          round_type?: string
+          scheduled_at?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "interview_rounds_job_posting_id_fkey"
+            columns: ["job_posting_id"]
+            isOneToOne: false
+            referencedRelation: "job_postings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      job_posting_changes: {
+        Row: {
+          changes: Json
+          created_at: string
+          id: string
+          job_posting_id: string
+          reverts_change_id: string | null
+          source: string
+          user_id: string
+        }
+        Insert: {
+          changes: Json
+          created_at?: string
+          id?: string
+          job_posting_id: string
+          reverts_change_id?: string | null
+          source: string
+          user_id: string
+        }
+        Update: {
+          changes?: Json
+          created_at?: string
+          id?: string
+          job_posting_id?: string
+          reverts_change_id?: string | null
+          source?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "job_posting_changes_job_posting_id_fkey"
+            columns: ["job_posting_id"]
+            isOneToOne: false
+            referencedRelation: "job_postings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "job_posting_changes_reverts_change_id_fkey"
+            columns: ["reverts_change_id"]
+            isOneToOne: false
+            referencedRelation: "job_posting_changes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      job_posting_contacts: {
+        Row: {
+          created_at: string
+          email: string | null
+          id: string
+          job_posting_id: string
+          last_contacted_at: string | null
+          linkedin_url: string | null
+          name: string
+          next_follow_up_at: string | null
+          notes: string | null
+          role: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          email?: string | null
+          id?: string
+          job_posting_id: string
+          last_contacted_at?: string | null
+          linkedin_url?: string | null
+          name: string
+          next_follow_up_at?: string | null
+          notes?: string | null
+          role?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          email?: string | null
+          id?: string
+          job_posting_id?: string
+          last_contacted_at?: string | null
+          linkedin_url?: string | null
+          name?: string
+          next_follow_up_at?: string | null
+          notes?: string | null
+          role?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "job_posting_contacts_job_posting_id_fkey"
+            columns: ["job_posting_id"]
+            isOneToOne: false
+            referencedRelation: "job_postings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      job_posting_snapshots: {
+        Row: {
+          content: string
+          created_at: string
+          id: string
+          job_posting_id: string
+          json_ld: Json | null
+          source: string
+          source_url: string | null
+          title: string | null
+          user_id: string
+        }
+        Insert: {
+          content: string
+          created_at?: string
+          id?: string
+          job_posting_id: string
+          json_ld?: Json | null
+          source: string
+          source_url?: string | null
+          title?: string | null
+          user_id: string
+        }
+        Update: {
+          content?: string
+          created_at?: string
+          id?: string
+          job_posting_id?: string
+          json_ld?: Json | null
+          source?: string
+          source_url?: string | null
+          title?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "job_posting_snapshots_job_posting_id_fkey"
+            columns: ["job_posting_id"]
+            isOneToOne: false
+            referencedRelation: "job_postings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       job_postings: {
         Row: {
           company_criteria_scores: Json | null
           company_name: string
           company_score: number | null
           created_at: string
+          deadline: string | null
+          deadline_evidence: string | null
           fit_score: number | null
           id: string
           key_competencies: Json | null
+          keywords: Json | null
           language: string | null
           location: string | null
           location_evidence: string | null
           min_experience: string | null
           min_experience_evidence: string | null
           minimum_requirements_check: Json | null
+          notes: string | null
           position: string
+          posted_at: string | null
+          posted_at_evidence: string | null
           priority: number
+          salary_currency: string | null
+          salary_evidence: string | null
+          salary_max: number | null
+          salary_min: number | null
+          salary_period: string | null
+          source_checked_at: string | null
           source_url: string | null
           status: string
           summary: string | null
+          tags: string[]
           title: string
           updated_at: string
           user_id: string
@@ -279,20 +541,33 @@ export type Database = {
           company_name: string
           company_score?: number | null
           created_at?: string
+          deadline?: string | null
+          deadline_evidence?: string | null
           fit_score?: number | null
           id?: string
           key_competencies?: Json | null
+          keywords?: Json | null
           language?: string | null
           location?: string | null
           location_evidence?: string | null
           min_experience?: string | null
           min_experience_evidence?: string | null
           minimum_requirements_check?: Json | null
+          notes?: string | null
           position: string
+          posted_at?: string | null
+          posted_at_evidence?: string | null
           priority?: number
+          salary_currency?: string | null
+          salary_evidence?: string | null
+          salary_max?: number | null
+          salary_min?: number | null
+          salary_period?: string | null
+          source_checked_at?: string | null
           source_url?: string | null
           status?: string
           summary?: string | null
+          tags?: string[]
           title: string
           updated_at?: string
           user_id: string
@@ -306,20 +581,33 @@ export type Database = {
           company_name?: string
           company_score?: number | null
           created_at?: string
+          deadline?: string | null
+          deadline_evidence?: string | null
           fit_score?: number | null
           id?: string
           key_competencies?: Json | null
+          keywords?: Json | null
           language?: string | null
           location?: string | null
           location_evidence?: string | null
           min_experience?: string | null
           min_experience_evidence?: string | null
           minimum_requirements_check?: Json | null
+          notes?: string | null
           position?: string
+          posted_at?: string | null
+          posted_at_evidence?: string | null
           priority?: number
+          salary_currency?: string | null
+          salary_evidence?: string | null
+          salary_max?: number | null
+          salary_min?: number | null
+          salary_period?: string | null
+          source_checked_at?: string | null
           source_url?: string | null
           status?: string
           summary?: string | null
+          tags?: string[]
           title?: string
           updated_at?: string
           user_id?: string
@@ -330,6 +618,41 @@ export type Database = {
         }
         Relationships: []
       }
+      job_status_events: {
+        Row: {
+          created_at: string
+          from_status: string | null
+          id: string
+          job_posting_id: string
+          to_status: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          from_status?: string | null
+          id?: string
+          job_posting_id: string
+          to_status: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          from_status?: string | null
+          id?: string
+          job_posting_id?: string
+          to_status?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "job_status_events_job_posting_id_fkey"
+            columns: ["job_posting_id"]
+            isOneToOne: false
+            referencedRelation: "job_postings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       phone_verifications: {
         Row: {
           created_at: string
@@ -519,6 +842,7 @@ export type Database = {
           company_name: string
           content: string
           created_at: string
+          document: Json | null
           format: string
           id: string
           job_posting_id: string
@@ -532,6 +856,7 @@ export type Database = {
           company_name: string
           content: string
           created_at?: string
+          document?: Json | null
           format: string
           id?: string
           job_posting_id: string
@@ -545,6 +870,7 @@ export type Database = {
           company_name?: string
           content?: string
           created_at?: string
+          document?: Json | null
           format?: string
           id?: string
           job_posting_id?: string
@@ -0,0 +1,311 @@
+import { JobPosting, ResumeDocument } from '@/types/job';
+import { resumeDocumentToText } from '@/lib/resumeDocument';
+import { getTailoredResumeTemplate, type ResumeSource } from '@/lib/tailoredResumeExporter';
+import type { ResumeTemplate } from '@/lib/resumeTemplates';
+
+/**
+ * 맞춤 이력서 ATS(채용 시스템) 호환성 점검
+ * - AI 호출 없이 저장된 이력서 구조와 현재 템플릿(DOCX·PDF 내보내기 형태)으로 계산합니다.
+ * - 키워드는 공고의 핵심 역량·요약에서 뽑으며, 실제 ATS 점수가 아닌 참고용 추정치입니다.
+ */
+
+export type AtsCheckStatus = 'pass' | 'warn' | 'fail';
+
+export interface AtsCheckItem {
+  id: 'keywords' | 'sections' | 'layout' | 'dates' | 'length';
+  label: string;
+  status: AtsCheckStatus;
+  score: number; // 0 ~ weight
+  weight: number;
+  message: string;
+  details: string[];
+}
+
+export interface AtsReport {
+  score: number; // 0 ~ 100
+  items: AtsCheckItem[];
+  matchedKeywords: string[];
+  missingKeywords: string[];
+}
+
+type AtsJob = Pick<JobPosting, 'keyCompetencies' | 'summary'>;
+
+const WEIGHTS = { keywords: 40, sections: 20, layout: 15, dates: 10, length: 15 };
+
+// 키워드로 보지 않는 일반 단어
+const STOPWORDS = new Set([
+  '역량', '능력', '경험', '이해', '이해도', '기반', '활용', '관련', '위한', '대한', '통한', '있는',
+  '업무', '수행', '보유', '우대', '필수', '가능', '등의', '및', '또는', '이상',
+  'and', 'or', 'the', 'a', 'an', 'of', 'to', 'in', 'for', 'with', 'on', 'as', 'at', 'by', 'is', 'are',
+  'be', 'ability', 'experience', 'skills', 'skill', 'strong', 'knowledge', 'understanding', 'years',
+]);
+
+const PARTICLE = /(으로|에서|에게|까지|부터|와|과|을|를|이|가|은|는|의|에|로|도)$/;
+
+const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, ' ');
+
+function keywordTokens(text: string): string[] {
+  return text
+    .split(/[^\p{L}\p{N}+#.]+/u)
+    .map((t) => t.replace(/^\.+|\.+$/g, ''))
+    .map((t) => (/[가-힣]/.test(t) && t.length > 2 ? t.replace(PARTICLE, '') : t))
+    .filter((t) => t.length >= 2 && !STOPWORDS.has(t.toLowerCase()));
+}
+
+// 공고 요약·역량 설명에서 영문 기술 용어 (SQL, Node.js, C++ 등)
+// 국문 공고의 영단어는 모두, 영문 공고는 대문자·숫자·기호가 섞인 단어나 문장 중간의 고유명사만
+function techTerms(text: string): string[] {
+  const isKorean = /[가-힣]/.test(text);
+  const terms: string[] = [];
+  for (const match of text.matchAll(/[A-Za-z][A-Za-z0-9+#.-]*[A-Za-z0-9+#]/g)) {
+    const term = match[0];
+    if (STOPWORDS.has(term.toLowerCase())) continue;
+    const before = text.slice(0, match.index).trimEnd();
+    const midSentence = before.length > 0 && !/[.!?:\n]$/.test(before);
+    const technical = /[A-Z0-9+#.]/.test(term.slice(1)) || (/^[A-Z]/.test(term) && midSentence);
+    if (isKorean || technical) terms.push(term);
+  }
+  return terms;
+}
+
+function checkKeywords(job: AtsJob, text: string) {
+  const haystack = normalize(text);
+  const has = (term: string) => haystack.includes(term.toLowerCase());
+
+  // 역량은 제목 단어의 절반 이상이 이력서에 있으면 반영된 것으로 봄
+  const competencies = (job.keyCompetencies ?? []).map((c) => {
+    const tokens = [...new Set(keywordTokens(c.title))];
+    const hits = tokens.filter(has).length;
+    return { label: c.title, covered: tokens.length > 0 && hits >= Math.ceil(tokens.length / 2) };
+  });
+
+  const source = [job.summary ?? '', ...(job.keyCompetencies ?? []).map((c) => `${c.title} ${c.description}`)].join(' ');
+  const seen = new Set<string>();
+  const terms = techTerms(source).filter((t) => {
+    const key = t.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  const keywords = [
+    ...competencies,
+    ...terms.slice(0, 20).map((t) => ({ label: t, covered: has(t) })),
+  ];
+  const matchedKeywords = keywords.filter((k) => k.covered).map((k) => k.label);
+  const missingKeywords = keywords.filter((k) => !k.covered).map((k) => k.label);
+  const ratio = keywords.length > 0 ? matchedKeywords.length / keywords.length : 1;
+
+  const item: AtsCheckItem = {
+    id: 'keywords',
+    label: '키워드 반영',
+    weight: WEIGHTS.keywords,
+    score: Math.round(WEIGHTS.keywords * ratio),
+    status: ratio >= 0.7 ? 'pass' : ratio >= 0.4 ? 'warn' : 'fail',
+    message:
+      keywords.length > 0
+        ? `공고 키워드 ${keywords.length}개 중 ${matchedKeywords.length}개가 이력서에 있습니다.`
+        : '공고에서 추출한 키워드가 없습니다. 공고 분석 후 다시 확인해주세요.',
+    details: missingKeywords.length > 0 ? [`빠진 키워드: ${missingKeywords.join(', ')}`] : [],
+  };
+  return { item, matchedKeywords, missingKeywords };
+}
+
+// ATS가 흔히 인식하는 섹션 제목
+const STANDARD_HEADINGS = [
+  '경력', '경험', '학력', '교육', '기술', '역량', '요약', '프로젝트', '인적사항', '자격',
+  'experience', 'employment', 'education', 'skill', 'summary', 'project', 'profile', 'research', 'publication',
+];
+
+function checkSections(doc: ResumeDocument | undefined, template: ResumeTemplate, text: string, language: 'ko' | 'en'): AtsCheckItem {
+  const details: string[] = [];
+  let score = WEIGHTS.sections;
+
+  const present = doc
+    ? { work: doc.work.length > 0, education: doc.education.length > 0, skills: doc.skills.length > 0 }
+    : {
+        work: /경력|experience/i.test(text),
+        education: /학력|education/i.test(text),
+        skills: /기술|역량|skill/i.test(text),
+      };
+  const names = language === 'en'
+    ? { work: 'Work Experience', education: 'Education', skills: 'Skills' }
+    : { work: '경력', education: '학력', skills: '기술' };
+
+  if (!present.work) {
+    score -= 10;
+    details.push(`'${names.work}' 섹션이 없습니다.`);
+  }
+  if (!present.education) {
+    score -= 5;
+    details.push(`'${names.education}' 섹션이 없습니다. 학력을 묻는 필드가 비어 보일 수 있습니다.`);
+  }
+  if (!present.skills) {
+    score -= 5;
+    details.push(`'${names.skills}' 섹션이 없습니다.`);
+  }
+
+  // 템플릿이 바꾼 섹션 제목 중 표준 표현이 아닌 것
+  const customTitles = Object.values(template.sectionTitles?.[language] ?? {}).filter(
+    (title) => !STANDARD_HEADINGS.some((h) => title.toLowerCase().includes(h))
+  );
+  if (customTitles.length > 0) {
+    score -= 3;
+    details.push(`표준이 아닌 섹션 제목: ${customTitles.join(', ')}`);
+  }
+
+  score = Math.max(0, score);
+  return {
+    id: 'sections',
+    label: '표준 섹션',
+    weight: WEIGHTS.sections,
+    score,
+    status: score === WEIGHTS.sections ? 'pass' : present.work ? 'warn' : 'fail',
+    message: details.length === 0 ? '경력·학력·기술 섹션이 모두 있습니다.' : '일부 섹션이 빠졌거나 제목이 표준과 다릅니다.',
+    details,
+  };
+}
+
+function checkLayout(template: ResumeTemplate): AtsCheckItem {
+  const details: string[] = [];
+  let score = WEIGHTS.layout;
+
+  if (template.layout === 'sidebar') {
+    score -= 10;
+    details.push('2단 구성은 DOCX에서 표, PDF에서 다단으로 저장되어 일부 ATS가 내용 순서를 섞어 읽습니다.');
+  }
+  const symbols = [template.style.sectionPrefix, template.style.itemPrefix]
+    .map((s) => s.trim())
+    .filter(Boolean);
+  if (symbols.length > 0) {
+    score -= 3;
+    details.push(`제목 앞 기호(${symbols.join(' ')})가 텍스트로 함께 읽힙니다.`);
+  }
+  if (template.style.heading === 'document-title') {
+    score -= 2;
+    details.push('맨 위 줄이 이름이 아닌 문서 제목이라 이름 인식이 늦을 수 있습니다.');
+  }
+
+  score = Math.max(0, score);
+  return {
+    id: 'layout',
+    label: '레이아웃',
+    weight: WEIGHTS.layout,
+    score,
+    status: template.layout === 'sidebar' ? 'fail' : details.length > 0 ? 'warn' : 'pass',
+    message:
+      template.layout === 'sidebar'
+        ? `'${template.label}' 템플릿은 ATS 제출용으로 적합하지 않습니다. 'ATS 기본형'을 권장합니다.`
+        : details.length > 0
+          ? `'${template.label}' 템플릿은 대체로 읽히지만 주의할 점이 있습니다.`
+          : `'${template.label}' 템플릿은 한 단 텍스트 구성이라 ATS가 읽기 쉽습니다.`,
+    details,
+  };
+}
+
+// 날짜 표기 형식 분류 (2020.01 / 2020-01 / 2020/01 / 2020년 1월 / Jan 2020)
+const DATE_FORMATS: { label: string; pattern: RegExp }[] = [
+  { label: 'YYYY.MM', pattern: /\b(19|20)\d{2}\.\s?\d{1,2}\b/g },
+  { label: 'YYYY-MM', pattern: /\b(19|20)\d{2}-\d{1,2}\b/g },
+  { label: 'YYYY/MM', pattern: /\b(19|20)\d{2}\/\d{1,2}\b/g },
+  { label: 'MM/YYYY', pattern: /\b\d{1,2}\/(19|20)\d{2}\b/g },
+  { label: 'YYYY년 MM월', pattern: /(19|20)\d{2}년\s?\d{1,2}월/g },
+  { label: 'Mon YYYY', pattern: /\b(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.?\s+(19|20)\d{2}\b/gi },
+];
+
+function checkDates(doc: ResumeDocument | undefined, text: string): AtsCheckItem {
+  const periods = doc
+    ? [...doc.work, ...doc.projects, ...doc.education].map((i) => i.period ?? '').filter(Boolean)
+    : [text];
+  const used = DATE_FORMATS.filter((f) => periods.some((p) => (p.match(f.pattern) ?? []).length > 0)).map(
+    (f) => f.label
+  );
+  const workWithoutPeriod = doc ? doc.work.filter((w) => !w.period?.trim()).map((w) => w.company || w.role) : [];
+
+  const details: string[] = [];
+  let score = WEIGHTS.dates;
+  if (used.length > 1) {
+    score -= 6;
+    details.push(`여러 날짜 형식이 섞여 있습니다: ${used.join(', ')}`);
+  }
+  if (workWithoutPeriod.length > 0) {
+    score -= 4;
+    details.push(`기간이 없는 경력: ${workWithoutPeriod.join(', ')}`);
+  }
+  if (used.length === 0 && periods.length > 0) {
+    score -= 4;
+    details.push('연·월을 알아볼 수 있는 날짜가 없습니다. 2020.01 - 2023.03 형식을 권장합니다.');
+  }
+
+  score = Math.max(0, score);
+  return {
+    id: 'dates',
+    label: '날짜 형식',
+    weight: WEIGHTS.dates,
+    score,
+    status: score === WEIGHTS.dates ? 'pass' : score >= WEIGHTS.dates / 2 ? 'warn' : 'fail',
+    message: details.length === 0 ? `날짜 형식이 ${used[0] ?? '일관'}으로 통일되어 있습니다.` : '날짜 표기를 통일해주세요.',
+    details,
+  };
+}
+
+// 권장 분량 (국문은 글자 수, 영문은 단어 수)
+const LENGTH_RANGE = {
+  ko: { min: 800, max: 4000, unit: '자', count: (text: string) => text.replace(/\s/g, '').length },
+  en: { min: 300, max: 900, unit: '단어', count: (text: string) => text.split(/\s+/).filter(Boolean).length },
+};
+const LONG_BULLET = 200;
+
+function checkLength(doc: ResumeDocument | undefined, text: string, language: 'ko' | 'en'): AtsCheckItem {
+  const range = LENGTH_RANGE[language];
+  const count = range.count(text);
+  const bullets = doc ? [...doc.work, ...doc.projects].flatMap((i) => i.bullets) : [];
+  const longBullets = bullets.filter((b) => b.length > LONG_BULLET).length;
+
+  const details: string[] = [];
+  let score = WEIGHTS.length;
+  if (count < range.min) {
+    score -= 8;
+    details.push(`분량이 짧습니다 (${count}${range.unit}, 권장 ${range.min}${range.unit} 이상).`);
+  } else if (count > range.max) {
+    score -= 6;
+    details.push(`분량이 깁니다 (${count}${range.unit}, 권장 ${range.max}${range.unit} 이하).`);
+  }
+  if (longBullets > 0) {
+    score -= Math.min(5, longBullets);
+    details.push(`${LONG_BULLET}자가 넘는 항목이 ${longBullets}개 있습니다. 한 항목에 한 가지 성과만 적어주세요.`);
+  }
+
+  score = Math.max(0, score);
+  return {
+    id: 'length',
+    label: '분량',
+    weight: WEIGHTS.length,
+    score,
+    status: score === WEIGHTS.length ? 'pass' : score >= WEIGHTS.length / 2 ? 'warn' : 'fail',
+    message: `${count.toLocaleString()}${range.unit}`,
+    details,
+  };
+}
+
+/** 맞춤 이력서 + 공고 → ATS 점검 리포트 (현재 템플릿 기준) */
+export function runAtsCheck(resume: ResumeSource, job: AtsJob | undefined): AtsReport {
+  const template = getTailoredResumeTemplate(resume);
+  const text = resume.document ? resumeDocumentToText(resume.document, resume.language) : resume.content;
+  const keywords = checkKeywords(job ?? {}, text);
+
+  const items = [
+    keywords.item,
+    checkSections(resume.document, template, text, resume.language),
+    checkLayout(template),
+    checkDates(resume.document, text),
+    checkLength(resume.document, text, resume.language),
+  ];
+
+  return {
+    score: items.reduce((sum, item) => sum + item.score, 0),
+    items,
+    matchedKeywords: keywords.matchedKeywords,
+    missingKeywords: keywords.missingKeywords,
+  };
+}
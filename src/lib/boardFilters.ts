@@ -0,0 +1,172 @@
+import {
+  BoardFilterCondition,
+  BoardFilterExpression,
+  BoardFilterField,
+  BoardFilterOperator,
+  JobPosting,
+  JobStatus,
+  PRIORITY_LABELS,
+  STATUS_LABELS,
+} from '@/types/job';
+import { matchesKoreanQuery } from '@/lib/koreanSearch';
+
+type FieldKind = 'number' | 'enum' | 'days' | 'text';
+
+interface BoardFilterFieldDefinition {
+  label: string;
+  kind: FieldKind;
+  operators: BoardFilterOperator[];
+  options?: { value: string; label: string }[]; // enum 선택지
+  min?: number;
+  max?: number;
+  step?: number;
+}
+
+export const BOARD_FILTER_OPERATOR_LABELS: Record<BoardFilterOperator, string> = {
+  gte: '이상',
+  lte: '이하',
+  eq: '같음',
+  in: '중 하나',
+  not_in: '제외',
+  within_last_days: '최근 N일 이내',
+  older_than_days: 'N일 이전',
+  within_next_days: 'N일 이내 도래',
+  contains: '포함',
+  not_contains: '미포함',
+};
+
+export const BOARD_FILTER_FIELDS: Record<BoardFilterField, BoardFilterFieldDefinition> = {
+  fitScore: { label: '적합도', kind: 'number', operators: ['gte', 'lte', 'eq'], min: 0, max: 5, step: 0.5 },
+  companyScore: { label: '회사 점수', kind: 'number', operators: ['gte', 'lte', 'eq'], min: 0, max: 5, step: 0.5 },
+  priority: {
+    label: '우선순위',
+    kind: 'enum',
+    operators: ['in', 'not_in'],
+    options: [1, 2, 3, 4, 5].map((p) => ({ value: String(p), label: `#${p} ${PRIORITY_LABELS[p]}` })),
+  },
+  status: {
+    label: '지원 상태',
+    kind: 'enum',
+    operators: ['in', 'not_in'],
+    options: Object.entries(STATUS_LABELS).map(([value, label]) => ({ value, label })),
+  },
+  minimumRequirements: {
+    label: '최소 조건',
+    kind: 'enum',
+    operators: ['in', 'not_in'],
+    options: ['충족', '미충족', '판단 불가'].map((v) => ({ value: v, label: v })),
+  },
+  visaSponsorship: {
+    label: '비자 지원',
+    kind: 'enum',
+    operators: ['in', 'not_in'],
+    options: [
+      { value: 'true', label: '가능' },
+      { value: 'false', label: '불가' },
+      { value: 'unknown', label: '미확인' },
+    ],
+  },
+  createdAt: { label: '등록일', kind: 'days', operators: ['within_last_days', 'older_than_days'], min: 0 },
+  deadline: { label: '마감일', kind: 'days', operators: ['within_next_days'], min: 0 },
+  text: { label: '텍스트', kind: 'text', operators: ['contains', 'not_contains'] },
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const EMPTY_FILTER_EXPRESSION: BoardFilterExpression = { combinator: 'and', conditions: [] };
+
+/** 필드 기본 연산자/값으로 새 조건 생성 */
+export function createFilterCondition(field: BoardFilterField): BoardFilterCondition {
+  const definition = BOARD_FILTER_FIELDS[field];
+  const defaults: Record<FieldKind, BoardFilterCondition['value']> = {
+    number: 3,
+    enum: [],
+    days: 14,
+    text: '',
+  };
+  return {
+    id: crypto.randomUUID(),
+    field,
+    operator: definition.operators[0],
+    value: defaults[definition.kind],
+  };
+}
+
+/** 아직 값을 다 채우지 않은 조건 (선택지 없음, 빈 텍스트 등)은 적용하지 않음 */
+export function isFilterConditionComplete(condition: BoardFilterCondition): boolean {
+  const { value } = condition;
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === 'string') return value.trim().length > 0;
+  return Number.isFinite(value);
+}
+
+function getEnumValue(job: JobPosting, field: BoardFilterField): string {
+  switch (field) {
+    case 'priority':
+      return String(job.priority);
+    case 'status':
+      return job.status as JobStatus;
+    case 'minimumRequirements':
+      return job.minimumRequirementsCheck?.experienceMet ?? '';
+    case 'visaSponsorship':
+      return job.visaSponsorship == null ? 'unknown' : String(job.visaSponsorship);
+    default:
+      return '';
+  }
+}
+
+function matchesCondition(job: JobPosting, condition: BoardFilterCondition, now: number): boolean {
+  const { field, operator, value } = condition;
+
+  switch (operator) {
+    case 'gte':
+    case 'lte':
+    case 'eq': {
+      const actual = field === 'fitScore' ? job.fitScore : job.companyScore;
+      // 평가 전인 공고는 숫자 조건에 걸리지 않음
+      if (actual == null || actual === 0) return false;
+      const target = Number(value);
+      if (operator === 'gte') return actual >= target;
+      if (operator === 'lte') return actual <= target;
+      return actual === target;
+    }
+    case 'in':
+    case 'not_in': {
+      const included = (value as string[]).includes(getEnumValue(job, field));
+      return operator === 'in' ? included : !included;
+    }
+    case 'within_last_days':
+    case 'older_than_days': {
+      const ageDays = (now - new Date(job.createdAt).getTime()) / DAY_MS;
+      return operator === 'within_last_days' ? ageDays <= Number(value) : ageDays > Number(value);
+    }
+    case 'within_next_days': {
+      if (!job.deadline) return false;
+      const daysLeft = (new Date(`${job.deadline}T23:59:59`).getTime() - now) / DAY_MS;
+      return daysLeft >= 0 && daysLeft <= Number(value);
+    }
+    case 'contains':
+    case 'not_contains': {
+      const text = [job.companyName, job.title, job.position, job.summary, job.location, job.workType, job.notes]
+        .filter(Boolean)
+        .join('\n');
+      const found = matchesKoreanQuery(text, String(value));
+      return operator === 'contains' ? found : !found;
+    }
+    default:
+      return true;
+  }
+}
+
+/** 고급 필터 적용. 완성된 조건이 없으면 모든 공고 통과 */
+export function matchesFilterExpression(
+  job: JobPosting,
+  expression: BoardFilterExpression,
+  now = Date.now()
+): boolean {
+  const conditions = expression.conditions.filter(isFilterConditionComplete);
+  if (conditions.length === 0) return true;
+  return expression.combinator === 'and'
+    ? conditions.every((c) => matchesCondition(job, c, now))
+    : conditions.some((c) => matchesCondition(job, c, now));
+}
@@ -0,0 +1,40 @@
+import { Experience, KeyCompetency, MinimumRequirementsCheck } from '@/types/job';
+import { supabase } from '@/integrations/supabase/client';
+import { getFunctionErrorMessage } from '@/integrations/supabase/functionErrors';
+
+export interface FitEvaluationResult {
+  evaluatedCompetencies: KeyCompetency[];
+  minimumRequirements?: MinimumRequirementsCheck;
+}
+
+/** evaluate-fit 호출. 실패 시 사용자에게 보여줄 메시지로 Error를 던짐 */
+export async function requestFitEvaluation(input: {
+  keyCompetencies: KeyCompetency[];
+  experiences: Experience[];
+  minExperience?: string;
+}): Promise<FitEvaluationResult> {
+  // Credits are now deducted server-side in the edge function
+  const { data, error } = await supabase.functions.invoke('evaluate-fit', {
+    body: input,
+  });
+
+  if (error) {
+    throw new Error(
+      await getFunctionErrorMessage(error, '적합도 평가에 실패했습니다.')
+    );
+  }
+
+  // Handle errors from server
+  if (!data?.success && data?.error) {
+    throw new Error(data.error);
+  }
+
+  if (!data?.evaluatedCompetencies) {
+    throw new Error('적합도 평가 결과가 비어 있습니다.');
+  }
+
+  return {
+    evaluatedCompetencies: data.evaluatedCompetencies,
+    minimumRequirements: data.minimumRequirements,
+  };
+}
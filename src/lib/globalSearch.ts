@@ -0,0 +1,119 @@
+import { Experience, JobPosting, TailoredResume } from '@/types/job';
+import { findKoreanMatch, matchesKoreanQuery } from '@/lib/koreanSearch';
+
+export type SearchResultKind = 'job' | 'experience' | 'tailoredResume';
+
+export interface SearchResult {
+  kind: SearchResultKind;
+  id: string;
+  title: string;
+  subtitle?: string;
+  snippet?: string; // 제목 외 필드에서 일치한 부분 (앞뒤 일부)
+}
+
+interface SearchDocument extends SearchResult {
+  fields: { label: string; text: string }[];
+}
+
+const SNIPPET_RADIUS = 30;
+const MAX_RESULTS_PER_KIND = 8;
+
+function toSnippet(label: string, text: string, index: number, length: number): string {
+  const start = Math.max(0, index - SNIPPET_RADIUS);
+  const end = Math.min(text.length, index + length + SNIPPET_RADIUS);
+  const body = text.slice(start, end).replace(/\s+/g, ' ').trim();
+  return `${label}: ${start > 0 ? '…' : ''}${body}${end < text.length ? '…' : ''}`;
+}
+
+function buildDocuments(
+  jobPostings: JobPosting[],
+  experiences: Experience[],
+  tailoredResumes: TailoredResume[]
+): SearchDocument[] {
+  const jobs: SearchDocument[] = jobPostings.map((job) => ({
+    kind: 'job',
+    id: job.id,
+    title: job.title,
+    subtitle: job.companyName,
+    fields: [
+      { label: '회사', text: job.companyName },
+      { label: '공고', text: job.title },
+      { label: '포지션', text: job.position },
+      { label: '요약', text: job.summary ?? '' },
+      {
+        label: '핵심 역량',
+        text: (job.keyCompetencies ?? [])
+          .map((k) => `${k.title} ${k.description}`)
+          .join('\n'),
+      },
+      { label: '태그', text: (job.tags ?? []).join(' ') },
+      { label: '메모', text: job.notes ?? '' },
+    ],
+  }));
+
+  const exps: SearchDocument[] = experiences.map((exp) => ({
+    kind: 'experience',
+    id: exp.id,
+    title: exp.title,
+    subtitle: [exp.company, exp.period].filter(Boolean).join(' · ') || undefined,
+    fields: [
+      { label: '제목', text: exp.title },
+      { label: '회사', text: exp.company ?? '' },
+      { label: '설명', text: exp.description },
+      { label: '성과', text: exp.bullets.join('\n') },
+    ],
+  }));
+
+  const resumes: SearchDocument[] = tailoredResumes.map((resume) => ({
+    kind: 'tailoredResume',
+    id: resume.id,
+    title: `${resume.companyName} 맞춤 이력서`,
+    subtitle: resume.jobTitle,
+    fields: [
+      { label: '회사', text: resume.companyName },
+      { label: '공고', text: resume.jobTitle },
+      { label: '내용', text: resume.content },
+    ],
+  }));
+
+  return [...jobs, ...exps, ...resumes];
+}
+
+/** 공고·경력·맞춤 이력서 통합 검색 (초성 검색 지원, 종류별 최대 8개) */
+export function searchAll(
+  query: string,
+  data: {
+    jobPostings: JobPosting[];
+    experiences: Experience[];
+    tailoredResumes: TailoredResume[];
+  }
+): SearchResult[] {
+  const terms = query.split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return [];
+
+  const counts: Record<SearchResultKind, number> = { job: 0, experience: 0, tailoredResume: 0 };
+  const results: SearchResult[] = [];
+
+  buildDocuments(data.jobPostings, data.experiences, data.tailoredResumes).forEach((doc) => {
+    if (counts[doc.kind] >= MAX_RESULTS_PER_KIND) return;
+    if (!matchesKoreanQuery(doc.fields.map((f) => f.text).join('\n'), query)) return;
+
+    // 제목/부제목에 안 보이는 필드에서 일치했으면 해당 부분을 보여줌
+    const visible = `${doc.title}\n${doc.subtitle ?? ''}`;
+    let snippet: string | undefined;
+    if (findKoreanMatch(visible, terms[0]) === -1) {
+      for (const field of doc.fields) {
+        const index = findKoreanMatch(field.text, terms[0]);
+        if (index !== -1) {
+          snippet = toSnippet(field.label, field.text, index, terms[0].length);
+          break;
+        }
+      }
+    }
+
+    counts[doc.kind] += 1;
+    results.push({ kind: doc.kind, id: doc.id, title: doc.title, subtitle: doc.subtitle, snippet });
+  });
+
+  return results;
+}
@@ -0,0 +1,40 @@
+import { InterviewRound } from '@/types/job';
+
+/** 아직 진행 전(결과 대기)이고 일정이 지나지 않은 가장 가까운 인터뷰. 없으면 null */
+export function getUpcomingInterview(
+  rounds: InterviewRound[],
+  jobPostingId?: string,
+  now = new Date()
+): InterviewRound | null {
+  return (
+    rounds
+      .filter(
+        (r) =>
+          (!jobPostingId || r.jobPostingId === jobPostingId) &&
+          r.outcome === 'pending' &&
+          r.scheduledAt &&
+          r.scheduledAt.getTime() >= now.getTime()
+      )
+      .sort((a, b) => a.scheduledAt!.getTime() - b.scheduledAt!.getTime())[0] ?? null
+  );
+}
+
+/** "3/12(수) 14:00" */
+export function formatInterviewDateTime(date: Date): string {
+  const weekday = date.toLocaleDateString('ko-KR', { weekday: 'short' });
+  const time = date.toLocaleTimeString('ko-KR', { hour: '2-digit', minute: '2-digit', hour12: false });
+  return `${date.getMonth() + 1}/${date.getDate()}(${weekday}) ${time}`;
+}
+
+// <input type="datetime-local"> 값 ↔ Date (로컬 시간 기준)
+export function toDateTimeLocalValue(date?: Date): string {
+  if (!date) return '';
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+export function fromDateTimeLocalValue(value: string): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
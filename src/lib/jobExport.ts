@@ -0,0 +1,191 @@
+import JSZip from 'jszip';
+import { saveAs } from 'file-saver';
+import { JobPosting, STATUS_LABELS } from '@/types/job';
+import { formatSalaryRange } from '@/lib/jobPostingFields';
+
+export type JobExportFormat = 'csv' | 'xlsx' | 'json';
+
+// 내보낼 열 (TableView 컬럼 key/label과 같은 형태)
+export interface ExportColumn {
+  key: string;
+  label: string;
+}
+
+type CellValue = string | number | undefined;
+
+// 컬럼 key별 셀 값. 표에 보이는 문자열과 같게, 점수·날짜는 분석하기 쉽게 원래 값으로
+const EXPORT_VALUES: Record<string, (job: JobPosting) => CellValue> = {
+  title: (j) => j.title,
+  companyName: (j) => j.companyName,
+  status: (j) => STATUS_LABELS[j.status],
+  priority: (j) => (j.priority > 0 ? j.priority : undefined),
+  position: (j) => j.position,
+  minExperience: (j) => j.minExperience,
+  workType: (j) => j.workType,
+  location: (j) => j.location,
+  visaSponsorship: (j) =>
+    j.visaSponsorship == null ? '미확인' : j.visaSponsorship ? '가능' : '불가',
+  deadline: (j) => j.deadline,
+  postedAt: (j) => j.postedAt,
+  salary: (j) => formatSalaryRange(j) ?? undefined,
+  tags: (j) => (j.tags ?? []).join(', '),
+  fitScore: (j) => j.fitScore || undefined,
+  companyScore: (j) => j.companyScore || undefined,
+  sourceUrl: (j) => j.sourceUrl,
+  notes: (j) => j.notes,
+  createdAt: (j) => new Date(j.createdAt).toISOString().split('T')[0],
+};
+
+// 표 컬럼 외에 항상 뒤에 붙이는 열 (분석용)
+const EXTRA_COLUMNS: ExportColumn[] = [
+  { key: 'fitScore', label: '적합도' },
+  { key: 'companyScore', label: '회사 점수' },
+  { key: 'sourceUrl', label: 'URL' },
+  { key: 'createdAt', label: '등록일' },
+];
+
+const withExtraColumns = (columns: ExportColumn[]) => [
+  ...columns,
+  ...EXTRA_COLUMNS.filter((extra) => !columns.some((c) => c.key === extra.key)),
+];
+
+const toRows = (jobs: JobPosting[], columns: ExportColumn[]): CellValue[][] => [
+  columns.map((c) => c.label),
+  ...jobs.map((job) => columns.map((c) => EXPORT_VALUES[c.key]?.(job))),
+];
+
+// 스크랩한 회사명·메모 등이 엑셀에서 수식으로 실행되지 않도록 =, +, -, @ 등으로 시작하는 문자열은 앞에 ' 추가
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// 쉼표·따옴표·줄바꿈이 있으면 따옴표로 감싸고 내부 따옴표는 두 번
+const escapeCsv = (value: CellValue): string => {
+  const raw = value == null ? '' : String(value);
+  const text = typeof value === 'string' && FORMULA_PREFIX.test(raw) ? `'${raw}` : raw;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+function buildCsv(rows: CellValue[][]): Blob {
+  const text = rows.map((row) => row.map(escapeCsv).join(',')).join('\r\n');
+  // 엑셀에서 한글이 깨지지 않도록 BOM 포함
+  return new Blob(['\uFEFF' + text], { type: 'text/csv;charset=utf-8' });
+}
+
+// XML 1.0에서 허용하지 않는 제어 문자(탭·줄바꿈 제외)는 제거
+const escapeXml = (text: string) =>
+  [...text]
+    .filter((ch) => ch.charCodeAt(0) >= 0x20 || ch === '\t' || ch === '\n' || ch === '\r')
+    .join('')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const columnName = (index: number): string => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+};
+
+// 최소 구성의 XLSX (시트 1개, 헤더 행은 굵게)
+// 문자열은 항상 inline string으로 써서 =로 시작해도 수식(<f>)으로 해석되지 않음
+async function buildXlsx(rows: CellValue[][]): Promise<Blob> {
+  const sheetRows = rows
+    .map((row, r) => {
+      const cells = row
+        .map((value, c) => {
+          if (value == null || value === '') return '';
+          const ref = `${columnName(c)}${r + 1}`;
+          const style = r === 0 ? ' s="1"' : '';
+          return typeof value === 'number'
+            ? `<c r="${ref}"${style}><v>${value}</v></c>`
+            : `<c r="${ref}"${style} t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+        })
+        .join('');
+      return `<row r="${r + 1}">${cells}</row>`;
+    })
+    .join('');
+
+  const zip = new JSZip();
+  zip.file(
+    '[Content_Types].xml',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+      '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+      '</Types>'
+  );
+  zip.file(
+    '_rels/.rels',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+      '</Relationships>'
+  );
+  zip.file(
+    'xl/workbook.xml',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+      '<sheets><sheet name="공고" sheetId="1" r:id="rId1"/></sheets>' +
+      '</workbook>'
+  );
+  zip.file(
+    'xl/_rels/workbook.xml.rels',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+      '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+      '</Relationships>'
+  );
+  zip.file(
+    'xl/styles.xml',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+      '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+      '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+      '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+      '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+      '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+      '</styleSheet>'
+  );
+  zip.file(
+    'xl/worksheets/sheet1.xml',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+      `<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>` +
+      `<sheetData>${sheetRows}</sheetData>` +
+      '</worksheet>'
+  );
+
+  return zip.generateAsync({
+    type: 'blob',
+    mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  });
+}
+
+// 모든 필드 그대로 (핵심 역량, 점수, 근거 문장 포함). 직접 분석하거나 다른 도구로 옮길 때 사용
+function buildJson(jobs: JobPosting[]): Blob {
+  const payload = {
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    jobPostings: jobs,
+  };
+  return new Blob([JSON.stringify(payload, null, 2)], { type: 'application/json' });
+}
+
+/** 공고 목록 내보내기. CSV/XLSX는 지정한 열 + 분석용 열, JSON은 전체 필드 */
+export async function exportJobs(
+  jobs: JobPosting[],
+  format: JobExportFormat,
+  columns: ExportColumn[]
+): Promise<void> {
+  const rows = () => toRows(jobs, withExtraColumns(columns));
+  const blob =
+    format === 'json' ? buildJson(jobs) : format === 'csv' ? buildCsv(rows()) : await buildXlsx(rows());
+  const dateStr = new Date().toISOString().split('T')[0].replace(/-/g, '');
+  saveAs(blob, `Curve_공고_${dateStr}.${format}`);
+}
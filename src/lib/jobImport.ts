@@ -0,0 +1,257 @@
+import { JobPosting, JobStatus, PRIORITY_LABELS, STATUS_LABELS } from '@/types/job';
+import { addTags } from '@/lib/jobTags';
+import { SheetRows } from '@/lib/spreadsheetParser';
+
+// 스프레드시트 열을 매핑할 수 있는 JobPosting 필드
+export type ImportField =
+  | 'companyName'
+  | 'title'
+  | 'position'
+  | 'status'
+  | 'priority'
+  | 'sourceUrl'
+  | 'deadline'
+  | 'postedAt'
+  | 'location'
+  | 'workType'
+  | 'minExperience'
+  | 'salaryMin'
+  | 'salaryMax'
+  | 'tags'
+  | 'notes'
+  | 'summary';
+
+// 열 번호 → 필드 (매핑하지 않은 열은 null)
+export type ColumnMapping = (ImportField | null)[];
+
+export const IMPORT_FIELDS: Record<ImportField, { label: string; aliases: string[] }> = {
+  companyName: { label: '회사', aliases: ['회사', '회사명', '기업', '기업명', 'company', 'companyname'] },
+  title: { label: '공고명', aliases: ['공고', '공고명', '제목', '채용공고', 'title', 'jobtitle'] },
+  position: { label: '포지션', aliases: ['포지션', '직무', '직군', '직책', 'position', 'role'] },
+  status: { label: '상태', aliases: ['상태', '진행상태', '지원상태', '진행', 'status', 'stage'] },
+  priority: { label: '우선순위', aliases: ['우선순위', '중요도', 'priority'] },
+  sourceUrl: { label: 'URL', aliases: ['url', '링크', '공고링크', '공고url', 'link', 'sourceurl'] },
+  deadline: { label: '마감일', aliases: ['마감', '마감일', '마감일자', '지원마감', 'deadline', 'duedate'] },
+  postedAt: { label: '게시일', aliases: ['게시일', '등록일', '공고일', 'posted', 'postedat', 'posteddate'] },
+  location: { label: '위치', aliases: ['위치', '근무지', '지역', '근무지역', 'location', 'city'] },
+  workType: { label: '근무형태', aliases: ['근무형태', '고용형태', '근무방식', 'worktype', 'remote'] },
+  minExperience: { label: '최소경력', aliases: ['경력', '최소경력', '요구경력', 'experience', 'minexperience'] },
+  salaryMin: { label: '연봉 (하한)', aliases: ['연봉', '연봉하한', '최소연봉', 'salary', 'salarymin'] },
+  salaryMax: { label: '연봉 (상한)', aliases: ['연봉상한', '최대연봉', 'salarymax'] },
+  tags: { label: '태그', aliases: ['태그', '분류', '라벨', 'tags', 'tag', 'labels'] },
+  notes: { label: '메모', aliases: ['메모', '비고', '노트', 'notes', 'note', 'memo', 'comment'] },
+  summary: { label: '요약', aliases: ['요약', '설명', '공고요약', 'summary', 'description'] },
+};
+
+// 엑셀에서 흔히 쓰는 상태 표현 (STATUS_LABELS·영문 키 외)
+const STATUS_ALIASES: Record<string, JobStatus> = {
+  검토: 'reviewing',
+  검토중: 'reviewing',
+  지원예정: 'reviewing',
+  관심: 'reviewing',
+  지원: 'applied',
+  지원완료: 'applied',
+  서류: 'applied',
+  서류제출: 'applied',
+  서류전형: 'applied',
+  면접: 'interview',
+  면접중: 'interview',
+  과제: 'interview',
+  코딩테스트: 'interview',
+  서류탈락: 'rejected-docs',
+  서류불합격: 'rejected-docs',
+  불합격: 'rejected-docs',
+  탈락: 'rejected-docs',
+  면접탈락: 'rejected-interview',
+  면접불합격: 'rejected-interview',
+  처우협의: 'offer',
+  합격: 'accepted',
+  최종합격: 'accepted',
+  입사: 'accepted',
+  마감: 'closed',
+};
+
+const normalizeKey = (value: string) => value.toLowerCase().replace(/[\s_\-./()]/g, '');
+
+/** 헤더 이름으로 열 매핑 추측 (한 필드는 한 열에만) */
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const used = new Set<ImportField>();
+  return headers.map((header) => {
+    const key = normalizeKey(header);
+    const field = (Object.keys(IMPORT_FIELDS) as ImportField[]).find(
+      (f) => !used.has(f) && IMPORT_FIELDS[f].aliases.some((alias) => normalizeKey(alias) === key)
+    );
+    if (!field) return null;
+    used.add(field);
+    return field;
+  });
+}
+
+/** 영문 키, STATUS_LABELS 한글 라벨, 흔한 표현을 JobStatus로 */
+export function parseImportStatus(value: string): JobStatus | null {
+  const key = normalizeKey(value);
+  if (!key) return null;
+  const byLabel = (Object.keys(STATUS_LABELS) as JobStatus[]).find(
+    (status) => normalizeKey(status) === key || normalizeKey(STATUS_LABELS[status]) === key
+  );
+  return byLabel ?? STATUS_ALIASES[key] ?? null;
+}
+
+function parsePriority(value: string): number | null {
+  const number = Number(value.replace('#', '').trim());
+  if (Number.isInteger(number) && number >= 1 && number <= 5) return number;
+  const byLabel = Object.entries(PRIORITY_LABELS).find(
+    ([p, label]) => Number(p) > 0 && label === value.trim()
+  );
+  return byLabel ? Number(byLabel[0]) : null;
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/** YYYY-MM-DD, YYYY.M.D, YYYY/M/D, 2024년 3월 5일, 엑셀 날짜 일련번호 → YYYY-MM-DD */
+export function parseImportDate(value: string): string | null {
+  const trimmed = value.trim();
+  if (/^\d{5}(\.\d+)?$/.test(trimmed)) {
+    // 엑셀 일련번호 (1899-12-30 기준 일수)
+    const date = new Date(Date.UTC(1899, 11, 30) + Math.floor(Number(trimmed)) * 86400000);
+    return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+  }
+  const match = trimmed.match(/^(\d{4})\s*[-./년]\s*(\d{1,2})\s*[-./월]\s*(\d{1,2})/);
+  if (!match) return null;
+  const [, y, m, d] = match.map(Number);
+  // 2024-02-31처럼 없는 날짜는 DB date 컬럼이 거부해 가져오기 전체가 실패하므로 여기서 걸러냄
+  const date = new Date(Date.UTC(y, m - 1, d));
+  if (date.getUTCFullYear() !== y || date.getUTCMonth() !== m - 1 || date.getUTCDate() !== d) return null;
+  return `${y}-${pad(m)}-${pad(d)}`;
+}
+
+// "5,000만원" → { min: 50000000 }, "80000000" → { min: 80000000 },
+// "5000~7000만원" → { min: 50000000, max: 70000000 }. 그 밖의 표현("회사 내규", "1억 이상" 등)은 null
+function parseSalary(value: string): { min: number; max?: number } | null {
+  const parts = value.replace(/,/g, '').replace(/^\s*연봉?\s*/, '').split(/[~\-–]/);
+  if (parts.length > 2) return null;
+  const inManwon = value.includes('만');
+  const amounts = parts.map((part) => {
+    const match = part.trim().match(/^(\d+(?:\.\d+)?)\s*(?:만\s*원?|원)?$/);
+    const number = match ? Number(match[1]) : 0;
+    return number > 0 ? (inManwon ? number * 10000 : number) : null;
+  });
+  if (amounts.some((amount) => amount === null)) return null;
+  const [min, max] = amounts as number[];
+  if (max === undefined) return { min };
+  return min <= max ? { min, max } : null;
+}
+
+// 비교용 URL (프로토콜·www·끝 슬래시·추적 파라미터 무시)
+export function normalizeJobUrl(url: string): string {
+  try {
+    const parsed = new URL(url.trim());
+    [...parsed.searchParams.keys()]
+      .filter((key) => key.startsWith('utm_'))
+      .forEach((key) => parsed.searchParams.delete(key));
+    const host = parsed.hostname.replace(/^www\./, '');
+    return `${host}${parsed.pathname.replace(/\/+$/, '')}${parsed.search}`.toLowerCase();
+  } catch {
+    return url.trim().toLowerCase();
+  }
+}
+
+const companyTitleKey = (companyName: string, title: string) =>
+  `${normalizeKey(companyName)}|${normalizeKey(title)}`;
+
+export type ImportPosting = Omit<JobPosting, 'id' | 'createdAt' | 'updatedAt'>;
+
+export interface ImportPreviewRow {
+  rowNumber: number; // 시트 기준 행 번호 (건너뛴 빈 행도 셈)
+  posting: ImportPosting;
+  warnings: string[]; // 해석하지 못해 비워둔 값
+  error?: string; // 가져올 수 없는 행 (회사명 없음)
+  duplicate?: 'existing' | 'file'; // 이미 보드에 있음 / 파일 안에서 중복
+}
+
+/** 매핑을 적용해 행마다 가져올 공고와 경고·중복 여부 계산 (저장은 하지 않음) */
+export function buildImportPreview(
+  rows: SheetRows,
+  mapping: ColumnMapping,
+  existingJobs: JobPosting[]
+): ImportPreviewRow[] {
+  const existingUrls = new Set(
+    existingJobs.filter((j) => j.sourceUrl).map((j) => normalizeJobUrl(j.sourceUrl!))
+  );
+  const existingKeys = new Set(existingJobs.map((j) => companyTitleKey(j.companyName, j.title)));
+  const seenUrls = new Set<string>();
+  const seenKeys = new Set<string>();
+
+  return rows.slice(1).map((row) => {
+    const values: Partial<Record<ImportField, string>> = {};
+    mapping.forEach((field, column) => {
+      const cell = row.cells[column]?.trim();
+      if (field && cell) values[field] = cell;
+    });
+
+    const warnings: string[] = [];
+    const status = values.status ? parseImportStatus(values.status) : null;
+    if (values.status && !status) warnings.push(`상태 '${values.status}'를 알 수 없어 지원검토로 둡니다`);
+    const priority = values.priority ? parsePriority(values.priority) : null;
+    if (values.priority && !priority) warnings.push(`우선순위 '${values.priority}'를 알 수 없습니다`);
+
+    const dateField = (field: 'deadline' | 'postedAt') => {
+      if (!values[field]) return undefined;
+      const date = parseImportDate(values[field]!);
+      if (!date) warnings.push(`${IMPORT_FIELDS[field].label} '${values[field]}'을(를) 날짜로 읽을 수 없습니다`);
+      return date ?? undefined;
+    };
+    const salaryField = (field: 'salaryMin' | 'salaryMax') => {
+      if (!values[field]) return undefined;
+      const salary = parseSalary(values[field]!);
+      if (!salary) warnings.push(`${IMPORT_FIELDS[field].label} '${values[field]}'을(를) 금액으로 읽을 수 없습니다`);
+      return salary ?? undefined;
+    };
+    // 한 칸에 "5000~7000만원"처럼 범위가 적혀 있으면 하한·상한으로 나눔
+    const salaryLow = salaryField('salaryMin');
+    const salaryHigh = salaryField('salaryMax');
+    const salaryMin = salaryLow?.min ?? (salaryHigh?.max !== undefined ? salaryHigh.min : undefined);
+    const salaryMax = salaryHigh ? salaryHigh.max ?? salaryHigh.min : salaryLow?.max;
+
+    const title = values.title || values.position || '채용 공고';
+    const posting: ImportPosting = {
+      companyName: values.companyName ?? '',
+      title,
+      position: values.position || title,
+      status: status ?? 'reviewing',
+      priority: priority ?? 0,
+      language: 'ko',
+      sourceUrl: values.sourceUrl,
+      deadline: dateField('deadline'),
+      postedAt: dateField('postedAt'),
+      location: values.location,
+      workType: values.workType,
+      minExperience: values.minExperience,
+      salaryMin,
+      salaryMax,
+      salaryCurrency: salaryMin !== undefined || salaryMax !== undefined ? 'KRW' : undefined,
+      tags: values.tags ? addTags([], values.tags.split(/[,;#]/)) : [],
+      notes: values.notes,
+      summary: values.summary,
+      keyCompetencies: [],
+    };
+
+    const previewRow: ImportPreviewRow = { rowNumber: row.number, posting, warnings };
+    if (!posting.companyName) {
+      previewRow.error = '회사명이 없습니다';
+      return previewRow;
+    }
+
+    const url = posting.sourceUrl ? normalizeJobUrl(posting.sourceUrl) : null;
+    const key = companyTitleKey(posting.companyName, posting.title);
+    if ((url && existingUrls.has(url)) || existingKeys.has(key)) {
+      previewRow.duplicate = 'existing';
+    } else if ((url && seenUrls.has(url)) || seenKeys.has(key)) {
+      previewRow.duplicate = 'file';
+    }
+    if (url) seenUrls.add(url);
+    seenKeys.add(key);
+
+    return previewRow;
+  });
+}
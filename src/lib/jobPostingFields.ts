@@ -0,0 +1,100 @@
+import { JobPosting, KeyCompetency, SalaryPeriod, SALARY_PERIOD_LABELS } from '@/types/job';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+// YYYY-MM-DD → 로컬 자정 기준 Date (new Date('YYYY-MM-DD')는 UTC로 해석되므로 직접 파싱)
+function parseLocalDate(value: string): Date | null {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (!match) return null;
+  return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+}
+
+/** 마감일까지 남은 일수 (오늘 마감 = 0, 지남 = 음수). 마감일이 없으면 null */
+export function getDaysUntilDeadline(deadline?: string | null, now = new Date()): number | null {
+  if (!deadline) return null;
+  const date = parseLocalDate(deadline);
+  if (!date) return null;
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  return Math.round((date.getTime() - today.getTime()) / DAY_MS);
+}
+
+/** "D-3", "D-Day", "마감" */
+export function formatDday(daysLeft: number): string {
+  if (daysLeft < 0) return '마감';
+  if (daysLeft === 0) return 'D-Day';
+  return `D-${daysLeft}`;
+}
+
+function formatAmount(amount: number, currency?: string): string {
+  if (currency === 'KRW' || !currency) {
+    if (amount >= 10000) {
+      return `${Math.round(amount / 10000).toLocaleString('ko-KR')}만원`;
+    }
+    return `${amount.toLocaleString('ko-KR')}원`;
+  }
+  try {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency,
+      maximumFractionDigits: 0,
+    }).format(amount);
+  } catch {
+    return `${amount.toLocaleString()} ${currency}`;
+  }
+}
+
+/** 연봉 5,000만원 ~ 7,000만원 / 연봉 $120,000 ~ $150,000 */
+export function formatSalaryRange(
+  job: Pick<JobPosting, 'salaryMin' | 'salaryMax' | 'salaryCurrency' | 'salaryPeriod'>
+): string | null {
+  const { salaryMin, salaryMax, salaryCurrency, salaryPeriod } = job;
+  if (salaryMin == null && salaryMax == null) return null;
+
+  const periodLabel = salaryPeriod ? `${SALARY_PERIOD_LABELS[salaryPeriod]} ` : '';
+  if (salaryMin != null && salaryMax != null && salaryMin !== salaryMax) {
+    return `${periodLabel}${formatAmount(salaryMin, salaryCurrency)} ~ ${formatAmount(salaryMax, salaryCurrency)}`;
+  }
+  return `${periodLabel}${formatAmount((salaryMin ?? salaryMax) as number, salaryCurrency)}`;
+}
+
+const optionalText = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value : undefined;
+
+const optionalNumber = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+
+/** analyze-job 응답 → JobPosting 필드 (값이 없는 필드는 undefined) */
+export function mapAnalyzedJobFields(data: Record<string, unknown>): Partial<JobPosting> {
+  return {
+    companyName: optionalText(data.companyName),
+    title: optionalText(data.title),
+    position: optionalText(data.position),
+    language: data.language === 'ko' || data.language === 'en' ? data.language : undefined,
+    minExperience: optionalText(data.minExperience),
+    minExperienceEvidence: optionalText(data.minExperienceEvidence),
+    workType: optionalText(data.workType),
+    workTypeEvidence: optionalText(data.workTypeEvidence),
+    location: optionalText(data.location),
+    locationEvidence: optionalText(data.locationEvidence),
+    visaSponsorship: typeof data.visaSponsorship === 'boolean' ? data.visaSponsorship : null,
+    visaSponsorshipEvidence: optionalText(data.visaSponsorshipEvidence),
+    deadline: optionalText(data.deadline),
+    deadlineEvidence: optionalText(data.deadlineEvidence),
+    postedAt: optionalText(data.postedAt),
+    postedAtEvidence: optionalText(data.postedAtEvidence),
+    salaryMin: optionalNumber(data.salaryMin),
+    salaryMax: optionalNumber(data.salaryMax),
+    salaryCurrency: optionalText(data.salaryCurrency),
+    salaryPeriod:
+      typeof data.salaryPeriod === 'string' && data.salaryPeriod in SALARY_PERIOD_LABELS
+        ? (data.salaryPeriod as SalaryPeriod)
+        : undefined,
+    salaryEvidence: optionalText(data.salaryEvidence),
+    summary: optionalText(data.summary),
+    companyScore: optionalNumber(data.companyScore),
+    fitScore: optionalNumber(data.fitScore),
+    keyCompetencies: Array.isArray(data.keyCompetencies)
+      ? (data.keyCompetencies as KeyCompetency[])
+      : undefined,
+  };
+}
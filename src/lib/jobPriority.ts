@@ -0,0 +1,58 @@
+import { JobPosting } from '@/types/job';
+
+// 회사 점수와 적합도 중 매겨진 것만 평균
+const combinedScore = (companyScore: number, fitScore: number): number => {
+  const count = (companyScore > 0 ? 1 : 0) + (fitScore > 0 ? 1 : 0);
+  return count > 0 ? (companyScore + fitScore) / count : 0;
+};
+
+/** 전체 공고 중 상대 순위로 우선순위(1~5) 계산. 상위 20%마다 한 단계씩 */
+export function calculateRelativePriority(
+  jobPostings: JobPosting[],
+  companyScore: number,
+  fitScore: number
+): number {
+  // Get all job postings with scores
+  const allScores = jobPostings
+    .map((j) => combinedScore(j.companyScore || 0, j.fitScore || 0))
+    .filter((s) => s > 0);
+
+  const thisScore = combinedScore(companyScore, fitScore);
+
+  if (thisScore === 0 || allScores.length === 0) return 3; // Default to middle
+
+  // Sort all scores (including this one) descending
+  const allWithThis = [
+    ...allScores.filter((s) => s !== thisScore),
+    thisScore,
+  ].sort((a, b) => b - a);
+
+  if (allWithThis.length === 1) {
+    // Only one job - assign based on absolute score
+    if (thisScore >= 4) return 1;
+    if (thisScore >= 3) return 2;
+    if (thisScore >= 2) return 3;
+    if (thisScore >= 1) return 4;
+    return 5;
+  }
+
+  // Find this job's rank (0-indexed)
+  const rank = allWithThis.indexOf(thisScore);
+  const percentile = rank / allWithThis.length;
+
+  if (percentile < 0.2) return 1;
+  if (percentile < 0.4) return 2;
+  if (percentile < 0.6) return 3;
+  if (percentile < 0.8) return 4;
+  return 5;
+}
+
+/** 점수가 매겨진 항목만으로 평균 (반올림) */
+export function averageScore(items: { score?: number }[]): number {
+  return (
+    Math.round(
+      items.reduce((sum, c) => sum + (c.score || 0), 0) /
+        items.filter((c) => c.score).length
+    ) || 0
+  );
+}
@@ -0,0 +1,25 @@
+import { JobContact, JobPosting } from '@/types/job';
+import { matchesKoreanQuery } from '@/lib/koreanSearch';
+
+/** 보드 검색: 회사명·공고명·포지션·메모와 연락처(이름·이메일·메모)에서 키워드를 찾음 (공백으로 나눈 단어 모두 포함해야 일치, 초성 검색 지원) */
+export function matchesJobSearch(
+  job: JobPosting,
+  contacts: JobContact[],
+  query: string
+): boolean {
+  if (!query.trim()) return true;
+
+  const haystack = [
+    job.companyName,
+    job.title,
+    job.position,
+    job.notes,
+    ...contacts
+      .filter((c) => c.jobPostingId === job.id)
+      .flatMap((c) => [c.name, c.email, c.notes]),
+  ]
+    .filter(Boolean)
+    .join('\n');
+
+  return matchesKoreanQuery(haystack, query);
+}
@@ -0,0 +1,37 @@
+import { JobPosting } from '@/types/job';
+
+export const MAX_TAG_LENGTH = 30;
+
+/** 앞뒤 공백과 앞의 '#'을 떼고 길이를 제한. 빈 문자열이면 null */
+export function normalizeTag(value: string): string | null {
+  const tag = value.trim().replace(/^#+/, '').trim().slice(0, MAX_TAG_LENGTH);
+  return tag || null;
+}
+
+/** 태그 추가 (대소문자 무시 중복 제거, 기존 순서 유지) */
+export function addTags(current: string[] = [], added: string[]): string[] {
+  const result = [...current];
+  added.forEach((value) => {
+    const tag = normalizeTag(value);
+    if (tag && !result.some((t) => t.toLowerCase() === tag.toLowerCase())) {
+      result.push(tag);
+    }
+  });
+  return result;
+}
+
+export function removeTags(current: string[] = [], removed: string[]): string[] {
+  const lowered = removed.map((t) => t.toLowerCase());
+  return current.filter((t) => !lowered.includes(t.toLowerCase()));
+}
+
+/** 전체 공고에서 쓰인 태그 목록 (많이 쓰인 순, 같으면 가나다순) */
+export function collectTags(jobs: JobPosting[]): string[] {
+  const counts = new Map<string, number>();
+  jobs.forEach((job) =>
+    (job.tags ?? []).forEach((tag) => counts.set(tag, (counts.get(tag) ?? 0) + 1))
+  );
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0], 'ko'))
+    .map(([tag]) => tag);
+}
@@ -0,0 +1,88 @@
+import { Experience, JobKeyword, JobPosting } from '@/types/job';
+import { supabase } from '@/integrations/supabase/client';
+import { getFunctionErrorMessage } from '@/integrations/supabase/functionErrors';
+
+/** extract-keywords 호출. 실패 시 사용자에게 보여줄 메시지로 Error를 던짐 */
+export async function requestKeywordExtraction(
+  job: Pick<JobPosting, 'title' | 'companyName' | 'language' | 'summary' | 'keyCompetencies'>,
+  postingContent?: string
+): Promise<JobKeyword[]> {
+  const { data, error } = await supabase.functions.invoke('extract-keywords', {
+    body: {
+      jobTitle: job.title,
+      companyName: job.companyName,
+      language: job.language ?? 'ko',
+      summary: job.summary,
+      keyCompetencies: (job.keyCompetencies ?? []).map(({ title, description }) => ({ title, description })),
+      postingContent,
+    },
+  });
+
+  if (error) {
+    throw new Error(await getFunctionErrorMessage(error, '키워드 추출에 실패했습니다.'));
+  }
+  if (!data?.success && data?.error) {
+    throw new Error(data.error);
+  }
+  if (!Array.isArray(data?.keywords)) {
+    throw new Error('키워드 추출 결과가 비어 있습니다.');
+  }
+
+  return data.keywords;
+}
+
+export interface KeywordEvidence {
+  experienceId: string;
+  experienceTitle: string;
+  field: 'description' | 'bullets';
+  text: string; // 일치한 문장 (bullet 한 줄 또는 설명)
+}
+
+export interface KeywordMatch {
+  keyword: JobKeyword;
+  evidence: KeywordEvidence[];
+}
+
+// 비교용 정규화: 소문자, 공백·하이픈 제거 ("A/B 테스트" = "a/b테스트", "Node-JS" = "nodejs")
+const compact = (text: string) => text.toLowerCase().replace(/[\s\-_]+/g, '');
+
+// 짧은 영문 용어(Go, R, AI 등)는 단어 경계가 맞을 때만 일치로 봄
+const SHORT_TERM = /^[a-z0-9+#.]{1,3}$/i;
+
+function termMatcher(keyword: JobKeyword): (text: string) => boolean {
+  const terms = [keyword.term, ...keyword.aliases].map((t) => t.trim()).filter(Boolean);
+  const checks = terms.map((term) => {
+    if (SHORT_TERM.test(term)) {
+      const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      const pattern = new RegExp(`(^|[^a-z0-9])${escaped}(?![a-z0-9])`, 'i');
+      return (text: string) => pattern.test(text);
+    }
+    const needle = compact(term);
+    return (text: string) => compact(text).includes(needle);
+  });
+  return (text) => checks.some((check) => check(text));
+}
+
+/** 공고 키워드 × 경험 라이브러리 (bullets·description) 매칭 */
+export function matchKeywords(keywords: JobKeyword[], experiences: Experience[]): KeywordMatch[] {
+  return keywords.map((keyword) => {
+    const matches = termMatcher(keyword);
+    const evidence: KeywordEvidence[] = [];
+    for (const exp of experiences) {
+      const base = { experienceId: exp.id, experienceTitle: exp.company ? `${exp.title} @ ${exp.company}` : exp.title };
+      if (exp.description && matches(exp.description)) {
+        evidence.push({ ...base, field: 'description', text: exp.description });
+      }
+      for (const bullet of exp.bullets) {
+        if (matches(bullet)) evidence.push({ ...base, field: 'bullets', text: bullet });
+      }
+    }
+    return { keyword, evidence };
+  });
+}
+
+/** "경험에 추가" 시 넣는 bullet 초안 (추가 전에 사용자가 구체적으로 고침) */
+export function keywordBulletDraft(keyword: JobKeyword, language: 'ko' | 'en'): string {
+  if (language === 'en') return `Hands-on experience with ${keyword.term}`;
+  return keyword.category === 'tool' ? `${keyword.term} 활용` : `${keyword.term} 경험`;
+}
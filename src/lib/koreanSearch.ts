@@ -0,0 +1,53 @@
+// 한글 초성 검색 ("ㅋㅋㅇ" → "카카오", "토ㅅ" → "토스")
+const CHOSEONG = [
+  'ㄱ', 'ㄲ', 'ㄴ', 'ㄷ', 'ㄸ', 'ㄹ', 'ㅁ', 'ㅂ', 'ㅃ',
+  'ㅅ', 'ㅆ', 'ㅇ', 'ㅈ', 'ㅉ', 'ㅊ', 'ㅋ', 'ㅌ', 'ㅍ', 'ㅎ',
+];
+
+const HANGUL_START = 0xac00;
+const HANGUL_END = 0xd7a3;
+const SYLLABLES_PER_CHOSEONG = 21 * 28;
+
+/** 완성형 한글 음절의 초성. 한글 음절이 아니면 null */
+function getChoseong(char: string): string | null {
+  const code = char.charCodeAt(0);
+  if (code < HANGUL_START || code > HANGUL_END) return null;
+  return CHOSEONG[Math.floor((code - HANGUL_START) / SYLLABLES_PER_CHOSEONG)];
+}
+
+const isChoseong = (char: string) => CHOSEONG.includes(char);
+
+/**
+ * text에서 query가 처음 나오는 위치 (대소문자 무시, 초성 자모는 해당 초성의 음절과 일치).
+ * 없으면 -1
+ */
+export function findKoreanMatch(text: string, query: string): number {
+  const source = text.toLowerCase();
+  const pattern = query.toLowerCase();
+  if (!pattern) return 0;
+
+  // 초성이 없으면 일반 부분 문자열 검색
+  if (![...pattern].some(isChoseong)) return source.indexOf(pattern);
+
+  for (let start = 0; start + pattern.length <= source.length; start++) {
+    let matched = true;
+    for (let i = 0; i < pattern.length; i++) {
+      const p = pattern[i];
+      const t = source[start + i];
+      if (p === t) continue;
+      if (isChoseong(p) && getChoseong(t) === p) continue;
+      matched = false;
+      break;
+    }
+    if (matched) return start;
+  }
+  return -1;
+}
+
+/** 공백으로 나눈 검색어가 모두 text 어딘가에 있으면 true */
+export function matchesKoreanQuery(text: string, query: string): boolean {
+  return query
+    .split(/\s+/)
+    .filter(Boolean)
+    .every((term) => findKoreanMatch(text, term) !== -1);
+}
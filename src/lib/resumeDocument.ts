@@ -0,0 +1,135 @@
+import { ResumeDocument } from '@/types/job';
+
+type ResumeLanguage = 'ko' | 'en';
+
+// 섹션 제목 (미리보기·DOCX·텍스트 변환 공통)
+export const RESUME_SECTION_TITLES: Record<
+  ResumeLanguage,
+  Record<'summary' | 'work' | 'projects' | 'skills' | 'education', string>
+> = {
+  ko: {
+    summary: '경력 요약',
+    work: '경력 사항',
+    projects: '프로젝트',
+    skills: '기술 및 역량',
+    education: '학력',
+  },
+  en: {
+    summary: 'Professional Summary',
+    work: 'Work Experience',
+    projects: 'Projects',
+    skills: 'Skills & Competencies',
+    education: 'Education',
+  },
+};
+
+const asString = (value: unknown) => (typeof value === 'string' ? value : undefined);
+const asStrings = (value: unknown) =>
+  Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+const asObjects = (value: unknown) =>
+  Array.isArray(value)
+    ? value.filter((v): v is Record<string, unknown> => !!v && typeof v === 'object')
+    : [];
+
+/** DB jsonb → ResumeDocument (형식이 맞지 않으면 undefined) */
+export function parseResumeDocument(value: unknown): ResumeDocument | undefined {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return undefined;
+  const raw = value as Record<string, unknown>;
+  return {
+    summary: asString(raw.summary) ?? '',
+    work: asObjects(raw.work).map((w) => ({
+      company: asString(w.company) ?? '',
+      role: asString(w.role) ?? '',
+      period: asString(w.period),
+      location: asString(w.location),
+      bullets: asStrings(w.bullets),
+    })),
+    projects: asObjects(raw.projects).map((p) => ({
+      name: asString(p.name) ?? '',
+      period: asString(p.period),
+      description: asString(p.description),
+      bullets: asStrings(p.bullets),
+    })),
+    skills: asStrings(raw.skills),
+    education: asObjects(raw.education).map((e) => ({
+      school: asString(e.school) ?? '',
+      degree: asString(e.degree),
+      period: asString(e.period),
+      details: asString(e.details),
+    })),
+  };
+}
+
+/**
+ * 구조화된 이력서 → 텍스트 (tailored_resumes.content에 함께 저장)
+ * 복사·검색용이며, 기존 마크다운 이력서와 같은 섹션 형식을 따릅니다.
+ */
+export function resumeDocumentToText(doc: ResumeDocument, language: ResumeLanguage): string {
+  const titles = RESUME_SECTION_TITLES[language];
+  const blocks: string[] = [];
+  const join = (...parts: (string | undefined)[]) => parts.filter(Boolean).join(' | ');
+
+  if (doc.summary.trim()) {
+    blocks.push(`## ${titles.summary}\n${doc.summary.trim()}`);
+  }
+  if (doc.work.length > 0) {
+    const items = doc.work.map((w) =>
+      [`**${w.role}**`, join(w.company, w.period, w.location), ...w.bullets.map((b) => `• ${b}`)].join('\n')
+    );
+    blocks.push(`## ${titles.work}\n${items.join('\n\n')}`);
+  }
+  if (doc.projects.length > 0) {
+    const items = doc.projects.map((p) =>
+      [`**${p.name}**`, p.period, p.description, ...p.bullets.map((b) => `• ${b}`)]
+        .filter(Boolean)
+        .join('\n')
+    );
+    blocks.push(`## ${titles.projects}\n${items.join('\n\n')}`);
+  }
+  if (doc.skills.length > 0) {
+    blocks.push(`## ${titles.skills}\n• ${doc.skills.join(', ')}`);
+  }
+  if (doc.education.length > 0) {
+    const items = doc.education.map((e) =>
+      [`**${e.school}**`, join(e.degree, e.period), e.details].filter(Boolean).join('\n')
+    );
+    blocks.push(`## ${titles.education}\n${items.join('\n\n')}`);
+  }
+
+  return blocks.join('\n\n');
+}
+
+/** 편집 중 남은 공백·빈 줄·빈 항목 정리 (저장 직전에 사용) */
+export function cleanResumeDocument(doc: ResumeDocument): ResumeDocument {
+  const text = (value?: string) => value?.trim() || undefined;
+  const lines = (values: string[]) => values.map((v) => v.trim()).filter(Boolean);
+  return {
+    summary: doc.summary.trim(),
+    work: doc.work
+      .map((w) => ({
+        company: w.company.trim(),
+        role: w.role.trim(),
+        period: text(w.period),
+        location: text(w.location),
+        bullets: lines(w.bullets),
+      }))
+      .filter((w) => w.company || w.role || w.bullets.length > 0),
+    projects: doc.projects
+      .map((p) => ({
+        name: p.name.trim(),
+        period: text(p.period),
+        description: text(p.description),
+        bullets: lines(p.bullets),
+      }))
+      .filter((p) => p.name || p.bullets.length > 0),
+    skills: lines(doc.skills),
+    education: doc.education
+      .map((e) => ({
+        school: e.school.trim(),
+        degree: text(e.degree),
+        period: text(e.period),
+        details: text(e.details),
+      }))
+      .filter((e) => e.school),
+  };
+}
@@ -1,6 +1,8 @@
 import { Document, Packer, Paragraph, TextRun, HeadingLevel, AlignmentType, BorderStyle } from 'docx';
 import { saveAs } from 'file-saver';
 import { Experience } from '@/types/job';
+import { renderResumePdf } from '@/lib/resumePdf';
+import { RESUME_TEMPLATES, type ResumeSection } from '@/lib/resumeTemplates';
 
 interface ResumeData {
   userName: string;
@@ -158,3 +160,34 @@ export async function exportResumeToDocx({ userName, experiences }: ResumeData):
   const fileName = `Resume_${userName || 'User'}_${dateStr}.docx`;
   saveAs(blob, fileName);
 }
+
+// PDF export - DOCX와 같은 섹션 구성 (컨설팅형 레이아웃)
+export async function exportResumeToPdf({ userName, experiences }: ResumeData): Promise<void> {
+  const toSection = (title: string, items: Experience[]): ResumeSection => ({
+    type: 'experience',
+    title,
+    items: items.map((exp) => ({
+      title: exp.title,
+      subtitle: exp.company,
+      period: exp.period,
+      description: exp.description,
+      bullets: (exp.bullets ?? []).filter((b) => b.trim()),
+    })),
+  });
+
+  const workExperiences = experiences.filter(e => e.type === 'work');
+  const projectExperiences = experiences.filter(e => e.type === 'project');
+  const sections: ResumeSection[] = [
+    ...(workExperiences.length > 0 ? [toSection('Work Experience', workExperiences)] : []),
+    ...(projectExperiences.length > 0 ? [toSection('Selected Projects', projectExperiences)] : []),
+  ];
+
+  const blob = await renderResumePdf({
+    name: userName || '이름',
+    sections,
+    template: RESUME_TEMPLATES.consulting,
+    language: 'ko',
+  });
+  const dateStr = new Date().toISOString().split('T')[0].replace(/-/g, '');
+  saveAs(blob, `Resume_${userName || 'User'}_${dateStr}.pdf`);
+}
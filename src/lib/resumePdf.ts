@@ -0,0 +1,411 @@
+import { PDFDocument, PDFFont, PDFPage, RGB, rgb } from 'pdf-lib';
+import fontkit from '@pdf-lib/fontkit';
+import {
+  splitSidebarSections,
+  templateHeading,
+  type ResumeItem,
+  type ResumeSection,
+  type ResumeTemplate,
+  type ResumeTemplateStyle,
+} from '@/lib/resumeTemplates';
+
+/**
+ * 이력서 PDF 생성 (브라우저에서 직접)
+ * - 한글 폰트(Pretendard)를 서브셋으로 임베딩해 글자가 이미지가 아닌 텍스트로 남습니다 (ATS 업로드용).
+ * - 항목 제목이 페이지 끝에 홀로 남지 않도록 첫 줄과 함께 다음 페이지로 넘깁니다.
+ * - 2단 템플릿은 왼쪽 열을 먼저 그린 뒤 같은 높이에서 오른쪽 열을 이어 그립니다.
+ */
+
+type FontFiles = { regular: ArrayBuffer; bold: ArrayBuffer };
+
+let fontFilesPromise: Promise<FontFiles> | null = null;
+
+// 폰트는 앱과 함께 배포된 파일을 같은 출처에서 받음 (외부 CDN 없이 오프라인·CSP 환경에서도 동작)
+// - PDF를 처음 만들 때만 동적 import로 주소를 얻어 내려받음
+// - WOFF2는 fontkit이 서브셋 임베딩을 못 해 PDF마다 폰트 전체가 들어가므로 WOFF(zlib)를 사용
+async function fetchFontFiles(): Promise<FontFiles> {
+  try {
+    const fontUrls = await Promise.all([
+      import('@/assets/fonts/Pretendard-Regular.woff?url'),
+      import('@/assets/fonts/Pretendard-Bold.woff?url'),
+    ]);
+    const [regular, bold] = await Promise.all(
+      fontUrls.map(async ({ default: url }) => {
+        const res = await fetch(url);
+        if (!res.ok) throw new Error(`Font fetch failed: ${res.status}`);
+        return res.arrayBuffer();
+      })
+    );
+    return { regular, bold };
+  } catch (err) {
+    console.error('Font load failed:', err);
+    throw new Error('PDF용 한글 폰트를 불러오지 못했습니다. 페이지를 새로고침한 뒤 다시 시도해주세요.');
+  }
+}
+
+// 폰트는 한 번만 받아 재사용 (실패하면 다음에 다시 시도)
+function loadFontFiles(): Promise<FontFiles> {
+  if (!fontFilesPromise) {
+    fontFilesPromise = fetchFontFiles().catch((err) => {
+      fontFilesPromise = null;
+      throw err;
+    });
+  }
+  return fontFilesPromise;
+}
+
+// A4 (pt)
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 50;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const LINE_HEIGHT = 1.45;
+// 2단 레이아웃: 왼쪽 열 너비와 열 사이 간격
+const SIDEBAR_WIDTH = 150;
+const COLUMN_GAP = 20;
+
+const BLACK = rgb(0, 0, 0);
+const GRAY = rgb(0.4, 0.4, 0.4);
+const LIGHT_GRAY = rgb(0.96, 0.96, 0.96);
+
+const hexColor = (hex: string) => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return rgb(((value >> 16) & 255) / 255, ((value >> 8) & 255) / 255, (value & 255) / 255);
+};
+
+interface TextRun {
+  text: string;
+  size: number;
+  bold?: boolean;
+  color?: RGB;
+}
+
+interface TextOptions {
+  indent?: number; // 왼쪽 여백 (pt)
+  align?: 'left' | 'center';
+  marker?: string; // 글머리표 (indent 왼쪽에 그림)
+  after?: number; // 문단 뒤 간격
+}
+
+type Token = { text: string; font: PDFFont; size: number; color: RGB; width: number };
+
+// 글을 쓰는 열 (한 단이면 본문 전체 폭)
+type Column = { x: number; width: number };
+
+function createLayout(pdf: PDFDocument, fonts: { regular: PDFFont; bold: PDFFont }) {
+  let page: PDFPage = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let pageIndex = 0;
+  let y = PAGE_HEIGHT - MARGIN;
+  let column: Column = { x: MARGIN, width: CONTENT_WIDTH };
+
+  // 2단에서 두 번째 열은 첫 열이 이미 만든 페이지를 이어서 씀
+  const newPage = () => {
+    pageIndex += 1;
+    page = pageIndex < pdf.getPageCount() ? pdf.getPage(pageIndex) : pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    y = PAGE_HEIGHT - MARGIN;
+  };
+
+  // 남은 높이가 모자라면 다음 페이지로
+  const ensureSpace = (height: number) => {
+    if (y - height < MARGIN) newPage();
+  };
+
+  const fontOf = (run: TextRun) => (run.bold ? fonts.bold : fonts.regular);
+
+  // 공백 단위로 나누고, 한 단어가 줄보다 길면 글자 단위로 자름
+  const tokenize = (runs: TextRun[], maxWidth: number): Token[] =>
+    runs.flatMap((run) => {
+      const font = fontOf(run);
+      const color = run.color ?? BLACK;
+      const make = (text: string): Token => ({
+        text,
+        font,
+        size: run.size,
+        color,
+        width: font.widthOfTextAtSize(text, run.size),
+      });
+      return run.text
+        .replace(/\t/g, ' ')
+        .split(/(\s+)/)
+        .filter(Boolean)
+        .flatMap((part) => {
+          const token = make(part);
+          if (token.width <= maxWidth) return [token];
+          return [...part].map(make);
+        });
+    });
+
+  const wrap = (tokens: Token[], maxWidth: number): Token[][] => {
+    const lines: Token[][] = [];
+    let line: Token[] = [];
+    let width = 0;
+    for (const token of tokens) {
+      const isSpace = !token.text.trim();
+      if (line.length > 0 && !isSpace && width + token.width > maxWidth) {
+        while (line.length > 0 && !line[line.length - 1].text.trim()) line.pop();
+        lines.push(line);
+        line = [];
+        width = 0;
+      }
+      if (isSpace && line.length === 0) continue; // 줄 첫머리 공백 생략
+      line.push(token);
+      width += token.width;
+    }
+    if (line.length > 0) lines.push(line);
+    return lines;
+  };
+
+  const lineHeightOf = (runs: TextRun[]) => Math.max(...runs.map((r) => r.size)) * LINE_HEIGHT;
+
+  /** 텍스트 높이 (그리지 않고 계산만) */
+  const measure = (runs: TextRun[], options: TextOptions = {}) => {
+    const maxWidth = column.width - (options.indent ?? 0);
+    const lines = runs.flatMap((run) =>
+      run.text.split('\n').map((text) => ({ ...run, text }))
+    );
+    return wrap(tokenize(lines, maxWidth), maxWidth).length * lineHeightOf(runs) + (options.after ?? 0);
+  };
+
+  /** 여러 글꼴·크기가 섞인 한 문단을 줄바꿈해 그림 */
+  const text = (runs: TextRun[], options: TextOptions = {}) => {
+    const visibleRuns = runs.filter((r) => r.text);
+    if (visibleRuns.length === 0) return;
+
+    const indent = options.indent ?? 0;
+    const maxWidth = column.width - indent;
+    const lineHeight = lineHeightOf(visibleRuns);
+    const size = Math.max(...visibleRuns.map((r) => r.size));
+
+    // 문단 안 줄바꿈은 같은 들여쓰기로 이어서
+    const paragraphs: TextRun[][] = [[]];
+    for (const run of visibleRuns) {
+      run.text.split('\n').forEach((part, i) => {
+        if (i > 0) paragraphs.push([]);
+        paragraphs[paragraphs.length - 1].push({ ...run, text: part });
+      });
+    }
+
+    let isFirstLine = true;
+    for (const paragraph of paragraphs) {
+      for (const line of wrap(tokenize(paragraph, maxWidth), maxWidth)) {
+        ensureSpace(lineHeight);
+        y -= lineHeight;
+        const baseline = y + (lineHeight - size) / 2 + size * 0.2;
+        const lineWidth = line.reduce((sum, t) => sum + t.width, 0);
+        let x =
+          options.align === 'center'
+            ? column.x + (column.width - lineWidth) / 2
+            : column.x + indent;
+
+        if (isFirstLine && options.marker) {
+          const markerWidth = fonts.regular.widthOfTextAtSize(options.marker, size);
+          page.drawText(options.marker, {
+            x: x - markerWidth - 4,
+            y: baseline,
+            size,
+            font: fonts.regular,
+            color: visibleRuns[0].color ?? BLACK,
+          });
+        }
+        isFirstLine = false;
+
+        for (const token of line) {
+          page.drawText(token.text, { x, y: baseline, size: token.size, font: token.font, color: token.color });
+          x += token.width;
+        }
+      }
+    }
+    y -= options.after ?? 0;
+  };
+
+  const gap = (height: number) => {
+    y -= height;
+  };
+
+  const rule = (color: RGB = BLACK, thickness = 0.8) => {
+    page.drawLine({
+      start: { x: column.x, y },
+      end: { x: column.x + column.width, y },
+      thickness,
+      color,
+    });
+  };
+
+  // 배경 박스를 깐 제목 줄
+  const shadedText = (runs: TextRun[], padding = 4) => {
+    const height = measure(runs) + padding * 2;
+    ensureSpace(height);
+    page.drawRectangle({
+      x: column.x,
+      y: y - height,
+      width: column.width,
+      height,
+      color: LIGHT_GRAY,
+    });
+    y -= padding;
+    text(runs, { indent: padding });
+    y -= padding;
+  };
+
+  // 2단 레이아웃용: 현재 위치를 기억했다가 다른 열에서 같은 높이부터 다시 씀
+  const position = () => ({ pageIndex, y });
+  const moveTo = (target: { pageIndex: number; y: number }) => {
+    pageIndex = target.pageIndex;
+    page = pdf.getPage(pageIndex);
+    y = target.y;
+  };
+  const setColumn = (next: Column) => {
+    column = next;
+  };
+
+  const pageNumbers = () => {
+    const pages = pdf.getPages();
+    pages.forEach((p, i) => {
+      const label = `${i + 1} / ${pages.length}`;
+      const size = 8;
+      p.drawText(label, {
+        x: (PAGE_WIDTH - fonts.regular.widthOfTextAtSize(label, size)) / 2,
+        y: MARGIN / 2,
+        size,
+        font: fonts.regular,
+        color: GRAY,
+      });
+    });
+  };
+
+  return { text, measure, gap, rule, shadedText, ensureSpace, position, moveTo, setColumn, pageNumbers };
+}
+
+type Layout = ReturnType<typeof createLayout>;
+
+export interface ResumePdfInput {
+  name: string;
+  subtitle?: string; // 이름 아래 한 줄 (지원 회사·포지션 등)
+  sections: ResumeSection[];
+  template: ResumeTemplate;
+  language: 'ko' | 'en';
+}
+
+function renderSectionTitle(layout: Layout, title: string, style: ResumeTemplateStyle) {
+  const accent = hexColor(style.accent);
+  const label = `${style.sectionPrefix}${style.sectionUppercase ? title.toUpperCase() : title}`;
+  const runs = [{ text: label, size: 12, bold: true, color: accent }];
+  // 섹션 제목이 페이지 끝에 홀로 남지 않도록 첫 항목 일부와 함께
+  layout.ensureSpace(layout.measure(runs) + 60);
+  layout.gap(12);
+  if (style.sectionTitle === 'shaded') {
+    layout.shadedText(runs);
+    layout.gap(6);
+  } else if (style.sectionTitle === 'rule') {
+    layout.text(runs, { after: 2 });
+    layout.rule(accent);
+    layout.gap(4);
+  } else {
+    layout.text(runs, { after: 4 });
+  }
+}
+
+// 인적사항·경력 요약표: 항목마다 "제목  내용 | 기간" 한 줄
+function renderCompactItem(layout: Layout, item: ResumeItem, style: ResumeTemplateStyle) {
+  const rest = [item.subtitle, item.period, item.description].filter(Boolean).join(' | ');
+  layout.text(
+    [
+      ...(item.title ? [{ text: item.title, size: 10, bold: true }] : []),
+      ...(rest ? [{ text: item.title ? `  ${rest}` : rest, size: 10 }] : []),
+    ],
+    { indent: style.detailIndent, after: 2 }
+  );
+}
+
+function renderItem(layout: Layout, item: ResumeItem, style: ResumeTemplateStyle) {
+  const bullet = (text: string) => [{ text, size: 10 }];
+  const stacked = style.itemLayout === 'stacked';
+  const titleRuns = item.title
+    ? stacked
+      ? [{ text: `${style.itemPrefix}${item.title}`, size: 11, bold: true }]
+      : [
+          { text: `${style.itemPrefix}${item.title}`, size: 11, bold: true },
+          ...(item.subtitle ? [{ text: ` — ${item.subtitle}`, size: 11 }] : []),
+          ...(item.location ? [{ text: ` | ${item.location}`, size: 10, color: GRAY }] : []),
+        ]
+    : [];
+  // stacked: 제목 아래 "역할 | 기간 | 위치" / inline: 제목 아래 기간만
+  const detail = stacked
+    ? [item.subtitle, item.period, item.location].filter(Boolean).join(' | ')
+    : item.period;
+  const firstBullet = item.bullets[0];
+
+  // 항목 제목이 홀로 남지 않도록 첫 글머리표까지 한 번에
+  layout.ensureSpace(
+    (titleRuns.length > 0 ? layout.measure(titleRuns) + 6 : 0) +
+      (detail ? layout.measure([{ text: detail, size: 10 }], { indent: style.detailIndent }) : 0) +
+      (firstBullet ? layout.measure(bullet(firstBullet), { indent: style.bulletIndent }) : 0)
+  );
+
+  if (titleRuns.length > 0) {
+    layout.gap(6);
+    layout.text(titleRuns, { after: 1 });
+  }
+  if (detail) layout.text([{ text: detail, size: 10, color: GRAY }], { indent: style.detailIndent, after: 1 });
+  if (item.description) layout.text(bullet(item.description), { indent: style.detailIndent, after: 2 });
+  for (const text of item.bullets) {
+    layout.text(bullet(text), { indent: style.bulletIndent, marker: style.bullet, after: 1 });
+  }
+}
+
+function renderSections(layout: Layout, sections: ResumeSection[], style: ResumeTemplateStyle) {
+  for (const section of sections) {
+    if (section.type === 'header') continue;
+    if (section.title) renderSectionTitle(layout, section.title, style);
+    for (const item of section.items) {
+      if (section.compact) {
+        renderCompactItem(layout, item, style);
+      } else {
+        renderItem(layout, item, style);
+      }
+    }
+  }
+}
+
+/** 이력서 섹션 → PDF Blob (템플릿 스타일·레이아웃 적용) */
+export async function renderResumePdf(input: ResumePdfInput): Promise<Blob> {
+  const fontFiles = await loadFontFiles();
+  const pdf = await PDFDocument.create();
+  pdf.registerFontkit(fontkit);
+  const fonts = {
+    regular: await pdf.embedFont(fontFiles.regular, { subset: true }),
+    bold: await pdf.embedFont(fontFiles.bold, { subset: true }),
+  };
+
+  pdf.setTitle(input.subtitle ? `${input.name} - ${input.subtitle}` : input.name);
+  pdf.setAuthor(input.name);
+  pdf.setCreator('Curve');
+  pdf.setLanguage(input.language === 'en' ? 'en-US' : 'ko-KR');
+
+  const { template } = input;
+  const { style } = template;
+  const layout = createLayout(pdf, fonts);
+
+  layout.text(
+    [{ text: templateHeading(template, input.name, input.language), size: style.nameSize, bold: true, color: hexColor(style.accent) }],
+    { align: style.nameAlign, after: 2 }
+  );
+  if (input.subtitle) {
+    layout.text([{ text: input.subtitle, size: 10, color: GRAY }], { align: style.nameAlign, after: 8 });
+  }
+
+  const { sidebar, main } = splitSidebarSections(template, input.sections);
+  if (sidebar.length > 0) {
+    const start = layout.position();
+    layout.setColumn({ x: MARGIN, width: SIDEBAR_WIDTH });
+    renderSections(layout, sidebar, style);
+    layout.moveTo(start);
+    const mainX = MARGIN + SIDEBAR_WIDTH + COLUMN_GAP;
+    layout.setColumn({ x: mainX, width: PAGE_WIDTH - MARGIN - mainX });
+  }
+  renderSections(layout, main, style);
+  layout.pageNumbers();
+
+  const bytes = await pdf.save();
+  return new Blob([bytes], { type: 'application/pdf' });
+}
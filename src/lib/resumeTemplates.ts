@@ -0,0 +1,341 @@
+import { ResumeDocument, ResumeTemplateId } from '@/types/job';
+import { RESUME_SECTION_TITLES } from '@/lib/resumeDocument';
+
+type ResumeLanguage = 'ko' | 'en';
+
+// 템플릿이 배치할 수 있는 섹션
+export type ResumeSectionKey =
+  | 'personal' // 인적사항
+  | 'summary'
+  | 'careerSummary' // 경력 요약표 (회사 | 직책 | 기간)
+  | 'work'
+  | 'projects'
+  | 'skills'
+  | 'education';
+
+// 미리보기·DOCX·PDF가 공통으로 그리는 섹션 구조
+export interface ResumeItem {
+  title?: string;
+  subtitle?: string;
+  period?: string;
+  location?: string;
+  description?: string;
+  bullets: string[];
+}
+
+export interface ResumeSection {
+  type: 'header' | 'experience' | 'education' | 'skills' | 'other';
+  key?: ResumeSectionKey;
+  title?: string;
+  compact?: boolean; // 항목을 한 줄씩 (인적사항·경력 요약표)
+  items: ResumeItem[];
+}
+
+export interface ResumeTemplateStyle {
+  fontFamily: string; // 미리보기 CSS (PDF는 항상 Pretendard 임베딩)
+  heading: 'name' | 'document-title'; // 맨 위에 이름 또는 '이 력 서' 같은 문서 제목
+  nameAlign: 'left' | 'center';
+  nameUppercase: boolean;
+  nameSize: number; // pt
+  sectionTitle: 'rule' | 'shaded' | 'plain';
+  sectionUppercase: boolean;
+  sectionPrefix: string;
+  itemPrefix: string;
+  itemLayout: 'inline' | 'stacked'; // inline: "회사 — 역할 | 위치" / stacked: 제목 줄 + "부제 | 기간" 줄
+  bullet: string;
+  detailIndent: number; // 기간·설명 들여쓰기 (pt)
+  bulletIndent: number; // 글머리표 들여쓰기 (pt)
+  accent: string; // 제목 색 (hex)
+}
+
+export interface ResumeTemplate {
+  id: ResumeTemplateId;
+  label: string;
+  description: string;
+  writingStyle: 'consulting' | 'narrative'; // AI 생성 문체
+  layout: 'single' | 'sidebar';
+  sidebarSections?: ResumeSectionKey[]; // sidebar 레이아웃에서 왼쪽 열에 둘 섹션
+  sectionOrder: ResumeSectionKey[];
+  documentTitle?: Record<ResumeLanguage, string>;
+  sectionTitles?: Partial<Record<ResumeLanguage, Partial<Record<ResumeSectionKey, string>>>>;
+  style: ResumeTemplateStyle;
+}
+
+const BASE_STYLE: ResumeTemplateStyle = {
+  fontFamily: 'Pretendard, sans-serif',
+  heading: 'name',
+  nameAlign: 'left',
+  nameUppercase: false,
+  nameSize: 18,
+  sectionTitle: 'rule',
+  sectionUppercase: false,
+  sectionPrefix: '',
+  itemPrefix: '',
+  itemLayout: 'inline',
+  bullet: '•',
+  detailIndent: 0,
+  bulletIndent: 14,
+  accent: '#000000',
+};
+
+const STANDARD_ORDER: ResumeSectionKey[] = ['summary', 'work', 'projects', 'skills', 'education'];
+
+export const RESUME_TEMPLATES: Record<ResumeTemplateId, ResumeTemplate> = {
+  consulting: {
+    id: 'consulting',
+    label: '컨설팅형',
+    description: '간결한 성과 중심, 대문자 섹션 제목과 밑줄',
+    writingStyle: 'consulting',
+    layout: 'single',
+    sectionOrder: STANDARD_ORDER,
+    style: {
+      ...BASE_STYLE,
+      fontFamily: 'Georgia, Pretendard, serif',
+      nameUppercase: true,
+      sectionUppercase: true,
+    },
+  },
+  narrative: {
+    id: 'narrative',
+    label: '서술형',
+    description: '가운데 정렬 이름, 박스 섹션 제목의 국문형',
+    writingStyle: 'narrative',
+    layout: 'single',
+    sectionOrder: STANDARD_ORDER,
+    style: {
+      ...BASE_STYLE,
+      nameAlign: 'center',
+      nameSize: 16,
+      sectionTitle: 'shaded',
+      sectionPrefix: '■ ',
+      itemPrefix: '▶ ',
+      itemLayout: 'stacked',
+      bullet: '·',
+      detailIndent: 12,
+      bulletIndent: 24,
+    },
+  },
+  'ats-plain': {
+    id: 'ats-plain',
+    label: 'ATS 기본형',
+    description: '장식 없는 한 단 구성, 채용 시스템이 읽기 쉬운 표준 섹션',
+    writingStyle: 'consulting',
+    layout: 'single',
+    sectionOrder: STANDARD_ORDER,
+    style: {
+      ...BASE_STYLE,
+      fontFamily: 'Arial, Pretendard, sans-serif',
+      nameSize: 14,
+      sectionTitle: 'plain',
+      sectionUppercase: true,
+      bullet: '-',
+      bulletIndent: 12,
+    },
+  },
+  modern: {
+    id: 'modern',
+    label: '모던 2단',
+    description: '왼쪽에 기술·학력, 오른쪽에 경력을 두는 2단 구성',
+    writingStyle: 'consulting',
+    layout: 'sidebar',
+    sidebarSections: ['personal', 'skills', 'education'],
+    sectionOrder: ['personal', 'skills', 'education', 'summary', 'work', 'projects'],
+    style: {
+      ...BASE_STYLE,
+      nameSize: 20,
+      accent: '#1D4ED8',
+    },
+  },
+  'korean-standard': {
+    id: 'korean-standard',
+    label: '국문 표준 이력서',
+    description: '인적사항·학력·경력 사항과 경력기술서로 구성된 국내 표준 양식',
+    writingStyle: 'narrative',
+    layout: 'single',
+    sectionOrder: ['personal', 'summary', 'education', 'careerSummary', 'work', 'projects', 'skills'],
+    documentTitle: { ko: '이 력 서', en: 'RESUME' },
+    sectionTitles: {
+      ko: { summary: '핵심 역량 요약', work: '경력기술서' },
+      en: { summary: 'Core Competencies', work: 'Career Details' },
+    },
+    style: {
+      ...BASE_STYLE,
+      heading: 'document-title',
+      nameAlign: 'center',
+      nameSize: 20,
+      sectionTitle: 'shaded',
+      sectionPrefix: '■ ',
+      itemLayout: 'stacked',
+      bullet: '-',
+      detailIndent: 12,
+      bulletIndent: 24,
+    },
+  },
+  'academic-cv': {
+    id: 'academic-cv',
+    label: '학술 CV',
+    description: '학력과 연구 경험을 앞에 두는 연구직·대학원용 CV',
+    writingStyle: 'consulting',
+    layout: 'single',
+    sectionOrder: ['education', 'summary', 'work', 'projects', 'skills'],
+    sectionTitles: {
+      ko: { summary: '연구 분야', work: '연구 및 경력', projects: '연구 실적 및 프로젝트' },
+      en: {
+        summary: 'Research Interests',
+        work: 'Research & Professional Experience',
+        projects: 'Publications & Projects',
+      },
+    },
+    style: {
+      ...BASE_STYLE,
+      fontFamily: '"Times New Roman", Pretendard, serif',
+      nameAlign: 'center',
+      nameSize: 16,
+      itemLayout: 'stacked',
+      detailIndent: 0,
+    },
+  },
+};
+
+export const RESUME_TEMPLATE_LIST = Object.values(RESUME_TEMPLATES);
+
+/** 저장된 format 값 → 템플릿 (알 수 없는 값이면 언어별 기본 템플릿) */
+export function getResumeTemplate(id: string | undefined, language: ResumeLanguage): ResumeTemplate {
+  return (
+    RESUME_TEMPLATES[id as ResumeTemplateId] ??
+    RESUME_TEMPLATES[language === 'en' ? 'consulting' : 'narrative']
+  );
+}
+
+// 인적사항에 넣을 정보
+export interface ResumeProfile {
+  name: string;
+  nameEn?: string;
+  email?: string;
+}
+
+const PERSONAL_LABELS: Record<ResumeLanguage, { title: string; name: string; nameEn: string; email: string }> = {
+  ko: { title: '인적사항', name: '성명', nameEn: '영문 성명', email: '이메일' },
+  en: { title: 'Personal Information', name: 'Name', nameEn: 'Name (English)', email: 'Email' },
+};
+
+const CAREER_SUMMARY_TITLES: Record<ResumeLanguage, string> = {
+  ko: '경력 사항',
+  en: 'Career Summary',
+};
+
+/** 인적사항 섹션 (성명·영문 성명·이메일) */
+export function personalSection(language: ResumeLanguage, profile: ResumeProfile): ResumeSection {
+  const labels = PERSONAL_LABELS[language];
+  const items = [
+    { title: labels.name, description: profile.name },
+    ...(profile.nameEn && profile.nameEn !== profile.name ? [{ title: labels.nameEn, description: profile.nameEn }] : []),
+    ...(profile.email ? [{ title: labels.email, description: profile.email }] : []),
+  ].map((item) => ({ ...item, bullets: [] }));
+  return { type: 'other', key: 'personal', title: labels.title, compact: true, items };
+}
+
+/** 구조화된 이력서 → 템플릿 순서·제목에 맞춘 섹션 */
+export function documentToSections(
+  doc: ResumeDocument,
+  language: ResumeLanguage,
+  template: ResumeTemplate,
+  profile?: ResumeProfile
+): ResumeSection[] {
+  const titleOf = (key: ResumeSectionKey) =>
+    template.sectionTitles?.[language]?.[key] ??
+    (key === 'personal'
+      ? PERSONAL_LABELS[language].title
+      : key === 'careerSummary'
+        ? CAREER_SUMMARY_TITLES[language]
+        : RESUME_SECTION_TITLES[language][key]);
+
+  const build = (key: ResumeSectionKey): ResumeSection | null => {
+    const title = titleOf(key);
+    switch (key) {
+      case 'personal':
+        return profile ? { ...personalSection(language, profile), title } : null;
+      case 'summary':
+        return doc.summary.trim()
+          ? { type: 'other', key, title, items: [{ description: doc.summary, bullets: [] }] }
+          : null;
+      case 'careerSummary':
+        return doc.work.length > 0
+          ? {
+              type: 'experience',
+              key,
+              title,
+              compact: true,
+              items: doc.work.map((w) => ({ title: w.company, subtitle: w.role, period: w.period, bullets: [] })),
+            }
+          : null;
+      case 'work':
+        return doc.work.length > 0
+          ? {
+              type: 'experience',
+              key,
+              title,
+              items: doc.work.map((w) => ({
+                title: w.company,
+                subtitle: w.role,
+                period: w.period,
+                location: w.location,
+                bullets: w.bullets,
+              })),
+            }
+          : null;
+      case 'projects':
+        return doc.projects.length > 0
+          ? {
+              type: 'other',
+              key,
+              title,
+              items: doc.projects.map((p) => ({
+                title: p.name,
+                period: p.period,
+                description: p.description,
+                bullets: p.bullets,
+              })),
+            }
+          : null;
+      case 'skills':
+        return doc.skills.length > 0
+          ? { type: 'skills', key, title, items: [{ description: doc.skills.join(', '), bullets: [] }] }
+          : null;
+      case 'education':
+        return doc.education.length > 0
+          ? {
+              type: 'education',
+              key,
+              title,
+              items: doc.education.map((e) => ({
+                title: e.school,
+                subtitle: e.degree,
+                period: e.period,
+                description: e.details,
+                bullets: [],
+              })),
+            }
+          : null;
+    }
+  };
+
+  return template.sectionOrder
+    .map(build)
+    .filter((section): section is ResumeSection => section !== null);
+}
+
+/** sidebar 레이아웃이면 왼쪽/오른쪽 열로 나눔 (한 단이면 모두 main) */
+export function splitSidebarSections(template: ResumeTemplate, sections: ResumeSection[]) {
+  if (template.layout !== 'sidebar') return { sidebar: [], main: sections };
+  const inSidebar = (s: ResumeSection) => !!s.key && !!template.sidebarSections?.includes(s.key);
+  return { sidebar: sections.filter(inSidebar), main: sections.filter((s) => !inSidebar(s)) };
+}
+
+/** 맨 위 제목 (이름 또는 문서 제목) */
+export function templateHeading(template: ResumeTemplate, name: string, language: ResumeLanguage): string {
+  if (template.style.heading === 'document-title' && template.documentTitle) {
+    return template.documentTitle[language];
+  }
+  return template.style.nameUppercase ? name.toUpperCase() : name;
+}
@@ -0,0 +1,137 @@
+import JSZip from 'jszip';
+
+// 시트의 한 행. number는 파일 기준 행 번호 (1부터, 빈 행을 걸러낸 뒤에도 원래 번호 유지)
+export type SheetRow = { number: number; cells: string[] };
+
+// 표 형태로 읽은 시트 (첫 행이 헤더, 빈 행은 제외)
+export type SheetRows = SheetRow[];
+
+const withoutBlankRows = (rows: SheetRows) => rows.filter((r) => r.cells.some((c) => c.trim()));
+
+/** CSV 텍스트 파싱 (따옴표 안 쉼표·줄바꿈 지원, 구분자는 첫 줄에서 쉼표/탭/세미콜론 중 많은 것) */
+export function parseCsv(text: string): SheetRows {
+  const source = text.replace(/^\uFEFF/, '');
+  const firstLine = source.split(/\r?\n/, 1)[0] ?? '';
+  const delimiter = [',', '\t', ';'].reduce((best, d) =>
+    firstLine.split(d).length > firstLine.split(best).length ? d : best
+  );
+
+  const rows: SheetRows = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push({ number: rows.length + 1, cells: row });
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push({ number: rows.length + 1, cells: row });
+  }
+
+  return withoutBlankRows(rows);
+}
+
+// "AB12" → 27 (0부터 시작하는 열 번호)
+function columnIndex(cellRef: string): number {
+  const letters = cellRef.replace(/\d+$/, '');
+  return [...letters].reduce((acc, ch) => acc * 26 + (ch.charCodeAt(0) - 64), 0) - 1;
+}
+
+// 서식이 섞인 셀은 <r><t>가 여러 개. 일본어 후리가나(<rPh>)는 제외
+const textOf = (el: Element | null | undefined): string =>
+  el
+    ? [...el.getElementsByTagName('t')]
+        .filter((t) => t.parentElement?.nodeName !== 'rPh')
+        .map((t) => t.textContent ?? '')
+        .join('')
+    : '';
+
+/** XLSX 첫 번째 시트 파싱. 날짜 셀은 엑셀 일련번호 문자열 그대로 반환 */
+export async function parseXlsx(buffer: ArrayBuffer): Promise<SheetRows> {
+  const zip = await JSZip.loadAsync(buffer);
+  const parser = new DOMParser();
+  const readXml = async (path: string) => {
+    const file = zip.file(path);
+    return file ? parser.parseFromString(await file.async('string'), 'application/xml') : null;
+  };
+
+  const sharedStringsXml = await readXml('xl/sharedStrings.xml');
+  const sharedStrings = sharedStringsXml
+    ? [...sharedStringsXml.getElementsByTagName('si')].map((si) => textOf(si))
+    : [];
+
+  // workbook.xml의 첫 시트 → rels에서 실제 파일 경로 찾기
+  const workbook = await readXml('xl/workbook.xml');
+  const rels = await readXml('xl/_rels/workbook.xml.rels');
+  const firstSheet = workbook?.getElementsByTagName('sheet')[0];
+  const relId = firstSheet?.getAttribute('r:id');
+  const target = relId
+    ? [...(rels?.getElementsByTagName('Relationship') ?? [])]
+        .find((r) => r.getAttribute('Id') === relId)
+        ?.getAttribute('Target')
+    : null;
+  const sheetPath = target
+    ? target.startsWith('/') ? target.slice(1) : `xl/${target}`
+    : 'xl/worksheets/sheet1.xml';
+
+  const sheet = await readXml(sheetPath);
+  if (!sheet) throw new Error('엑셀 파일에서 시트를 찾을 수 없습니다.');
+
+  const rows: SheetRows = [];
+  for (const rowEl of sheet.getElementsByTagName('row')) {
+    // 값이 없는 행은 <row>가 아예 빠질 수 있어 r 속성(행 번호)을 따름
+    const number = Number(rowEl.getAttribute('r')) || (rows[rows.length - 1]?.number ?? 0) + 1;
+    const row: string[] = [];
+    for (const c of rowEl.getElementsByTagName('c')) {
+      const ref = c.getAttribute('r');
+      const index = ref ? columnIndex(ref) : row.length;
+      const type = c.getAttribute('t');
+      const raw = c.getElementsByTagName('v')[0]?.textContent ?? '';
+      let value = raw;
+      if (type === 's') value = sharedStrings[Number(raw)] ?? '';
+      else if (type === 'inlineStr') value = textOf(c.getElementsByTagName('is')[0]);
+      else if (type === 'b') value = raw === '1' ? 'TRUE' : 'FALSE';
+      while (row.length < index) row.push('');
+      row[index] = value;
+    }
+    rows.push({ number, cells: row });
+  }
+
+  return withoutBlankRows(rows);
+}
+
+/** 확장자에 따라 CSV/XLSX 파싱 */
+export async function parseSpreadsheetFile(file: File): Promise<SheetRows> {
+  const name = file.name.toLowerCase();
+  if (name.endsWith('.xlsx')) {
+    return parseXlsx(await file.arrayBuffer());
+  }
+  if (name.endsWith('.csv') || name.endsWith('.tsv') || name.endsWith('.txt')) {
+    return parseCsv(await file.text());
+  }
+  throw new Error('CSV 또는 XLSX 파일만 가져올 수 있습니다.');
+}
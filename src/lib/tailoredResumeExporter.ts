@@ -1,25 +1,24 @@
-import { Document, Packer, Paragraph, TextRun, HeadingLevel, AlignmentType, BorderStyle, Table, TableRow, TableCell, WidthType, TableLayoutType, ShadingType } from 'docx';
+import { Document, Packer, Paragraph, TextRun, AlignmentType, BorderStyle, Table, TableRow, TableCell, WidthType, TableLayoutType, ShadingType } from 'docx';
 import { saveAs } from 'file-saver';
-import { TailoredResume, Experience } from '@/types/job';
-
-// Resume format type
-export type ResumeFormat = 'consulting' | 'narrative';
-
-// Parsed resume section structure
-interface ResumeSection {
-  type: 'header' | 'experience' | 'education' | 'skills' | 'other';
-  title?: string;
-  items: ResumeItem[];
-}
-
-interface ResumeItem {
-  title?: string;
-  subtitle?: string;
-  period?: string;
-  location?: string;
-  description?: string;
-  bullets: string[];
-}
+import { TailoredResume, ResumeTemplateId } from '@/types/job';
+import { renderResumePdf } from '@/lib/resumePdf';
+import {
+  documentToSections,
+  getResumeTemplate,
+  personalSection,
+  splitSidebarSections,
+  templateHeading,
+  type ResumeItem,
+  type ResumeProfile,
+  type ResumeSection,
+  type ResumeTemplate,
+  type ResumeTemplateStyle,
+} from '@/lib/resumeTemplates';
+
+export type ResumeFileType = 'docx' | 'pdf';
+
+// 미리보기·내보내기에 필요한 필드
+export type ResumeSource = Pick<TailoredResume, 'content' | 'document' | 'language' | 'format'>;
 
 // Remove emojis from text
 function removeEmojis(text: string): string {
@@ -135,6 +134,34 @@ function parseResumeContent(content: string): ResumeSection[] {
   return sections;
 }
 
+// 구조화된 이력서가 있으면 템플릿 순서대로, 없으면(이전 이력서) 텍스트를 파싱
+export function getResumeSections(
+  resume: ResumeSource,
+  template: ResumeTemplate,
+  profile?: ResumeProfile
+): ResumeSection[] {
+  if (!resume.document) {
+    const parsed = parseResumeContent(resume.content);
+    const personal =
+      profile && template.sectionOrder.includes('personal') ? personalSection(resume.language, profile) : null;
+    return personal ? [personal, ...parsed] : parsed;
+  }
+  const clean = (bullets: string[]) => bullets.map(removeEmojis).filter(Boolean);
+  return documentToSections(resume.document, resume.language, template, profile).map((section) => ({
+    ...section,
+    items: section.items.map((item) => ({
+      ...item,
+      description: item.description && removeEmojis(item.description),
+      bullets: clean(item.bullets),
+    })),
+  }));
+}
+
+/** 저장된 format → 템플릿 (생성 후 바꾼 템플릿도 그대로 반영) */
+export function getTailoredResumeTemplate(resume: ResumeSource): ResumeTemplate {
+  return getResumeTemplate(resume.format, resume.language);
+}
+
 function getSectionType(title: string): ResumeSection['type'] {
   const lower = title.toLowerCase();
   if (lower.includes('experience') || lower.includes('경력') || lower.includes('경험')) return 'experience';
@@ -143,299 +170,169 @@ function getSectionType(title: string): ResumeSection['type'] {
   return 'other';
 }
 
-// Format resume for preview - Consulting style (foreign/Palantir style)
-export function formatResumeForPreviewConsulting(content: string, userName: string, contactInfo?: string): string {
-  const sections = parseResumeContent(content);
-  const lines: string[] = [];
-  
-  // Header - Name prominently
-  lines.push(userName.toUpperCase());
-  if (contactInfo) {
-    lines.push(contactInfo);
-  }
-  lines.push('');
-  
-  for (const section of sections) {
-    if (section.type === 'header') continue;
-    
-    // Section title with line
-    if (section.title) {
-      lines.push('');
-      lines.push(`--- ${section.title.toUpperCase()} ---`);
-      lines.push('');
-    }
-    
-    for (const item of section.items) {
-      // Company/Position line
-      if (item.title) {
-        const titleLine = [item.title, item.subtitle, item.location].filter(Boolean).join('  |  ');
-        lines.push(titleLine);
-      }
-      if (item.period) {
-        lines.push(`   ${item.period}`);
-      }
-      if (item.description) {
-        lines.push(`   ${item.description}`);
-      }
-      
-      // Bullets with proper indentation
-      for (const bullet of item.bullets) {
-        lines.push(`   - ${removeEmojis(bullet)}`);
-      }
-      lines.push('');
-    }
-  }
-  
-  return lines.join('\n');
+const pt = (value: number) => value * 20; // pt → twip
+const hex = (color: string) => color.replace('#', '');
+
+function docxSectionTitle(title: string, style: ResumeTemplateStyle): Paragraph {
+  const label = `${style.sectionPrefix}${style.sectionUppercase ? title.toUpperCase() : title}`;
+  return new Paragraph({
+    children: [new TextRun({ text: label, bold: true, size: 24, color: hex(style.accent) })],
+    spacing: { before: 300, after: style.sectionTitle === 'shaded' ? 150 : 100 },
+    ...(style.sectionTitle === 'rule'
+      ? { border: { bottom: { style: BorderStyle.SINGLE, size: 8, color: hex(style.accent) } } }
+      : {}),
+    ...(style.sectionTitle === 'shaded' ? { shading: { type: ShadingType.CLEAR, fill: 'F5F5F5' } } : {}),
+  });
 }
 
-// Format resume for preview - Narrative style (Korean style)
-export function formatResumeForPreviewNarrative(content: string, userName: string, coverLetter?: string): string {
-  const sections = parseResumeContent(content);
-  const lines: string[] = [];
-  
-  // Header
-  lines.push(`[ ${userName} ]`);
-  lines.push('');
-  
-  // Cover letter / introduction if provided
-  if (coverLetter) {
-    lines.push('-'.repeat(40));
-    lines.push(coverLetter);
-    lines.push('-'.repeat(40));
-    lines.push('');
+function docxItem(item: ResumeItem, style: ResumeTemplateStyle, compact?: boolean): Paragraph[] {
+  const detailIndent = { left: pt(style.detailIndent) };
+
+  // 인적사항·경력 요약표: 한 줄
+  if (compact) {
+    const rest = [item.subtitle, item.period, item.description].filter(Boolean).join(' | ');
+    return [
+      new Paragraph({
+        children: [
+          ...(item.title ? [new TextRun({ text: item.title, bold: true, size: 20 })] : []),
+          ...(rest ? [new TextRun({ text: item.title ? `  ${rest}` : rest, size: 20 })] : []),
+        ],
+        indent: detailIndent,
+        spacing: { after: 40 },
+      }),
+    ];
   }
-  
-  for (const section of sections) {
-    if (section.type === 'header') continue;
-    
-    // Section title
-    if (section.title) {
-      lines.push('');
-      lines.push(`[${section.title}]`);
-      lines.push('');
-    }
-    
-    for (const item of section.items) {
-      // Company header
-      if (item.title) {
-        lines.push(item.title);
-      }
-      if (item.subtitle || item.period) {
-        const subInfo = [item.subtitle, item.period].filter(Boolean).join(' | ');
-        lines.push(`   ${subInfo}`);
-      }
-      
-      // Narrative description
-      if (item.description) {
-        lines.push(`   ${item.description}`);
-      }
-      
-      // Bullets as narrative points
-      for (const bullet of item.bullets) {
-        lines.push(`   - ${removeEmojis(bullet)}`);
-      }
-      lines.push('');
-    }
-  }
-  
-  return lines.join('\n');
-}
 
-// Main preview function - auto-detect format or use specified
-export function formatResumeForPreview(content: string, userName?: string, format?: ResumeFormat): string {
-  const name = userName || '이름';
-  
-  // Try to detect format from content
-  const isEnglish = /^[a-zA-Z\s\-,.']+$/.test(name) || content.includes('EXPERIENCE') || content.includes('EDUCATION');
-  const detectedFormat = format || (isEnglish ? 'consulting' : 'narrative');
-  
-  if (detectedFormat === 'consulting') {
-    return formatResumeForPreviewConsulting(content, name);
-  } else {
-    return formatResumeForPreviewNarrative(content, name);
+  const stacked = style.itemLayout === 'stacked';
+  const paragraphs: Paragraph[] = [];
+
+  if (item.title) {
+    paragraphs.push(
+      new Paragraph({
+        children: [
+          new TextRun({ text: `${style.itemPrefix}${item.title}`, bold: true, size: 22 }),
+          ...(!stacked && item.subtitle ? [new TextRun({ text: ` — ${item.subtitle}`, size: 22 })] : []),
+          ...(!stacked && item.location
+            ? [new TextRun({ text: ` | ${item.location}`, size: 20, color: '666666' })]
+            : []),
+        ],
+        spacing: { before: 150, after: 50 },
+      })
+    );
   }
-}
 
-// Export to DOCX - Consulting style
-async function exportConsultingStyleDocx(resume: TailoredResume, userName: string): Promise<Blob> {
-  const sections = parseResumeContent(resume.content);
-  const children: Paragraph[] = [];
-
-  // Header - Name in large font
-  children.push(
-    new Paragraph({
-      children: [
-        new TextRun({ text: userName.toUpperCase(), bold: true, size: 36 }),
-      ],
-      alignment: AlignmentType.LEFT,
-      spacing: { after: 100 },
-    })
-  );
-
-  // Contact line (placeholder - could be enhanced)
-  children.push(
-    new Paragraph({
-      children: [
-        new TextRun({ text: `${resume.companyName} · ${resume.jobTitle}`, size: 20, color: '666666' }),
-      ],
-      spacing: { after: 300 },
-    })
-  );
-
-  for (const section of sections) {
-    if (section.type === 'header') continue;
-
-    // Section header with border
-    if (section.title) {
-      children.push(
-        new Paragraph({
-          children: [
-            new TextRun({ text: section.title.toUpperCase(), bold: true, size: 24 }),
-          ],
-          spacing: { before: 300, after: 100 },
-          border: {
-            bottom: { style: BorderStyle.SINGLE, size: 8, color: '000000' },
-          },
-        })
-      );
-    }
-
-    for (const item of section.items) {
-      // Company/Position - Bold title
-      if (item.title) {
-        const titleParts: TextRun[] = [
-          new TextRun({ text: item.title, bold: true, size: 22 }),
-        ];
-        if (item.subtitle) {
-          titleParts.push(new TextRun({ text: ` — ${item.subtitle}`, size: 22 }));
-        }
-        if (item.location) {
-          titleParts.push(new TextRun({ text: ` | ${item.location}`, size: 20, color: '666666' }));
-        }
-        
-        children.push(new Paragraph({ children: titleParts, spacing: { before: 150, after: 50 } }));
-      }
+  const detail = stacked
+    ? [item.subtitle, item.period, item.location].filter(Boolean).join(' | ')
+    : item.period;
+  if (detail) {
+    paragraphs.push(
+      new Paragraph({
+        children: [new TextRun({ text: detail, italics: !stacked, size: 20, color: '666666' })],
+        indent: detailIndent,
+        spacing: { after: 50 },
+      })
+    );
+  }
 
-      // Period
-      if (item.period) {
-        children.push(
-          new Paragraph({
-            children: [new TextRun({ text: item.period, italics: true, size: 20, color: '666666' })],
-            spacing: { after: 50 },
-          })
-        );
-      }
+  // Description (summary, project overview, skills)
+  if (item.description) {
+    paragraphs.push(
+      new Paragraph({
+        children: [new TextRun({ text: item.description, size: 20 })],
+        indent: detailIndent,
+        spacing: { after: 50 },
+      })
+    );
+  }
 
-      // Bullets
-      for (const bullet of item.bullets) {
-        children.push(
-          new Paragraph({
-            children: [new TextRun({ text: `• ${bullet}`, size: 20 })],
-            spacing: { after: 40 },
-            indent: { left: 360 },
-          })
-        );
-      }
-    }
+  for (const bullet of item.bullets) {
+    paragraphs.push(
+      new Paragraph({
+        children: [new TextRun({ text: `${style.bullet} ${bullet}`, size: 20 })],
+        indent: { left: pt(style.bulletIndent) },
+        spacing: { after: 40 },
+      })
+    );
   }
 
-  const doc = new Document({
-    sections: [{ properties: { page: { margin: { top: 720, right: 720, bottom: 720, left: 720 } } }, children }],
-  });
+  return paragraphs;
+}
 
-  return Packer.toBlob(doc);
+function docxSections(sections: ResumeSection[], style: ResumeTemplateStyle): Paragraph[] {
+  return sections.flatMap((section) =>
+    section.type === 'header'
+      ? []
+      : [
+          ...(section.title ? [docxSectionTitle(section.title, style)] : []),
+          ...section.items.flatMap((item) => docxItem(item, style, section.compact)),
+        ]
+  );
 }
 
-// Export to DOCX - Narrative style
-async function exportNarrativeStyleDocx(resume: TailoredResume, userName: string): Promise<Blob> {
-  const sections = parseResumeContent(resume.content);
-  const children: Paragraph[] = [];
+// 2단: 테두리 없는 표로 왼쪽(sidebar)·오른쪽(main) 열 구성
+function docxSidebarTable(sidebar: ResumeSection[], main: ResumeSection[], style: ResumeTemplateStyle): Table {
+  const noBorder = { style: BorderStyle.NONE, size: 0, color: 'FFFFFF' };
+  const borders = { top: noBorder, bottom: noBorder, left: noBorder, right: noBorder };
+  return new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    layout: TableLayoutType.FIXED,
+    borders: { ...borders, insideHorizontal: noBorder, insideVertical: noBorder },
+    rows: [
+      new TableRow({
+        children: [
+          new TableCell({
+            width: { size: 30, type: WidthType.PERCENTAGE },
+            borders,
+            margins: { right: pt(10) },
+            children: docxSections(sidebar, style),
+          }),
+          new TableCell({
+            width: { size: 70, type: WidthType.PERCENTAGE },
+            borders,
+            margins: { left: pt(10) },
+            children: docxSections(main, style),
+          }),
+        ],
+      }),
+    ],
+  });
+}
 
-  // Header - Name centered
-  children.push(
+// Export to DOCX - 템플릿 스타일·레이아웃 적용
+async function buildTailoredResumeDocx(
+  resume: TailoredResume,
+  template: ResumeTemplate,
+  profile: ResumeProfile
+): Promise<Blob> {
+  const { style } = template;
+  const sections = getResumeSections(resume, template, profile);
+  const alignment = style.nameAlign === 'center' ? AlignmentType.CENTER : AlignmentType.LEFT;
+
+  const children: (Paragraph | Table)[] = [
     new Paragraph({
       children: [
-        new TextRun({ text: userName, bold: true, size: 32 }),
+        new TextRun({
+          text: templateHeading(template, profile.name, resume.language),
+          bold: true,
+          size: style.nameSize * 2,
+          color: hex(style.accent),
+        }),
       ],
-      alignment: AlignmentType.CENTER,
-      spacing: { after: 200 },
-    })
-  );
-
-  // Target info
-  children.push(
+      alignment,
+      spacing: { after: 100 },
+    }),
     new Paragraph({
-      children: [
-        new TextRun({ text: `${resume.companyName} | ${resume.jobTitle}`, size: 22, color: '444444' }),
-      ],
-      alignment: AlignmentType.CENTER,
-      spacing: { after: 400 },
-    })
-  );
-
-  for (const section of sections) {
-    if (section.type === 'header') continue;
-
-    // Section header with box style
-    if (section.title) {
-      children.push(
-        new Paragraph({
-          children: [
-            new TextRun({ text: `■ ${section.title}`, bold: true, size: 24 }),
-          ],
-          spacing: { before: 300, after: 150 },
-          shading: { type: ShadingType.CLEAR, fill: 'F5F5F5' },
-        })
-      );
-    }
-
-    for (const item of section.items) {
-      // Company block
-      if (item.title) {
-        children.push(
-          new Paragraph({
-            children: [
-              new TextRun({ text: `▶ ${item.title}`, bold: true, size: 22 }),
-            ],
-            spacing: { before: 120, after: 50 },
-          })
-        );
-      }
-
-      if (item.subtitle || item.period) {
-        const subText = [item.subtitle, item.period].filter(Boolean).join(' | ');
-        children.push(
-          new Paragraph({
-            children: [new TextRun({ text: subText, size: 20, color: '666666' })],
-            indent: { left: 240 },
-            spacing: { after: 50 },
-          })
-        );
-      }
-
-      // Description
-      if (item.description) {
-        children.push(
-          new Paragraph({
-            children: [new TextRun({ text: item.description, size: 20 })],
-            indent: { left: 240 },
-            spacing: { after: 50 },
-          })
-        );
-      }
+      children: [new TextRun({ text: `${resume.companyName} · ${resume.jobTitle}`, size: 20, color: '666666' })],
+      alignment,
+      spacing: { after: 300 },
+    }),
+  ];
 
-      // Bullets as narrative
-      for (const bullet of item.bullets) {
-        children.push(
-          new Paragraph({
-            children: [new TextRun({ text: `· ${bullet}`, size: 20 })],
-            indent: { left: 480 },
-            spacing: { after: 30 },
-          })
-        );
-      }
-    }
+  const { sidebar, main } = splitSidebarSections(template, sections);
+  if (sidebar.length > 0) {
+    children.push(docxSidebarTable(sidebar, main, style));
+  } else {
+    children.push(...docxSections(main, style));
   }
 
   const doc = new Document({
@@ -445,30 +342,33 @@ async function exportNarrativeStyleDocx(resume: TailoredResume, userName: string
   return Packer.toBlob(doc);
 }
 
-// Main export function
-export async function exportTailoredResumeToDocx(resume: TailoredResume, userName?: string, format?: ResumeFormat): Promise<void> {
-  const name = userName || '이름';
-  
-  // Detect format from language if not specified
-  const detectedFormat = format || (resume.language === 'en' ? 'consulting' : 'narrative');
-  
-  let blob: Blob;
-  if (detectedFormat === 'consulting') {
-    blob = await exportConsultingStyleDocx(resume, name);
-  } else {
-    blob = await exportNarrativeStyleDocx(resume, name);
-  }
-
+// 파일 이름: 회사_YY.MM.DD_템플릿.확장자
+function tailoredResumeFileName(resume: TailoredResume, templateId: ResumeTemplateId, extension: ResumeFileType): string {
   const dateStr = new Date(resume.createdAt).toLocaleDateString('ko-KR', { 
     year: '2-digit', 
     month: '2-digit', 
     day: '2-digit' 
   }).replace(/\. /g, '.').replace(/\.$/, '');
   
-  const formatSuffix = detectedFormat === 'consulting' ? '_consulting' : '_narrative';
-  const fileName = `${resume.companyName}_${dateStr}${formatSuffix}.docx`;
-  saveAs(blob, fileName);
+  return `${resume.companyName}_${dateStr}_${templateId}.${extension}`;
+}
+
+// Main export function
+export async function exportTailoredResumeToDocx(resume: TailoredResume, profile: ResumeProfile): Promise<void> {
+  const template = getTailoredResumeTemplate(resume);
+  const blob = await buildTailoredResumeDocx(resume, template, profile);
+  saveAs(blob, tailoredResumeFileName(resume, template.id, 'docx'));
 }
 
-// Legacy function for backwards compatibility
-export { formatResumeForPreview as formatResumeForPreviewLegacy };
+// PDF export - DOCX와 같은 섹션·템플릿, 한글 폰트 임베딩
+export async function exportTailoredResumeToPdf(resume: TailoredResume, profile: ResumeProfile): Promise<void> {
+  const template = getTailoredResumeTemplate(resume);
+  const blob = await renderResumePdf({
+    name: profile.name,
+    subtitle: `${resume.companyName} · ${resume.jobTitle}`,
+    sections: getResumeSections(resume, template, profile),
+    template,
+    language: resume.language,
+  });
+  saveAs(blob, tailoredResumeFileName(resume, template.id, 'pdf'));
+}
@@ -1,4 +1,4 @@
-import { useEffect, useState, useCallback } from 'react';
+import { useEffect, useState, useCallback, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { AppLayout } from '@/components/layout/AppLayout';
 import { BottomTabBar, TabId } from '@/components/layout/BottomTabBar';
@@ -6,8 +6,11 @@ import { DesktopSidebar } from '@/components/layout/DesktopSidebar';
 import { BoardTab } from '@/components/tabs/BoardTab';
 import { CareerTab } from '@/components/tabs/CareerTab';
 import { SettingsTab } from '@/components/tabs/SettingsTab';
+import { CommandPalette } from '@/components/layout/CommandPalette';
 
-type NavigateToTabDetail = TabId | { tab: TabId; tailoredResumeId?: string };
+type NavigateToTabDetail =
+  | TabId
+  | { tab: TabId; tailoredResumeId?: string; experienceId?: string };
 
 const VALID_TABS: TabId[] = ['board', 'career', 'settings'];
 
@@ -18,6 +21,7 @@ const Index = () => {
   // Determine initial tab from URL or default to 'board'
   const initialTab = (tab && VALID_TABS.includes(tab as TabId)) ? (tab as TabId) : 'board';
   const [activeTab, setActiveTab] = useState<TabId>(initialTab);
+  const pendingDetailRef = useRef<Exclude<NavigateToTabDetail, TabId> | null>(null);
 
   // Handle tab change and update URL
   const handleTabChange = useCallback((newTab: TabId) => {
@@ -58,12 +62,24 @@ const Index = () => {
       if (!detail) return;
 
       const targetTab = typeof detail === 'string' ? detail : detail.tab;
+      // 다른 탭으로 이동하면 그 탭은 아직 이벤트를 듣고 있지 않으므로, 마운트 후 다시 전달
+      if (typeof detail !== 'string' && targetTab !== activeTab) {
+        pendingDetailRef.current = detail;
+      }
       handleTabChange(targetTab);
     };
 
     window.addEventListener('navigate-to-tab', handler as EventListener);
     return () => window.removeEventListener('navigate-to-tab', handler as EventListener);
-  }, [handleTabChange]);
+  }, [handleTabChange, activeTab]);
+
+  // 자식 탭의 effect(이벤트 리스너 등록)가 먼저 실행된 뒤에 호출됨
+  useEffect(() => {
+    const pending = pendingDetailRef.current;
+    if (!pending || pending.tab !== activeTab) return;
+    pendingDetailRef.current = null;
+    window.dispatchEvent(new CustomEvent('navigate-to-tab', { detail: pending }));
+  }, [activeTab]);
 
   const renderTab = () => {
     switch (activeTab) {
@@ -89,6 +105,7 @@ const Index = () => {
         </AppLayout>
       </div>
       <BottomTabBar activeTab={activeTab} onTabChange={handleTabChange} />
+      <CommandPalette />
     </>
   );
 };
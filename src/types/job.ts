@@ -18,6 +18,14 @@ export interface KeyCompetency {
   evaluation?: string; // AI evaluation of user's fit
 }
 
+// 공고에서 추출한 기술·도구 키워드 (경험 라이브러리와 매칭)
+export interface JobKeyword {
+  term: string;
+  category: 'skill' | 'tool';
+  importance: 'required' | 'preferred';
+  aliases: string[]; // 이력서에 쓰일 수 있는 다른 표기 (JS, 데이터 분석 등)
+}
+
 // Company criteria scores (per job)
 export interface CompanyCriteriaScore {
   name: string;
@@ -38,6 +46,9 @@ export interface MinimumRequirementsCheck {
   reason: string;
 }
 
+// Salary unit (schema.org QuantitativeValue unitText)
+export type SalaryPeriod = 'hour' | 'day' | 'week' | 'month' | 'year';
+
 // Job posting data structure
 export interface JobPosting {
   id: string;
@@ -55,13 +66,161 @@ export interface JobPosting {
   locationEvidence?: string;
   visaSponsorship?: boolean | null;
   visaSponsorshipEvidence?: string;
+  deadline?: string; // YYYY-MM-DD, 없으면 상시채용/미기재
+  deadlineEvidence?: string;
+  postedAt?: string; // YYYY-MM-DD
+  postedAtEvidence?: string;
+  salaryMin?: number;
+  salaryMax?: number;
+  salaryCurrency?: string; // ISO 4217 (KRW, USD ...)
+  salaryPeriod?: SalaryPeriod;
+  salaryEvidence?: string;
   summary?: string;
   companyScore?: number; // 1-5 average
   fitScore?: number; // 1-5 average
   minimumRequirementsCheck?: MinimumRequirementsCheck; // AI 최소 조건 검토 결과
   companyCriteriaScores?: CompanyCriteriaScore[]; // Per-job company criteria scores
   keyCompetencies?: KeyCompetency[]; // AI-extracted from recruiter perspective
+  keywords?: JobKeyword[]; // 키워드 갭 분석용 (extract-keywords)
+  sourceUrl?: string;
+  notes?: string; // 자유 메모
+  tags?: string[]; // 사용자 정의 태그
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// 공고 원문 스냅샷 (분석 시점에 가져온 본문, 공고가 내려가도 보관)
+export interface JobPostingSnapshot {
+  id: string;
+  jobPostingId: string;
   sourceUrl?: string;
+  title?: string;
+  content: string; // 스크래핑한 마크다운/텍스트 또는 직접 붙여넣은 본문
+  source: string; // 스크래퍼 어댑터 이름 | 'firecrawl' | 'manual'
+  jsonLd?: Record<string, unknown>; // schema.org JobPosting (재분석 시 구조화 필드 복원용)
+  createdAt: Date;
+}
+
+// 공고 수정 이력 (append-only, 되돌리기도 새 이력으로 기록)
+export type JobPostingChangeSource = 'table' | 'detail' | 'card' | 'reanalyze' | 'undo';
+
+export interface JobPostingChange {
+  id: string;
+  jobPostingId: string;
+  changes: Record<string, { from: unknown; to: unknown }>; // JobPosting 필드명 기준
+  source: JobPostingChangeSource;
+  revertsChangeId?: string; // source가 'undo'일 때 되돌린 이력
+  createdAt: Date;
+}
+
+// updateJobPosting 옵션: history를 넘기면 변경 이력을 남김
+export interface JobPostingUpdateOptions {
+  history?: JobPostingChangeSource;
+  revertsChangeId?: string;
+  // 우선순위를 매길 때 비교할 공고 목록 (여러 공고를 연달아 수정할 때 방금 바꾼 점수를 반영하려고 넘김)
+  priorityBasis?: JobPosting[];
+}
+
+// 지원 상태 변경 기록 (DB 트리거가 status 변경마다 자동 기록)
+export interface JobStatusEvent {
+  id: string;
+  jobPostingId: string;
+  fromStatus?: JobStatus; // 공고 등록 시점 기록은 없음
+  toStatus: JobStatus;
+  createdAt: Date;
+}
+
+// 인터뷰 라운드 (interview 상태 공고의 세부 일정)
+export type InterviewRoundType = 'phone_screen' | 'technical' | 'culture' | 'final';
+export type InterviewOutcome = 'pending' | 'passed' | 'failed' | 'cancelled';
+
+export interface InterviewRound {
+  id: string;
+  jobPostingId: string;
+  type: InterviewRoundType;
+  scheduledAt?: Date;
+  interviewers: string[];
+  location?: string; // 장소 (오프라인)
+  meetingUrl?: string; // 화상 면접 링크
+  outcome: InterviewOutcome;
+  notes?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// 공고별 연락처 기록 (리크루터, 추천인 등)
+export type JobContactRole = 'recruiter' | 'referrer' | 'hiring_manager' | 'other';
+
+export interface JobContact {
+  id: string;
+  jobPostingId: string;
+  name: string;
+  role: JobContactRole;
+  email?: string;
+  linkedinUrl?: string;
+  lastContactedAt?: string; // YYYY-MM-DD
+  nextFollowUpAt?: string; // YYYY-MM-DD
+  notes?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// 보드 화면 설정 (BoardTab)
+export type BoardViewMode = 'kanban' | 'table';
+export type BoardSortOption = 'newest' | 'oldest' | 'priority' | 'company';
+
+// 고급 필터 조건 (필드별로 쓸 수 있는 연산자는 lib/boardFilters.ts의 BOARD_FILTER_FIELDS 참고)
+export type BoardFilterField =
+  | 'fitScore'
+  | 'companyScore'
+  | 'priority'
+  | 'status'
+  | 'minimumRequirements'
+  | 'visaSponsorship'
+  | 'createdAt'
+  | 'deadline'
+  | 'text';
+
+export type BoardFilterOperator =
+  | 'gte'
+  | 'lte'
+  | 'eq'
+  | 'in'
+  | 'not_in'
+  | 'within_last_days'
+  | 'older_than_days'
+  | 'within_next_days'
+  | 'contains'
+  | 'not_contains';
+
+export interface BoardFilterCondition {
+  id: string;
+  field: BoardFilterField;
+  operator: BoardFilterOperator;
+  value: number | string | string[]; // 숫자/일수 | 텍스트 | 선택지 목록
+}
+
+export interface BoardFilterExpression {
+  combinator: 'and' | 'or';
+  conditions: BoardFilterCondition[];
+}
+
+// 필터 옵션: 경력/근무형태/위치 기준 + 태그 (선택한 태그를 모두 가진 공고) + 고급 필터
+export interface BoardFilterState {
+  minExperience: string;
+  workType: string;
+  location: string;
+  tags: string[];
+  advanced: BoardFilterExpression;
+}
+
+// 이름 붙여 저장한 보드 보기 (기기 간 동기화)
+export interface BoardView {
+  id: string;
+  name: string;
+  filters: BoardFilterState;
+  sortOption: BoardSortOption;
+  viewMode: BoardViewMode;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -81,16 +240,57 @@ export interface Experience {
   createdAt: Date;
 }
 
+// 구조화된 이력서 문서 (generate-resume 도구 호출 결과)
+export interface ResumeWorkItem {
+  company: string;
+  role: string;
+  period?: string;
+  location?: string;
+  bullets: string[];
+}
+
+export interface ResumeProjectItem {
+  name: string;
+  period?: string;
+  description?: string;
+  bullets: string[];
+}
+
+export interface ResumeEducationItem {
+  school: string;
+  degree?: string;
+  period?: string;
+  details?: string;
+}
+
+export interface ResumeDocument {
+  summary: string;
+  work: ResumeWorkItem[];
+  projects: ResumeProjectItem[];
+  skills: string[];
+  education: ResumeEducationItem[];
+}
+
+// 이력서 템플릿 (레지스트리는 lib/resumeTemplates)
+export type ResumeTemplateId =
+  | 'consulting'
+  | 'narrative'
+  | 'ats-plain'
+  | 'modern'
+  | 'korean-standard'
+  | 'academic-cv';
+
 // 공고별 맞춤 이력서
 export interface TailoredResume {
   id: string;
   jobPostingId: string;
   companyName: string;
   jobTitle: string;
-  content: string; // AI가 생성한 이력서 내용
+  content: string; // AI가 생성한 이력서 내용 (document가 있으면 그걸 텍스트로 옮긴 것)
+  document?: ResumeDocument; // 구조화된 이력서 (이전에 만든 이력서는 없음)
   aiFeedback?: string; // AI의 채용담당자 관점 피드백
   language: 'ko' | 'en';
-  format: 'consulting' | 'narrative';
+  format: ResumeTemplateId; // 템플릿 (생성 후에도 AI 호출 없이 바꿀 수 있음)
   createdAt: Date;
   updatedAt: Date;
 }
@@ -166,6 +366,38 @@ export const STATUS_COLORS: Record<JobStatus, string> = {
   'closed': 'bg-muted text-muted-foreground',
 };
 
+// Salary period labels
+export const SALARY_PERIOD_LABELS: Record<SalaryPeriod, string> = {
+  'hour': '시급',
+  'day': '일급',
+  'week': '주급',
+  'month': '월급',
+  'year': '연봉',
+};
+
+// Interview round labels
+export const INTERVIEW_ROUND_TYPE_LABELS: Record<InterviewRoundType, string> = {
+  'phone_screen': '전화 스크리닝',
+  'technical': '기술 면접',
+  'culture': '컬처핏 면접',
+  'final': '최종 면접',
+};
+
+export const INTERVIEW_OUTCOME_LABELS: Record<InterviewOutcome, string> = {
+  'pending': '결과 대기',
+  'passed': '합격',
+  'failed': '불합격',
+  'cancelled': '취소',
+};
+
+// Job contact role labels
+export const JOB_CONTACT_ROLE_LABELS: Record<JobContactRole, string> = {
+  'recruiter': '리크루터',
+  'referrer': '추천인',
+  'hiring_manager': '채용 매니저',
+  'other': '기타',
+};
+
 // Priority labels (0 = not evaluated yet)
 export const PRIORITY_LABELS: Record<number, string> = {
   0: '미평가',
@@ -175,3 +407,6 @@ export const PRIORITY_LABELS: Record<number, string> = {
   4: '낮음',
   5: '관심',
 };
+
+// Evidence prefix for fields filled from the posting's schema.org JobPosting (JSON-LD) by analyze-job
+export const STRUCTURED_EVIDENCE_PREFIX = '[schema.org JobPosting]';
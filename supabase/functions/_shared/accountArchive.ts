@@ -0,0 +1,37 @@
+/**
+ * 계정 데이터 백업(zip) 형식
+ * - account-export가 만들고 account-import가 읽습니다.
+ * - data/<table>.json 에 DB 행을 그대로 담습니다.
+ */
+
+export const ARCHIVE_VERSION = 1;
+
+// 내보내는 테이블 (가져올 때도 이 순서로 넣어야 참조가 맞습니다)
+// calendar_feed_tokens는 제외: 캘린더 구독 URL의 비밀 토큰이라 백업 파일에 담지 않고,
+// 복원한 계정에서 구독 링크를 새로 발급받습니다.
+export const ARCHIVE_TABLES = [
+  'job_postings',
+  'resumes',
+  'experiences',
+  'tailored_resumes',
+  'job_posting_snapshots',
+  'job_posting_changes',
+  'job_status_events',
+  'interview_rounds',
+  'job_posting_contacts',
+  'board_views',
+  'career_goals',
+  'chat_messages',
+  'credit_usage_history',
+] as const;
+
+export type ArchiveTable = typeof ARCHIVE_TABLES[number];
+
+export type ArchiveManifest = {
+  version: number;
+  exportedAt: string;
+  email: string | null;
+  counts: Record<ArchiveTable, number>;
+};
+
+export const dataPath = (table: ArchiveTable) => `data/${table}.json`;
@@ -0,0 +1,43 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export type CreditType = 'ai' | 'resume';
+
+const CREDIT_COLUMNS = {
+  ai: { remaining: 'ai_credits_remaining', used: 'ai_credits_used' },
+  resume: { remaining: 'resume_credits_remaining', used: 'resume_credits_used' },
+} as const;
+
+const MAX_REFUND_ATTEMPTS = 3;
+
+/**
+ * 요청 처리 전에 차감한 크레딧 1개를 되돌립니다. (AI 응답 실패 등 사용자 잘못이 아닌 실패)
+ * 차감과 같은 낙관적 동시성 제어를 쓰고, 그 사이 값이 바뀌었으면 다시 읽어서 재시도합니다.
+ */
+export async function refundCredit(supabaseClient: SupabaseClient, userId: string, type: CreditType) {
+  const { remaining, used } = CREDIT_COLUMNS[type];
+
+  for (let attempt = 0; attempt < MAX_REFUND_ATTEMPTS; attempt++) {
+    const { data: subscription, error: subError } = await supabaseClient
+      .from('user_subscriptions')
+      .select(`${remaining}, ${used}`)
+      .eq('user_id', userId)
+      .single();
+    if (subError || !subscription) break;
+
+    const current = subscription as unknown as Record<string, number | null>;
+    const { error, count } = await supabaseClient
+      .from('user_subscriptions')
+      .update({
+        [remaining]: (current[remaining] ?? 0) + 1,
+        [used]: Math.max((current[used] ?? 0) - 1, 0),
+        updated_at: new Date().toISOString(),
+      }, { count: 'exact' })
+      .eq('user_id', userId)
+      .eq(remaining, current[remaining] ?? 0);
+    if (!error && count !== 0) {
+      console.log(`Refunded 1 ${type} credit`);
+      return;
+    }
+  }
+  console.error(`Failed to refund ${type} credit:`, userId);
+}
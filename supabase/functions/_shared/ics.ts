@@ -0,0 +1,98 @@
+/**
+ * iCalendar (RFC 5545) 생성기
+ * - 공고 마감일은 종일 일정, 인터뷰는 시각이 있는 일정으로 만듭니다.
+ * - UID는 공고/라운드 id 기반이라 구독 캘린더가 다시 받아와도 같은 일정으로 갱신됩니다.
+ */
+
+export type IcsEvent = {
+  uid: string;
+  summary: string;
+  description?: string;
+  location?: string;
+  url?: string;
+  // 종일 일정: YYYY-MM-DD / 시각 일정: ISO 문자열
+  date?: string;
+  start?: string;
+  durationMinutes?: number;
+  // 같은 UID의 변경을 알리기 위한 수정 시각 (ISO)
+  updatedAt?: string;
+};
+
+const PRODID = '-//Curve//Job Calendar//KO';
+
+// TEXT 값 이스케이프 (RFC 5545 3.3.11)
+const escapeText = (value: string) =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+const toUtcStamp = (value: string | Date) =>
+  new Date(value).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const toDateValue = (date: string) => date.replace(/-/g, '');
+
+const nextDate = (date: string) => {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + 1);
+  return d.toISOString().slice(0, 10);
+};
+
+// 한 줄은 75옥텟 이하로 접기 (멀티바이트 문자가 잘리지 않도록 문자 단위로 계산)
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74; // 이어지는 줄은 앞의 공백 1바이트 포함
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function eventLines(event: IcsEvent, stamp: string): string[] {
+  const lines = ['BEGIN:VEVENT', `UID:${event.uid}`, `DTSTAMP:${stamp}`];
+
+  if (event.date) {
+    lines.push(`DTSTART;VALUE=DATE:${toDateValue(event.date)}`);
+    lines.push(`DTEND;VALUE=DATE:${toDateValue(nextDate(event.date))}`);
+    lines.push('TRANSP:TRANSPARENT');
+  } else if (event.start) {
+    lines.push(`DTSTART:${toUtcStamp(event.start)}`);
+    lines.push(`DURATION:PT${event.durationMinutes ?? 60}M`);
+  }
+
+  lines.push(`SUMMARY:${escapeText(event.summary)}`);
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+  if (event.updatedAt) lines.push(`LAST-MODIFIED:${toUtcStamp(event.updatedAt)}`);
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+export function buildIcsCalendar(events: IcsEvent[], calendarName: string): string {
+  const stamp = toUtcStamp(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    'X-PUBLISHED-TTL:PT6H',
+    ...events.flatMap((event) => eventLines(event, stamp)),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
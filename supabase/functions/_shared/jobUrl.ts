@@ -0,0 +1,102 @@
+// Allowlisted job board domains for URL validation
+const ALLOWED_DOMAINS = [
+  'linkedin.com',
+  'indeed.com',
+  'glassdoor.com',
+  'jobkorea.co.kr',
+  'saramin.co.kr',
+  'wanted.co.kr',
+  'rocketpunch.com',
+  'jumpit.co.kr',
+  'programmers.co.kr',
+  'catch.co.kr',
+  'incruit.com',
+  'worknet.go.kr',
+  'albamon.com',
+  'alba.co.kr',
+  'job.go.kr',
+  'career.co.kr',
+  'jobs.lever.co',
+  'boards.greenhouse.io',
+  'job-boards.greenhouse.io',
+  'jobs.ashbyhq.com',
+  'apply.workable.com',
+  'jobs.smartrecruiters.com',
+  'recruiting.paylocity.com',
+  'monster.com',
+  'ziprecruiter.com',
+  'careerbuilder.com',
+  'dice.com',
+  'simplyhired.com',
+  'flexjobs.com',
+  'angel.co',
+  'wellfound.com',
+  'remoteok.com',
+  'weworkremotely.com',
+  'stackoverflow.jobs',
+  'hired.com',
+  'triplebyte.com',
+];
+
+/**
+ * Validates a URL to prevent SSRF attacks
+ * - Only allows HTTPS/HTTP protocols
+ * - Blocks private IP ranges and localhost
+ * - Checks against allowlisted job board domains
+ */
+export function validateUrl(urlString: string): { valid: boolean; error?: string; url?: string } {
+  try {
+    // Add protocol if missing
+    const formattedUrl = urlString.trim().startsWith('http') 
+      ? urlString.trim() 
+      : `https://${urlString.trim()}`;
+    
+    const parsed = new URL(formattedUrl);
+    
+    // Only allow HTTP/HTTPS protocols
+    if (!['https:', 'http:'].includes(parsed.protocol)) {
+      return { valid: false, error: '지원되지 않는 URL 형식입니다. http 또는 https URL을 입력해주세요.' };
+    }
+    
+    const hostname = parsed.hostname.toLowerCase();
+    
+    // Block localhost
+    if (['localhost', '127.0.0.1', '0.0.0.0', '::1'].includes(hostname)) {
+      return { valid: false, error: '유효하지 않은 URL입니다. 올바른 채용 공고 URL을 입력해주세요.' };
+    }
+    
+    // Block private IP ranges
+    if (
+      hostname.match(/^10\./i) ||
+      hostname.match(/^172\.(1[6-9]|2[0-9]|3[0-1])\./i) ||
+      hostname.match(/^192\.168\./i) ||
+      hostname.match(/^169\.254\./i) || // link-local (AWS metadata)
+      hostname.match(/^fe80:/i) || // IPv6 link-local
+      hostname.match(/^fc00:/i) || // IPv6 unique local
+      hostname.match(/^fd[0-9a-f]{2}:/i) // IPv6 unique local
+    ) {
+      return { valid: false, error: '유효하지 않은 URL입니다. 올바른 채용 공고 URL을 입력해주세요.' };
+    }
+    
+    // Check if domain is in allowlist
+    const isAllowed = ALLOWED_DOMAINS.some(allowed => 
+      hostname === allowed || hostname.endsWith('.' + allowed)
+    );
+    
+    if (!isAllowed) {
+      return { 
+        valid: false, 
+        error: '지원되지 않는 사이트입니다. LinkedIn, 잡코리아, 사람인, 원티드 등 주요 채용 사이트의 URL을 입력해주세요.' 
+      };
+    }
+    
+    // URL length check (already validated by Zod, but double-check)
+    if (formattedUrl.length > 2000) {
+      return { valid: false, error: 'URL이 너무 깁니다. URL을 줄여 다시 시도해주세요.' };
+    }
+    
+    return { valid: true, url: formattedUrl };
+  } catch {
+    return { valid: false, error: '올바른 URL 형식이 아닙니다. 전체 URL을 확인해주세요.' };
+  }
+}
@@ -0,0 +1,171 @@
+/**
+ * 채용 사이트별 어댑터 테스트 (네트워크 없이 fixtures/ 의 저장된 응답으로 확인)
+ *
+ *   npm run test:functions  (= deno test --allow-read supabase/functions/)
+ */
+import {
+  assert,
+  assertEquals,
+  assertStringIncludes,
+} from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { findScraperAdapter } from "./index.ts";
+
+const readFixture = (name: string) =>
+  Deno.readTextFile(new URL(`./fixtures/${name}`, import.meta.url));
+
+// URL → 어댑터 선택, 요청 주소, fixture 파싱 결과까지 한 번에 확인
+async function parseFixture(pageUrl: string, expected: { adapter: string; requestUrl: string; fixture: string }) {
+  const url = new URL(pageUrl);
+  const adapter = findScraperAdapter(url);
+  assert(adapter, `${pageUrl} 에 맞는 어댑터가 없습니다`);
+  assertEquals(adapter.name, expected.adapter);
+  assertEquals(adapter.buildRequestUrl(url), expected.requestUrl);
+  return adapter.parse(await readFixture(expected.fixture), url);
+}
+
+Deno.test("greenhouse: 공개 API 응답에서 이중 escape된 본문을 텍스트로", async () => {
+  const scraped = await parseFixture("https://boards.greenhouse.io/acme/jobs/4012345?gh_src=abc", {
+    adapter: "greenhouse",
+    requestUrl: "https://boards-api.greenhouse.io/v1/boards/acme/jobs/4012345",
+    fixture: "greenhouse.json",
+  });
+  assert(scraped);
+  assertEquals(scraped.title, "Senior Product Manager, Payments");
+  assertStringIncludes(scraped.content, "Company: Acme");
+  assertStringIncludes(scraped.content, "Location: Seoul, South Korea");
+  assertStringIncludes(scraped.content, "Department: Product, Payments");
+  assertStringIncludes(scraped.content, "- Run A/B tests with data science");
+  assertStringIncludes(scraped.content, "Experience with SQL & dashboards");
+  assert(!scraped.content.includes("<li>"));
+});
+
+Deno.test("greenhouse: embed URL도 같은 API로", () => {
+  const url = new URL("https://boards.greenhouse.io/embed/job_app?for=acme&token=4012345");
+  assertEquals(
+    findScraperAdapter(url)?.buildRequestUrl(url),
+    "https://boards-api.greenhouse.io/v1/boards/acme/jobs/4012345"
+  );
+});
+
+Deno.test("lever: 목록 섹션과 연봉 범위를 포함", async () => {
+  const scraped = await parseFixture(
+    "https://jobs.eu.lever.co/globex/3f2b8c1d-5e6a-4b7c-9d0e-1a2b3c4d5e6f/apply",
+    {
+      adapter: "lever",
+      requestUrl: "https://api.eu.lever.co/v0/postings/globex/3f2b8c1d-5e6a-4b7c-9d0e-1a2b3c4d5e6f",
+      fixture: "lever.json",
+    }
+  );
+  assert(scraped);
+  assertEquals(scraped.title, "Backend Engineer (Go)");
+  assertStringIncludes(scraped.content, "Company: globex");
+  assertStringIncludes(scraped.content, "Location: Remote - APAC, Singapore");
+  assertStringIncludes(scraped.content, "Salary: 90000 - 120000 USD per-year-salary");
+  assertStringIncludes(scraped.content, "Requirements:\n- 3+ years with Go or Rust");
+});
+
+Deno.test("ashby: 조직 공고 목록에서 URL의 jobId만 찾음", async () => {
+  const scraped = await parseFixture(
+    "https://jobs.ashbyhq.com/hooli/0c1d2e3f-4a5b-4c6d-8e7f-9a0b1c2d3e4f",
+    {
+      adapter: "ashby",
+      requestUrl: "https://api.ashbyhq.com/posting-api/job-board/hooli?includeCompensation=true",
+      fixture: "ashby.json",
+    }
+  );
+  assert(scraped);
+  assertEquals(scraped.title, "Data Analyst");
+  assertStringIncludes(scraped.content, "Location: Seoul, Busan");
+  assertStringIncludes(scraped.content, "Compensation: ₩60M – ₩80M");
+  assert(!scraped.content.includes("Office Manager"));
+});
+
+Deno.test("ashby: 목록에 없는 공고는 null (Firecrawl 폴백)", async () => {
+  const url = new URL("https://jobs.ashbyhq.com/hooli/11111111-2222-4333-8444-555555555555");
+  const adapter = findScraperAdapter(url);
+  assert(adapter);
+  assertEquals(adapter.parse(await readFixture("ashby.json"), url), null);
+});
+
+Deno.test("ashby: 목록 포함 여부 (JSON이 아니면 판단하지 않음)", async () => {
+  const body = await readFixture("ashby.json");
+  const listed = new URL("https://jobs.ashbyhq.com/hooli/0c1d2e3f-4a5b-4c6d-8e7f-9a0b1c2d3e4f");
+  const removed = new URL("https://jobs.ashbyhq.com/hooli/11111111-2222-4333-8444-555555555555");
+  const adapter = findScraperAdapter(listed);
+  assert(adapter?.containsPosting);
+  assertEquals(adapter.containsPosting(body, listed), true);
+  assertEquals(adapter.containsPosting(body, removed), false);
+  assertEquals(adapter.containsPosting("<html>Service Unavailable</html>", listed), null);
+  assertEquals(adapter.containsPosting('{"error":"rate limited"}', listed), null);
+});
+
+Deno.test("wanted: 상세 항목을 한국어 섹션으로", async () => {
+  const scraped = await parseFixture("https://www.wanted.co.kr/wd/234567?referer_id=1", {
+    adapter: "wanted",
+    requestUrl: "https://www.wanted.co.kr/api/v4/jobs/234567",
+    fixture: "wanted.json",
+  });
+  assert(scraped);
+  assertEquals(scraped.title, "프론트엔드 개발자 (React)");
+  assertStringIncludes(scraped.content, "회사명: 커브랩");
+  assertStringIncludes(scraped.content, "근무지: 서울특별시 강남구 테헤란로 123");
+  assertStringIncludes(scraped.content, "마감일: 상시채용");
+  assertStringIncludes(scraped.content, "기술 스택: React, TypeScript");
+  assertStringIncludes(scraped.content, "자격요건:\n• React 기반 실무 경력 3년 이상");
+});
+
+Deno.test("saramin: JSON-LD JobPosting으로 파싱", async () => {
+  const scraped = await parseFixture("https://www.saramin.co.kr/zf_user/jobs/view?rec_idx=48123456&view_type=list", {
+    adapter: "saramin",
+    requestUrl: "https://www.saramin.co.kr/zf_user/jobs/relay/view?rec_idx=48123456",
+    fixture: "saramin.html",
+  });
+  assert(scraped);
+  assertEquals(scraped.title, "데이터 엔지니어");
+  assertEquals(scraped.jsonLd?.validThrough, "2026-11-15T23:59:59+09:00");
+  assertStringIncludes(scraped.content, "Company: 커브랩");
+  assertStringIncludes(scraped.content, "Location: 강남구 서울 KR");
+  assertStringIncludes(scraped.content, "Experience Requirements: 경력 3년↑");
+  assertStringIncludes(scraped.content, "- Airflow 운영 경험");
+});
+
+Deno.test("saramin: JSON-LD가 없으면 null (Firecrawl 폴백)", async () => {
+  const url = new URL("https://www.saramin.co.kr/zf_user/jobs/view?rec_idx=48123456");
+  const adapter = findScraperAdapter(url);
+  assert(adapter);
+  assertEquals(adapter.parse(await readFixture("saramin-no-jsonld.html"), url), null);
+});
+
+Deno.test("jobkorea: 배열·@graph 안의 JobPosting을 찾음", async () => {
+  const scraped = await parseFixture("https://www.jobkorea.co.kr/Recruit/GI_Read/45678901?Oem_Code=C1", {
+    adapter: "jobkorea",
+    requestUrl: "https://www.jobkorea.co.kr/Recruit/GI_Read/45678901",
+    fixture: "jobkorea.html",
+  });
+  assert(scraped);
+  assertEquals(scraped.title, "백엔드 개발자 경력 모집");
+  assertStringIncludes(scraped.content, "Company: (주)커브랩");
+  assertStringIncludes(scraped.content, "Employment Type: FULL_TIME");
+  assertStringIncludes(scraped.content, "- Spring 기반 API 개발");
+});
+
+Deno.test("linkedin: 메타 설명·JSON-LD·본문을 합치고 스크립트는 제외", async () => {
+  const pageUrl = "https://www.linkedin.com/jobs/view/3987654321/";
+  const scraped = await parseFixture(pageUrl, {
+    adapter: "linkedin",
+    requestUrl: pageUrl,
+    fixture: "linkedin.html",
+  });
+  assert(scraped);
+  assertEquals(scraped.title, "Initech hiring Growth Marketing Manager in Seoul, South Korea | LinkedIn");
+  assertEquals(scraped.jsonLd?.title, "Growth Marketing Manager");
+  assertStringIncludes(scraped.content, "Description: Posted 3:42:10 PM. Initech is looking for");
+  assertStringIncludes(scraped.content, "Company: Initech");
+  assertStringIncludes(scraped.content, "Own the growth funnel from first visit to paid conversion.");
+  assert(!scraped.content.includes("__tracking"));
+});
+
+Deno.test("지원하지 않는 URL은 어댑터 없음", () => {
+  assertEquals(findScraperAdapter(new URL("https://careers.example.com/jobs/1")), null);
+  assertEquals(findScraperAdapter(new URL("https://www.wanted.co.kr/company/9876")), null);
+});
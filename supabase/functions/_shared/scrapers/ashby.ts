@@ -0,0 +1,74 @@
+import { formatSections, htmlToText } from './html.ts';
+import type { ScraperAdapter } from './types.ts';
+
+// jobs.ashbyhq.com/{organization}/{jobId}
+function parseAshbyUrl(url: URL): { organization: string; jobId: string } | null {
+  const match = url.pathname.match(/^\/([^/]+)\/([0-9a-f-]{36})/i);
+  return match ? { organization: decodeURIComponent(match[1]), jobId: match[2] } : null;
+}
+
+type AshbyJob = {
+  id?: string;
+  title?: string;
+  department?: string;
+  team?: string;
+  employmentType?: string;
+  location?: string;
+  secondaryLocations?: Array<{ location?: string }>;
+  isRemote?: boolean;
+  workplaceType?: string;
+  descriptionPlain?: string;
+  descriptionHtml?: string;
+  compensation?: {
+    compensationTierSummary?: string;
+    scrapeableCompensationSalarySummary?: string;
+  };
+};
+
+export const ashbyAdapter: ScraperAdapter = {
+  name: 'ashby',
+  matches: (url) => url.hostname === 'jobs.ashbyhq.com' && !!parseAshbyUrl(url),
+  // 공개 Job Board API는 조직 단위로만 조회되므로 목록을 받아 jobId로 찾습니다.
+  buildRequestUrl: (url) => {
+    const parsed = parseAshbyUrl(url);
+    if (!parsed) return null;
+    return `https://api.ashbyhq.com/posting-api/job-board/${encodeURIComponent(parsed.organization)}?includeCompensation=true`;
+  },
+  responseType: 'json',
+  parse: (body, url) => {
+    const parsed = parseAshbyUrl(url);
+    const data = JSON.parse(body) as { jobs?: AshbyJob[] };
+    const job = data?.jobs?.find((j) => j.id === parsed?.jobId);
+    if (!job?.title) return null;
+
+    const locations = [job.location, ...(job.secondaryLocations ?? []).map((l) => l.location)]
+      .filter(Boolean)
+      .join(', ');
+
+    return {
+      adapter: 'ashby',
+      title: job.title,
+      content: formatSections([
+        ['Company', parsed?.organization],
+        ['Job Title', job.title],
+        ['Location', locations],
+        ['Employment Type', job.employmentType],
+        ['Workplace Type', job.workplaceType || (job.isRemote ? 'Remote' : undefined)],
+        ['Team', job.team || job.department],
+        ['Compensation', job.compensation?.compensationTierSummary || job.compensation?.scrapeableCompensationSalarySummary],
+        ['Description', job.descriptionPlain || (job.descriptionHtml ? htmlToText(job.descriptionHtml) : '')],
+      ]),
+    };
+  },
+  containsPosting: (body, url) => {
+    const parsed = parseAshbyUrl(url);
+    let data: { jobs?: AshbyJob[] } | null;
+    try {
+      data = JSON.parse(body);
+    } catch {
+      return null;
+    }
+    if (!parsed || !Array.isArray(data?.jobs)) return null;
+    return data.jobs.some((j) => j.id === parsed.jobId);
+  },
+};
@@ -0,0 +1,54 @@
+import { decodeHtmlEntities, formatSections, htmlToText } from './html.ts';
+import type { ScraperAdapter } from './types.ts';
+
+// boards.greenhouse.io/{board}/jobs/{id}, job-boards.greenhouse.io/{board}/jobs/{id}
+// boards.greenhouse.io/embed/job_app?for={board}&token={id}
+function parseGreenhouseUrl(url: URL): { board: string; jobId: string } | null {
+  const embedBoard = url.searchParams.get('for');
+  const embedToken = url.searchParams.get('token');
+  if (url.pathname.startsWith('/embed/') && embedBoard && embedToken) {
+    return { board: embedBoard, jobId: embedToken };
+  }
+  const match = url.pathname.match(/^\/([^/]+)\/jobs\/(\d+)/);
+  return match ? { board: match[1], jobId: match[2] } : null;
+}
+
+type GreenhouseJob = {
+  title?: string;
+  company_name?: string;
+  content?: string;
+  location?: { name?: string };
+  departments?: Array<{ name?: string }>;
+  offices?: Array<{ name?: string }>;
+};
+
+export const greenhouseAdapter: ScraperAdapter = {
+  name: 'greenhouse',
+  matches: (url) => /(^|\.)greenhouse\.io$/.test(url.hostname) && !!parseGreenhouseUrl(url),
+  buildRequestUrl: (url) => {
+    const parsed = parseGreenhouseUrl(url);
+    if (!parsed) return null;
+    return `https://boards-api.greenhouse.io/v1/boards/${encodeURIComponent(parsed.board)}/jobs/${parsed.jobId}`;
+  },
+  responseType: 'json',
+  parse: (body, url) => {
+    const job = JSON.parse(body) as GreenhouseJob;
+    if (!job?.title) return null;
+
+    const companyName = job.company_name || parseGreenhouseUrl(url)?.board || '';
+    // Greenhouse content는 HTML이 한 번 더 entity-escape 되어 내려옵니다.
+    const description = job.content ? htmlToText(decodeHtmlEntities(job.content)) : '';
+
+    return {
+      adapter: 'greenhouse',
+      title: job.title,
+      content: formatSections([
+        ['Company', companyName],
+        ['Job Title', job.title],
+        ['Location', job.location?.name],
+        ['Department', job.departments?.map((d) => d.name).filter(Boolean).join(', ')],
+        ['Description', description],
+      ]),
+    };
+  },
+};
@@ -0,0 +1,105 @@
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  middot: '·',
+  hellip: '…',
+  ndash: '–',
+  mdash: '—',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  bull: '•',
+};
+
+export function decodeHtmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const isHex = code[1] === 'x' || code[1] === 'X';
+      const value = parseInt(code.slice(isHex ? 2 : 1), isHex ? 16 : 10);
+      return Number.isFinite(value) ? String.fromCodePoint(value) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * HTML → 읽기 쉬운 텍스트
+ * - 블록 요소/줄바꿈은 개행으로, 목록은 "- "로 변환해 AI가 구조를 파악할 수 있게 합니다.
+ */
+export function htmlToText(html: string): string {
+  return decodeHtmlEntities(
+    html
+      .replace(/<script[^>]*>[\s\S]*?<\/script>/gi, '')
+      .replace(/<style[^>]*>[\s\S]*?<\/style>/gi, '')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<li[^>]*>/gi, '\n- ')
+      .replace(/<\/(p|div|ul|ol|h[1-6]|section|article|tr)>/gi, '\n')
+      .replace(/<[^>]+>/g, ' ')
+  )
+    .replace(/[ \t\f\v\u00a0]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+export function extractHtmlTitle(html: string): string {
+  const titleMatch = html.match(/<title[^>]*>([^<]+)<\/title>/i);
+  return titleMatch ? decodeHtmlEntities(titleMatch[1]).trim() : '';
+}
+
+export function extractMetaContent(html: string, key: string): string {
+  const escaped = key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const match =
+    html.match(new RegExp(`<meta[^>]*(?:name|property)=["']${escaped}["'][^>]*content=["']([^"']*)["']`, 'i')) ||
+    html.match(new RegExp(`<meta[^>]*content=["']([^"']*)["'][^>]*(?:name|property)=["']${escaped}["']`, 'i'));
+  return match ? decodeHtmlEntities(match[1]).trim() : '';
+}
+
+export function extractJsonLdBlocks(html: string): unknown[] {
+  const blocks: unknown[] = [];
+  const matches = html.matchAll(/<script[^>]*type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi);
+  for (const match of matches) {
+    try {
+      blocks.push(JSON.parse(match[1].trim()));
+    } catch {
+      // ignore parse errors
+    }
+  }
+  return blocks;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isJobPostingType = (type: unknown): boolean =>
+  type === 'JobPosting' || (Array.isArray(type) && type.includes('JobPosting'));
+
+/** JSON-LD 블록(배열/@graph 포함)에서 schema.org JobPosting 객체를 찾습니다. */
+export function findJobPostingJsonLd(blocks: unknown[]): Record<string, unknown> | null {
+  const queue = [...blocks];
+  while (queue.length > 0) {
+    const item = queue.shift();
+    if (Array.isArray(item)) {
+      queue.push(...item);
+      continue;
+    }
+    if (!isRecord(item)) continue;
+    if (isJobPostingType(item['@type'])) return item;
+    if (Array.isArray(item['@graph'])) queue.push(...item['@graph']);
+  }
+  return null;
+}
+
+/** [라벨, 값] 목록을 "라벨: 값" 형태의 섹션 텍스트로 합칩니다. 빈 값은 생략 */
+export function formatSections(sections: Array<[string, string | null | undefined]>): string {
+  return sections
+    .map(([label, value]) => [label, typeof value === 'string' ? value.trim() : ''] as const)
+    .filter(([, value]) => value.length > 0)
+    .map(([label, value]) => (value.includes('\n') ? `${label}:\n${value}` : `${label}: ${value}`))
+    .join('\n\n');
+}
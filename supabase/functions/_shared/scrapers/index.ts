@@ -0,0 +1,85 @@
+import { ashbyAdapter } from './ashby.ts';
+import { greenhouseAdapter } from './greenhouse.ts';
+import { jobKoreaAdapter } from './jobkorea.ts';
+import { leverAdapter } from './lever.ts';
+import { linkedInAdapter } from './linkedin.ts';
+import { saraminAdapter } from './saramin.ts';
+import { wantedAdapter } from './wanted.ts';
+import type { ScrapedPosting, ScraperAdapter } from './types.ts';
+
+export type { ScrapedPosting, ScraperAdapter } from './types.ts';
+export { mapJobPostingJsonLd, STRUCTURED_EVIDENCE_PREFIX } from './structured.ts';
+export type { StructuredJobFields } from './structured.ts';
+
+/**
+ * 채용 사이트별 전용 파서
+ * - 공개 JSON API 또는 JSON-LD JobPosting으로 공고를 결정적으로 파싱해 Firecrawl 호출을 줄입니다.
+ * - 새 사이트는 ScraperAdapter를 구현해 여기에 추가하면 됩니다.
+ */
+export const SCRAPER_ADAPTERS: ScraperAdapter[] = [
+  greenhouseAdapter,
+  leverAdapter,
+  ashbyAdapter,
+  wantedAdapter,
+  saraminAdapter,
+  jobKoreaAdapter,
+  linkedInAdapter,
+];
+
+// 이보다 짧으면 파싱 실패로 보고 Firecrawl로 폴백
+const MIN_CONTENT_LENGTH = 100;
+
+const BROWSER_HEADERS = {
+  'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+};
+
+export function findScraperAdapter(url: URL): ScraperAdapter | null {
+  return SCRAPER_ADAPTERS.find((adapter) => adapter.matches(url)) ?? null;
+}
+
+/**
+ * 전용 어댑터로 공고를 가져옵니다.
+ * 해당 어댑터가 없거나 요청/파싱에 실패하면 null을 반환하며, 호출 측은 Firecrawl로 폴백합니다.
+ */
+export async function scrapeWithAdapter(urlString: string, timeoutMs = 10000): Promise<ScrapedPosting | null> {
+  const url = new URL(urlString);
+  const adapter = findScraperAdapter(url);
+  if (!adapter) return null;
+
+  const requestUrl = adapter.buildRequestUrl(url);
+  if (!requestUrl) return null;
+
+  console.log(`Scraper adapter: ${adapter.name} → ${requestUrl}`);
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const response = await fetch(requestUrl, {
+      signal: controller.signal,
+      headers: {
+        ...BROWSER_HEADERS,
+        'Accept': adapter.responseType === 'json'
+          ? 'application/json'
+          : 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
+        ...adapter.headers,
+      },
+    });
+
+    if (!response.ok) {
+      console.log(`Scraper adapter ${adapter.name} fetch failed:`, response.status);
+      return null;
+    }
+
+    const scraped = adapter.parse(await response.text(), url);
+    if (!scraped || scraped.content.length < MIN_CONTENT_LENGTH) {
+      console.log(`Scraper adapter ${adapter.name} returned no usable content`);
+      return null;
+    }
+    return scraped;
+  } catch (e) {
+    console.error(`Scraper adapter ${adapter.name} error:`, e);
+    return null;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
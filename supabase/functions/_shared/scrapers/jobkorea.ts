@@ -0,0 +1,20 @@
+import { parseJsonLdJobPostingPage } from './jsonLdPage.ts';
+import type { ScraperAdapter } from './types.ts';
+
+// www.jobkorea.co.kr/Recruit/GI_Read/{id}
+function parseJobKoreaUrl(url: URL): string | null {
+  const match = url.pathname.match(/^\/Recruit\/GI_Read\/(\d+)/i);
+  return match ? match[1] : null;
+}
+
+export const jobKoreaAdapter: ScraperAdapter = {
+  name: 'jobkorea',
+  matches: (url) => /(^|\.)jobkorea\.co\.kr$/.test(url.hostname) && !!parseJobKoreaUrl(url),
+  buildRequestUrl: (url) => {
+    const jobId = parseJobKoreaUrl(url);
+    return jobId ? `https://www.jobkorea.co.kr/Recruit/GI_Read/${jobId}` : null;
+  },
+  responseType: 'html',
+  headers: { 'Accept-Language': 'ko-KR,ko;q=0.9' },
+  parse: (body) => parseJsonLdJobPostingPage('jobkorea', body),
+};
@@ -0,0 +1,64 @@
+import {
+  decodeHtmlEntities,
+  extractHtmlTitle,
+  extractJsonLdBlocks,
+  extractMetaContent,
+  findJobPostingJsonLd,
+  formatSections,
+  htmlToText,
+} from './html.ts';
+import type { ScrapedPosting } from './types.ts';
+
+const asText = (value: unknown): string => {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number') return String(value);
+  if (Array.isArray(value)) return value.map(asText).filter(Boolean).join(', ');
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    if (typeof record.name === 'string') return record.name;
+    if (record.address) return asText(record.address);
+    return ['streetAddress', 'addressLocality', 'addressRegion', 'addressCountry']
+      .map((key) => asText(record[key]))
+      .filter(Boolean)
+      .join(' ');
+  }
+  return '';
+};
+
+// 사람인 등은 description의 HTML을 entity-escape(&lt;p&gt;)해서 넣으므로 태그로 되돌린 뒤 텍스트로
+const descriptionToText = (html: string) =>
+  htmlToText(/&lt;\/?[a-z]/i.test(html) ? decodeHtmlEntities(html) : html);
+
+/** schema.org JobPosting → AI 입력용 텍스트 */
+export function jobPostingJsonLdToText(posting: Record<string, unknown>): string {
+  const description = typeof posting.description === 'string' ? descriptionToText(posting.description) : '';
+  return formatSections([
+    ['Company', asText(posting.hiringOrganization)],
+    ['Job Title', asText(posting.title)],
+    ['Location', asText(posting.jobLocation)],
+    ['Location Type', asText(posting.jobLocationType)],
+    ['Employment Type', asText(posting.employmentType)],
+    ['Date Posted', asText(posting.datePosted)],
+    ['Valid Through', asText(posting.validThrough)],
+    ['Experience Requirements', asText(posting.experienceRequirements)],
+    ['Base Salary', posting.baseSalary ? JSON.stringify(posting.baseSalary) : ''],
+    ['Description', description],
+  ]);
+}
+
+/**
+ * JSON-LD JobPosting을 게시하는 공고 페이지(사람인, 잡코리아 등) 공통 파서
+ * - JSON-LD가 없으면 null → Firecrawl 폴백
+ */
+export function parseJsonLdJobPostingPage(adapter: string, html: string): ScrapedPosting | null {
+  const jsonLd = findJobPostingJsonLd(extractJsonLdBlocks(html));
+  if (!jsonLd) return null;
+
+  const title = asText(jsonLd.title) || extractMetaContent(html, 'og:title') || extractHtmlTitle(html);
+  return {
+    adapter,
+    title,
+    content: jobPostingJsonLdToText(jsonLd),
+    jsonLd,
+  };
+}
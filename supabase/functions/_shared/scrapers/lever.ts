@@ -0,0 +1,69 @@
+import { formatSections, htmlToText } from './html.ts';
+import type { ScraperAdapter } from './types.ts';
+
+// jobs.lever.co/{company}/{postingId}, jobs.eu.lever.co/{company}/{postingId}
+function parseLeverUrl(url: URL): { company: string; postingId: string; isEu: boolean } | null {
+  const match = url.pathname.match(/^\/([^/]+)\/([0-9a-f-]{36})/i);
+  if (!match) return null;
+  return { company: match[1], postingId: match[2], isEu: url.hostname.includes('.eu.') };
+}
+
+type LeverPosting = {
+  text?: string;
+  categories?: {
+    commitment?: string;
+    department?: string;
+    location?: string;
+    team?: string;
+    allLocations?: string[];
+  };
+  workplaceType?: string;
+  descriptionPlain?: string;
+  lists?: Array<{ text?: string; content?: string }>;
+  additionalPlain?: string;
+  salaryDescriptionPlain?: string;
+  salaryRange?: { min?: number; max?: number; currency?: string; interval?: string };
+};
+
+export const leverAdapter: ScraperAdapter = {
+  name: 'lever',
+  matches: (url) => /(^|\.)lever\.co$/.test(url.hostname) && !!parseLeverUrl(url),
+  buildRequestUrl: (url) => {
+    const parsed = parseLeverUrl(url);
+    if (!parsed) return null;
+    const apiHost = parsed.isEu ? 'api.eu.lever.co' : 'api.lever.co';
+    return `https://${apiHost}/v0/postings/${encodeURIComponent(parsed.company)}/${parsed.postingId}`;
+  },
+  responseType: 'json',
+  parse: (body, url) => {
+    const posting = JSON.parse(body) as LeverPosting;
+    if (!posting?.text) return null;
+
+    const salary = posting.salaryRange;
+    const salaryText = salary && (salary.min || salary.max)
+      ? `${salary.min ?? ''} - ${salary.max ?? ''} ${salary.currency ?? ''} ${salary.interval ?? ''}`.trim()
+      : posting.salaryDescriptionPlain;
+
+    const listSections = (posting.lists ?? []).map(
+      (list) => [list.text || 'Details', list.content ? htmlToText(list.content) : ''] as [string, string]
+    );
+
+    return {
+      adapter: 'lever',
+      title: posting.text,
+      content: formatSections([
+        // Lever 응답에는 회사명이 없어 URL slug를 사용합니다.
+        ['Company', parseLeverUrl(url)?.company],
+        ['Job Title', posting.text],
+        ['Location', posting.categories?.allLocations?.join(', ') || posting.categories?.location],
+        ['Employment Type', posting.categories?.commitment],
+        ['Workplace Type', posting.workplaceType],
+        ['Team', posting.categories?.team || posting.categories?.department],
+        ['Salary', salaryText],
+        ['Description', posting.descriptionPlain],
+        ...listSections,
+        ['Additional Information', posting.additionalPlain],
+      ]),
+    };
+  },
+};
@@ -0,0 +1,43 @@
+import { extractHtmlTitle, extractJsonLdBlocks, extractMetaContent, findJobPostingJsonLd } from './html.ts';
+import { jobPostingJsonLdToText } from './jsonLdPage.ts';
+import type { ScraperAdapter } from './types.ts';
+
+// LinkedIn은 Firecrawl이 지원하지 않아 공고 페이지를 직접 가져옵니다.
+export const linkedInAdapter: ScraperAdapter = {
+  name: 'linkedin',
+  matches: (url) => /(^|\.)linkedin\.com$/.test(url.hostname),
+  buildRequestUrl: (url) => url.toString(),
+  responseType: 'html',
+  headers: { 'Accept-Language': 'en-US,en;q=0.5' },
+  parse: (html) => {
+    const pageTitle = extractHtmlTitle(html);
+    const description = extractMetaContent(html, 'description');
+
+    // Extract JSON-LD JobPosting (LinkedIn often has this)
+    const jsonLd = findJobPostingJsonLd(extractJsonLdBlocks(html));
+    const jsonLdContent = jsonLd ? jobPostingJsonLdToText(jsonLd) : '';
+
+    // Extract visible text from main content areas
+    let bodyContent = '';
+    const mainMatch = html.match(/<main[^>]*>([\s\S]*?)<\/main>/i) ||
+                     html.match(/<article[^>]*>([\s\S]*?)<\/article>/i) ||
+                     html.match(/<div[^>]*class="[^"]*content[^"]*"[^>]*>([\s\S]*?)<\/div>/i);
+    if (mainMatch) {
+      bodyContent = mainMatch[1]
+        .replace(/<script[^>]*>[\s\S]*?<\/script>/gi, '')
+        .replace(/<style[^>]*>[\s\S]*?<\/style>/gi, '')
+        .replace(/<[^>]+>/g, ' ')
+        .replace(/\s+/g, ' ')
+        .trim();
+    }
+
+    if (!description && !jsonLdContent && !bodyContent) return null;
+
+    return {
+      adapter: 'linkedin',
+      title: pageTitle,
+      content: `Title: ${pageTitle}\n\nDescription: ${description}\n\n${jsonLdContent ? 'Structured Data:\n' + jsonLdContent : ''}\n\nContent:\n${bodyContent}`,
+      jsonLd,
+    };
+  },
+};
@@ -0,0 +1,20 @@
+import { parseJsonLdJobPostingPage } from './jsonLdPage.ts';
+import type { ScraperAdapter } from './types.ts';
+
+// www.saramin.co.kr/zf_user/jobs/relay/view?rec_idx={id}, /zf_user/jobs/view?rec_idx={id}
+function parseSaraminRecIdx(url: URL): string | null {
+  const recIdx = url.searchParams.get('rec_idx');
+  return recIdx && /^\d+$/.test(recIdx) ? recIdx : null;
+}
+
+export const saraminAdapter: ScraperAdapter = {
+  name: 'saramin',
+  matches: (url) => /(^|\.)saramin\.co\.kr$/.test(url.hostname) && !!parseSaraminRecIdx(url),
+  buildRequestUrl: (url) => {
+    const recIdx = parseSaraminRecIdx(url);
+    return recIdx ? `https://www.saramin.co.kr/zf_user/jobs/relay/view?rec_idx=${recIdx}` : null;
+  },
+  responseType: 'html',
+  headers: { 'Accept-Language': 'ko-KR,ko;q=0.9' },
+  parse: (body) => parseJsonLdJobPostingPage('saramin', body),
+};
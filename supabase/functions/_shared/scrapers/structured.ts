@@ -0,0 +1,175 @@
+/**
+ * schema.org JobPosting(JSON-LD) → JobPosting 필드 매핑
+ * - 사이트가 직접 게시한 구조화 데이터이므로 AI 추출보다 신뢰도가 높습니다.
+ * - 여기서 채운 필드는 AI에게 다시 묻지 않습니다.
+ */
+
+// Evidence 앞에 붙는 표식 (프론트에서 "구조화 데이터" 배지로 표시)
+export const STRUCTURED_EVIDENCE_PREFIX = '[schema.org JobPosting]';
+
+export type SalaryPeriod = 'hour' | 'day' | 'week' | 'month' | 'year';
+
+export type StructuredJobFields = {
+  language?: 'ko' | 'en';
+  companyName?: string;
+  title?: string;
+  location?: string;
+  locationEvidence?: string;
+  workType?: string;
+  workTypeEvidence?: string;
+  minExperience?: string;
+  minExperienceEvidence?: string;
+  postedAt?: string; // YYYY-MM-DD
+  postedAtEvidence?: string;
+  deadline?: string; // YYYY-MM-DD
+  deadlineEvidence?: string;
+  salaryMin?: number;
+  salaryMax?: number;
+  salaryCurrency?: string;
+  salaryPeriod?: SalaryPeriod;
+  salaryEvidence?: string;
+};
+
+const EMPLOYMENT_TYPE_LABELS: Record<string, { ko: string; en: string }> = {
+  FULL_TIME: { ko: '정규직', en: 'Full-time' },
+  PART_TIME: { ko: '파트타임', en: 'Part-time' },
+  CONTRACTOR: { ko: '계약직', en: 'Contract' },
+  TEMPORARY: { ko: '임시직', en: 'Temporary' },
+  INTERN: { ko: '인턴', en: 'Internship' },
+  VOLUNTEER: { ko: '자원봉사', en: 'Volunteer' },
+  PER_DIEM: { ko: '일용직', en: 'Per diem' },
+  OTHER: { ko: '기타', en: 'Other' },
+};
+
+const SALARY_UNITS: Record<string, SalaryPeriod> = {
+  HOUR: 'hour',
+  DAY: 'day',
+  WEEK: 'week',
+  MONTH: 'month',
+  YEAR: 'year',
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const toArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : value == null ? [] : [value]);
+
+const asString = (value: unknown): string => {
+  if (typeof value === 'string') return value.trim();
+  if (typeof value === 'number') return String(value);
+  if (isRecord(value) && typeof value.name === 'string') return value.name.trim();
+  return '';
+};
+
+const asNumber = (value: unknown): number | undefined => {
+  const num = typeof value === 'string' ? Number(value.replace(/,/g, '')) : value;
+  return typeof num === 'number' && Number.isFinite(num) ? num : undefined;
+};
+
+const toDateString = (value: unknown): string | undefined => {
+  const text = asString(value);
+  if (!text) return undefined;
+  // 타임존 변환으로 날짜가 밀리지 않도록 ISO 날짜 부분은 그대로 사용
+  const isoDate = text.match(/^\d{4}-\d{2}-\d{2}/);
+  if (isoDate) return isoDate[0];
+  const date = new Date(text);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString().slice(0, 10);
+};
+
+const evidenceOf = (key: string, value: unknown) =>
+  `${STRUCTURED_EVIDENCE_PREFIX} ${key}: ${typeof value === 'string' ? value : JSON.stringify(value)}`;
+
+function formatAddress(place: unknown): string {
+  if (!isRecord(place)) return asString(place);
+  const address = place.address ?? place;
+  if (!isRecord(address)) return asString(address);
+  const parts = [address.addressLocality, address.addressRegion, address.addressCountry]
+    .map(asString)
+    .filter(Boolean);
+  return [...new Set(parts)].join(', ') || asString(address.streetAddress);
+}
+
+function detectLanguage(posting: Record<string, unknown>): 'ko' | 'en' {
+  const lang = asString(posting.inLanguage).toLowerCase();
+  if (lang.startsWith('ko')) return 'ko';
+  if (lang.startsWith('en')) return 'en';
+  const sample = `${asString(posting.title)} ${asString(posting.description).slice(0, 500)}`;
+  return /[가-힣]/.test(sample) ? 'ko' : 'en';
+}
+
+function mapExperience(value: unknown, language: 'ko' | 'en'): string {
+  if (typeof value === 'string') return value.trim();
+  for (const item of toArray(value)) {
+    if (!isRecord(item)) continue;
+    const months = asNumber(item.monthsOfExperience);
+    if (months !== undefined) {
+      if (months === 0) return language === 'ko' ? '경력 무관' : 'No experience required';
+      if (months % 12 === 0) return language === 'ko' ? `${months / 12}년 이상` : `${months / 12}+ years`;
+      return language === 'ko' ? `${months}개월 이상` : `${months}+ months`;
+    }
+    const description = asString(item.description);
+    if (description) return description;
+  }
+  return '';
+}
+
+export function mapJobPostingJsonLd(posting: Record<string, unknown>): StructuredJobFields {
+  const language = detectLanguage(posting);
+  const fields: StructuredJobFields = { language };
+
+  const companyName = asString(posting.hiringOrganization);
+  if (companyName) fields.companyName = companyName;
+
+  const title = asString(posting.title);
+  if (title) fields.title = title;
+
+  const location = [...new Set(toArray(posting.jobLocation).map(formatAddress).filter(Boolean))].join(' / ');
+  const isRemote = toArray(posting.jobLocationType).some((t) => asString(t).toUpperCase() === 'TELECOMMUTE');
+  if (location || isRemote) {
+    const remoteLabel = language === 'ko' ? '원격 근무' : 'Remote';
+    fields.location = location ? (isRemote ? `${location} (${remoteLabel})` : location) : remoteLabel;
+    fields.locationEvidence = evidenceOf('jobLocation', location || 'TELECOMMUTE');
+  }
+
+  const employmentTypes = toArray(posting.employmentType).map(asString).filter(Boolean);
+  if (employmentTypes.length > 0) {
+    fields.workType = employmentTypes
+      .map((type) => EMPLOYMENT_TYPE_LABELS[type.toUpperCase()]?.[language] ?? type)
+      .join(', ');
+    fields.workTypeEvidence = evidenceOf('employmentType', employmentTypes.join(', '));
+  }
+
+  const minExperience = mapExperience(posting.experienceRequirements, language);
+  if (minExperience) {
+    fields.minExperience = minExperience;
+    fields.minExperienceEvidence = evidenceOf('experienceRequirements', posting.experienceRequirements);
+  }
+
+  const postedAt = toDateString(posting.datePosted);
+  if (postedAt) {
+    fields.postedAt = postedAt;
+    fields.postedAtEvidence = evidenceOf('datePosted', posting.datePosted);
+  }
+
+  const deadline = toDateString(posting.validThrough);
+  if (deadline) {
+    fields.deadline = deadline;
+    fields.deadlineEvidence = evidenceOf('validThrough', posting.validThrough);
+  }
+
+  const baseSalary = toArray(posting.baseSalary).find(isRecord);
+  if (baseSalary) {
+    const value = isRecord(baseSalary.value) ? baseSalary.value : { value: baseSalary.value };
+    const min = asNumber(value.minValue) ?? asNumber(value.value);
+    const max = asNumber(value.maxValue) ?? asNumber(value.value);
+    if (min !== undefined || max !== undefined) {
+      fields.salaryMin = min;
+      fields.salaryMax = max;
+      fields.salaryCurrency = asString(baseSalary.currency) || undefined;
+      fields.salaryPeriod = SALARY_UNITS[asString(value.unitText).toUpperCase()];
+      fields.salaryEvidence = evidenceOf('baseSalary', baseSalary);
+    }
+  }
+
+  return fields;
+}
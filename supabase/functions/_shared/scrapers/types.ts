@@ -0,0 +1,29 @@
+export type ScrapedPosting = {
+  /** 파싱에 사용한 어댑터 이름 (로그/디버깅용) */
+  adapter: string;
+  title: string;
+  /** AI에 그대로 전달할 정제된 공고 본문 */
+  content: string;
+  /** schema.org JobPosting JSON-LD 원본 (있을 때만) */
+  jsonLd?: Record<string, unknown> | null;
+};
+
+export type ScraperAdapter = {
+  name: string;
+  /** 이 어댑터가 처리할 수 있는 공고 URL인지 */
+  matches: (url: URL) => boolean;
+  /** 실제로 요청할 주소 (공개 JSON API 또는 공고 페이지). null이면 처리 불가 */
+  buildRequestUrl: (url: URL) => string | null;
+  responseType: 'json' | 'html';
+  headers?: Record<string, string>;
+  /**
+   * 응답 본문 → 공고. 네트워크 없이 저장된 HTML/JSON fixture로 테스트할 수 있도록 순수 함수로 유지합니다.
+   * 공고를 찾지 못하면 null (Firecrawl로 폴백)
+   */
+  parse: (body: string, url: URL) => ScrapedPosting | null;
+  /**
+   * 조직의 공고 목록 전체를 주는 JSON API일 때, 목록에 URL의 공고가 있는지 (마감 확인용).
+   * 본문이 JSON이 아니거나 형식이 달라 판단할 수 없으면 null
+   */
+  containsPosting?: (body: string, url: URL) => boolean | null;
+};
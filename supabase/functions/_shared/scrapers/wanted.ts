@@ -0,0 +1,58 @@
+import { formatSections } from './html.ts';
+import type { ScraperAdapter } from './types.ts';
+
+// www.wanted.co.kr/wd/{id}
+function parseWantedUrl(url: URL): string | null {
+  const match = url.pathname.match(/^\/wd\/(\d+)/);
+  return match ? match[1] : null;
+}
+
+type WantedJob = {
+  position?: string;
+  due_time?: string | null;
+  company?: { name?: string };
+  address?: { full_location?: string; location?: string };
+  skill_tags?: Array<{ title?: string }>;
+  detail?: {
+    intro?: string;
+    main_tasks?: string;
+    requirements?: string;
+    preferred_points?: string;
+    benefits?: string;
+    hire_rounds?: string;
+  };
+};
+
+export const wantedAdapter: ScraperAdapter = {
+  name: 'wanted',
+  matches: (url) => /(^|\.)wanted\.co\.kr$/.test(url.hostname) && !!parseWantedUrl(url),
+  buildRequestUrl: (url) => {
+    const jobId = parseWantedUrl(url);
+    return jobId ? `https://www.wanted.co.kr/api/v4/jobs/${jobId}` : null;
+  },
+  responseType: 'json',
+  headers: { 'Accept-Language': 'ko-KR,ko;q=0.9' },
+  parse: (body) => {
+    const data = JSON.parse(body) as { job?: WantedJob };
+    const job = data?.job;
+    if (!job?.position) return null;
+
+    return {
+      adapter: 'wanted',
+      title: job.position,
+      content: formatSections([
+        ['회사명', job.company?.name],
+        ['포지션', job.position],
+        ['근무지', job.address?.full_location || job.address?.location],
+        ['마감일', job.due_time || '상시채용'],
+        ['기술 스택', job.skill_tags?.map((t) => t.title).filter(Boolean).join(', ')],
+        ['회사 소개', job.detail?.intro],
+        ['주요업무', job.detail?.main_tasks],
+        ['자격요건', job.detail?.requirements],
+        ['우대사항', job.detail?.preferred_points],
+        ['혜택 및 복지', job.detail?.benefits],
+        ['채용 전형', job.detail?.hire_rounds],
+      ]),
+    };
+  },
+};
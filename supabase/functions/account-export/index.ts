@@ -0,0 +1,105 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.0";
+import JSZip from "https://esm.sh/jszip@3.10.1";
+import {
+  ARCHIVE_TABLES,
+  ARCHIVE_VERSION,
+  dataPath,
+  type ArchiveManifest,
+  type ArchiveTable,
+} from "../_shared/accountArchive.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Expose-Headers": "content-disposition",
+};
+
+const jsonError = (message: string, status: number) =>
+  new Response(
+    JSON.stringify({ error: message }),
+    { status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+  );
+
+const PAGE_SIZE = 1000;
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    const token = authHeader?.replace("Bearer ", "");
+    if (!token) {
+      return jsonError("로그인이 필요합니다. 다시 로그인한 뒤 재시도해주세요.", 401);
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: { autoRefreshToken: false, persistSession: false }
+    });
+
+    const { data: { user }, error: userError } = await supabaseAdmin.auth.getUser(token);
+    if (userError || !user) {
+      console.error("Error getting user:", userError);
+      return jsonError("사용자 인증에 실패했습니다. 다시 로그인해주세요.", 401);
+    }
+
+    console.log("Exporting account data:", user.id);
+
+    // 테이블별 전체 행 (1000행 단위로 나눠 조회, 페이지 사이에 행이 빠지거나 겹치지 않도록 id순)
+    const fetchAll = async (table: ArchiveTable) => {
+      const rows: Record<string, unknown>[] = [];
+      for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await supabaseAdmin
+          .from(table)
+          .select("*")
+          .eq("user_id", user.id)
+          .order("id")
+          .range(from, from + PAGE_SIZE - 1);
+        if (error) {
+          console.error(`Error fetching ${table}:`, error);
+          throw new Error("데이터를 불러오지 못했습니다. 잠시 후 다시 시도해주세요.");
+        }
+        rows.push(...(data ?? []));
+        if (!data || data.length < PAGE_SIZE) return rows;
+      }
+    };
+
+    const zip = new JSZip();
+    const manifest: ArchiveManifest = {
+      version: ARCHIVE_VERSION,
+      exportedAt: new Date().toISOString(),
+      email: user.email ?? null,
+      counts: {} as ArchiveManifest["counts"],
+    };
+
+    for (const table of ARCHIVE_TABLES) {
+      const rows = await fetchAll(table);
+      manifest.counts[table] = rows.length;
+      zip.file(dataPath(table), JSON.stringify(rows, null, 2));
+    }
+
+    zip.file("manifest.json", JSON.stringify(manifest, null, 2));
+    const archive = await zip.generateAsync({ type: "uint8array", compression: "DEFLATE" });
+
+    console.log("Account export done:", user.id, manifest.counts);
+
+    const dateStr = manifest.exportedAt.split("T")[0].replace(/-/g, "");
+    return new Response(archive, {
+      headers: {
+        ...corsHeaders,
+        "Content-Type": "application/octet-stream",
+        "Content-Disposition": `attachment; filename="curve-backup-${dateStr}.zip"`,
+      },
+    });
+  } catch (error) {
+    console.error("Error in account-export:", error);
+    const fallbackMessage = "서버 오류가 발생했습니다. 잠시 후 다시 시도해주세요.";
+    const safeMessage =
+      error instanceof Error && /[가-힣]/.test(error.message) ? error.message : fallbackMessage;
+    return jsonError(safeMessage, 500);
+  }
+});
@@ -0,0 +1,308 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.0";
+import JSZip from "https://esm.sh/jszip@3.10.1";
+import {
+  ARCHIVE_TABLES,
+  ARCHIVE_VERSION,
+  dataPath,
+  type ArchiveManifest,
+  type ArchiveTable,
+} from "../_shared/accountArchive.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(
+    JSON.stringify(body),
+    { status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+  );
+
+type Row = Record<string, unknown>;
+
+// 크레딧 사용 내역은 과금 기록이라 백업에 담기만 하고 복원하지 않음
+type RestoredTable = Exclude<ArchiveTable, "credit_usage_history">;
+
+// 테이블별로 복원하는 컬럼 (id·user_id는 새로 채움). 백업 파일은 사용자가 고칠 수 있으므로
+// 여기 없는 값은 service role insert에 넘기지 않음
+const RESTORE_COLUMNS: Record<RestoredTable, readonly string[]> = {
+  job_postings: [
+    "company_criteria_scores", "company_name", "company_score", "created_at", "deadline",
+    "deadline_evidence", "fit_score", "key_competencies", "keywords", "language", "location",
+    "location_evidence", "min_experience", "min_experience_evidence", "minimum_requirements_check",
+    "notes", "position", "posted_at", "posted_at_evidence", "priority", "salary_currency",
+    "salary_evidence", "salary_max", "salary_min", "salary_period", "source_checked_at",
+    "source_url", "status", "summary", "tags", "title", "updated_at", "visa_sponsorship",
+    "visa_sponsorship_evidence", "work_type", "work_type_evidence",
+  ],
+  resumes: [
+    "extracted_text", "file_name", "file_url", "ocr_text", "parse_error", "parse_status",
+    "parsed_at", "uploaded_at",
+  ],
+  experiences: [
+    "bullets", "company", "created_at", "description", "period", "title", "type",
+    "used_in_postings",
+  ],
+  tailored_resumes: [
+    "ai_feedback", "company_name", "content", "created_at", "document", "format", "job_posting_id",
+    "job_title", "language", "updated_at",
+  ],
+  job_posting_snapshots: [
+    "content", "created_at", "job_posting_id", "json_ld", "source", "source_url", "title",
+  ],
+  job_posting_changes: ["changes", "created_at", "job_posting_id", "reverts_change_id", "source"],
+  job_status_events: ["created_at", "from_status", "job_posting_id", "to_status"],
+  interview_rounds: [
+    "created_at", "interviewers", "job_posting_id", "location", "meeting_url", "notes", "outcome",
+    "round_type", "scheduled_at", "updated_at",
+  ],
+  job_posting_contacts: [
+    "created_at", "email", "job_posting_id", "last_contacted_at", "linkedin_url", "name",
+    "next_follow_up_at", "notes", "role", "updated_at",
+  ],
+  board_views: ["created_at", "filters", "name", "sort_option", "updated_at", "view_mode"],
+  career_goals: [
+    "archived_at", "career_path", "company_eval_criteria", "created_at", "end_date", "is_archived",
+    "reason", "result", "search_period", "start_date", "type", "updated_at",
+  ],
+  chat_messages: ["content", "created_at", "is_processing", "job_posting_id", "type"],
+};
+
+const INSERT_CHUNK_SIZE = 500;
+const DELETE_CHUNK_SIZE = 200;
+
+// 업로드 가능한 백업 파일 크기 (zip 압축 상태 기준)
+const MAX_ARCHIVE_BYTES = 50 * 1024 * 1024;
+const TOO_LARGE_MESSAGE = "백업 파일이 너무 큽니다. 50MB 이하의 파일만 복원할 수 있습니다.";
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    const token = authHeader?.replace("Bearer ", "");
+    if (!token) {
+      return jsonResponse({ error: "로그인이 필요합니다. 다시 로그인한 뒤 재시도해주세요." }, 401);
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: { autoRefreshToken: false, persistSession: false }
+    });
+
+    const { data: { user }, error: userError } = await supabaseAdmin.auth.getUser(token);
+    if (userError || !user) {
+      console.error("Error getting user:", userError);
+      return jsonResponse({ error: "사용자 인증에 실패했습니다. 다시 로그인해주세요." }, 401);
+    }
+
+    const contentLength = Number(req.headers.get("content-length") ?? 0);
+    if (contentLength > MAX_ARCHIVE_BYTES) {
+      return jsonResponse({ error: TOO_LARGE_MESSAGE }, 413);
+    }
+
+    // 기존 데이터와 섞이지 않도록 빈 계정에만 복원 (실패 시 되돌릴 때도 이번에 넣은 행만 지움)
+    for (const table of Object.keys(RESTORE_COLUMNS) as RestoredTable[]) {
+      const { count, error } = await supabaseAdmin
+        .from(table)
+        .select("id", { count: "exact", head: true })
+        .eq("user_id", user.id);
+      if (error) throw error;
+      if ((count ?? 0) > 0) {
+        return jsonResponse(
+          { error: "이미 데이터가 있는 계정에는 복원할 수 없습니다. 새 계정에서 시도해주세요." },
+          409
+        );
+      }
+    }
+
+    // content-length가 없거나 틀린 요청도 있어 실제 크기를 다시 확인
+    const body = new Uint8Array(await req.arrayBuffer());
+    if (body.byteLength > MAX_ARCHIVE_BYTES) {
+      return jsonResponse({ error: TOO_LARGE_MESSAGE }, 413);
+    }
+
+    let zip: JSZip;
+    try {
+      zip = await JSZip.loadAsync(body);
+    } catch {
+      return jsonResponse({ error: "백업 파일을 읽을 수 없습니다. 내보내기로 받은 zip 파일인지 확인해주세요." }, 400);
+    }
+
+    const readJson = async <T>(path: string): Promise<T | null> => {
+      const file = zip.file(path);
+      if (!file) return null;
+      try {
+        return JSON.parse(await file.async("string")) as T;
+      } catch {
+        return null;
+      }
+    };
+
+    const manifest = await readJson<ArchiveManifest>("manifest.json");
+    if (!manifest || manifest.version !== ARCHIVE_VERSION) {
+      return jsonResponse({ error: "지원하지 않는 백업 파일입니다. 내보내기로 받은 zip 파일인지 확인해주세요." }, 400);
+    }
+
+    const tables = {} as Record<ArchiveTable, Row[]>;
+    for (const table of ARCHIVE_TABLES) {
+      const rows = await readJson<Row[]>(dataPath(table));
+      tables[table] = Array.isArray(rows) ? rows : [];
+    }
+
+    console.log("Importing account data:", user.id, manifest.counts);
+
+    // 새 계정에서 id를 새로 발급하고, 공고·이력서를 가리키는 값은 새 id로 바꿈
+    const jobIds = new Map<string, string>();
+    const resumeIds = new Map<string, string>();
+    const changeIds = new Map<string, string>();
+    const withNewId = (table: RestoredTable, row: Row, idMap?: Map<string, string>): Row => {
+      const id = crypto.randomUUID();
+      idMap?.set(String(row.id), id);
+      const columns = RESTORE_COLUMNS[table].filter((key) => key in row).map((key) => [key, row[key]]);
+      return { ...Object.fromEntries(columns), id, user_id: user.id };
+    };
+    const remapJobId = (value: unknown) =>
+      typeof value === "string" ? jobIds.get(value) ?? null : null;
+
+    const jobPostings = tables.job_postings.map((row) => withNewId("job_postings", row, jobIds));
+
+    const resumes = tables.resumes.map((row) => withNewId("resumes", row, resumeIds));
+
+    const experiences = tables.experiences.map((row) => {
+      const used = Array.isArray(row.used_in_postings) ? row.used_in_postings : [];
+      return {
+        ...withNewId("experiences", row),
+        used_in_postings: used
+          .map((ref) => {
+            if (typeof ref !== "string") return null;
+            if (ref.startsWith("source:resume:")) {
+              const resumeId = resumeIds.get(ref.slice("source:resume:".length));
+              return resumeId ? `source:resume:${resumeId}` : null;
+            }
+            return jobIds.get(ref) ?? null;
+          })
+          .filter((ref): ref is string => ref !== null),
+      };
+    });
+
+    // 맞춤 이력서는 공고가 필수라 원래 공고가 없으면 건너뜀
+    const tailoredResumes = tables.tailored_resumes
+      .map((row) => ({ ...withNewId("tailored_resumes", row), job_posting_id: remapJobId(row.job_posting_id) }))
+      .filter((row) => row.job_posting_id);
+
+    // 공고에 딸린 기록: 원래 공고가 없으면 건너뜀
+    const withJob = (table: RestoredTable, rows: Row[], idMap?: Map<string, string>) =>
+      rows
+        .map((row) => ({ ...withNewId(table, row, idMap), job_posting_id: remapJobId(row.job_posting_id) }))
+        .filter((row) => row.job_posting_id);
+
+    const snapshots = withJob("job_posting_snapshots", tables.job_posting_snapshots);
+    // 되돌리기 기록이 원래 기록보다 먼저 들어가지 않도록 시간순으로
+    const postingChanges = withJob(
+      "job_posting_changes",
+      [...tables.job_posting_changes].sort((a, b) =>
+        String(a.created_at ?? "").localeCompare(String(b.created_at ?? ""))
+      ),
+      changeIds
+    ).map((row) => ({
+      ...row,
+      reverts_change_id:
+        typeof row.reverts_change_id === "string" ? changeIds.get(row.reverts_change_id) ?? null : null,
+    }));
+    const statusEvents = withJob("job_status_events", tables.job_status_events);
+    const interviewRounds = withJob("interview_rounds", tables.interview_rounds);
+    const contacts = withJob("job_posting_contacts", tables.job_posting_contacts);
+    const boardViews = tables.board_views.map((row) => withNewId("board_views", row));
+
+    const careerGoals = tables.career_goals.map((row) => withNewId("career_goals", row));
+    const chatMessages = tables.chat_messages.map((row) => ({
+      ...withNewId("chat_messages", row),
+      job_posting_id: remapJobId(row.job_posting_id),
+    }));
+
+    const inserts: [RestoredTable, Row[]][] = [
+      ["job_postings", jobPostings],
+      ["resumes", resumes],
+      ["experiences", experiences],
+      ["tailored_resumes", tailoredResumes],
+      ["job_posting_snapshots", snapshots],
+      ["job_posting_changes", postingChanges],
+      ["job_status_events", statusEvents],
+      ["interview_rounds", interviewRounds],
+      ["job_posting_contacts", contacts],
+      ["board_views", boardViews],
+      ["career_goals", careerGoals],
+      ["chat_messages", chatMessages],
+    ];
+
+    const restored = {} as Record<RestoredTable, number>;
+    const inserted: [RestoredTable, string[]][] = [];
+    try {
+      for (const [table, rows] of inserts) {
+        const ids: string[] = [];
+        inserted.push([table, ids]);
+        for (let i = 0; i < rows.length; i += INSERT_CHUNK_SIZE) {
+          const chunk = rows.slice(i, i + INSERT_CHUNK_SIZE);
+          const { error } = await supabaseAdmin.from(table).insert(chunk);
+          if (error) {
+            console.error(`Error inserting ${table}:`, error);
+            throw new Error("데이터 복원 중 오류가 발생했습니다. 복원한 내용은 모두 되돌렸습니다.");
+          }
+          ids.push(...chunk.map((row) => String(row.id)));
+        }
+        restored[table] = rows.length;
+
+        // 공고를 넣을 때 트리거가 만든 상태 이력은 백업의 이력으로 대체
+        if (table === "job_postings" && statusEvents.length > 0) {
+          const jobsWithHistory = [...new Set(statusEvents.map((row) => String(row.job_posting_id)))];
+          for (let i = 0; i < jobsWithHistory.length; i += DELETE_CHUNK_SIZE) {
+            const { error } = await supabaseAdmin
+              .from("job_status_events")
+              .delete()
+              .in("job_posting_id", jobsWithHistory.slice(i, i + DELETE_CHUNK_SIZE));
+            if (error) {
+              console.error("Error replacing job_status_events:", error);
+              throw new Error("데이터 복원 중 오류가 발생했습니다. 복원한 내용은 모두 되돌렸습니다.");
+            }
+          }
+        }
+      }
+    } catch (error) {
+      // 이번 복원으로 넣은 행만 역순으로 지움 (공고를 지우면 트리거가 만든 상태 이력도 함께 지워짐)
+      for (const [table, ids] of inserted.reverse()) {
+        for (let i = 0; i < ids.length; i += DELETE_CHUNK_SIZE) {
+          const { error: rollbackError } = await supabaseAdmin
+            .from(table)
+            .delete()
+            .in("id", ids.slice(i, i + DELETE_CHUNK_SIZE));
+          if (rollbackError) console.error(`Error rolling back ${table}:`, rollbackError);
+        }
+      }
+      throw error;
+    }
+
+    console.log("Account import done:", user.id, restored);
+
+    return jsonResponse({
+      success: true,
+      restored,
+      skipped: {
+        tailored_resumes: tables.tailored_resumes.length - tailoredResumes.length,
+        interview_rounds: tables.interview_rounds.length - interviewRounds.length,
+        job_posting_contacts: tables.job_posting_contacts.length - contacts.length,
+      },
+    });
+  } catch (error) {
+    console.error("Error in account-import:", error);
+    const fallbackMessage = "서버 오류가 발생했습니다. 잠시 후 다시 시도해주세요.";
+    const safeMessage =
+      error instanceof Error && /[가-힣]/.test(error.message) ? error.message : fallbackMessage;
+    return jsonResponse({ error: safeMessage }, 500);
+  }
+});
@@ -2,6 +2,8 @@ import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
 import { callGeminiFromLovable, normalizeGeminiToLovable } from "../_shared/gemini.ts";
+import { mapJobPostingJsonLd, scrapeWithAdapter, type StructuredJobFields } from "../_shared/scrapers/index.ts";
+import { validateUrl } from "../_shared/jobUrl.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -9,111 +11,91 @@ const corsHeaders = {
 };
 
 // Input validation schema
-const requestSchema = z.object({
-  url: z.string().min(1).max(2000),
-});
+// - url: 채용 공고 URL (스크래핑)
+// - postingText/postingImages: 스크래핑이 불가할 때 사용자가 직접 붙여넣은 공고 본문 / 공고 PDF·스크린샷 이미지
+// - snapshotId: 저장해 둔 공고 원문(job_posting_snapshots)으로 다시 분석 (스크래핑 생략)
+const requestSchema = z
+  .object({
+    url: z.string().min(1).max(2000).optional(),
+    postingText: z.string().max(50000).optional().nullable(),
+    postingImages: z.array(z.string().max(10000000)).max(6).optional(), // Base64 data URLs
+    snapshotId: z.string().uuid().optional(),
+  })
+  .refine(
+    (body) =>
+      !!body.url ||
+      !!body.snapshotId ||
+      (typeof body.postingText === 'string' && body.postingText.trim().length > 0) ||
+      (Array.isArray(body.postingImages) && body.postingImages.length > 0),
+    { message: 'url, snapshotId, postingText, postingImages 중 하나는 필요합니다.', path: ['url'] }
+  );
+
+// JSON-LD(schema.org JobPosting)에서 직접 채울 수 있는 필드 → AI 추출에서 제외할 tool 속성
+const STRUCTURED_FIELD_GROUPS = {
+  companyName: ['companyName'],
+  title: ['title'],
+  minExperience: ['minExperience', 'minExperienceEvidence'],
+  workType: ['workType', 'workTypeEvidence'],
+  location: ['location', 'locationEvidence'],
+  deadline: ['deadline', 'deadlineEvidence'],
+  postedAt: ['postedAt', 'postedAtEvidence'],
+  salaryMin: ['salaryMin', 'salaryMax', 'salaryCurrency', 'salaryPeriod', 'salaryEvidence'],
+} as const;
+const STRUCTURED_FIELD_KEYS = Object.keys(STRUCTURED_FIELD_GROUPS) as Array<keyof typeof STRUCTURED_FIELD_GROUPS>;
+
+// extract_job_posting tool 스키마
+const EXTRACTION_PROPERTIES: Record<string, unknown> = {
+  isJobPosting: { type: "boolean" },
+  language: { type: "string", enum: ["ko", "en"] },
+  companyName: { type: "string" },
+  title: { type: "string" },
+  position: { type: "string" },
+  minExperience: { type: "string", nullable: true },
+  minExperienceEvidence: { type: "string" },
+  workType: { type: "string", nullable: true },
+  workTypeEvidence: { type: "string" },
+  location: { type: "string", nullable: true },
+  locationEvidence: { type: "string" },
+  visaSponsorship: { type: "boolean", nullable: true },
+  visaSponsorshipEvidence: { type: "string" },
+  deadline: { type: "string", nullable: true },
+  deadlineEvidence: { type: "string" },
+  postedAt: { type: "string", nullable: true },
+  postedAtEvidence: { type: "string" },
+  salaryMin: { type: "number", nullable: true },
+  salaryMax: { type: "number", nullable: true },
+  salaryCurrency: { type: "string", nullable: true },
+  salaryPeriod: { type: "string", enum: ["hour", "day", "week", "month", "year"], nullable: true },
+  salaryEvidence: { type: "string" },
+  summary: { type: "string" },
+  keyCompetencies: {
+    type: "array",
+    items: {
+      type: "object",
+      properties: {
+        title: { type: "string" },
+        description: { type: "string" }
+      },
+      required: ["title", "description"]
+    },
+    minItems: 5,
+    maxItems: 5
+  },
+  companyScore: { type: "number" },
+  fitScore: { type: "number" }
+};
 
-// Allowlisted job board domains for URL validation
-const ALLOWED_DOMAINS = [
-  'linkedin.com',
-  'indeed.com',
-  'glassdoor.com',
-  'jobkorea.co.kr',
-  'saramin.co.kr',
-  'wanted.co.kr',
-  'rocketpunch.com',
-  'jumpit.co.kr',
-  'programmers.co.kr',
-  'catch.co.kr',
-  'incruit.com',
-  'worknet.go.kr',
-  'albamon.com',
-  'alba.co.kr',
-  'job.go.kr',
-  'career.co.kr',
-  'jobs.lever.co',
-  'boards.greenhouse.io',
-  'job-boards.greenhouse.io',
-  'jobs.ashbyhq.com',
-  'apply.workable.com',
-  'jobs.smartrecruiters.com',
-  'recruiting.paylocity.com',
-  'monster.com',
-  'ziprecruiter.com',
-  'careerbuilder.com',
-  'dice.com',
-  'simplyhired.com',
-  'flexjobs.com',
-  'angel.co',
-  'wellfound.com',
-  'remoteok.com',
-  'weworkremotely.com',
-  'stackoverflow.jobs',
-  'hired.com',
-  'triplebyte.com',
-];
-
-/**
- * Validates a URL to prevent SSRF attacks
- * - Only allows HTTPS/HTTP protocols
- * - Blocks private IP ranges and localhost
- * - Checks against allowlisted job board domains
- */
-function validateUrl(urlString: string): { valid: boolean; error?: string; url?: string } {
-  try {
-    // Add protocol if missing
-    const formattedUrl = urlString.trim().startsWith('http') 
-      ? urlString.trim() 
-      : `https://${urlString.trim()}`;
-    
-    const parsed = new URL(formattedUrl);
-    
-    // Only allow HTTP/HTTPS protocols
-    if (!['https:', 'http:'].includes(parsed.protocol)) {
-      return { valid: false, error: '지원되지 않는 URL 형식입니다. http 또는 https URL을 입력해주세요.' };
-    }
-    
-    const hostname = parsed.hostname.toLowerCase();
-    
-    // Block localhost
-    if (['localhost', '127.0.0.1', '0.0.0.0', '::1'].includes(hostname)) {
-      return { valid: false, error: '유효하지 않은 URL입니다. 올바른 채용 공고 URL을 입력해주세요.' };
-    }
-    
-    // Block private IP ranges
-    if (
-      hostname.match(/^10\./i) ||
-      hostname.match(/^172\.(1[6-9]|2[0-9]|3[0-1])\./i) ||
-      hostname.match(/^192\.168\./i) ||
-      hostname.match(/^169\.254\./i) || // link-local (AWS metadata)
-      hostname.match(/^fe80:/i) || // IPv6 link-local
-      hostname.match(/^fc00:/i) || // IPv6 unique local
-      hostname.match(/^fd[0-9a-f]{2}:/i) // IPv6 unique local
-    ) {
-      return { valid: false, error: '유효하지 않은 URL입니다. 올바른 채용 공고 URL을 입력해주세요.' };
-    }
-    
-    // Check if domain is in allowlist
-    const isAllowed = ALLOWED_DOMAINS.some(allowed => 
-      hostname === allowed || hostname.endsWith('.' + allowed)
-    );
-    
-    if (!isAllowed) {
-      return { 
-        valid: false, 
-        error: '지원되지 않는 사이트입니다. LinkedIn, 잡코리아, 사람인, 원티드 등 주요 채용 사이트의 URL을 입력해주세요.' 
-      };
-    }
-    
-    // URL length check (already validated by Zod, but double-check)
-    if (formattedUrl.length > 2000) {
-      return { valid: false, error: 'URL이 너무 깁니다. URL을 줄여 다시 시도해주세요.' };
-    }
-    
-    return { valid: true, url: formattedUrl };
-  } catch {
-    return { valid: false, error: '올바른 URL 형식이 아닙니다. 전체 URL을 확인해주세요.' };
-  }
+const EXTRACTION_REQUIRED = ["isJobPosting", "language", "companyName", "title", "position", "summary", "keyCompetencies"];
+
+/** 구조화 데이터로 이미 확보한 필드(및 Evidence)를 제외한 추출 스키마 */
+function buildExtractionSchema(knownFields: ReadonlyArray<keyof typeof STRUCTURED_FIELD_GROUPS>) {
+  const skip = new Set<string>(knownFields.flatMap((key) => [...STRUCTURED_FIELD_GROUPS[key]]));
+  return {
+    type: "object",
+    properties: Object.fromEntries(Object.entries(EXTRACTION_PROPERTIES).filter(([key]) => !skip.has(key))),
+    required: EXTRACTION_REQUIRED.filter((key) => !skip.has(key)),
+    additionalProperties: false
+  };
 }
 
 serve(async (req) => {
@@ -207,11 +189,18 @@ serve(async (req) => {
       );
     }
 
-    const { url } = validationResult.data;
+    const { url, postingText, postingImages, snapshotId } = validationResult.data;
+
+    const manualText = typeof postingText === 'string' ? postingText.trim() : '';
+    const manualImages = (postingImages ?? []).filter(
+      (x): x is string => typeof x === 'string' && x.startsWith('data:image/')
+    );
+    const isManualInput = manualText.length > 0 || manualImages.length > 0;
 
     // Validate URL to prevent SSRF attacks
-    const urlValidation = validateUrl(url);
-    if (!urlValidation.valid) {
+    // (직접 입력 모드에서 URL은 출처 기록용(선택)이므로 있을 때만 검증)
+    const urlValidation = url ? validateUrl(url) : null;
+    if (urlValidation && !urlValidation.valid) {
       console.log('URL validation failed:', url, urlValidation.error);
       return new Response(
         JSON.stringify({ success: false, error: urlValidation.error }),
@@ -219,12 +208,12 @@ serve(async (req) => {
       );
     }
 
-    const formattedUrl = urlValidation.url!;
+    const formattedUrl = urlValidation?.url ?? '';
 
     const firecrawlApiKey = Deno.env.get('FIRECRAWL_API_KEY');
     const geminiApiKey = Deno.env.get('GEMINI_API_KEY');
 
-    if (!firecrawlApiKey) {
+    if (!isManualInput && !snapshotId && !firecrawlApiKey) {
       console.error('FIRECRAWL_API_KEY not configured');
       return new Response(
         JSON.stringify({ success: false, error: '페이지 분석 설정이 완료되지 않았습니다. 잠시 후 다시 시도하거나 고객센터에 문의해주세요.' }),
@@ -240,80 +229,59 @@ serve(async (req) => {
       );
     }
 
-    console.log('Scraping validated URL:', formattedUrl);
-    
     let pageContent = '';
     let pageTitle = '';
-    
-    // Check if this is LinkedIn or other restricted site
-    const isLinkedIn = formattedUrl.includes('linkedin.com');
-    
-    if (isLinkedIn) {
-      // For LinkedIn, try direct fetch with browser-like headers
-      console.log('LinkedIn detected, using direct fetch');
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 10000); // 10s timeout
-      
-      try {
-        const directResponse = await fetch(formattedUrl, {
-          signal: controller.signal,
-          headers: {
-            'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-            'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
-            'Accept-Language': 'en-US,en;q=0.5',
-          },
-        });
-        clearTimeout(timeoutId);
-        
-        if (directResponse.ok) {
-          const html = await directResponse.text();
-          
-          // Extract title
-          const titleMatch = html.match(/<title[^>]*>([^<]+)<\/title>/i);
-          pageTitle = titleMatch ? titleMatch[1].trim() : '';
-          
-          // Extract meta description
-          const descMatch = html.match(/<meta[^>]*name=["']description["'][^>]*content=["']([^"']+)["']/i);
-          const description = descMatch ? descMatch[1].trim() : '';
-          
-          // Extract JSON-LD structured data (LinkedIn often has this)
-          const jsonLdMatches = html.matchAll(/<script[^>]*type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi);
-          let jsonLdContent = '';
-          for (const match of jsonLdMatches) {
-            try {
-              const parsed = JSON.parse(match[1]);
-              jsonLdContent += JSON.stringify(parsed, null, 2) + '\n\n';
-            } catch (e) {
-              // ignore parse errors
-            }
-          }
-          
-          // Extract visible text from main content areas
-          let bodyContent = '';
-          const mainMatch = html.match(/<main[^>]*>([\s\S]*?)<\/main>/i) ||
-                           html.match(/<article[^>]*>([\s\S]*?)<\/article>/i) ||
-                           html.match(/<div[^>]*class="[^"]*content[^"]*"[^>]*>([\s\S]*?)<\/div>/i);
-          if (mainMatch) {
-            bodyContent = mainMatch[1]
-              .replace(/<script[^>]*>[\s\S]*?<\/script>/gi, '')
-              .replace(/<style[^>]*>[\s\S]*?<\/style>/gi, '')
-              .replace(/<[^>]+>/g, ' ')
-              .replace(/\s+/g, ' ')
-              .trim();
-          }
-          
-          pageContent = `Title: ${pageTitle}\n\nDescription: ${description}\n\n${jsonLdContent ? 'Structured Data:\n' + jsonLdContent : ''}\n\nContent:\n${bodyContent}`;
-          console.log('Direct fetch content length:', pageContent.length);
-        } else {
-          console.log('Direct fetch failed:', directResponse.status);
-        }
-      } catch (e) {
-        console.error('Direct fetch error:', e);
+    // 사이트가 게시한 JSON-LD JobPosting에서 바로 얻은 필드 (AI 추출보다 우선)
+    let structured: StructuredJobFields | null = null;
+    // 새로 가져온 공고 원문의 출처 (어댑터 이름 / 'firecrawl' / 'manual'). 저장된 원문을 재사용하면 null
+    let contentSource: string | null = null;
+    let jsonLd: Record<string, unknown> | null = null;
+
+    // 저장된 원문을 재사용하거나 직접 입력한 경우가 아니면 URL에서 새로 가져옴
+    const needsScrape = !snapshotId && !isManualInput;
+
+    if (snapshotId) {
+      // 저장된 공고 원문 재사용 (RLS로 본인 소유만 조회됨)
+      const { data: snapshot, error: snapshotError } = await supabaseClient
+        .from('job_posting_snapshots')
+        .select('title, content, json_ld')
+        .eq('id', snapshotId)
+        .maybeSingle();
+
+      if (snapshotError || !snapshot) {
+        console.error('Snapshot fetch error:', snapshotError);
+        return new Response(
+          JSON.stringify({ success: false, error: '저장된 공고 원문을 찾을 수 없습니다.' }),
+          { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
       }
+
+      console.log('Using stored snapshot:', snapshotId);
+      pageTitle = snapshot.title || '';
+      pageContent = snapshot.content;
+      structured = snapshot.json_ld ? mapJobPostingJsonLd(snapshot.json_ld) : null;
+    } else if (isManualInput) {
+      // 사용자가 직접 붙여넣은 공고 본문 / 업로드한 공고 이미지 → 스크래핑 생략
+      console.log('Manual posting input:', { textLength: manualText.length, images: manualImages.length });
+      pageContent = manualText;
+      contentSource = 'manual';
+    } else {
+      console.log('Scraping validated URL:', formattedUrl);
     }
-    
-    // If direct fetch didn't work or not LinkedIn, try Firecrawl
-    if (!pageContent || pageContent.length < 100) {
+
+    // 1) 사이트 전용 어댑터 (공개 JSON API / JSON-LD / LinkedIn 직접 요청)
+    const scraped = needsScrape ? await scrapeWithAdapter(formattedUrl) : null;
+    if (scraped) {
+      pageTitle = scraped.title;
+      pageContent = scraped.content;
+      jsonLd = scraped.jsonLd ?? null;
+      structured = jsonLd ? mapJobPostingJsonLd(jsonLd) : null;
+      contentSource = scraped.adapter;
+      console.log(`Adapter (${scraped.adapter}) content length:`, pageContent.length);
+    }
+
+    // 2) 어댑터가 없거나 실패하면 Firecrawl
+    if (needsScrape && (!pageContent || pageContent.length < 100)) {
       console.log('Trying Firecrawl...');
       const scrapeResponse = await fetch('https://api.firecrawl.dev/v1/scrape', {
         method: 'POST',
@@ -354,15 +322,18 @@ serve(async (req) => {
 
       pageContent = scrapeData.data?.markdown || '';
       pageTitle = scrapeData.data?.metadata?.title || pageTitle;
+      contentSource = 'firecrawl';
     }
 
     console.log('Final content length:', pageContent.length);
     
-    if (!pageContent || pageContent.length < 50) {
+    if (manualImages.length === 0 && (!pageContent || pageContent.length < 50)) {
       return new Response(
         JSON.stringify({ 
           success: false, 
-          error: '페이지 내용을 가져올 수 없습니다. URL을 확인하거나 공고 내용을 직접 입력해주세요.' 
+          error: isManualInput
+            ? '공고 내용이 너무 짧습니다. 공고 본문 전체를 붙여넣어 주세요.'
+            : '페이지 내용을 가져올 수 없습니다. URL을 확인하거나 공고 내용을 직접 입력해주세요.'
         }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
@@ -438,6 +409,18 @@ EXTRACT AND RETURN:
 - visaSponsorship: boolean or null
 - visaSponsorshipEvidence: exact source sentence
 
+- deadline: application deadline as "YYYY-MM-DD" (nullable; null for rolling / "상시채용" / "채용 시 마감")
+- deadlineEvidence: exact source sentence
+
+- postedAt: posting date as "YYYY-MM-DD" (nullable)
+- postedAtEvidence: exact source sentence
+
+- salaryMin / salaryMax: numeric compensation range in full units (e.g. "연봉 5,000~7,000만원" → 50000000 / 70000000) (nullable; same value for both if a single amount is given)
+- salaryCurrency: ISO 4217 code such as "KRW", "USD" (nullable)
+- salaryPeriod: "hour" | "day" | "week" | "month" | "year" (nullable)
+- salaryEvidence: exact source sentence
+  (Do NOT guess compensation. "회사 내규에 따름" / "Competitive" means null.)
+
 - summary:
   Write a 3–4 sentence summary of the role that explains:
   - Why this role exists
@@ -463,11 +446,29 @@ OUTPUT FORMAT RULES:
 - Do NOT infer or assume anything not grounded in the posting text.
 `;
 
+    const userPromptText = isManualInput
+      ? `Job posting content (pasted or uploaded by the user):\n${pageContent.substring(0, 15000) || '(see attached images)'}`
+      : `Page title: ${pageTitle}\n\nJob posting content:\n${pageContent.substring(0, 15000)}`;
+
+    // 구조화 데이터로 이미 확보한 필드는 AI 추출 대상에서 제외 (비용·환각 감소)
+    const knownFields = STRUCTURED_FIELD_KEYS.filter((key) => !!structured?.[key]);
+    const knownFieldsNote = knownFields.length > 0
+      ? `\n\nThe following fields were already extracted from the posting's structured data (schema.org JobPosting). They are verified — do NOT extract them again, use them only as context:\n${knownFields.map((key) => `- ${key}: ${structured?.[key]}`).join('\n')}`
+      : '';
+
+    // 공고 PDF·스크린샷 이미지가 있으면 멀티모달 메시지로 함께 전달
+    const userContent = manualImages.length > 0
+      ? [
+          { type: 'text' as const, text: userPromptText + knownFieldsNote },
+          ...manualImages.map((dataUrl) => ({ type: 'image_url' as const, image_url: { url: dataUrl } })),
+        ]
+      : userPromptText + knownFieldsNote;
+
     const aiResponse = await callGeminiFromLovable({
       model: 'google/gemini-2.5-flash',
       messages: [
         { role: 'system', content: systemPrompt },
-        { role: 'user', content: `Page title: ${pageTitle}\n\nJob posting content:\n${pageContent.substring(0, 15000)}` }
+        { role: 'user', content: userContent }
       ],
       tools: [
          {
@@ -475,42 +476,7 @@ OUTPUT FORMAT RULES:
            function: {
              name: "extract_job_posting",
              description: "Extract structured job posting information with evidence",
-             parameters: {
-               type: "object",
-               properties: {
-                 isJobPosting: { type: "boolean" },
-                 language: { type: "string", enum: ["ko", "en"] },
-                 companyName: { type: "string" },
-                 title: { type: "string" },
-                 position: { type: "string" },
-                 minExperience: { type: "string", nullable: true },
-                 minExperienceEvidence: { type: "string" },
-                 workType: { type: "string", nullable: true },
-                 workTypeEvidence: { type: "string" },
-                 location: { type: "string", nullable: true },
-                 locationEvidence: { type: "string" },
-                 visaSponsorship: { type: "boolean", nullable: true },
-                 visaSponsorshipEvidence: { type: "string" },
-                 summary: { type: "string" },
-                 keyCompetencies: {
-                   type: "array",
-                   items: {
-                     type: "object",
-                     properties: {
-                       title: { type: "string" },
-                       description: { type: "string" }
-                     },
-                     required: ["title", "description"]
-                   },
-                   minItems: 5,
-                   maxItems: 5
-                 },
-                 companyScore: { type: "number" },
-                 fitScore: { type: "number" }
-               },
-               required: ["isJobPosting", "language", "companyName", "title", "position", "summary", "keyCompetencies"],
-               additionalProperties: false
-             }
+             parameters: buildExtractionSchema(knownFields)
            }
          }
        ],
@@ -573,12 +539,33 @@ OUTPUT FORMAT RULES:
       return new Response(
         JSON.stringify({ 
           success: false, 
-          error: '공고가 아닙니다. 채용 공고 URL을 입력해주세요.'
+          error: isManualInput
+            ? '채용 공고 내용이 아닌 것으로 보입니다. 공고 본문을 확인해주세요.'
+            : '공고가 아닙니다. 채용 공고 URL을 입력해주세요.'
         }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
+    // 날짜 필드는 date 컬럼에 저장되므로 YYYY-MM-DD 형식만 허용
+    for (const key of ['deadline', 'postedAt']) {
+      if (jobData[key] && !/^\d{4}-\d{2}-\d{2}$/.test(jobData[key])) {
+        jobData[key] = null;
+      }
+    }
+
+    // 구조화 데이터에서 얻은 필드는 AI 결과보다 우선 (structuredFields로 출처 표시)
+    if (structured) {
+      const structuredEntries = Object.entries(structured).filter(
+        ([key, value]) => key !== 'language' && value !== undefined && value !== ''
+      );
+      jobData = {
+        ...jobData,
+        ...Object.fromEntries(structuredEntries),
+        structuredFields: structuredEntries.map(([key]) => key),
+      };
+    }
+
     console.log('Extracted job data:', jobData);
 
     return new Response(
@@ -586,7 +573,11 @@ OUTPUT FORMAT RULES:
         success: true, 
         data: {
           ...jobData,
-          sourceUrl: url
+          sourceUrl: url ?? null,
+          // 클라이언트가 공고 저장 후 job_posting_snapshots에 보관 (이미지만 업로드한 경우 본문이 없어 생략)
+          snapshot: contentSource && pageContent
+            ? { title: pageTitle || null, content: pageContent, source: contentSource, jsonLd }
+            : null
         }
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
@@ -0,0 +1,209 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import { buildIcsCalendar, type IcsEvent } from "../_shared/ics.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// 마감일을 캘린더에 올릴 공고 상태 (불합격·마감·최종 합격 공고는 제외)
+const DEADLINE_STATUSES = ['reviewing', 'applied', 'interview', 'offer'];
+
+const INTERVIEW_TYPE_LABELS: Record<string, string> = {
+  phone_screen: '전화 스크리닝',
+  technical: '기술 면접',
+  culture: '컬처핏 면접',
+  final: '최종 면접',
+};
+
+// POST: 로그인한 사용자가 공고 하나의 일정을 .ics로 다운로드
+const downloadSchema = z.object({
+  jobPostingId: z.string().uuid(),
+});
+
+type PostingRow = {
+  id: string;
+  company_name: string;
+  title: string;
+  deadline: string | null;
+  source_url: string | null;
+  status: string;
+  updated_at: string;
+};
+
+type RoundRow = {
+  id: string;
+  job_posting_id: string;
+  round_type: string;
+  scheduled_at: string | null;
+  interviewers: string[] | null;
+  location: string | null;
+  meeting_url: string | null;
+  outcome: string;
+  notes: string | null;
+  updated_at: string;
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+function toIcsEvents(postings: PostingRow[], rounds: RoundRow[]): IcsEvent[] {
+  const postingById = new Map(postings.map((p) => [p.id, p]));
+  const events: IcsEvent[] = [];
+
+  postings
+    .filter((p) => p.deadline && DEADLINE_STATUSES.includes(p.status))
+    .forEach((p) => {
+      events.push({
+        uid: `deadline-${p.id}@curve`,
+        summary: `[마감] ${p.company_name} - ${p.title}`,
+        date: p.deadline!,
+        url: p.source_url ?? undefined,
+        updatedAt: p.updated_at,
+      });
+    });
+
+  rounds
+    .filter((r) => r.scheduled_at && r.outcome !== 'cancelled')
+    .forEach((r) => {
+      const posting = postingById.get(r.job_posting_id);
+      if (!posting) return;
+      const description = [
+        r.interviewers?.length ? `면접관: ${r.interviewers.join(', ')}` : '',
+        r.meeting_url ? `화상 링크: ${r.meeting_url}` : '',
+        r.notes ?? '',
+      ]
+        .filter(Boolean)
+        .join('\n');
+      events.push({
+        uid: `interview-${r.id}@curve`,
+        summary: `[${INTERVIEW_TYPE_LABELS[r.round_type] ?? '인터뷰'}] ${posting.company_name} - ${posting.title}`,
+        start: r.scheduled_at!,
+        durationMinutes: 60,
+        description: description || undefined,
+        location: r.location ?? r.meeting_url ?? undefined,
+        url: r.meeting_url ?? undefined,
+        updatedAt: r.updated_at,
+      });
+    });
+
+  return events;
+}
+
+async function loadEvents(client: SupabaseClient, userId: string, jobPostingId?: string) {
+  let postingsQuery = client
+    .from('job_postings')
+    .select('id, company_name, title, deadline, source_url, status, updated_at')
+    .eq('user_id', userId);
+  let roundsQuery = client
+    .from('interview_rounds')
+    .select('id, job_posting_id, round_type, scheduled_at, interviewers, location, meeting_url, outcome, notes, updated_at')
+    .eq('user_id', userId);
+
+  if (jobPostingId) {
+    postingsQuery = postingsQuery.eq('id', jobPostingId);
+    roundsQuery = roundsQuery.eq('job_posting_id', jobPostingId);
+  }
+
+  const [{ data: postings, error: postingsError }, { data: rounds, error: roundsError }] =
+    await Promise.all([postingsQuery, roundsQuery]);
+
+  if (postingsError || roundsError) {
+    console.error('Error loading calendar data:', postingsError ?? roundsError);
+    throw new Error('일정 정보를 불러오지 못했습니다.');
+  }
+
+  return {
+    postings: (postings ?? []) as PostingRow[],
+    events: toIcsEvents((postings ?? []) as PostingRow[], (rounds ?? []) as RoundRow[]),
+  };
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // GET ?token=... : 캘린더 앱 구독용 (헤더를 보낼 수 없으므로 URL의 비밀 토큰으로 인증)
+    if (req.method === 'GET') {
+      const token = new URL(req.url).searchParams.get('token');
+      if (!token || !/^[0-9a-f]{64}$/.test(token)) {
+        return new Response('Not found', { status: 404, headers: corsHeaders });
+      }
+
+      const supabaseAdmin = createClient(
+        Deno.env.get('SUPABASE_URL')!,
+        Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+        { auth: { persistSession: false } }
+      );
+
+      const { data: feedToken } = await supabaseAdmin
+        .from('calendar_feed_tokens')
+        .select('user_id')
+        .eq('token', token)
+        .maybeSingle();
+
+      if (!feedToken) {
+        return new Response('Not found', { status: 404, headers: corsHeaders });
+      }
+
+      const { events } = await loadEvents(supabaseAdmin, feedToken.user_id);
+      return new Response(buildIcsCalendar(events, 'Curve 채용 일정'), {
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'text/calendar; charset=utf-8',
+          'Cache-Control': 'private, max-age=900',
+        },
+      });
+    }
+
+    // POST { jobPostingId } : 공고 하나의 마감일·인터뷰를 .ics로 다운로드
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ success: false, error: '로그인이 필요합니다. 다시 로그인한 뒤 재시도해주세요.' }, 401);
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_ANON_KEY')!,
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const { data: { user }, error: authError } = await supabaseClient.auth.getUser();
+    if (authError || !user) {
+      console.error('Auth error:', authError);
+      return jsonResponse({ success: false, error: '인증이 만료되었습니다. 다시 로그인해주세요.' }, 401);
+    }
+
+    const validationResult = downloadSchema.safeParse(await req.json());
+    if (!validationResult.success) {
+      return jsonResponse({ success: false, error: '요청 형식이 올바르지 않습니다. 입력 값을 확인하고 다시 시도해주세요.' }, 400);
+    }
+
+    const { jobPostingId } = validationResult.data;
+    const { postings, events } = await loadEvents(supabaseClient, user.id, jobPostingId);
+    if (postings.length === 0) {
+      return jsonResponse({ success: false, error: '공고를 찾을 수 없습니다.' }, 404);
+    }
+    if (events.length === 0) {
+      return jsonResponse({ success: false, error: '캘린더에 추가할 마감일이나 인터뷰 일정이 없습니다.' }, 400);
+    }
+
+    const posting = postings[0];
+    return new Response(buildIcsCalendar(events, `${posting.company_name} - ${posting.title}`), {
+      headers: { ...corsHeaders, 'Content-Type': 'text/calendar; charset=utf-8' },
+    });
+  } catch (error) {
+    console.error('Error in calendar-feed function:', error);
+    const fallbackMessage = '서버 오류가 발생했습니다. 잠시 후 다시 시도해주세요.';
+    const safeMessage =
+      error instanceof Error && /[가-힣]/.test(error.message) ? error.message : fallbackMessage;
+    return jsonResponse({ success: false, error: safeMessage }, 500);
+  }
+});
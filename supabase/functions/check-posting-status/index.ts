@@ -0,0 +1,284 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { validateUrl } from "../_shared/jobUrl.ts";
+import { findScraperAdapter } from "../_shared/scrapers/index.ts";
+import { extractJsonLdBlocks, findJobPostingJsonLd, htmlToText } from "../_shared/scrapers/html.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-cron-secret',
+};
+
+// 한 번 실행에 확인할 공고 수 / 같은 공고를 다시 확인하기까지의 간격
+const BATCH_SIZE = 50;
+const RECHECK_INTERVAL_HOURS = 20;
+const FETCH_TIMEOUT_MS = 10000;
+const MAX_REDIRECTS = 5;
+
+// 동시에 확인할 공고 수 / 새 공고 확인을 시작하지 않는 시점 (Edge Function 실행 시간 제한 안에서 끝내기 위함)
+// 남은 공고는 source_checked_at이 그대로라 다음 실행에서 먼저 확인됩니다.
+const CONCURRENCY = 5;
+const RUN_DEADLINE_MS = 100000;
+
+// 지원 전·지원 중인 공고만 확인 (인터뷰 이후 단계는 공고가 내려가도 진행 중일 수 있음)
+const CHECK_STATUSES = ['reviewing', 'applied'];
+
+// 공고 페이지에 남아 있는 마감 안내 문구
+// ("채용마감일"처럼 진행 중인 공고에도 나오는 표현은 제외)
+const CLOSED_MARKERS = [
+  'no longer accepting applications',
+  'this job is no longer available',
+  'this job has expired',
+  'position has been filled',
+  'the job you are looking for is no longer open',
+  '채용이 마감',
+  '모집이 마감',
+  '접수가 마감',
+  '존재하지 않는 공고',
+];
+
+type PostingRow = {
+  id: string;
+  user_id: string;
+  company_name: string;
+  title: string;
+  source_url: string;
+  deadline: string | null;
+};
+
+type CheckResult = { closed: true; reason: string } | { closed: false };
+
+const todayString = () => new Date().toISOString().slice(0, 10);
+
+type FetchedPage = {
+  status: number;
+  url: string;
+  redirected: boolean;
+  body: string;
+};
+
+/**
+ * 리다이렉트를 한 단계씩 따라가며 매 단계 URL을 다시 검증합니다. (허용되지 않은 곳으로 가면 null)
+ * 본문까지 읽은 뒤 타이머를 해제해 느린 응답도 제한 시간 안에 끊습니다.
+ */
+async function fetchPage(url: string, accept: string): Promise<FetchedPage | null> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+  try {
+    let currentUrl = url;
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+      const response = await fetch(currentUrl, {
+        signal: controller.signal,
+        redirect: 'manual',
+        headers: {
+          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+          'Accept': accept,
+        },
+      });
+
+      const location = response.headers.get('location');
+      if (response.status >= 300 && response.status < 400 && location) {
+        await response.body?.cancel();
+        const next = validateUrl(new URL(location, currentUrl).toString());
+        if (!next.valid) return null;
+        currentUrl = next.url!;
+        continue;
+      }
+
+      return { status: response.status, url: currentUrl, redirected: hop > 0, body: await response.text() };
+    }
+    return null;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+// 마감 문구는 페이지 본문 텍스트에서만 찾음 (스크립트·JSON·머리글/바닥글의 문구로 오판하지 않도록)
+function mainContentText(html: string): string {
+  const main =
+    html.match(/<main[^>]*>([\s\S]*?)<\/main>/i)?.[1] ??
+    html.match(/<body[^>]*>([\s\S]*)<\/body>/i)?.[1] ??
+    html;
+  return htmlToText(
+    main
+      .replace(/<noscript[^>]*>[\s\S]*?<\/noscript>/gi, '')
+      .replace(/<template[^>]*>[\s\S]*?<\/template>/gi, '')
+      .replace(/<(header|nav|footer)[^>]*>[\s\S]*?<\/\1>/gi, '')
+  );
+}
+
+/**
+ * 공고가 내려갔는지 확인합니다.
+ * 판단할 수 없는 경우(차단, 일시 오류 등)는 closed: false 로 두고 다음 주기에 다시 확인합니다.
+ */
+async function checkPosting(posting: PostingRow): Promise<CheckResult> {
+  if (posting.deadline && posting.deadline < todayString()) {
+    return { closed: true, reason: `마감일(${posting.deadline})이 지났습니다.` };
+  }
+
+  const urlValidation = validateUrl(posting.source_url);
+  if (!urlValidation.valid) return { closed: false };
+  const url = new URL(urlValidation.url!);
+
+  // 공개 JSON API가 있는 사이트는 API로 확인 (공고가 없으면 404 또는 목록에서 빠짐)
+  // 본문을 읽지 못하거나 형식이 다르면 마감으로 보지 않음 (API 장애·형식 변경으로 멀쩡한 공고를 닫지 않도록)
+  const adapter = findScraperAdapter(url);
+  if (adapter?.responseType === 'json') {
+    const requestUrl = adapter.buildRequestUrl(url);
+    if (requestUrl) {
+      const response = await fetchPage(requestUrl, 'application/json');
+      if (!response) return { closed: false };
+      if (response.status === 404 || response.status === 410) {
+        return { closed: true, reason: `공고가 채용 사이트에서 삭제되었습니다. (HTTP ${response.status})` };
+      }
+      if (response.status < 200 || response.status >= 300) return { closed: false };
+      return adapter.containsPosting?.(response.body, url) === false
+        ? { closed: true, reason: '채용 사이트의 공개 공고 목록에서 더 이상 찾을 수 없습니다.' }
+        : { closed: false };
+    }
+  }
+
+  const response = await fetchPage(
+    url.toString(),
+    'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8'
+  );
+  if (!response) return { closed: false };
+  if (response.status === 404 || response.status === 410) {
+    return { closed: true, reason: `공고 페이지가 삭제되었습니다. (HTTP ${response.status})` };
+  }
+  if (response.status < 200 || response.status >= 300) return { closed: false };
+
+  // Greenhouse 등은 내려간 공고를 목록 페이지(?error=true)로 리다이렉트
+  if (response.redirected && new URL(response.url).searchParams.get('error') === 'true') {
+    return { closed: true, reason: '공고 페이지가 채용 목록으로 이동되었습니다.' };
+  }
+
+  const html = response.body;
+  const jsonLd = findJobPostingJsonLd(extractJsonLdBlocks(html));
+  const validThrough = typeof jsonLd?.validThrough === 'string' ? jsonLd.validThrough.slice(0, 10) : null;
+  if (validThrough && /^\d{4}-\d{2}-\d{2}$/.test(validThrough) && validThrough < todayString()) {
+    return { closed: true, reason: `공고 게시 기한(${validThrough})이 지났습니다.` };
+  }
+
+  const text = mainContentText(html).toLowerCase();
+  const marker = CLOSED_MARKERS.find((m) => text.includes(m));
+  if (marker) {
+    return { closed: true, reason: `공고 페이지에 "${marker}" 안내가 표시됩니다.` };
+  }
+
+  return { closed: false };
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const startedAt = Date.now();
+
+  try {
+    // pg_cron에서만 호출 (Vault에 저장된 공유 시크릿 확인)
+    const cronSecret = Deno.env.get('CRON_SECRET');
+    if (!cronSecret || req.headers.get('x-cron-secret') !== cronSecret) {
+      return new Response(
+        JSON.stringify({ success: false, error: '접근 권한이 없습니다.' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+      { auth: { persistSession: false } }
+    );
+
+    const recheckBefore = new Date(Date.now() - RECHECK_INTERVAL_HOURS * 60 * 60 * 1000).toISOString();
+    const { data: postings, error: fetchError } = await supabaseAdmin
+      .from('job_postings')
+      .select('id, user_id, company_name, title, source_url, deadline')
+      .in('status', CHECK_STATUSES)
+      .not('source_url', 'is', null)
+      .or(`source_checked_at.is.null,source_checked_at.lt.${recheckBefore}`)
+      .order('source_checked_at', { ascending: true, nullsFirst: true })
+      .limit(BATCH_SIZE);
+
+    if (fetchError) {
+      console.error('Error fetching postings to check:', fetchError);
+      throw new Error('공고 목록을 불러오지 못했습니다.');
+    }
+
+    // 확인 결과 반영. 마감 처리했으면 true
+    const processPosting = async (posting: PostingRow): Promise<boolean> => {
+      let result: CheckResult = { closed: false };
+      try {
+        result = await checkPosting(posting);
+      } catch (e) {
+        console.error('Posting check failed:', posting.id, e);
+      }
+
+      const checkedAt = new Date().toISOString();
+      if (!result.closed) {
+        await supabaseAdmin
+          .from('job_postings')
+          .update({ source_checked_at: checkedAt })
+          .eq('id', posting.id);
+        return false;
+      }
+
+      // 확인하는 사이 사용자가 상태를 바꿨다면 건드리지 않음
+      const { data: updated, error: updateError } = await supabaseAdmin
+        .from('job_postings')
+        .update({ status: 'closed', source_checked_at: checkedAt, updated_at: checkedAt })
+        .eq('id', posting.id)
+        .in('status', CHECK_STATUSES)
+        .select('id');
+
+      if (updateError || !updated?.length) {
+        if (updateError) console.error('Error closing posting:', posting.id, updateError);
+        return false;
+      }
+
+      const { error: messageError } = await supabaseAdmin.from('chat_messages').insert({
+        user_id: posting.user_id,
+        job_posting_id: posting.id,
+        type: 'system',
+        content: `${posting.company_name} - ${posting.title} 공고를 '공고 마감'으로 옮겼어요. ${result.reason}`,
+      });
+      if (messageError) console.error('Error adding system message:', posting.id, messageError);
+
+      console.log('Posting closed:', posting.id, result.reason);
+      return true;
+    };
+
+    const queue = [...((postings ?? []) as PostingRow[])];
+    const deadline = startedAt + RUN_DEADLINE_MS;
+    let checkedCount = 0;
+    let closedCount = 0;
+    const worker = async () => {
+      while (queue.length > 0 && Date.now() < deadline) {
+        const posting = queue.shift()!;
+        if (await processPosting(posting)) closedCount += 1;
+        checkedCount += 1;
+      }
+    };
+    await Promise.all(Array.from({ length: CONCURRENCY }, worker));
+
+    if (queue.length > 0) {
+      console.log('Run deadline reached, deferring postings:', queue.length);
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, checked: checkedCount, closed: closedCount, deferred: queue.length }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error in check-posting-status function:', error);
+    const fallbackMessage = '서버 오류가 발생했습니다. 잠시 후 다시 시도해주세요.';
+    const safeMessage =
+      error instanceof Error && /[가-힣]/.test(error.message) ? error.message : fallbackMessage;
+    return new Response(
+      JSON.stringify({ success: false, error: safeMessage }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,242 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import { refundCredit } from "../_shared/credits.ts";
+import { callGeminiFromLovable, normalizeGeminiToLovable } from "../_shared/gemini.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Input validation schemas
+const keyCompetencySchema = z.object({
+  title: z.string().min(1).max(200),
+  description: z.string().max(1000).default(''),
+});
+
+const requestSchema = z.object({
+  jobTitle: z.string().min(1).max(300),
+  companyName: z.string().max(200).default(''),
+  language: z.enum(['ko', 'en']).default('ko'),
+  summary: z.string().max(5000).optional().nullable(),
+  keyCompetencies: z.array(keyCompetencySchema).max(10).default([]),
+  postingContent: z.string().max(20000).optional().nullable(), // 저장된 공고 원문 (job_posting_snapshots)
+}).refine((body) => !!body.summary?.trim() || !!body.postingContent?.trim(), {
+  message: 'summary or postingContent is required',
+});
+
+const MAX_KEYWORDS = 30;
+const MAX_ALIASES = 5;
+
+// 도구 호출 결과 스키마
+const keywordSchema = z.object({
+  term: z.string().min(1).max(100),
+  category: z.enum(['skill', 'tool']),
+  importance: z.enum(['required', 'preferred']),
+  // 모델이 개수 제한을 넘겨도 결과 전체를 버리지 않고 잘라서 씀
+  aliases: z.array(z.string().max(100)).default([]).transform((aliases) => aliases.slice(0, MAX_ALIASES)),
+});
+
+const toolResultSchema = z.object({
+  keywords: z.array(keywordSchema),
+});
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(
+    JSON.stringify(body),
+    { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  );
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  // 크레딧 차감 후 실패하면 돌려주기 위해 보관
+  let refund: (() => Promise<void>) | null = null;
+
+  try {
+    // Authentication check
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ success: false, error: '로그인이 필요합니다. 다시 로그인한 뒤 재시도해주세요.' }, 401);
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_ANON_KEY')!,
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const { data: { user }, error: authError } = await supabaseClient.auth.getUser();
+    if (authError || !user) {
+      console.error('Auth error:', authError);
+      return jsonResponse({ success: false, error: '인증이 만료되었습니다. 다시 로그인해주세요.' }, 401);
+    }
+
+    console.log('Authenticated user:', user.id);
+
+    // Parse and validate input
+    const rawBody = await req.json();
+    const validationResult = requestSchema.safeParse(rawBody);
+
+    if (!validationResult.success) {
+      console.error('Validation error:', validationResult.error.issues);
+      return jsonResponse({
+        success: false,
+        error: '공고 요약이나 원문이 없어 키워드를 추출할 수 없습니다. 공고를 먼저 분석해주세요.',
+        details: validationResult.error.issues.map(i => `${i.path.join('.')}: 입력 값을 확인해주세요.`)
+      }, 400);
+    }
+
+    const { jobTitle, companyName, language, summary, keyCompetencies, postingContent } = validationResult.data;
+
+    // Atomic credit check and deduction (prevents race condition)
+    const { data: subscription, error: subError } = await supabaseClient
+      .from('user_subscriptions')
+      .select('ai_credits_remaining, ai_credits_used')
+      .eq('user_id', user.id)
+      .single();
+
+    if (subError || !subscription) {
+      console.error('Subscription fetch error:', subError);
+      return jsonResponse({ success: false, error: '구독 정보를 찾을 수 없습니다. 결제 상태를 확인하거나 고객센터에 문의해주세요.' }, 404);
+    }
+
+    if (subscription.ai_credits_remaining < 1) {
+      return jsonResponse({ success: false, error: 'AI 크레딧이 부족합니다. 플랜을 업그레이드하거나 크레딧을 충전해주세요.' }, 402);
+    }
+
+    // Optimistic concurrency control - only update if credits haven't changed
+    const { error: creditError, count: updatedCount } = await supabaseClient
+      .from('user_subscriptions')
+      .update({
+        ai_credits_remaining: subscription.ai_credits_remaining - 1,
+        ai_credits_used: (subscription.ai_credits_used || 0) + 1,
+        updated_at: new Date().toISOString(),
+      }, { count: 'exact' })
+      .eq('user_id', user.id)
+      .eq('ai_credits_remaining', subscription.ai_credits_remaining);
+
+    if (creditError || updatedCount === 0) {
+      console.error('Credit deduction failed (race condition):', creditError);
+      return jsonResponse({ success: false, error: '크레딧 차감에 실패했습니다. 잠시 후 다시 시도해주세요.' }, 409);
+    }
+
+    console.log('AI credit deducted successfully');
+    refund = () => refundCredit(supabaseClient, user.id, 'ai');
+
+    const geminiApiKey = Deno.env.get('GEMINI_API_KEY');
+    if (!geminiApiKey) {
+      throw new Error('AI 설정이 완료되지 않았습니다. 잠시 후 다시 시도하거나 고객센터에 문의해주세요.');
+    }
+
+    const systemPrompt = `You extract concrete, matchable keywords from a job posting for a resume keyword-gap check.
+
+Rules:
+- Extract only concrete skills (e.g. "데이터 분석", "A/B 테스트", "stakeholder management") and tools/technologies (e.g. "SQL", "Figma", "AWS").
+- Do NOT extract soft, generic phrases ("열정", "커뮤니케이션 능력이 뛰어난 분", "team player") or company benefits.
+- importance: "required" for 자격 요건 / requirements / must-have, "preferred" for 우대 사항 / nice-to-have. If the posting does not separate them, judge by wording.
+- category: "tool" for software, languages, frameworks, platforms; otherwise "skill".
+- term: the shortest common form, in the posting's language (${language === 'ko' ? 'Korean, but keep English tool names as-is' : 'English'}).
+- aliases: up to 5 other spellings a resume might use (Korean/English variants and abbreviations, e.g. "JS" for "JavaScript", "데이터 분석" for "data analysis").
+- At most ${MAX_KEYWORDS} keywords, most important first. No duplicates.`;
+
+    const competenciesList = keyCompetencies.map((c, i) => `${i + 1}. ${c.title}: ${c.description}`).join('\n');
+    const userPrompt = `회사: ${companyName}
+포지션: ${jobTitle}
+
+공고 요약:
+${summary || '정보 없음'}
+
+핵심 역량:
+${competenciesList || '정보 없음'}
+
+공고 원문:
+${postingContent || '정보 없음'}`;
+
+    console.log('Extracting keywords with AI:', companyName, jobTitle);
+
+    const aiResponse = await callGeminiFromLovable({
+      model: 'google/gemini-2.5-flash',
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userPrompt }
+      ],
+      tools: [
+        {
+          type: "function",
+          function: {
+            name: "extract_keywords",
+            description: "Return required/preferred skills and tools from the job posting",
+            parameters: {
+              type: "object",
+              properties: {
+                keywords: {
+                  type: "array",
+                  items: {
+                    type: "object",
+                    properties: {
+                      term: { type: "string", description: "Keyword as written in the posting" },
+                      category: { type: "string", enum: ["skill", "tool"] },
+                      importance: { type: "string", enum: ["required", "preferred"] },
+                      aliases: { type: "array", items: { type: "string" }, description: "Alternative spellings" }
+                    },
+                    required: ["term", "category", "importance"]
+                  }
+                }
+              },
+              required: ["keywords"]
+            }
+          }
+        }
+      ],
+      tool_choice: { type: "function", function: { name: "extract_keywords" } }
+    }, geminiApiKey);
+
+    if (!aiResponse.ok) {
+      const errorText = await aiResponse.text();
+      console.error('AI gateway error:', aiResponse.status, errorText);
+      throw new Error('AI 분석에 실패했습니다. 잠시 후 다시 시도해주세요.');
+    }
+
+    const aiData = normalizeGeminiToLovable(await aiResponse.json());
+    const toolCall = aiData?.choices?.[0]?.message?.tool_calls?.[0];
+
+    let parsed: z.infer<typeof toolResultSchema> | null = null;
+    try {
+      const result = toolResultSchema.safeParse(JSON.parse(toolCall?.function?.arguments ?? ''));
+      if (result.success) parsed = result.data;
+      else console.error('Invalid tool call arguments:', result.error.issues);
+    } catch (e) {
+      console.error('Failed to parse tool call arguments:', e);
+    }
+    if (!parsed) {
+      throw new Error('키워드 추출 결과를 읽지 못했습니다. 잠시 후 다시 시도해주세요.');
+    }
+
+    // 같은 키워드(대소문자·공백 차이)는 하나로
+    const seen = new Set<string>();
+    const keywords = parsed.keywords
+      .map((k) => ({ ...k, term: k.term.trim(), aliases: k.aliases.map((a) => a.trim()).filter(Boolean) }))
+      .filter((k) => {
+        const key = k.term.toLowerCase().replace(/\s+/g, '');
+        if (!k.term || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      })
+      .slice(0, MAX_KEYWORDS);
+
+    console.log('Keywords extracted:', keywords.length);
+
+    return jsonResponse({ success: true, keywords });
+  } catch (error) {
+    console.error('Error extracting keywords:', error);
+    if (refund) await refund();
+    const fallbackMessage = '서버 오류가 발생했습니다. 잠시 후 다시 시도해주세요.';
+    const safeMessage =
+      error instanceof Error && /[가-힣]/.test(error.message) ? error.message : fallbackMessage;
+    return jsonResponse({ success: false, error: safeMessage }, 500);
+  }
+});
@@ -1,6 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import { refundCredit } from "../_shared/credits.ts";
 import { callGeminiFromLovable, normalizeGeminiToLovable } from "../_shared/gemini.ts";
 
 const corsHeaders = {
@@ -38,55 +39,148 @@ const requestSchema = z.object({
   keyCompetencies: z.array(keyCompetencySchema).min(1).max(10),
   experiences: z.array(experienceSchema).min(1).max(50),
   language: z.enum(["ko", "en"]),
-  format: z.enum(["consulting", "narrative"]).optional(),
+  format: z.enum(["consulting", "narrative", "ats-plain", "modern", "korean-standard", "academic-cv"]).optional(),
   minimumRequirementsCheck: minimumRequirementsCheckSchema.optional(),
+  postingContent: z.string().max(20000).optional(), // 저장된 공고 원문 (job_posting_snapshots)
 });
 
 type Experience = z.infer<typeof experienceSchema>;
 type KeyCompetency = z.infer<typeof keyCompetencySchema>;
 type MinimumRequirementsCheck = z.infer<typeof minimumRequirementsCheckSchema>;
-type ResumeFormat = "consulting" | "narrative";
-
-function splitAiFeedback(raw: string) {
-  // Preferred markers
-  const FEEDBACK = "===AI_FEEDBACK===";
-  const RESUME = "===RESUME===";
-
-  const feedbackIdx = raw.indexOf(FEEDBACK);
-  const resumeIdx = raw.indexOf(RESUME);
+type ResumeTemplateId = NonNullable<z.infer<typeof requestSchema>["format"]>;
+
+// 템플릿별 문체와 작성 지침 (배치·스타일은 클라이언트 src/lib/resumeTemplates에서 처리)
+const TEMPLATE_GUIDES: Record<ResumeTemplateId, { style: "consulting" | "narrative"; ko: string; en: string }> = {
+  consulting: { style: "consulting", ko: "", en: "" },
+  narrative: { style: "narrative", ko: "", en: "" },
+  "ats-plain": {
+    style: "consulting",
+    ko: "채용 시스템(ATS)이 읽기 쉽도록 공고의 키워드를 그대로 쓰고, 약어는 풀어 쓴 표현과 함께 적기.",
+    en: "Optimize for ATS parsing: reuse the posting's exact keywords and spell out acronyms alongside their abbreviations.",
+  },
+  modern: {
+    style: "consulting",
+    ko: "2단 레이아웃이라 bullets는 짧게(한 줄 내외), skills는 짧은 키워드로.",
+    en: "Two-column layout: keep bullets short (about one line) and skills as short keywords.",
+  },
+  "korean-standard": {
+    style: "narrative",
+    ko: "국문 표준 이력서(경력기술서) 양식. work의 bullets는 담당 업무와 성과를 구체적으로, period는 YYYY.MM - YYYY.MM 형식으로.",
+    en: "Korean standard resume with detailed career descriptions. Describe responsibilities and results concretely; use YYYY.MM - YYYY.MM for periods.",
+  },
+  "academic-cv": {
+    style: "consulting",
+    ko: "연구직·대학원용 CV. summary는 연구 분야 중심으로, projects에는 연구·논문·발표를 우선 배치.",
+    en: "Academic CV: focus the summary on research interests and prioritize research, publications and talks in projects.",
+  },
+};
 
-  if (feedbackIdx !== -1 && resumeIdx !== -1 && resumeIdx > feedbackIdx) {
-    const aiFeedback = raw.slice(feedbackIdx + FEEDBACK.length, resumeIdx).trim();
-    const content = raw.slice(resumeIdx + RESUME.length).trim();
-    return { aiFeedback, content };
-  }
+// 생성 결과 스키마 (도구 호출 인자)
+const resumeDocumentSchema = z.object({
+  summary: z.string().default(""),
+  work: z.array(z.object({
+    company: z.string(),
+    role: z.string(),
+    period: z.string().optional(),
+    location: z.string().optional(),
+    bullets: z.array(z.string()).default([]),
+  })).default([]),
+  projects: z.array(z.object({
+    name: z.string(),
+    period: z.string().optional(),
+    description: z.string().optional(),
+    bullets: z.array(z.string()).default([]),
+  })).default([]),
+  skills: z.array(z.string()).default([]),
+  education: z.array(z.object({
+    school: z.string(),
+    degree: z.string().optional(),
+    period: z.string().optional(),
+    details: z.string().optional(),
+  })).default([]),
+});
 
-  // Fallback: split by localized headers
-  const fallbacks = ["[AI 피드백]", "[AI Feedback]"];
-  for (const header of fallbacks) {
-    const idx = raw.indexOf(header);
-    if (idx !== -1) {
-      const after = raw.slice(idx + header.length).trim();
-      // Try to find first experience header line after feedback
-      const experienceHeaderRegex = /\n\s*\[(경험 제목|Experience Title)\]\s*\n/;
-      const m = after.match(experienceHeaderRegex);
-      if (m && m.index !== undefined) {
-        const aiFeedback = after.slice(0, m.index).trim();
-        const content = after.slice(m.index).trim();
-        return { aiFeedback, content };
-      }
-      return { aiFeedback: after.trim(), content: raw.slice(0, idx).trim() };
-    }
-  }
+const toolResultSchema = z.object({
+  aiFeedback: z.string().default(""),
+  resume: resumeDocumentSchema,
+});
 
-  return { aiFeedback: "", content: raw.trim() };
-}
+const resumeTool = {
+  type: "function" as const,
+  function: {
+    name: "write_tailored_resume",
+    description: "Submit recruiter feedback and the tailored resume as structured fields",
+    parameters: {
+      type: "object",
+      properties: {
+        aiFeedback: {
+          type: "string",
+          description: "Markdown feedback with the four required sections (종합 의견 in Korean)",
+        },
+        resume: {
+          type: "object",
+          properties: {
+            summary: { type: "string", description: "2-3 sentence professional summary" },
+            work: {
+              type: "array",
+              description: "Work experience, most recent first",
+              items: {
+                type: "object",
+                properties: {
+                  company: { type: "string" },
+                  role: { type: "string", description: "Job title / role" },
+                  period: { type: "string", description: "e.g. 2022.01 - 2023.12" },
+                  location: { type: "string" },
+                  bullets: { type: "array", items: { type: "string" } },
+                },
+                required: ["company", "role", "bullets"],
+              },
+            },
+            projects: {
+              type: "array",
+              description: "Selected projects, most relevant first",
+              items: {
+                type: "object",
+                properties: {
+                  name: { type: "string" },
+                  period: { type: "string" },
+                  description: { type: "string" },
+                  bullets: { type: "array", items: { type: "string" } },
+                },
+                required: ["name", "bullets"],
+              },
+            },
+            skills: { type: "array", items: { type: "string" } },
+            education: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  school: { type: "string" },
+                  degree: { type: "string" },
+                  period: { type: "string" },
+                  details: { type: "string" },
+                },
+                required: ["school"],
+              },
+            },
+          },
+          required: ["summary", "work", "projects", "skills", "education"],
+        },
+      },
+      required: ["aiFeedback", "resume"],
+    },
+  },
+};
 
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
   }
 
+  // 크레딧 차감 후 AI 응답이 잘못되는 등으로 실패하면 돌려주기 위해 보관
+  let refund: (() => Promise<void>) | null = null;
+
   try {
     // Authentication check
     const authHeader = req.headers.get('Authorization');
@@ -156,6 +250,7 @@ serve(async (req) => {
     }
 
     console.log('Resume credit deducted successfully');
+    refund = () => refundCredit(supabaseClient, user.id, 'resume');
 
     // Parse and validate input
     const rawBody = await req.json();
@@ -181,10 +276,12 @@ serve(async (req) => {
       language,
       format = language === "en" ? "consulting" : "narrative",
       minimumRequirementsCheck,
+      postingContent,
     } = validationResult.data;
 
     console.log("Generating tailored resume for:", companyName, jobTitle);
     console.log("Language:", language, "Format:", format);
+    const guide = TEMPLATE_GUIDES[format];
     console.log("Experiences count:", experiences.length);
     console.log("Key competencies:", keyCompetencies.map((k) => k.title));
     console.log("Minimum requirements check:", minimumRequirementsCheck);
@@ -238,17 +335,10 @@ serve(async (req) => {
 6. **원본과 동일하면 안 됨**: 피드백에서 언급한 수정사항이 이력서 본문에 **실제로 반영**되어야 합니다.
 
 중요 규칙:
-- 반드시 아래 마커를 그대로 사용해 출력하세요.
-- 마커 밖에는 어떤 텍스트도 출력하지 마세요.
+- 결과는 반드시 write_tailored_resume 도구로 제출하세요. aiFeedback에는 피드백만, resume에는 이력서 내용만 넣습니다.
 - 이력서 본문에 이모지를 절대 사용하지 마세요.
 
-출력 형식(엄수):
-===AI_FEEDBACK===
-(여기에 피드백만)
-===RESUME===
-(여기에 이력서 본문만)
-
-AI_FEEDBACK 작성 규칙(엄수):
+aiFeedback 작성 규칙(엄수, 마크다운):
 - 반드시 아래 4개 섹션으로 구성하세요:
   1) ## 종합 의견
   2) ## 역량 분석
@@ -273,12 +363,17 @@ AI_FEEDBACK 작성 규칙(엄수):
   * 예: "'프로젝트 진행' → '5명 팀을 리드하여 신규 기능 출시, MAU 30% 증가'"
 - 절대 없는 사실을 만들어내지 말 것(경험/성과 과장 금지)
 
-RESUME 작성 규칙:
+resume 작성 규칙:
 - 결과는 한국어로 작성.
+- summary는 핵심 역량과 경력을 2-3문장으로 요약.
+- work는 경력만, 최근→과거 순. 각 항목의 bullets는 성과/업무 한 줄씩.
+- projects는 공고와 관련도가 높은 순. 경력에 속한 프로젝트라도 따로 정리했다면 여기에.
+- skills는 기술·역량 키워드 하나씩. education은 지원자 경험에 학력이 있을 때만.
+- 필드 값에 마크다운 기호(**, ##, •)를 넣지 마세요.
 - 이력서 본문에는 AI 피드백/조언 문구를 절대 포함하지 말 것.
 - 이력서 본문에 이모지를 절대 사용하지 마세요 (예: ⚠, ✓, ★ 등 금지).
 - **원본 bullet point를 그대로 복사하지 말고, 개선된 버전으로 작성**
-- 형식: ${format === "consulting" ? "컨설팅형(간결, 성과 중심)" : "서술형(국문형, 섹션 구분 명확)"}.`
+- 형식: ${guide.style === "consulting" ? "컨설팅형(간결, 성과 중심)" : "서술형(국문형, 섹션 구분 명확)"}.${guide.ko ? `\n- ${guide.ko}` : ""}`
         : `You are a professional resume consultant with a recruiter mindset. **Actually rewrite and improve** the candidate's experiences to match the key competencies required by the job posting.
 
 ## CRITICAL INSTRUCTIONS (Must Follow)
@@ -301,18 +396,11 @@ You must **actively modify** the resume based on the AI fit evaluation results:
 7. **IMPORTANT**: The final resume MUST be noticeably different from the original - improved and tailored.
 
 CRITICAL RULES:
-- You MUST output using the exact markers below.
-- Do NOT output any text outside of the markers.
+- You MUST submit the result with the write_tailored_resume tool. Put only feedback in aiFeedback and only resume content in resume.
 - Do NOT use emojis in the resume body.
 - The resume MUST be written in professional, native-level English.
 
-Output format (STRICT):
-===AI_FEEDBACK===
-(feedback only)
-===RESUME===
-(resume body only)
-
-AI_FEEDBACK rules (STRICT):
+aiFeedback rules (STRICT, markdown):
 - Use exactly these four sections:
   1) ## 종합 의견 (MUST BE IN KOREAN)
   2) ## Competency Analysis
@@ -342,8 +430,13 @@ Additional rules:
 - **Do NOT copy original bullet points verbatim - rewrite them with improvements**
 - Use strong action verbs throughout
 - The resume body must NOT contain feedback/advice text.
+- summary: 2-3 sentences summarizing core competencies and experience.
+- work: work experience only, most recent first. One achievement/responsibility per bullet.
+- projects: ordered by relevance to the posting.
+- skills: one skill or competency per entry. education: only if the candidate's experience includes it.
+- Do NOT put markdown symbols (**, ##, •) in field values.
 - Do NOT use emojis in the resume body.
-- Format: ${format === "consulting" ? "consulting-style (concise, results-driven)" : "narrative-style"}.`;
+- Format: ${guide.style === "consulting" ? "consulting-style (concise, results-driven)" : "narrative-style"}.${guide.en ? `\n- ${guide.en}` : ""}`;
 
     const userPrompt =
       language === "ko"
@@ -351,7 +444,10 @@ Additional rules:
 회사: ${companyName}
 포지션: ${jobTitle}
 요약: ${jobSummary}
-
+${postingContent ? `
+## 공고 원문 (참고)
+${postingContent}
+` : ''}
 ${minReqSection}
 ## 핵심 요구 역량 (AI 적합도 평가 포함)
 ${competencyEvaluationSection}
@@ -376,45 +472,21 @@ ${exp.bullets.map((b) => `- ${b}`).join("\n")}
   .join("\n")}
 
 요청:
-1) ===AI_FEEDBACK===에는:
+1) aiFeedback에는:
 - 약한 역량을 어떻게 보완했는지
 - 강한 역량을 어떻게 부각했는지
 - **프로젝트 순서를 어떻게 조정했는지와 그 이유** (필수! "원래 순서 → 변경된 순서" 및 각 배치 이유 명시)
-2) ===RESUME===에는 이력서 본문만 작성.
-
-## 표준 이력서 형식 (반드시 따를 것)
-아래 형식을 정확히 따라 작성하세요:
-
----
-[지원자 이름]
-
-## 경력 요약
-(2-3문장으로 핵심 역량과 경력 요약)
-
-## 경력 사항
-각 경력은 아래 형식:
-**[직책/역할]**
-[회사명] | [기간]
-• 성과/업무 1
-• 성과/업무 2
-• 성과/업무 3
-
-## 프로젝트 (해당 시)
-**[프로젝트명]**
-[기간]
-• 주요 성과 1
-• 주요 성과 2
-
-## 기술 및 역량
-• 기술1, 기술2, 기술3
----
+2) resume에는 이력서 내용만 항목별로 작성.
 
 중요: 이력서 본문에 이모지를 절대 사용하지 마세요.`
         : `## Job Posting Information
 Company: ${companyName}
 Position: ${jobTitle}
 Summary: ${jobSummary}
-
+${postingContent ? `
+## Original Job Posting (reference)
+${postingContent}
+` : ''}
 ${minReqSection}
 ## Key Required Competencies (with AI Fit Evaluation)
 ${competencyEvaluationSection}
@@ -439,38 +511,11 @@ ${exp.bullets.map((b) => `- ${b}`).join("\n")}
   .join("\n")}
 
 Request:
-1) In ===AI_FEEDBACK===:
+1) In aiFeedback:
 - How you compensated for weak competencies
 - How you highlighted strong competencies
 - **How you adjusted project order and WHY** (REQUIRED! Show "Original order → New order" and reason for each placement)
-2) In ===RESUME===, write ONLY the resume body.
-
-## STANDARD RESUME FORMAT (Must Follow)
-Use this exact structure:
-
----
-[Candidate Name]
-
-## Professional Summary
-(2-3 sentences summarizing core competencies and experience)
-
-## Work Experience
-For each position use:
-**[Job Title]**
-[Company Name] | [Period]
-• Achievement/responsibility 1
-• Achievement/responsibility 2
-• Achievement/responsibility 3
-
-## Projects (if applicable)
-**[Project Name]**
-[Period]
-• Key achievement 1
-• Key achievement 2
-
-## Skills & Competencies
-• Skill1, Skill2, Skill3
----
+2) In resume, write ONLY the resume content, field by field.
 
 IMPORTANT: Do NOT use emojis in the resume body.`;
 
@@ -482,9 +527,13 @@ IMPORTANT: Do NOT use emojis in the resume body.`;
         { role: "system", content: systemPrompt },
         { role: "user", content: userPrompt },
       ],
+      tools: [resumeTool],
+      tool_choice: { type: "function", function: { name: "write_tailored_resume" } },
     }, geminiApiKey);
 
     if (!response.ok) {
+      // 요청 과다·결제 필요로 거절된 경우도 이력서를 만들지 못했으므로 크레딧을 돌려줌 (그 밖의 오류는 catch에서)
+      if (response.status === 429 || response.status === 402) await refund?.();
       if (response.status === 429) {
         return new Response(JSON.stringify({ error: "요청이 너무 많습니다. 잠시 후 다시 시도해주세요." }), {
           status: 429,
@@ -504,20 +553,37 @@ IMPORTANT: Do NOT use emojis in the resume body.`;
 
     const dataRaw = await response.json();
     const data = normalizeGeminiToLovable(dataRaw);
-    const rawContent = data?.choices?.[0]?.message?.content || "";
-    const { aiFeedback, content } = splitAiFeedback(rawContent);
+    const toolCall = data?.choices?.[0]?.message?.tool_calls?.[0];
+
+    let parsed: unknown = null;
+    if (toolCall?.function?.arguments) {
+      try {
+        parsed = JSON.parse(toolCall.function.arguments);
+      } catch (e) {
+        console.error("Failed to parse tool call arguments:", e);
+      }
+    }
+
+    const result = toolResultSchema.safeParse(parsed);
+    if (!result.success) {
+      console.error("Invalid resume tool output:", result.error?.issues);
+      throw new Error("AI가 이력서를 올바른 형식으로 만들지 못했습니다. 다시 시도해주세요.");
+    }
+
+    const { aiFeedback, resume: document } = result.data;
 
-    console.log("Resume generated successfully (split):", {
+    console.log("Resume generated successfully:", {
       aiFeedbackLength: aiFeedback.length,
-      contentLength: content.length,
+      work: document.work.length,
+      projects: document.projects.length,
+      skills: document.skills.length,
     });
 
     return new Response(
       JSON.stringify({
         success: true,
-        content,
+        document,
         aiFeedback: aiFeedback || null,
-        rawContent,
         language,
         format,
       }),
@@ -527,6 +593,7 @@ IMPORTANT: Do NOT use emojis in the resume body.`;
     );
   } catch (error) {
     console.error("Error generating resume:", error);
+    if (refund) await refund();
     const fallbackMessage = "서버 오류가 발생했습니다. 잠시 후 다시 시도해주세요.";
     const safeMessage =
       error instanceof Error && /[가-힣]/.test(error.message) ? error.message : fallbackMessage;
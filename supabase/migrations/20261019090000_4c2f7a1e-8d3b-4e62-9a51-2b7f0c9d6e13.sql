@@ -0,0 +1,22 @@
+-- Add deadline / posted date / salary range columns to job_postings table
+ALTER TABLE public.job_postings
+ADD COLUMN deadline date,
+ADD COLUMN deadline_evidence text,
+ADD COLUMN posted_at date,
+ADD COLUMN posted_at_evidence text,
+ADD COLUMN salary_min numeric,
+ADD COLUMN salary_max numeric,
+ADD COLUMN salary_currency text,
+ADD COLUMN salary_period text,
+ADD COLUMN salary_evidence text;
+
+ALTER TABLE public.job_postings
+ADD CONSTRAINT job_postings_salary_period_check
+CHECK (salary_period IS NULL OR salary_period IN ('hour', 'day', 'week', 'month', 'year'));
+
+-- Add comment for clarity
+COMMENT ON COLUMN public.job_postings.deadline IS 'Application deadline (NULL = 상시채용 / not specified)';
+COMMENT ON COLUMN public.job_postings.salary_period IS 'Salary unit: hour, day, week, month or year';
+
+-- Deadline sort / D-day lookup
+CREATE INDEX idx_job_postings_user_deadline ON public.job_postings (user_id, deadline);
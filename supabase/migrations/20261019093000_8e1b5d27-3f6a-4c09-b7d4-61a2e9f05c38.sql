@@ -0,0 +1,30 @@
+-- Track when each posting's source URL was last re-checked by check-posting-status
+ALTER TABLE public.job_postings
+ADD COLUMN source_checked_at timestamp with time zone;
+
+CREATE INDEX idx_job_postings_status_source_checked
+ON public.job_postings (status, source_checked_at)
+WHERE source_url IS NOT NULL;
+
+-- Schedule check-posting-status every 6 hours via pg_cron + pg_net
+-- Requires Vault secrets:
+--   project_url  : https://<project-ref>.supabase.co
+--   cron_secret  : same value as the CRON_SECRET edge function secret
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'check-posting-status',
+  '0 */6 * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/check-posting-status',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'x-cron-secret', (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'cron_secret')
+    ),
+    body := '{}'::jsonb,
+    timeout_milliseconds := 300000
+  );
+  $$
+);
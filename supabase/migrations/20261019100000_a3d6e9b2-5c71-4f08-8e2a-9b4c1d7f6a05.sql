@@ -0,0 +1,21 @@
+-- Raw scraped/pasted posting content, kept so a posting stays readable after it is taken down
+-- and can be re-analyzed or used for resume generation without re-scraping
+CREATE TABLE public.job_posting_snapshots (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    job_posting_id UUID REFERENCES public.job_postings(id) ON DELETE CASCADE NOT NULL,
+    source_url TEXT,
+    title TEXT,
+    content TEXT NOT NULL,
+    source TEXT NOT NULL,
+    json_ld JSONB,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.job_posting_snapshots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own job posting snapshots"
+ON public.job_posting_snapshots FOR ALL USING (auth.uid() = user_id);
+
+CREATE INDEX idx_job_posting_snapshots_job_posting
+ON public.job_posting_snapshots (job_posting_id, created_at DESC);
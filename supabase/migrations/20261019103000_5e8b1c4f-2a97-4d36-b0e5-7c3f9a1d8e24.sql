@@ -0,0 +1,22 @@
+-- Append-only edit history for job postings (field → { from, to } per edit)
+CREATE TABLE public.job_posting_changes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    job_posting_id UUID REFERENCES public.job_postings(id) ON DELETE CASCADE NOT NULL,
+    changes JSONB NOT NULL,
+    source TEXT NOT NULL CHECK (source IN ('table', 'detail', 'card', 'reanalyze', 'undo')),
+    reverts_change_id UUID REFERENCES public.job_posting_changes(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.job_posting_changes ENABLE ROW LEVEL SECURITY;
+
+-- No UPDATE/DELETE policies: rows can only be appended (undo is recorded as a new row)
+CREATE POLICY "Users can view their own job posting changes"
+ON public.job_posting_changes FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own job posting changes"
+ON public.job_posting_changes FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE INDEX idx_job_posting_changes_job_posting
+ON public.job_posting_changes (job_posting_id, created_at DESC);
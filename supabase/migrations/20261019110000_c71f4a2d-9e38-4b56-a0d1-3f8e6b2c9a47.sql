@@ -0,0 +1,44 @@
+-- Status transition history for job postings (application timeline / time-in-stage)
+CREATE TABLE public.job_status_events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    job_posting_id UUID REFERENCES public.job_postings(id) ON DELETE CASCADE NOT NULL,
+    from_status TEXT,
+    to_status TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.job_status_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own job status events"
+ON public.job_status_events FOR SELECT USING (auth.uid() = user_id);
+
+CREATE INDEX idx_job_status_events_job_posting
+ON public.job_status_events (job_posting_id, created_at);
+
+-- Record every status change at the database level so that all writers
+-- (board drag & drop, detail dialog, check-posting-status cron) are covered
+CREATE OR REPLACE FUNCTION public.record_job_status_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.job_status_events (user_id, job_posting_id, from_status, to_status)
+    VALUES (
+      NEW.user_id,
+      NEW.id,
+      CASE WHEN TG_OP = 'UPDATE' THEN OLD.status ELSE NULL END,
+      NEW.status
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_job_postings_status_event
+AFTER INSERT OR UPDATE OF status ON public.job_postings
+FOR EACH ROW
+EXECUTE FUNCTION public.record_job_status_event();
@@ -0,0 +1,28 @@
+-- Interview rounds attached to a job posting
+CREATE TABLE public.interview_rounds (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    job_posting_id UUID REFERENCES public.job_postings(id) ON DELETE CASCADE NOT NULL,
+    round_type TEXT NOT NULL CHECK (round_type IN ('phone_screen', 'technical', 'culture', 'final')),
+    scheduled_at TIMESTAMP WITH TIME ZONE,
+    interviewers TEXT[] NOT NULL DEFAULT '{}',
+    location TEXT,
+    meeting_url TEXT,
+    outcome TEXT NOT NULL DEFAULT 'pending' CHECK (outcome IN ('pending', 'passed', 'failed', 'cancelled')),
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.interview_rounds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own interview rounds"
+ON public.interview_rounds FOR ALL USING (auth.uid() = user_id);
+
+CREATE INDEX idx_interview_rounds_user_scheduled
+ON public.interview_rounds (user_id, scheduled_at);
+
+CREATE TRIGGER update_interview_rounds_updated_at
+BEFORE UPDATE ON public.interview_rounds
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
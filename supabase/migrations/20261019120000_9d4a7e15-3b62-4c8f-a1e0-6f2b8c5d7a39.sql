@@ -0,0 +1,12 @@
+-- Per-user secret token for the calendar-feed (iCalendar subscription) edge function
+CREATE TABLE public.calendar_feed_tokens (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL UNIQUE,
+    token TEXT NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own calendar feed token"
+ON public.calendar_feed_tokens FOR ALL USING (auth.uid() = user_id);
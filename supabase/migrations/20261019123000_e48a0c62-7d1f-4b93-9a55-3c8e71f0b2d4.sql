@@ -0,0 +1,31 @@
+-- Free-form notes per job posting
+ALTER TABLE public.job_postings ADD COLUMN notes TEXT;
+
+-- Contact log per job posting (recruiters, referrers, ...)
+CREATE TABLE public.job_posting_contacts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    job_posting_id UUID REFERENCES public.job_postings(id) ON DELETE CASCADE NOT NULL,
+    name TEXT NOT NULL,
+    role TEXT NOT NULL DEFAULT 'recruiter' CHECK (role IN ('recruiter', 'referrer', 'hiring_manager', 'other')),
+    email TEXT,
+    linkedin_url TEXT,
+    last_contacted_at DATE,
+    next_follow_up_at DATE,
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.job_posting_contacts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own job posting contacts"
+ON public.job_posting_contacts FOR ALL USING (auth.uid() = user_id);
+
+CREATE INDEX idx_job_posting_contacts_job_posting
+ON public.job_posting_contacts (job_posting_id);
+
+CREATE TRIGGER update_job_posting_contacts_updated_at
+BEFORE UPDATE ON public.job_posting_contacts
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,4 @@
+-- User-defined tags on job postings (e.g. "추천", "드림 컴퍼니", "핀테크")
+ALTER TABLE public.job_postings ADD COLUMN tags TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX idx_job_postings_tags ON public.job_postings USING GIN (tags);
@@ -0,0 +1,22 @@
+-- Named board views (filters + sort + view mode) saved per user
+CREATE TABLE public.board_views (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    name TEXT NOT NULL,
+    filters JSONB NOT NULL DEFAULT '{}'::jsonb,
+    sort_option TEXT NOT NULL DEFAULT 'priority',
+    view_mode TEXT NOT NULL DEFAULT 'kanban' CHECK (view_mode IN ('kanban', 'table')),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE (user_id, name)
+);
+
+ALTER TABLE public.board_views ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own board views"
+ON public.board_views FOR ALL USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_board_views_updated_at
+BEFORE UPDATE ON public.board_views
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
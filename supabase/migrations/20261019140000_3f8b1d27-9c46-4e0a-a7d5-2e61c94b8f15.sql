@@ -0,0 +1,3 @@
+-- Structured resume document (summary, work, projects, skills, education) from generate-resume
+ALTER TABLE public.tailored_resumes
+ADD COLUMN document JSONB;
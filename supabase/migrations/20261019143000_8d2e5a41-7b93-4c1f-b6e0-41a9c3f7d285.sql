@@ -0,0 +1,7 @@
+-- Resume template gallery: tailored_resumes.format now stores a template id
+ALTER TABLE public.tailored_resumes
+DROP CONSTRAINT IF EXISTS tailored_resumes_format_check;
+
+ALTER TABLE public.tailored_resumes
+ADD CONSTRAINT tailored_resumes_format_check
+CHECK (format IN ('consulting', 'narrative', 'ats-plain', 'modern', 'korean-standard', 'academic-cv'));
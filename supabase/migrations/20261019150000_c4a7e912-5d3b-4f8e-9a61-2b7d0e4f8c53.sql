@@ -0,0 +1,3 @@
+-- Required/preferred skills and tools extracted from the posting (extract-keywords)
+ALTER TABLE public.job_postings
+ADD COLUMN keywords JSONB;